@@ -4,24 +4,108 @@ import { Server as SocketIOServer } from 'socket.io';
 import { EmailService } from '../services/email.service';
 import { AgentOrchestrator } from '../services/agent-orchestrator.service';
 import { DatabaseService } from '../services/database.service';
-import { GmailProvider } from '../providers/gmail.provider';
+import { MailboxWatcher } from '../services/mailbox-watcher.service';
+import { MailArchiveService } from '../services/mail-archive.service';
+import { OutboxService } from '../services/outbox.service';
+import { FileSystemAttachmentStore } from '../services/attachment-store.service';
+import { AccountRegistry, toAccountSummary } from '../services/account-registry.service';
+import { LabelService } from '../services/label.service';
+import { BulkOperationService, BulkProgress, BulkResult } from '../services/bulk-operation.service';
+import { ContactService } from '../services/contact.service';
+import { RetentionService } from '../services/retention.service';
+import { DataSubjectService, loadSubjectSecret } from '../services/data-subject.service';
+import { EngagementOptimizerService } from '../services/engagement-optimizer.service';
+import { LinkedInService } from '../integrations/linkedin.service';
+import { AuditLogService, withAuditContext } from '../services/audit.service';
+import { LocalKeyfileProvider } from '../services/encryption.service';
+import { KeyRotationService, ReencryptionProgress } from '../services/key-rotation.service';
+import { parseSearchQuery } from '../services/search-query.parser';
+import { providerSettingsFromEnv, accountInputFromSettings } from '../providers/provider.factory';
 import { CategorizerAgent } from '../agents/categorizer.agent';
 import { PrioritizerAgent } from '../agents/prioritizer.agent';
 import { SummarizerAgent } from '../agents/summarizer.agent';
 import { Email } from '../models/email.model';
+import { Account, DEFAULT_ACCOUNT_ID } from '../models/account.model';
+import { RetentionRun } from '../models/retention.model';
+import { AgentConfig } from '../models/agent.model';
+import { ANONYMOUS_ACTOR } from '../models/audit.model';
+import { OutboxEntry, OutboxState, EmailSearchSort, IKeyProvider } from '../core/interfaces';
 import { v4 as uuidv4 } from 'uuid';
+import { pipeline } from 'stream/promises';
+import path from 'path';
+import { ZodError } from 'zod';
 import winston from 'winston';
 import dotenv from 'dotenv';
 
 dotenv.config();
 
+// Paged listings answer { items, nextCursor, estimatedTotal }; ?limit= is capped
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+const pageSize = (limit: unknown): number => {
+  const size = parseInt(String(limit ?? ''), 10);
+  return Number.isNaN(size) || size < 1 ? DEFAULT_PAGE_SIZE : Math.min(size, MAX_PAGE_SIZE);
+};
+
+// Malformed query-string dates are a SyntaxError, like malformed cursors
+const dateParam = (value: unknown, name: string): Date | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) throw new SyntaxError(`${name} must be a valid date`);
+  return date;
+};
+
+// Maildir accounts set up over the API keep their mail under MAILDIR_ROOT: their path is
+// taken relative to it and may not lead out of it
+const confineMaildir = (input: any): any => {
+  const requested = input?.settings?.maildirPath;
+  if (input?.provider !== 'maildir' && requested === undefined) return input;
+  if (requested !== undefined && typeof requested !== 'string') {
+    throw new SyntaxError('settings.maildirPath must be a string');
+  }
+
+  const root = path.resolve(process.env.MAILDIR_ROOT || './maildir');
+  const maildirPath = path.resolve(root, requested || '.');
+  const relative = path.relative(root, maildirPath);
+  if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new SyntaxError('settings.maildirPath must be inside MAILDIR_ROOT');
+  }
+  return { ...input, settings: { ...input.settings, maildirPath } };
+};
+
+// Requests that change nothing are left out of the audit log
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
 export class EmailServer {
   private app: express.Application;
   private server: ReturnType<typeof createServer>;
   private io: SocketIOServer;
-  private emailService!: EmailService;
+  private accounts!: AccountRegistry;
+  // One EmailService per enabled account, keyed by account id
+  private mailboxes = new Map<string, EmailService>();
   private orchestrator!: AgentOrchestrator;
+  private mailArchive!: MailArchiveService;
+  private outbox!: OutboxService;
+  private labels!: LabelService;
+  private bulk!: BulkOperationService;
+  private contacts!: ContactService;
+  private retention!: RetentionService;
+  private dataSubjects!: DataSubjectService;
+  // Engagement history and LinkedIn profiles are only kept in memory; data subject
+  // requests cover them along with the database
+  private engagement = new EngagementOptimizerService();
+  private linkedIn = new LinkedInService();
+  private audit: AuditLogService;
+  private keyProvider: IKeyProvider | null;
+  private keyRotation: KeyRotationService | null = null;
+  private defaultUndoWindow = parseInt(process.env.UNDO_SEND_SECONDS || '0', 10) * 1000;
   private database: DatabaseService;
+  private mailboxWatchers = new Map<string, MailboxWatcher>();
+  private draftSyncTimer: NodeJS.Timeout | null = null;
+  // Services are set up while the constructor returns; start() waits for them, so a
+  // failed setup (an outdated schema, say) rejects start() instead of going unhandled
+  private ready: Promise<void>;
   private logger: winston.Logger;
 
   constructor(private port: number = 3000) {
@@ -45,8 +129,22 @@ export class EmailServer {
       ],
     });
 
-    this.database = new DatabaseService(process.env.DB_PATH || './emails.db');
-    this.setupServices();
+    // Message content and attachments are only encrypted at rest with a keyfile set
+    this.keyProvider = process.env.ENCRYPTION_KEYFILE ? new LocalKeyfileProvider(process.env.ENCRYPTION_KEYFILE) : null;
+    this.database = new DatabaseService(
+      process.env.DB_PATH || './emails.db',
+      new FileSystemAttachmentStore(process.env.ATTACHMENT_STORE_PATH || './attachments'),
+      {
+        migrate: process.env.DB_AUTO_MIGRATE !== 'false',
+        encryption: this.keyProvider
+          ? { keyProvider: this.keyProvider, indexBodies: process.env.ENCRYPTION_INDEX_BODIES === 'true' }
+          : undefined,
+      },
+    );
+    this.audit = new AuditLogService(this.database);
+    this.ready = this.setupServices();
+    // Marks the failure as handled until start() reports it
+    this.ready.catch(() => undefined);
     this.setupMiddleware();
     this.setupRoutes();
     this.setupWebSocket();
@@ -55,15 +153,77 @@ export class EmailServer {
   private async setupServices(): Promise<void> {
     await this.database.connect();
 
-    const emailProvider = new GmailProvider({
-      user: process.env.EMAIL_USER || '',
-      pass: process.env.EMAIL_PASS || '',
-    });
+    // With DB_AUTO_MIGRATE=false migrations are run by hand (npm run migrate), and an
+    // outdated database is refused rather than used
+    const schema = await this.database.getSchemaStatus();
+    if (schema.pending.length > 0) {
+      throw new Error(`Database schema is at version ${schema.version} of ${schema.latest}; run npm run migrate`);
+    }
 
-    this.emailService = new EmailService(emailProvider, this.database);
-    this.orchestrator = new AgentOrchestrator(this.database, process.env.REDIS_URL);
+    this.accounts = new AccountRegistry(this.database);
+    const providerFor = (accountId?: string) => this.accounts.getProvider(accountId || DEFAULT_ACCOUNT_ID);
+    this.outbox = new OutboxService(providerFor, this.database, {
+      pollInterval: parseInt(process.env.OUTBOX_POLL_INTERVAL || '5000', 10),
+      retryPolicy: {
+        maxAttempts: parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '5', 10),
+        initialDelay: parseInt(process.env.OUTBOX_RETRY_DELAY || '30000', 10),
+      },
+    });
+    this.outbox.on('outbox-updated', (entry: OutboxEntry) => {
+      this.io.to('email-updates').emit('outbox-updated', entry);
+    });
+    this.outbox.on('outbox-cancelled', (entry: OutboxEntry) => {
+      this.io.to('email-updates').emit('outbox-cancelled', entry);
+    });
+    this.labels = new LabelService(this.database, providerFor);
+    this.labels.on('labels-changed', (accountId: string) => {
+      this.io.to('email-updates').emit('labels-changed', { accountId });
+    });
+    this.bulk = new BulkOperationService(providerFor, this.database, this.labels, {
+      batchSize: parseInt(process.env.BULK_BATCH_SIZE || '100', 10),
+    });
+    this.bulk.on('bulk-progress', (progress: BulkProgress) => {
+      this.io.to('email-updates').emit('bulk-progress', progress);
+    });
+    this.bulk.on('bulk-completed', (result: BulkResult) => {
+      this.io.to('email-updates').emit('bulk-completed', result);
+    });
+    this.bulk.on('bulk-failed', (failure: { operationId: string; error: string }) => {
+      this.io.to('email-updates').emit('bulk-failed', failure);
+    });
+    this.contacts = new ContactService(this.database, {
+      refreshDelay: parseInt(process.env.CONTACTS_REFRESH_DELAY || '5000', 10),
+    });
+    this.contacts.on('contacts-changed', (accountId: string) => {
+      this.io.to('email-updates').emit('contacts-changed', { accountId });
+    });
+    this.retention = new RetentionService(this.database, {
+      batchSize: parseInt(process.env.RETENTION_BATCH_SIZE || '500', 10),
+      interval: parseInt(process.env.RETENTION_INTERVAL || '86400000', 10),
+    });
+    this.retention.on('retention-run', (run: RetentionRun) => {
+      this.io.to('email-updates').emit('retention-run', run);
+    });
+    this.dataSubjects = new DataSubjectService(
+      this.database,
+      await loadSubjectSecret(process.env.DATA_SUBJECT_SECRET_FILE || './data-subject.secret'),
+      { engagement: this.engagement, linkedIn: this.linkedIn },
+    );
+    if (this.keyProvider) {
+      this.keyRotation = new KeyRotationService(this.database, this.keyProvider, {
+        batchSize: parseInt(process.env.ENCRYPTION_BATCH_SIZE || '200', 10),
+      });
+      this.keyRotation.on('reencryption-progress', (progress: ReencryptionProgress) => {
+        this.io.to('email-updates').emit('reencryption-progress', progress);
+      });
+      this.keyRotation.on('reencryption-completed', (progress: ReencryptionProgress) => {
+        this.io.to('email-updates').emit('reencryption-completed', progress);
+      });
+    }
+    this.orchestrator = new AgentOrchestrator(this.database, process.env.REDIS_URL, this.audit);
+    this.mailArchive = new MailArchiveService(this.database, this.orchestrator);
 
-    const categorizerConfig = {
+    const categorizerConfig: AgentConfig = {
       id: uuidv4(),
       name: 'Categorizer',
       type: 'categorizer',
@@ -75,7 +235,7 @@ export class EmailServer {
     };
     const categorizerAgent = new CategorizerAgent(categorizerConfig);
 
-    const prioritizerConfig = {
+    const prioritizerConfig: AgentConfig = {
       id: uuidv4(),
       name: 'Prioritizer',
       type: 'prioritizer',
@@ -85,9 +245,9 @@ export class EmailServer {
       config: {},
       capabilities: ['prioritize'],
     };
-    const prioritizerAgent = new PriorizerAgent(prioritizerConfig);
+    const prioritizerAgent = new PrioritizerAgent(prioritizerConfig);
 
-    const summarizerConfig = {
+    const summarizerConfig: AgentConfig = {
       id: uuidv4(),
       name: 'Summarizer',
       type: 'summarizer',
@@ -107,6 +267,54 @@ export class EmailServer {
     this.orchestrator.registerAgent(prioritizerAgent);
     this.orchestrator.registerAgent(summarizerAgent);
 
+    const attach = (account: Account) => {
+      this.attachMailbox(account).catch(error => {
+        this.logger.error(`Failed to attach mailbox ${account.id}`, error);
+      });
+    };
+    this.accounts.on('account-added', attach);
+    this.accounts.on('account-updated', attach);
+    this.accounts.on('account-removed', (account: Account) => {
+      this.detachMailbox(account.id).catch(error => {
+        this.logger.error(`Failed to detach mailbox ${account.id}`, error);
+      });
+    });
+
+    for (const account of await this.accounts.load()) {
+      await this.attachMailbox(account);
+    }
+
+    // The env-configured mailbox is kept in sync as the default account
+    const envSettings = providerSettingsFromEnv();
+    if (envSettings.user) {
+      const input = accountInputFromSettings(envSettings, DEFAULT_ACCOUNT_ID, 'Default');
+      if (this.accounts.get(DEFAULT_ACCOUNT_ID)) {
+        await this.accounts.update(DEFAULT_ACCOUNT_ID, input);
+      } else {
+        await this.accounts.add(input);
+      }
+    } else if (this.accounts.list().length === 0) {
+      this.logger.warn('No email accounts configured; set EMAIL_USER or add one via POST /api/accounts');
+    }
+
+    await this.outbox.start();
+    if (process.env.RETENTION_INTERVAL !== '0') {
+      this.retention.start();
+    }
+    // Picks up mail stored before encryption was on, or a rotation cut short by a restart
+    this.keyRotation?.resume();
+
+    const draftSyncInterval = parseInt(process.env.DRAFT_SYNC_INTERVAL || '0', 10);
+    if (draftSyncInterval > 0) {
+      this.draftSyncTimer = setInterval(() => {
+        for (const [accountId, mailbox] of this.mailboxes) {
+          mailbox.syncDrafts().catch(error => {
+            this.logger.error(`Scheduled drafts sync failed for ${accountId}`, error);
+          });
+        }
+      }, draftSyncInterval);
+    }
+
     this.logger.info('Services initialized');
   }
 
@@ -114,29 +322,68 @@ export class EmailServer {
     this.app.use(express.json());
     this.app.use(express.urlencoded({ extended: true }));
     
-    this.app.use((req, res, next) => {
+    this.app.use((_req, res, next) => {
       res.header('Access-Control-Allow-Origin', '*');
-      res.header('Access-Control-Allow-Headers', 'Content-Type');
+      res.header('Access-Control-Allow-Headers', 'Content-Type, X-Actor, X-Request-Id');
       res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+      res.header('Access-Control-Expose-Headers', 'X-Request-Id');
       next();
     });
 
-    this.app.use((req, res, next) => {
+    this.app.use((req, _res, next) => {
       this.logger.info(`${req.method} ${req.path}`);
       next();
     });
+
+    // Everything a request changes is audited under its actor and request id. There is
+    // no authentication yet, so the actor is what X-Actor says; a proxy that
+    // authenticates should set it. The request id is taken from X-Request-Id or made up,
+    // and sent back either way. Each changing request is also logged as a whole, which
+    // covers the services that do not audit their own changes.
+    this.app.use((req, res, next) => {
+      const context = {
+        actor: req.header('X-Actor')?.trim() || ANONYMOUS_ACTOR,
+        requestId: req.header('X-Request-Id')?.trim() || uuidv4(),
+      };
+      res.setHeader('X-Request-Id', context.requestId);
+
+      if (!READ_ONLY_METHODS.includes(req.method)) {
+        const target = `${req.method} ${req.path}`;
+        res.on('finish', () => {
+          void withAuditContext(context, () =>
+            this.audit.record({
+              action: 'api.request',
+              targetType: 'route',
+              targetId: target,
+              metadata: { route: req.route?.path, status: res.statusCode },
+            }),
+          );
+        });
+      }
+      withAuditContext(context, next);
+    });
   }
 
   private setupRoutes(): void {
-    this.app.get('/health', (req, res) => {
+    this.app.get('/health', (_req, res) => {
       res.json({ status: 'healthy', timestamp: new Date() });
     });
 
     this.app.post('/api/emails/send', async (req, res) => {
       try {
-        const email = await this.emailService.send(req.body);
-        const result = await this.orchestrator.processEmail(email);
-        res.json(result.finalEmail);
+        const { sendAt, undoSeconds, ...emailData } = req.body;
+        const sendAtDate = sendAt ? new Date(sendAt) : undefined;
+        const undoWindow = undoSeconds !== undefined ? Number(undoSeconds) * 1000 : this.defaultUndoWindow;
+
+        if (sendAtDate && isNaN(sendAtDate.getTime())) {
+          res.status(400).json({ error: 'sendAt must be a valid date' });
+        } else if (isNaN(undoWindow) || undoWindow < 0) {
+          res.status(400).json({ error: 'undoSeconds must be a non-negative number' });
+        } else {
+          const email = await this.mailbox(emailData.accountId).send(emailData, { sendAt: sendAtDate, undoWindow });
+          const result = await this.orchestrator.processEmail(email);
+          res.json(result.finalEmail);
+        }
       } catch (error) {
         this.logger.error('Failed to send email', error);
         res.status(500).json({ 
@@ -147,7 +394,12 @@ export class EmailServer {
 
     this.app.get('/api/emails/receive', async (req, res) => {
       try {
-        const emails = await this.emailService.receive();
+        const accountId = req.query.accountId as string | undefined;
+        const mailboxes = accountId ? [this.mailbox(accountId)] : Array.from(this.mailboxes.values());
+        const emails: Email[] = [];
+        for (const mailbox of mailboxes) {
+          emails.push(...(await mailbox.receive()));
+        }
         const processedEmails = [];
 
         for (const email of emails) {
@@ -164,9 +416,80 @@ export class EmailServer {
       }
     });
 
+    this.app.get('/api/emails/threads', async (req, res) => {
+      try {
+        const page = await this.mailbox().getThreadPage({
+          accountId: req.query.accountId as string | undefined,
+          cursor: req.query.cursor as string | undefined,
+          limit: pageSize(req.query.limit),
+        });
+        res.json(page);
+      } catch (error) {
+        this.logger.error('Failed to get threads', error);
+        res.status(error instanceof SyntaxError ? 400 : 500).json({ 
+          error: error instanceof Error ? error.message : 'Failed to get threads' 
+        });
+      }
+    });
+
+    this.app.get('/api/emails/threads/:threadId', async (req, res) => {
+      try {
+        const thread = await this.mailbox().getThread(req.params.threadId);
+        if (!thread) {
+          res.status(404).json({ error: 'Thread not found' });
+        } else {
+          res.json(thread);
+        }
+      } catch (error) {
+        this.logger.error('Failed to get thread', error);
+        res.status(500).json({ 
+          error: error instanceof Error ? error.message : 'Failed to get thread' 
+        });
+      }
+    });
+
+    this.app.get('/api/emails/threads/:threadId/export', async (req, res) => {
+      try {
+        res.setHeader('Content-Type', 'application/mbox');
+        res.setHeader('Content-Disposition', `attachment; filename="thread-${req.params.threadId}.mbox"`);
+        await this.mailArchive.exportThread(req.params.threadId, res);
+        res.end();
+      } catch (error) {
+        this.logger.error('Failed to export thread', error);
+        if (res.headersSent) {
+          res.destroy();
+        } else {
+          res.status(500).json({ 
+            error: error instanceof Error ? error.message : 'Failed to export thread' 
+          });
+        }
+      }
+    });
+
+    // Gmail-style query string, e.g. ?q=from:alice is:unread -label:archived; registered
+    // before /api/emails/:id so "search" is not taken for an id
+    this.app.get('/api/emails/search', async (req, res) => {
+      try {
+        const page = await this.mailbox().searchPage({
+          where: parseSearchQuery((req.query.q as string | undefined) || ''),
+          accountId: req.query.accountId as string | undefined,
+          sortBy: req.query.sortBy as EmailSearchSort | undefined,
+          cursor: req.query.cursor as string | undefined,
+          limit: pageSize(req.query.limit),
+          offset: req.query.offset ? parseInt(req.query.offset as string, 10) : undefined,
+        });
+        res.json({ ...page, items: page.items.map(({ email, ...hit }) => ({ ...email, ...hit })) });
+      } catch (error) {
+        this.logger.error('Failed to search emails', error);
+        res.status(error instanceof SyntaxError ? 400 : 500).json({
+          error: error instanceof Error ? error.message : 'Failed to search emails'
+        });
+      }
+    });
+
     this.app.get('/api/emails/:id', async (req, res) => {
       try {
-        const email = await this.emailService.getById(req.params.id);
+        const email = await this.mailbox().getById(req.params.id);
         if (!email) {
           res.status(404).json({ error: 'Email not found' });
         } else {
@@ -180,9 +503,88 @@ export class EmailServer {
       }
     });
 
+    this.app.get('/api/emails/:id/eml', async (req, res) => {
+      try {
+        const email = await this.mailbox().getById(req.params.id);
+        if (!email) {
+          res.status(404).json({ error: 'Email not found' });
+          return;
+        }
+
+        const raw = await this.mailArchive.exportEml(email);
+        res.setHeader('Content-Type', 'message/rfc822');
+        res.setHeader('Content-Disposition', `attachment; filename="${email.id}.eml"`);
+        res.send(raw);
+      } catch (error) {
+        this.logger.error('Failed to export email', error);
+        res.status(500).json({ 
+          error: error instanceof Error ? error.message : 'Failed to export email' 
+        });
+      }
+    });
+
+    this.app.get('/api/emails/:id/attachments/:attachmentId', async (req, res) => {
+      try {
+        const content = await this.mailbox().getAttachment(req.params.id, req.params.attachmentId);
+        if (!content) {
+          res.status(404).json({ error: 'Attachment not found' });
+          return;
+        }
+
+        res.attachment(content.attachment.filename);
+        res.setHeader('Content-Type', content.attachment.contentType);
+        await pipeline(content.stream, res);
+      } catch (error) {
+        this.logger.error('Failed to stream attachment', error);
+        if (res.headersSent) {
+          res.destroy();
+        } else {
+          res.status(500).json({ 
+            error: error instanceof Error ? error.message : 'Failed to stream attachment' 
+          });
+        }
+      }
+    });
+
+    this.app.post('/api/emails/:id/reply', async (req, res) => {
+      try {
+        const { body, htmlBody, all } = req.body;
+        const email = await (await this.mailboxFor(req.params.id)).reply(req.params.id, body || '', {
+          all: all === true,
+          htmlBody,
+        });
+        const result = await this.orchestrator.processEmail(email);
+        res.json(result.finalEmail);
+      } catch (error) {
+        this.logger.error('Failed to reply to email', error);
+        res.status(500).json({ 
+          error: error instanceof Error ? error.message : 'Failed to reply to email' 
+        });
+      }
+    });
+
+    this.app.post('/api/emails/:id/forward', async (req, res) => {
+      try {
+        const { to, body, htmlBody } = req.body;
+        if (!Array.isArray(to) || to.length === 0) {
+          res.status(400).json({ error: 'At least one recipient is required' });
+          return;
+        }
+
+        const email = await (await this.mailboxFor(req.params.id)).forward(req.params.id, to, body || '', { htmlBody });
+        const result = await this.orchestrator.processEmail(email);
+        res.json(result.finalEmail);
+      } catch (error) {
+        this.logger.error('Failed to forward email', error);
+        res.status(500).json({ 
+          error: error instanceof Error ? error.message : 'Failed to forward email' 
+        });
+      }
+    });
+
     this.app.put('/api/emails/:id', async (req, res) => {
       try {
-        const email = await this.emailService.update(req.params.id, req.body);
+        const email = await (await this.mailboxFor(req.params.id)).update(req.params.id, req.body);
         res.json(email);
       } catch (error) {
         this.logger.error('Failed to update email', error);
@@ -194,7 +596,7 @@ export class EmailServer {
 
     this.app.delete('/api/emails/:id', async (req, res) => {
       try {
-        const success = await this.emailService.delete(req.params.id);
+        const success = await (await this.mailboxFor(req.params.id)).delete(req.params.id);
         res.json({ success });
       } catch (error) {
         this.logger.error('Failed to delete email', error);
@@ -204,26 +606,779 @@ export class EmailServer {
       }
     });
 
+    // Body: { ids } or { query } in search syntax, plus label or folder where the action
+    // needs one. More than one batch answers 202 and reports over the WebSocket.
+    this.app.post('/api/emails/bulk/:action', async (req, res) => {
+      try {
+        const operation = await this.bulk.start({ ...req.body, action: req.params.action });
+        if (operation.batches > 1) {
+          res.status(202).json({ operationId: operation.id, action: operation.action, total: operation.total });
+        } else {
+          res.json(await operation.done);
+        }
+      } catch (error) {
+        this.logger.error('Failed to run bulk operation', error);
+        res.status(error instanceof ZodError || error instanceof SyntaxError ? 400 : 500).json({
+          error: error instanceof Error ? error.message : 'Failed to run bulk operation'
+        });
+      }
+    });
+
+    // Full-text matches carry their rank and highlighted subject/body alongside the email
     this.app.post('/api/emails/search', async (req, res) => {
       try {
-        const emails = await this.emailService.search(req.body);
-        res.json(emails);
+        const page = await this.mailbox().searchPage({ ...req.body, limit: pageSize(req.body?.limit) });
+        res.json({ ...page, items: page.items.map(({ email, ...hit }) => ({ ...email, ...hit })) });
       } catch (error) {
         this.logger.error('Failed to search emails', error);
-        res.status(500).json({ 
+        res.status(error instanceof SyntaxError ? 400 : 500).json({ 
           error: error instanceof Error ? error.message : 'Failed to search emails' 
         });
       }
     });
 
-    this.app.get('/api/emails/threads', async (req, res) => {
+    // Streams the search result as mbox; the body takes the same query as /api/emails/search
+    this.app.post('/api/emails/export', async (req, res) => {
       try {
-        const threads = await this.emailService.getThreads();
-        res.json(threads);
+        res.setHeader('Content-Type', 'application/mbox');
+        res.setHeader('Content-Disposition', 'attachment; filename="export.mbox"');
+        await this.mailArchive.exportSearch(req.body || {}, res);
+        res.end();
       } catch (error) {
-        this.logger.error('Failed to get threads', error);
+        this.logger.error('Failed to export emails', error);
+        if (res.headersSent) {
+          res.destroy();
+        } else {
+          res.status(500).json({ 
+            error: error instanceof Error ? error.message : 'Failed to export emails' 
+          });
+        }
+      }
+    });
+
+    // Raw uploads: the request body is the mbox file or the RFC 822 message itself
+    this.app.post('/api/import/mbox', async (req, res) => {
+      try {
+        const report = await this.mailArchive.importMbox(req, {
+          runAgents: req.query.runAgents === 'true',
+          accountId: req.query.accountId as string | undefined,
+        });
+        res.json(report);
+      } catch (error) {
+        this.logger.error('Failed to import mbox', error);
         res.status(500).json({ 
-          error: error instanceof Error ? error.message : 'Failed to get threads' 
+          error: error instanceof Error ? error.message : 'Failed to import mbox' 
+        });
+      }
+    });
+
+    this.app.post('/api/import/eml', async (req, res) => {
+      try {
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) {
+          chunks.push(chunk as Buffer);
+        }
+
+        const report = await this.mailArchive.importEml(Buffer.concat(chunks), {
+          runAgents: req.query.runAgents === 'true',
+          accountId: req.query.accountId as string | undefined,
+        });
+        res.json(report);
+      } catch (error) {
+        this.logger.error('Failed to import email', error);
+        res.status(500).json({ 
+          error: error instanceof Error ? error.message : 'Failed to import email' 
+        });
+      }
+    });
+
+    this.app.get('/api/drafts', async (req, res) => {
+      try {
+        const drafts = await this.mailbox().getDrafts(req.query.accountId as string | undefined);
+        res.json(drafts);
+      } catch (error) {
+        this.logger.error('Failed to get drafts', error);
+        res.status(500).json({ 
+          error: error instanceof Error ? error.message : 'Failed to get drafts' 
+        });
+      }
+    });
+
+    this.app.post('/api/drafts', async (req, res) => {
+      try {
+        const draft = await this.mailbox(req.body.accountId).saveDraft(req.body);
+        res.json(draft);
+      } catch (error) {
+        this.logger.error('Failed to save draft', error);
+        res.status(500).json({ 
+          error: error instanceof Error ? error.message : 'Failed to save draft' 
+        });
+      }
+    });
+
+    this.app.post('/api/drafts/sync', async (req, res) => {
+      try {
+        const report = await this.mailbox(req.query.accountId as string | undefined).syncDrafts();
+        if (!report) {
+          res.status(501).json({ error: 'Email provider does not support draft sync' });
+        } else {
+          res.json({ ...report, added: report.added.length });
+        }
+      } catch (error) {
+        this.logger.error('Failed to sync drafts', error);
+        res.status(500).json({ 
+          error: error instanceof Error ? error.message : 'Failed to sync drafts' 
+        });
+      }
+    });
+
+    // Autosave endpoint: send the revision last seen to detect edits made elsewhere
+    this.app.put('/api/drafts/:id', async (req, res) => {
+      try {
+        const { revision, ...updates } = req.body;
+        const result = await (await this.mailboxFor(req.params.id)).updateDraft(
+          req.params.id,
+          updates,
+          typeof revision === 'number' ? revision : undefined,
+        );
+
+        if (!result) {
+          res.status(404).json({ error: 'Draft not found' });
+        } else if (result.conflict) {
+          res.status(409).json({ error: 'Draft was modified elsewhere', draft: result.draft });
+        } else {
+          res.json(result.draft);
+        }
+      } catch (error) {
+        this.logger.error('Failed to update draft', error);
+        res.status(500).json({ 
+          error: error instanceof Error ? error.message : 'Failed to update draft' 
+        });
+      }
+    });
+
+    this.app.delete('/api/drafts/:id', async (req, res) => {
+      try {
+        const success = await (await this.mailboxFor(req.params.id)).deleteDraft(req.params.id);
+        res.json({ success });
+      } catch (error) {
+        this.logger.error('Failed to delete draft', error);
+        res.status(500).json({ 
+          error: error instanceof Error ? error.message : 'Failed to delete draft' 
+        });
+      }
+    });
+
+    this.app.post('/api/drafts/:id/send', async (req, res) => {
+      try {
+        const email = await (await this.mailboxFor(req.params.id)).sendDraft(req.params.id);
+        const result = await this.orchestrator.processEmail(email);
+        res.json(result.finalEmail);
+      } catch (error) {
+        this.logger.error('Failed to send draft', error);
+        res.status(500).json({ 
+          error: error instanceof Error ? error.message : 'Failed to send draft' 
+        });
+      }
+    });
+
+    this.app.get('/api/scheduled', async (req, res) => {
+      try {
+        res.json(await this.mailbox().getScheduled(req.query.accountId as string | undefined));
+      } catch (error) {
+        this.logger.error('Failed to get scheduled emails', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to get scheduled emails'
+        });
+      }
+    });
+
+    this.app.put('/api/scheduled/:id', async (req, res) => {
+      try {
+        const { sendAt, ...updates } = req.body;
+        const sendAtDate = sendAt ? new Date(sendAt) : undefined;
+
+        if (sendAtDate && isNaN(sendAtDate.getTime())) {
+          res.status(400).json({ error: 'sendAt must be a valid date' });
+        } else {
+          const result = await (await this.mailboxFor(req.params.id)).updateScheduled(req.params.id, updates, sendAtDate);
+          if (result) {
+            res.json(result);
+          } else {
+            await this.sendScheduledMiss(req.params.id, res);
+          }
+        }
+      } catch (error) {
+        this.logger.error('Failed to update scheduled email', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to update scheduled email'
+        });
+      }
+    });
+
+    this.app.delete('/api/scheduled/:id', async (req, res) => {
+      try {
+        const draft = await (await this.mailboxFor(req.params.id)).cancelScheduled(req.params.id);
+        if (draft) {
+          res.json(draft);
+        } else {
+          await this.sendScheduledMiss(req.params.id, res);
+        }
+      } catch (error) {
+        this.logger.error('Failed to cancel scheduled email', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to cancel scheduled email'
+        });
+      }
+    });
+
+    this.app.get('/api/outbox', async (req, res) => {
+      try {
+        const state = req.query.state as OutboxState | undefined;
+        if (state && !['scheduled', 'queued', 'sending', 'sent', 'failed'].includes(state)) {
+          res.status(400).json({ error: `Unknown outbox state: ${state}` });
+        } else {
+          res.json(await this.outbox.list(state));
+        }
+      } catch (error) {
+        this.logger.error('Failed to list outbox', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to list outbox'
+        });
+      }
+    });
+
+    this.app.get('/api/outbox/:id', async (req, res) => {
+      try {
+        const entry = await this.outbox.get(req.params.id);
+        if (!entry) {
+          res.status(404).json({ error: 'Outbox entry not found' });
+        } else {
+          res.json({ ...entry, email: await this.database.getEmail(entry.emailId) });
+        }
+      } catch (error) {
+        this.logger.error('Failed to get outbox entry', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to get outbox entry'
+        });
+      }
+    });
+
+    this.app.post('/api/outbox/:id/retry', async (req, res) => {
+      try {
+        const entry = await this.outbox.get(req.params.id);
+        if (!entry) {
+          res.status(404).json({ error: 'Outbox entry not found' });
+        } else if (entry.state !== 'failed') {
+          res.status(409).json({ error: `Only failed messages can be retried (state: ${entry.state})` });
+        } else {
+          res.json(await this.outbox.retry(entry.emailId));
+        }
+      } catch (error) {
+        this.logger.error('Failed to retry outbox entry', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to retry outbox entry'
+        });
+      }
+    });
+
+    this.app.get('/api/labels', async (req, res) => {
+      try {
+        res.json(await this.labels.list((req.query.accountId as string | undefined) || DEFAULT_ACCOUNT_ID));
+      } catch (error) {
+        this.logger.error('Failed to list labels', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to list labels'
+        });
+      }
+    });
+
+    this.app.post('/api/labels', async (req, res) => {
+      try {
+        const { accountId, ...input } = req.body;
+        const result = await this.labels.create(accountId || DEFAULT_ACCOUNT_ID, input);
+        if (result.rejected) {
+          res.status(409).json({ error: `Label ${result.label.name} already exists`, label: result.label });
+        } else {
+          res.status(201).json(result.label);
+        }
+      } catch (error) {
+        this.logger.error('Failed to create label', error);
+        res.status(error instanceof ZodError ? 400 : 500).json({
+          error: error instanceof Error ? error.message : 'Failed to create label'
+        });
+      }
+    });
+
+    // Also used to rename: nested labels and every tagged email follow the new name
+    this.app.put('/api/labels/:id', async (req, res) => {
+      try {
+        const result = await this.labels.update(req.params.id, req.body);
+        if (!result) {
+          res.status(404).json({ error: 'Label not found' });
+        } else if (result.rejected === 'system') {
+          res.status(400).json({ error: 'System labels cannot be renamed' });
+        } else if (result.rejected === 'conflict') {
+          res.status(409).json({ error: `A label named ${req.body.name} already exists` });
+        } else {
+          res.json(result.label);
+        }
+      } catch (error) {
+        this.logger.error('Failed to update label', error);
+        res.status(error instanceof ZodError ? 400 : 500).json({
+          error: error instanceof Error ? error.message : 'Failed to update label'
+        });
+      }
+    });
+
+    this.app.delete('/api/labels/:id', async (req, res) => {
+      try {
+        const result = await this.labels.delete(req.params.id);
+        if (!result) {
+          res.status(404).json({ error: 'Label not found' });
+        } else if (result.rejected) {
+          res.status(400).json({ error: 'System labels cannot be deleted' });
+        } else {
+          res.json({ success: true });
+        }
+      } catch (error) {
+        this.logger.error('Failed to delete label', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to delete label'
+        });
+      }
+    });
+
+    for (const action of ['apply', 'remove'] as const) {
+      this.app.post(`/api/labels/:id/${action}`, async (req, res) => {
+        try {
+          const emailIds = req.body.emailIds;
+          if (!Array.isArray(emailIds) || !emailIds.every(id => typeof id === 'string')) {
+            res.status(400).json({ error: 'emailIds must be an array of email ids' });
+          } else {
+            const updated = await this.labels[action](req.params.id as string, emailIds);
+            if (updated === null) {
+              res.status(404).json({ error: 'Label not found' });
+            } else {
+              res.json({ updated });
+            }
+          }
+        } catch (error) {
+          this.logger.error(`Failed to ${action} label`, error);
+          res.status(500).json({
+            error: error instanceof Error ? error.message : `Failed to ${action} label`
+          });
+        }
+      });
+    }
+
+    // Creates local labels for folders or Gmail labels made in other clients
+    this.app.post('/api/labels/sync', async (req, res) => {
+      try {
+        const created = await this.labels.importRemote((req.query.accountId as string | undefined) || DEFAULT_ACCOUNT_ID);
+        if (!created) {
+          res.status(501).json({ error: 'Email provider does not support labels' });
+        } else {
+          res.json({ created });
+        }
+      } catch (error) {
+        this.logger.error('Failed to sync labels', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to sync labels'
+        });
+      }
+    });
+
+    // With ?q= this is autocomplete: prefix matches, strongest relationships first
+    this.app.get('/api/contacts', async (req, res) => {
+      try {
+        const accountId = (req.query.accountId as string | undefined) || DEFAULT_ACCOUNT_ID;
+        if (req.query.q !== undefined) {
+          const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+          res.json(await this.contacts.autocomplete(accountId, req.query.q as string, limit));
+        } else {
+          res.json(await this.contacts.list(accountId));
+        }
+      } catch (error) {
+        this.logger.error('Failed to list contacts', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to list contacts'
+        });
+      }
+    });
+
+    // Registered before /api/contacts/:id so "export.vcf" is not taken for an id
+    this.app.get('/api/contacts/export.vcf', async (req, res) => {
+      try {
+        const vcards = await this.contacts.exportVCards((req.query.accountId as string | undefined) || DEFAULT_ACCOUNT_ID);
+        res.setHeader('Content-Type', 'text/vcard; charset=utf-8');
+        res.setHeader('Content-Disposition', 'attachment; filename="contacts.vcf"');
+        res.send(vcards);
+      } catch (error) {
+        this.logger.error('Failed to export contacts', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to export contacts'
+        });
+      }
+    });
+
+    this.app.get('/api/contacts/:id', async (req, res) => {
+      try {
+        const contact = await this.contacts.get(req.params.id);
+        if (!contact) {
+          res.status(404).json({ error: 'Contact not found' });
+        } else {
+          res.json(contact);
+        }
+      } catch (error) {
+        this.logger.error('Failed to get contact', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to get contact'
+        });
+      }
+    });
+
+    this.app.post('/api/contacts', async (req, res) => {
+      try {
+        const { accountId, ...input } = req.body;
+        const result = await this.contacts.create(accountId || DEFAULT_ACCOUNT_ID, input);
+        if (result.rejected) {
+          res.status(409).json({ error: 'Another contact already has that address', contact: result.contact });
+        } else {
+          res.status(201).json(result.contact);
+        }
+      } catch (error) {
+        this.logger.error('Failed to create contact', error);
+        res.status(error instanceof ZodError ? 400 : 500).json({
+          error: error instanceof Error ? error.message : 'Failed to create contact'
+        });
+      }
+    });
+
+    // The raw request body is the .vcf file, with one or more cards
+    this.app.post('/api/contacts/import', async (req, res) => {
+      try {
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) {
+          chunks.push(chunk as Buffer);
+        }
+
+        const report = await this.contacts.importVCards(
+          (req.query.accountId as string | undefined) || DEFAULT_ACCOUNT_ID,
+          Buffer.concat(chunks).toString('utf8'),
+        );
+        res.json(report);
+      } catch (error) {
+        this.logger.error('Failed to import contacts', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to import contacts'
+        });
+      }
+    });
+
+    // Picks up new correspondents now instead of after the next mail arrives
+    this.app.post('/api/contacts/refresh', async (req, res) => {
+      try {
+        res.json(await this.contacts.refresh((req.query.accountId as string | undefined) || DEFAULT_ACCOUNT_ID));
+      } catch (error) {
+        this.logger.error('Failed to refresh contacts', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to refresh contacts'
+        });
+      }
+    });
+
+    this.app.put('/api/contacts/:id', async (req, res) => {
+      try {
+        const result = await this.contacts.update(req.params.id, req.body);
+        if (!result) {
+          res.status(404).json({ error: 'Contact not found' });
+        } else if (result.rejected) {
+          res.status(409).json({ error: 'Another contact already has that address' });
+        } else {
+          res.json(result.contact);
+        }
+      } catch (error) {
+        this.logger.error('Failed to update contact', error);
+        res.status(error instanceof ZodError ? 400 : 500).json({
+          error: error instanceof Error ? error.message : 'Failed to update contact'
+        });
+      }
+    });
+
+    this.app.delete('/api/contacts/:id', async (req, res) => {
+      try {
+        if (await this.contacts.delete(req.params.id)) {
+          res.json({ success: true });
+        } else {
+          res.status(404).json({ error: 'Contact not found' });
+        }
+      } catch (error) {
+        this.logger.error('Failed to delete contact', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to delete contact'
+        });
+      }
+    });
+
+    // Folds the contacts in { ids } into this one
+    this.app.post('/api/contacts/:id/merge', async (req, res) => {
+      try {
+        const ids = req.body.ids;
+        if (!Array.isArray(ids) || !ids.every(id => typeof id === 'string')) {
+          res.status(400).json({ error: 'ids must be an array of contact ids' });
+        } else {
+          const contact = await this.contacts.merge(req.params.id, ids);
+          if (!contact) {
+            res.status(404).json({ error: 'Contact not found' });
+          } else {
+            res.json(contact);
+          }
+        }
+      } catch (error) {
+        this.logger.error('Failed to merge contacts', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to merge contacts'
+        });
+      }
+    });
+
+    this.app.get('/api/retention/rules', async (_req, res) => {
+      try {
+        res.json(await this.retention.listRules());
+      } catch (error) {
+        this.logger.error('Failed to list retention rules', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to list retention rules'
+        });
+      }
+    });
+
+    this.app.post('/api/retention/rules', async (req, res) => {
+      try {
+        res.status(201).json(await this.retention.createRule(req.body));
+      } catch (error) {
+        this.logger.error('Failed to create retention rule', error);
+        res.status(error instanceof ZodError ? 400 : 500).json({
+          error: error instanceof Error ? error.message : 'Failed to create retention rule'
+        });
+      }
+    });
+
+    this.app.put('/api/retention/rules/:id', async (req, res) => {
+      try {
+        const rule = await this.retention.updateRule(req.params.id, req.body);
+        if (!rule) {
+          res.status(404).json({ error: 'Retention rule not found' });
+        } else {
+          res.json(rule);
+        }
+      } catch (error) {
+        this.logger.error('Failed to update retention rule', error);
+        res.status(error instanceof ZodError ? 400 : 500).json({
+          error: error instanceof Error ? error.message : 'Failed to update retention rule'
+        });
+      }
+    });
+
+    this.app.delete('/api/retention/rules/:id', async (req, res) => {
+      try {
+        if (await this.retention.deleteRule(req.params.id)) {
+          res.json({ success: true });
+        } else {
+          res.status(404).json({ error: 'Retention rule not found' });
+        }
+      } catch (error) {
+        this.logger.error('Failed to delete retention rule', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to delete retention rule'
+        });
+      }
+    });
+
+    // Applies the rules now; with { dryRun: true } only reports what they match
+    this.app.post('/api/retention/run', async (req, res) => {
+      try {
+        res.json(await this.retention.run({ dryRun: req.body?.dryRun === true }));
+      } catch (error) {
+        this.logger.error('Failed to run retention rules', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to run retention rules'
+        });
+      }
+    });
+
+    this.app.get('/api/retention/runs', async (req, res) => {
+      try {
+        res.json(await this.retention.listRuns(req.query.limit ? parseInt(req.query.limit as string, 10) : undefined));
+      } catch (error) {
+        this.logger.error('Failed to list retention runs', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to list retention runs'
+        });
+      }
+    });
+
+    // Everything stored about { email }; with format: 'zip' a download that also holds
+    // attachments and original sources
+    this.app.post('/api/privacy/export', async (req, res) => {
+      try {
+        if (req.body?.format === 'zip') {
+          const zip = await this.dataSubjects.exportZip(req.body?.email);
+          res.setHeader('Content-Type', 'application/zip');
+          res.setHeader('Content-Disposition', 'attachment; filename="data-export.zip"');
+          res.send(zip);
+        } else {
+          res.json(await this.dataSubjects.export(req.body?.email));
+        }
+      } catch (error) {
+        this.logger.error('Failed to export personal data', error);
+        res.status(error instanceof ZodError ? 400 : 500).json({
+          error: error instanceof Error ? error.message : 'Failed to export personal data'
+        });
+      }
+    });
+
+    // Erases and pseudonymizes { email }; with { dryRun: true } only reports what it would change
+    this.app.post('/api/privacy/erase', async (req, res) => {
+      try {
+        res.json(await this.dataSubjects.erase(req.body || {}));
+      } catch (error) {
+        this.logger.error('Failed to erase personal data', error);
+        res.status(error instanceof ZodError ? 400 : 500).json({
+          error: error instanceof Error ? error.message : 'Failed to erase personal data'
+        });
+      }
+    });
+
+    // ?email= shows whether and when that address was erased
+    this.app.get('/api/privacy/erasures', async (req, res) => {
+      try {
+        res.json(
+          await this.dataSubjects.listErasures(
+            req.query.email as string | undefined,
+            req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+          ),
+        );
+      } catch (error) {
+        this.logger.error('Failed to list erasures', error);
+        res.status(error instanceof ZodError ? 400 : 500).json({
+          error: error instanceof Error ? error.message : 'Failed to list erasures'
+        });
+      }
+    });
+
+    // Newest first, a page at a time, filtered by any of ?actor= &action= &targetType=
+    // &targetId= &requestId= &since= &until=; action=campaign also matches campaign.approve
+    this.app.get('/api/audit', async (req, res) => {
+      try {
+        res.json(await this.audit.list({
+          actor: req.query.actor as string | undefined,
+          action: req.query.action as string | undefined,
+          targetType: req.query.targetType as string | undefined,
+          targetId: req.query.targetId as string | undefined,
+          requestId: req.query.requestId as string | undefined,
+          since: dateParam(req.query.since, 'since'),
+          until: dateParam(req.query.until, 'until'),
+          cursor: req.query.cursor as string | undefined,
+          limit: pageSize(req.query.limit),
+        }));
+      } catch (error) {
+        this.logger.error('Failed to list audit entries', error);
+        res.status(error instanceof SyntaxError ? 400 : 500).json({
+          error: error instanceof Error ? error.message : 'Failed to list audit entries'
+        });
+      }
+    });
+
+    this.app.get('/api/encryption', async (_req, res) => {
+      try {
+        if (!this.keyRotation) {
+          res.status(404).json({ error: 'Encryption is not enabled' });
+        } else {
+          res.json({ ...(await this.keyRotation.getStatus()), reencrypting: this.keyRotation.isReencrypting });
+        }
+      } catch (error) {
+        this.logger.error('Failed to get encryption status', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to get encryption status'
+        });
+      }
+    });
+
+    // Switches to new keys and answers straight away; older content is re-encrypted in
+    // the background, reported through reencryption-progress events
+    this.app.post('/api/encryption/rotate', async (_req, res) => {
+      try {
+        if (!this.keyRotation) {
+          res.status(404).json({ error: 'Encryption is not enabled' });
+        } else {
+          res.status(202).json(await this.keyRotation.rotate());
+        }
+      } catch (error) {
+        this.logger.error('Failed to rotate encryption keys', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to rotate encryption keys'
+        });
+      }
+    });
+
+    this.app.get('/api/accounts', (_req, res) => {
+      res.json(this.accounts.list().map(toAccountSummary));
+    });
+
+    this.app.post('/api/accounts', async (req, res) => {
+      try {
+        const account = await this.accounts.add(confineMaildir(req.body), { verify: req.query.verify === 'true' });
+        res.status(201).json(toAccountSummary(account));
+      } catch (error) {
+        this.logger.error('Failed to add account', error);
+        res.status(error instanceof ZodError || error instanceof SyntaxError ? 400 : 500).json({
+          error: error instanceof Error ? error.message : 'Failed to add account'
+        });
+      }
+    });
+
+    this.app.put('/api/accounts/:id', async (req, res) => {
+      try {
+        const account = await this.accounts.update(req.params.id, confineMaildir(req.body));
+        if (!account) {
+          res.status(404).json({ error: 'Account not found' });
+        } else {
+          res.json(toAccountSummary(account));
+        }
+      } catch (error) {
+        this.logger.error('Failed to update account', error);
+        res.status(error instanceof ZodError || error instanceof SyntaxError ? 400 : 500).json({
+          error: error instanceof Error ? error.message : 'Failed to update account'
+        });
+      }
+    });
+
+    this.app.delete('/api/accounts/:id', async (req, res) => {
+      try {
+        const success = await this.accounts.remove(req.params.id, { purgeMail: req.query.purge === 'true' });
+        res.json({ success });
+      } catch (error) {
+        this.logger.error('Failed to remove account', error);
+        res.status(500).json({
+          error: error instanceof Error ? error.message : 'Failed to remove account'
+        });
+      }
+    });
+
+    this.app.post('/api/accounts/:id/verify', async (req, res) => {
+      try {
+        if (!this.accounts.get(req.params.id)) {
+          res.status(404).json({ error: 'Account not found' });
+        } else {
+          await this.accounts.verify(req.params.id);
+          res.json({ success: true });
+        }
+      } catch (error) {
+        this.logger.error('Account verification failed', error);
+        res.status(502).json({
+          error: error instanceof Error ? error.message : 'Account verification failed'
         });
       }
     });
@@ -246,6 +1401,96 @@ export class EmailServer {
         res.json(status);
       }
     });
+
+    // Newest first, a page at a time: ?cursor=&limit=
+    this.app.get('/api/agents/:id/tasks', async (req, res) => {
+      try {
+        if (!this.orchestrator.getAgentStatus(req.params.id)) {
+          res.status(404).json({ error: 'Agent not found' });
+        } else {
+          res.json(await this.database.listAgentTasks(req.params.id, {
+            cursor: req.query.cursor as string | undefined,
+            limit: pageSize(req.query.limit),
+          }));
+        }
+      } catch (error) {
+        this.logger.error('Failed to get agent tasks', error);
+        res.status(error instanceof SyntaxError ? 400 : 500).json({
+          error: error instanceof Error ? error.message : 'Failed to get agent tasks'
+        });
+      }
+    });
+  }
+
+  // Without an account id: the default account, or the first one configured
+  private mailbox(accountId?: string): EmailService {
+    const fallback = this.mailboxes.has(DEFAULT_ACCOUNT_ID) ? DEFAULT_ACCOUNT_ID : this.mailboxes.keys().next().value;
+    const id = accountId || fallback;
+    const mailbox = id ? this.mailboxes.get(id) : undefined;
+    if (!mailbox) {
+      throw new Error(accountId ? `Account ${accountId} is not available` : 'No email account configured');
+    }
+    return mailbox;
+  }
+
+  // Replies, flag changes and deletes go through the account the email belongs to
+  private async mailboxFor(emailId: string): Promise<EmailService> {
+    const email = await this.database.getEmail(emailId);
+    return this.mailbox(email?.accountId);
+  }
+
+  private async attachMailbox(account: Account): Promise<void> {
+    await this.detachMailbox(account.id);
+
+    const provider = this.accounts.getProvider(account.id);
+    if (!provider) return;
+
+    const identities = [{ email: account.email, name: account.name }];
+    this.mailboxes.set(account.id, new EmailService(provider, this.database, identities, {
+      draftUploadDelay: parseInt(process.env.DRAFT_UPLOAD_DELAY || '3000', 10),
+      outbox: this.outbox,
+      accountId: account.id,
+      audit: this.audit,
+    }));
+    this.contacts.scheduleRefresh(account.id);
+
+    if (process.env.MAILBOX_WATCH === 'true') {
+      const watcher = new MailboxWatcher(provider, this.database, this.orchestrator, {
+        folder: process.env.MAILBOX_WATCH_FOLDER || 'INBOX',
+        pollInterval: parseInt(process.env.MAILBOX_POLL_INTERVAL || '30000', 10),
+        accountId: account.id,
+      });
+      watcher.on('email-received', (email: Email) => {
+        this.io.to('email-updates').emit('email-received', email);
+        this.contacts.scheduleRefresh(account.id);
+      });
+      this.mailboxWatchers.set(account.id, watcher);
+      await watcher.start();
+    }
+  }
+
+  private async detachMailbox(accountId: string): Promise<void> {
+    const watcher = this.mailboxWatchers.get(accountId);
+    this.mailboxWatchers.delete(accountId);
+    if (watcher) {
+      await watcher.stop();
+    }
+
+    const mailbox = this.mailboxes.get(accountId);
+    this.mailboxes.delete(accountId);
+    if (mailbox) {
+      await mailbox.flushDrafts();
+    }
+  }
+
+  // A scheduled message that is already on its way can no longer be changed
+  private async sendScheduledMiss(id: string, res: express.Response): Promise<void> {
+    const entry = await this.outbox.get(id);
+    if (entry && entry.state !== 'scheduled') {
+      res.status(409).json({ error: `Email is already ${entry.state}`, state: entry.state });
+    } else {
+      res.status(404).json({ error: 'Scheduled email not found' });
+    }
   }
 
   private setupWebSocket(): void {
@@ -281,13 +1526,28 @@ export class EmailServer {
   }
 
   async start(): Promise<void> {
+    await this.ready;
     this.server.listen(this.port, () => {
       this.logger.info(`Email server running on port ${this.port}`);
     });
   }
 
   async stop(): Promise<void> {
-    await this.orchestrator.shutdown();
+    for (const watcher of this.mailboxWatchers.values()) {
+      await watcher.stop();
+    }
+    if (this.draftSyncTimer) {
+      clearInterval(this.draftSyncTimer);
+    }
+    // After a failed setup, services past the point it failed at were never created
+    await this.outbox?.stop();
+    await this.retention?.stop();
+    await this.keyRotation?.stop();
+    this.contacts?.stop();
+    for (const mailbox of this.mailboxes.values()) {
+      await mailbox.flushDrafts();
+    }
+    await this.orchestrator?.shutdown();
     await this.database.disconnect();
     this.server.close();
     this.logger.info('Server stopped');
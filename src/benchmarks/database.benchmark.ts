@@ -0,0 +1,124 @@
+import { DatabaseService } from '../services/database.service';
+import { Email } from '../models/email.model';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import winston from 'winston';
+
+const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.json(),
+  defaultMeta: { service: 'benchmark' },
+  transports: [
+    new winston.transports.Console({
+      format: winston.format.simple(),
+    }),
+  ],
+});
+
+// Mail shaped like a real inbox: a few recipients, nested labels, one attachment and
+// threads of ten messages
+const seedEmail = (i: number): Email => ({
+  id: uuidv4(),
+  messageId: `<${uuidv4()}@bench.example>`,
+  threadId: `thread-${Math.floor(i / 10)}`,
+  from: { email: `sender${i % 50}@example.com`, name: `Sender ${i % 50}` },
+  to: [{ email: 'me@example.com', name: 'Me' }, { email: `team${i % 7}@example.com` }],
+  cc: i % 3 === 0 ? [{ email: `cc${i % 11}@example.com` }] : [],
+  subject: `${i % 5 === 0 ? 'Invoice' : 'Status update'} #${i}`,
+  body: `Message ${i}. `.repeat(40),
+  date: new Date(Date.UTC(2024, 0, 1) + i * 60000),
+  priority: 'normal',
+  category: 'primary',
+  labels: ['inbox', `projects/${i % 4}`],
+  attachments: [{ id: uuidv4(), filename: `report-${i}.pdf`, contentType: 'application/pdf', size: 2048 }],
+  isRead: i % 2 === 0,
+  isStarred: false,
+  isDraft: false,
+});
+
+const time = async (name: string, operations: number, work: () => Promise<void>): Promise<void> => {
+  const start = process.hrtime.bigint();
+  await work();
+  const ms = Number(process.hrtime.bigint() - start) / 1e6;
+  logger.info(`${name}: ${ms.toFixed(0)} ms, ${(ms / operations).toFixed(2)} ms each`);
+};
+
+// npm run bench                  seeds a temporary database with 2000 messages
+// npm run bench -- --emails 10000 seeds that many instead
+async function main(args: string[]): Promise<void> {
+  const countIndex = args.indexOf('--emails');
+  const count = countIndex >= 0 ? parseInt(args[countIndex + 1], 10) : 2000;
+  if (Number.isNaN(count) || count < 2) {
+    throw new Error('--emails needs a number of at least 2');
+  }
+
+  // A file on disk rather than :memory:, so commits cost what they cost in production
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'email-bench-'));
+  const database = new DatabaseService(path.join(directory, 'emails.db'));
+  await database.connect();
+
+  try {
+    const emails = Array.from({ length: count }, (_, i) => seedEmail(i));
+    const half = Math.floor(count / 2);
+
+    await time(`saveEmail x${half}`, half, async () => {
+      for (const email of emails.slice(0, half)) {
+        await database.saveEmail(email);
+      }
+    });
+
+    await time(`saveEmails x${count - half} in batches of 500`, count - half, async () => {
+      for (let start = half; start < count; start += 500) {
+        await database.saveEmails(emails.slice(start, Math.min(start + 500, count)));
+      }
+    });
+
+    await time('searchEmails page of 100 x20', 20, async () => {
+      for (let page = 0; page < 20; page++) {
+        await database.searchEmails({ limit: 100, offset: page * 100 });
+      }
+    });
+
+    await time('searchEmailPage of 100 by cursor x20', 20, async () => {
+      let cursor: string | undefined;
+      for (let page = 0; page < 20; page++) {
+        cursor = (await database.searchEmailPage({ limit: 100, cursor })).nextCursor;
+      }
+    });
+
+    await time('getThreadPage of 50 x20', 20, async () => {
+      let cursor: string | undefined;
+      for (let page = 0; page < 20; page++) {
+        cursor = (await database.getThreadPage({ limit: 50, cursor })).nextCursor;
+      }
+    });
+
+    await time('searchEmails "invoice" x20', 20, async () => {
+      for (let i = 0; i < 20; i++) {
+        await database.searchEmails({ text: 'invoice', limit: 100 });
+      }
+    });
+
+    await time('getThreadEmails x100', 100, async () => {
+      for (let i = 0; i < 100; i++) {
+        await database.getThreadEmails(`thread-${i % Math.ceil(count / 10)}`);
+      }
+    });
+
+    await time('getEmail x500', 500, async () => {
+      for (let i = 0; i < 500; i++) {
+        await database.getEmail(emails[(i * 7) % count].id);
+      }
+    });
+  } finally {
+    await database.disconnect();
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+}
+
+main(process.argv.slice(2)).catch(error => {
+  logger.error('Benchmark failed', error);
+  process.exit(1);
+});
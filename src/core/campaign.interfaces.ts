@@ -1,3 +1,5 @@
+import { Page } from './interfaces';
+
 export interface EmailCampaign {
   id: string;
   name: string;
@@ -356,6 +358,7 @@ export interface ICampaignService {
   updateCampaign(id: string, updates: Partial<EmailCampaign>): Promise<EmailCampaign>;
   getCampaign(id: string): Promise<EmailCampaign | null>;
   listCampaigns(filter?: CampaignFilter): Promise<EmailCampaign[]>;
+  listCampaignPage(filter: CampaignFilter): Promise<Page<EmailCampaign>>;
   deleteCampaign(id: string): Promise<boolean>;
   
   scheduleCampaign(id: string, schedule: CampaignSchedule): Promise<void>;
@@ -363,6 +366,8 @@ export interface ICampaignService {
   resumeCampaign(id: string): Promise<void>;
   
   createDraft(draft: Partial<EmailDraft>): Promise<EmailDraft>;
+  getDraft(draftId: string): Promise<EmailDraft | null>;
+  listDrafts(campaignId: string, status?: EmailDraft['status']): Promise<EmailDraft[]>;
   approveDraft(draftId: string, approver: string): Promise<void>;
   rejectDraft(draftId: string, reason: string): Promise<void>;
   
@@ -382,6 +387,8 @@ export interface CampaignFilter {
   tags?: string[];
   limit?: number;
   offset?: number;
+  // nextCursor of a listCampaignPage result; used instead of offset
+  cursor?: string;
   sortBy?: 'created' | 'updated' | 'name' | 'performance';
   sortOrder?: 'asc' | 'desc';
 }
\ No newline at end of file
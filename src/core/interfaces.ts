@@ -1,17 +1,51 @@
-import { Email, EmailAddress, EmailPriority, EmailCategory } from '../models/email.model';
+import { Email, EmailAddress, EmailAttachment, EmailPriority, EmailCategory } from '../models/email.model';
+import { Readable } from 'stream';
 import { AgentConfig, AgentTask } from '../models/agent.model';
+import { Account } from '../models/account.model';
+import { Label } from '../models/label.model';
+import { Contact } from '../models/contact.model';
+import { RetentionRule, RetentionRun } from '../models/retention.model';
+import { ErasureReport } from '../models/data-subject.model';
+import { AuditEntry } from '../models/audit.model';
+import { AudienceSegment, CampaignFilter, EmailCampaign, EmailDraft, EmailTemplate } from './campaign.interfaces';
 
 export interface IEmailService {
-  send(email: Partial<Email>): Promise<Email>;
+  send(email: Partial<Email>, options?: SendOptions): Promise<Email>;
+  reply(id: string, body: string, options?: { all?: boolean; htmlBody?: string }): Promise<Email>;
+  forward(id: string, to: EmailAddress[], body: string, options?: { htmlBody?: string }): Promise<Email>;
   receive(): Promise<Email[]>;
   getById(id: string): Promise<Email | null>;
   update(id: string, updates: Partial<Email>): Promise<Email>;
   delete(id: string): Promise<boolean>;
   search(query: EmailSearchQuery): Promise<Email[]>;
-  getThreads(): Promise<EmailThread[]>;
+  searchWithHighlights(query: EmailSearchQuery): Promise<EmailSearchHit[]>;
+  searchPage(query: EmailSearchQuery): Promise<Page<EmailSearchHit>>;
+  getThreads(accountId?: string): Promise<EmailThread[]>;
+  getThreadPage(query: ThreadQuery): Promise<Page<EmailThread>>;
+  saveDraft(draft: Partial<Email>): Promise<Email>;
+  updateDraft(id: string, updates: Partial<Email>, expectedRevision?: number): Promise<DraftSaveResult | null>;
+  getDrafts(accountId?: string): Promise<Email[]>;
+  deleteDraft(id: string): Promise<boolean>;
+  sendDraft(id: string): Promise<Email>;
+  getScheduled(accountId?: string): Promise<ScheduledEmail[]>;
+  updateScheduled(id: string, updates: Partial<Email>, sendAt?: Date): Promise<ScheduledEmail | null>;
+  cancelScheduled(id: string): Promise<Email | null>;
+}
+
+export interface SendOptions {
+  sendAt?: Date;
+  // Holds the message back this long so the sender can still cancel it
+  undoWindow?: number;
+}
+
+export interface ScheduledEmail {
+  email: Email;
+  sendAt: Date;
 }
 
 export interface IEmailProvider {
+  // One provider is shared by every service working on its account. Each connect() is
+  // paired with a disconnect(); the connection stays open until the last pair is done.
   connect(): Promise<void>;
   disconnect(): Promise<void>;
   sendEmail(email: Partial<Email>): Promise<string>;
@@ -21,6 +55,57 @@ export interface IEmailProvider {
   deleteEmail(messageId: string): Promise<void>;
 }
 
+export interface IPushEmailProvider extends IEmailProvider {
+  watchMailbox(
+    folder: string,
+    onEmails: (emails: Email[]) => Promise<void>,
+    options?: MailboxWatchOptions,
+  ): Promise<MailboxWatchHandle>;
+}
+
+export interface ISyncEmailProvider extends IEmailProvider {
+  syncMailbox(
+    folder: string,
+    state: MailboxSyncState | null,
+    options?: MailboxSyncOptions,
+  ): Promise<MailboxSyncResult>;
+}
+
+export interface IDraftEmailProvider extends IEmailProvider {
+  getDraftsFolder(): string;
+  // Stores the draft in the Drafts folder, replacing any copy with the same Message-ID
+  saveDraft(draft: Partial<Email>): Promise<void>;
+  deleteDraft(messageId: string): Promise<void>;
+}
+
+// Labels as the server sees them: IMAP folders, or Gmail labels through X-GM-LABELS.
+// Names use "/" for nesting and the system names (inbox, sent, ...) for special folders.
+export interface ILabelEmailProvider extends IEmailProvider {
+  listLabels(): Promise<string[]>;
+  createLabel(name: string): Promise<void>;
+  renameLabel(from: string, to: string): Promise<void>;
+  deleteLabel(name: string): Promise<void>;
+  addLabels(messages: MessageRef[], labels: string[]): Promise<void>;
+  removeLabels(messages: MessageRef[], labels: string[]): Promise<void>;
+}
+
+// A stored message as providers find it: by UID in its folder when the store
+// knows one, by Message-ID otherwise
+export type MessageRef = Pick<Email, 'messageId' | 'folder' | 'uid'>;
+
+export interface MessageFlagChanges {
+  isRead?: boolean;
+  isStarred?: boolean;
+}
+
+// Changes to many messages at once, issued per folder as UID sets
+export interface IBulkEmailProvider extends IEmailProvider {
+  setFlags(messages: MessageRef[], changes: MessageFlagChanges): Promise<void>;
+  moveMessages(messages: MessageRef[], folder: string): Promise<void>;
+  // Moves to the trash folder, like deleteEmail
+  deleteMessages(messages: MessageRef[]): Promise<void>;
+}
+
 export interface IAgent {
   id: string;
   name: string;
@@ -43,15 +128,205 @@ export interface IDatabase {
   connect(): Promise<void>;
   disconnect(): Promise<void>;
   saveEmail(email: Email): Promise<void>;
+  // Saves the batch in one transaction; much faster than one saveEmail per message
+  saveEmails(emails: Email[]): Promise<void>;
   getEmail(id: string): Promise<Email | null>;
   updateEmail(id: string, updates: Partial<Email>): Promise<void>;
   deleteEmail(id: string): Promise<void>;
+  // In one transaction, like saveEmails
+  deleteEmails(ids: string[]): Promise<void>;
+  trashEmails(ids: string[]): Promise<void>;
+  stripAttachmentContent(emailIds: string[]): Promise<void>;
   searchEmails(query: EmailSearchQuery): Promise<Email[]>;
+  searchEmailHits(query: EmailSearchQuery): Promise<EmailSearchHit[]>;
+  searchEmailPage(query: EmailSearchQuery): Promise<Page<EmailSearchHit>>;
+  // Message-ID lookups are per account; the accountId defaults to DEFAULT_ACCOUNT_ID
+  getEmailByMessageId(messageId: string, accountId?: string): Promise<Email | null>;
+  findEmailsByMessageIds(messageIds: string[], accountId?: string): Promise<Email[]>;
+  findEmailsReferencing(messageId: string, accountId?: string): Promise<Email[]>;
+  findThreadIdBySubject(normalizedSubject: string, since: Date, accountId?: string): Promise<string | null>;
+  getThreadEmails(threadId: string): Promise<Email[]>;
+  // Threads newest first; mail without a thread id is a thread of its own
+  getThreadPage(query: ThreadQuery): Promise<Page<EmailThread>>;
+  reassignThread(fromThreadId: string, toThreadId: string): Promise<void>;
+  getFolderUids(folder: string, accountId?: string): Promise<FolderUid[]>;
+  clearFolderUids(folder: string, accountId?: string): Promise<void>;
+  getSyncState(accountId: string, folder: string): Promise<MailboxSyncState | null>;
+  saveSyncState(state: MailboxSyncState): Promise<void>;
+  // Original RFC 822 source, kept for messages imported from archives
+  saveEmailSource(emailId: string, raw: Buffer): Promise<void>;
+  getEmailSource(emailId: string): Promise<Buffer | null>;
+  getAttachment(emailId: string, attachmentId: string): Promise<AttachmentContent | null>;
+  // Stored attachments are returned without data; fills it in for sending or export
+  loadAttachmentData(attachments: EmailAttachment[]): Promise<EmailAttachment[]>;
+  saveOutboxEntry(entry: OutboxEntry): Promise<void>;
+  getOutboxEntry(emailId: string): Promise<OutboxEntry | null>;
+  listOutboxEntries(state?: OutboxState): Promise<OutboxEntry[]>;
+  getDueOutboxEntries(now: Date, limit: number): Promise<OutboxEntry[]>;
+  // Saves the entry only if it is still in the expected state; false when it moved on
+  transitionOutboxEntry(entry: OutboxEntry, from: OutboxState): Promise<boolean>;
+  deleteOutboxEntry(emailId: string, state: OutboxState): Promise<boolean>;
+  saveAccount(account: Account): Promise<void>;
+  getAccount(id: string): Promise<Account | null>;
+  listAccounts(): Promise<Account[]>;
+  deleteAccount(id: string): Promise<void>;
+  saveLabel(label: Label): Promise<void>;
+  getLabel(id: string): Promise<Label | null>;
+  findLabelByName(accountId: string, name: string): Promise<Label | null>;
+  listLabels(accountId: string): Promise<Label[]>;
+  getLabelCounts(accountId: string): Promise<LabelCounts[]>;
+  // Rename and delete cover nested labels and every tagged email, in one transaction
+  renameLabel(accountId: string, from: string, to: string): Promise<void>;
+  deleteLabel(accountId: string, name: string): Promise<void>;
+  addEmailLabels(emailIds: string[], labels: string[]): Promise<void>;
+  removeEmailLabels(emailIds: string[], labels: string[]): Promise<void>;
+  setEmailFlags(emailIds: string[], changes: MessageFlagChanges): Promise<void>;
+  // Clears the UIDs too; the next sync of the folder finds the messages again by Message-ID
+  moveEmails(emailIds: string[], folder: string): Promise<void>;
+  // Contacts replaced by the saved ones are deleted in the same transaction, so their
+  // addresses can move over; an address belongs to at most one contact per account,
+  // compared by contactKey
+  saveContacts(contacts: Contact[], replaced?: string[]): Promise<void>;
+  getContact(id: string): Promise<Contact | null>;
+  findContactByEmail(accountId: string, email: string): Promise<Contact | null>;
+  listContacts(accountId: string): Promise<Contact[]>;
+  // Contacts with a name, alias, address or domain starting with prefix
+  searchContacts(accountId: string, prefix: string): Promise<Contact[]>;
+  deleteContact(id: string): Promise<void>;
+  getCorrespondents(accountId: string): Promise<Correspondent[]>;
+  // The campaign's segment and templates are saved along with it, in one transaction
+  saveCampaign(campaign: EmailCampaign): Promise<void>;
+  getCampaign(id: string): Promise<EmailCampaign | null>;
+  listCampaigns(filter?: CampaignFilter): Promise<EmailCampaign[]>;
+  listCampaignPage(filter: CampaignFilter): Promise<Page<EmailCampaign>>;
+  // Deletes the campaign's drafts too; segments and templates stay for other campaigns
+  deleteCampaign(id: string): Promise<boolean>;
+  saveCampaignDrafts(drafts: EmailDraft[]): Promise<void>;
+  getCampaignDraft(id: string): Promise<EmailDraft | null>;
+  listCampaignDrafts(campaignId: string, status?: EmailDraft['status']): Promise<EmailDraft[]>;
+  saveSegment(segment: AudienceSegment): Promise<void>;
+  getSegment(id: string): Promise<AudienceSegment | null>;
+  listSegments(): Promise<AudienceSegment[]>;
+  saveTemplate(template: EmailTemplate): Promise<void>;
+  getTemplate(id: string): Promise<EmailTemplate | null>;
+  listTemplates(category?: string): Promise<EmailTemplate[]>;
   saveAgentTask(task: AgentTask): Promise<void>;
   getAgentTasks(agentId: string): Promise<AgentTask[]>;
+  // Newest first
+  listAgentTasks(agentId: string, page?: PageRequest): Promise<Page<AgentTask>>;
+  deleteAgentTasks(ids: string[]): Promise<void>;
+  saveRetentionRule(rule: RetentionRule): Promise<void>;
+  getRetentionRule(id: string): Promise<RetentionRule | null>;
+  listRetentionRules(): Promise<RetentionRule[]>;
+  deleteRetentionRule(id: string): Promise<boolean>;
+  saveRetentionRun(run: RetentionRun): Promise<void>;
+  // Newest first
+  listRetentionRuns(limit?: number): Promise<RetentionRun[]>;
+  // Ids of the emails (agent tasks, for purge-agent-tasks) older than before that the
+  // rule still applies to, oldest first
+  findRetentionTargets(rule: RetentionRule, before: Date, limit: number): Promise<string[]>;
+  countRetentionTargets(rule: RetentionRule, before: Date): Promise<number>;
+  // Everything stored about an email address, for data-subject export and erasure
+  findDataSubjectRecords(address: string): Promise<DataSubjectRecords>;
+  deleteEmailSources(emailIds: string[]): Promise<void>;
+  deleteCampaignDrafts(ids: string[]): Promise<void>;
+  saveErasureReport(report: ErasureReport): Promise<void>;
+  // Newest first; with a subject hash, only the erasures of that address
+  listErasureReports(subjectHash?: string, limit?: number): Promise<ErasureReport[]>;
+  // Encryption at rest; these throw unless the database was opened with a key provider
+  getEncryptionStatus(): Promise<EncryptionStatus>;
+  // New content is encrypted with a fresh data key, wrapped with the provider's current key
+  rotateDataKey(): Promise<EncryptionStatus>;
+  // Re-encrypts up to limit items still in plaintext or under an older data key and
+  // resolves to how many it changed; once none are left, unused data keys are dropped
+  reencryptBatch(limit: number): Promise<number>;
+  // The audit log only grows; there is no way to change or remove an entry
+  appendAuditEntry(entry: AuditEntry): Promise<void>;
+  // Newest first
+  listAuditEntries(query?: AuditQuery): Promise<Page<AuditEntry>>;
 }
 
+// Records about one email address, matched case-insensitively
+export interface DataSubjectRecords {
+  // Mail the address sent, and mail it was only a recipient of
+  sentEmailIds: string[];
+  receivedEmailIds: string[];
+  contacts: Contact[];
+  // Campaign drafts addressed to it, each with its recipient profile
+  drafts: EmailDraft[];
+  // Tasks about that mail, or with the address anywhere in their parameters, result or error
+  agentTasks: AgentTask[];
+  // Outbox entries whose last delivery error mentions the address
+  outboxEntries: OutboxEntry[];
+}
+
+// Statements a migration runs; they all join the migration's transaction
+export interface MigrationContext {
+  run(sql: string, params?: any[]): Promise<void>;
+  all(sql: string, params?: any[]): Promise<any[]>;
+  // Databases created before migrations were versioned start at version 0 but may
+  // already have some of the later columns, so adding one is a no-op when it exists
+  addColumn(table: string, column: string, definition: string): Promise<void>;
+  hasColumn(table: string, column: string): Promise<boolean>;
+}
+
+// Migrations are never edited once released; a schema change is a new version
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: MigrationContext): Promise<void>;
+}
+
+export interface SchemaStatus {
+  version: number;
+  latest: number;
+  pending: Array<Pick<Migration, 'version' | 'name'>>;
+}
+
+export interface IAttachmentStore {
+  // Stores the content under its SHA-256 hex digest and returns the digest
+  put(content: Buffer): Promise<string>;
+  get(hash: string): Promise<Buffer | null>;
+  createReadStream(hash: string): Promise<Readable | null>;
+  delete(hash: string): Promise<void>;
+}
+
+// A data key sealed by one of the key provider's keys, which never leave the provider
+export interface WrappedDataKey {
+  keyId: string;
+  wrapped: string;
+}
+
+// Holds the keys that wrap data keys. Data keys are wrapped with the current key and
+// unwrapped with whichever key wrapped them, so older keys stay available after rotate.
+export interface IKeyProvider {
+  currentKeyId(): Promise<string>;
+  wrapKey(dataKey: Buffer): Promise<WrappedDataKey>;
+  unwrapKey(wrapped: WrappedDataKey): Promise<Buffer>;
+  // Makes a new key current and resolves to its id
+  rotate(): Promise<string>;
+}
+
+export interface EncryptionStatus {
+  // Data key new content is encrypted with, and the provider key wrapping it
+  dataKeyId: string;
+  keyId: string;
+  // Emails, sources, attachments and account credentials still in plaintext or under an
+  // older data key
+  pending: number;
+}
+
+export interface AttachmentContent {
+  attachment: EmailAttachment;
+  stream: Readable;
+}
+
+export type EmailSearchSort = 'date' | 'relevance';
+
 export interface EmailSearchQuery {
+  accountId?: string;
+  // Full-text terms, matched against subject, body, sender, recipients and attachment names
+  text?: string;
   from?: string;
   to?: string;
   subject?: string;
@@ -62,13 +337,66 @@ export interface EmailSearchQuery {
   dateTo?: Date;
   isRead?: boolean;
   isStarred?: boolean;
+  isDraft?: boolean;
   labels?: string[];
   limit?: number;
   offset?: number;
+  // nextCursor of the previous page; unlike offset it keeps its place as new mail arrives
+  cursor?: string;
+  // Relevance only applies when the query has full-text terms; otherwise newest first
+  sortBy?: EmailSearchSort;
+  // A parsed query string (see parseSearchQuery), combined with the fields above
+  where?: SearchNode;
+}
+
+// Fields that take free text; from, to, subject, body and filename are full-text matches
+export type SearchTextField = 'from' | 'to' | 'cc' | 'bcc' | 'subject' | 'body' | 'filename';
+export type SearchFlag = 'read' | 'unread' | 'starred' | 'unstarred' | 'draft';
+
+export type SearchNode =
+  | { type: 'and'; children: SearchNode[] }
+  | { type: 'or'; children: SearchNode[] }
+  | { type: 'not'; child: SearchNode }
+  // Without a field the text is matched everywhere; exact text is a quoted phrase
+  | { type: 'text'; field?: SearchTextField; value: string; exact: boolean }
+  | { type: 'label'; label: string }
+  | { type: 'category'; category: EmailCategory }
+  | { type: 'priority'; priority: EmailPriority }
+  | { type: 'flag'; flag: SearchFlag }
+  | { type: 'hasAttachment' }
+  | { type: 'date'; op: 'after' | 'before'; date: Date };
+
+export interface LabelCounts {
+  label: string;
+  total: number;
+  unread: number;
+}
+
+// An address we exchanged mail with, as recorded on sent and received emails
+export interface Correspondent {
+  email: string;
+  // Display names used with the address, most recent first
+  names: string[];
+  firstContactAt: Date;
+  lastContactAt: Date;
+  sentCount: number;
+  receivedCount: number;
+}
+
+export interface EmailSearchHit {
+  email: Email;
+  // BM25 score, lower is better; only set for full-text queries
+  rank?: number;
+  // HTML-escaped text with the matched terms wrapped in <mark>
+  highlights?: {
+    subject: string;
+    body: string;
+  };
 }
 
 export interface EmailThread {
   id: string;
+  accountId?: string;
   subject: string;
   participants: EmailAddress[];
   emails: Email[];
@@ -77,6 +405,43 @@ export interface EmailThread {
   totalCount: number;
 }
 
+// Cursors are opaque: they hold the sort key of the page's last item, so a page does not
+// shift when items are added before it. nextCursor is missing on the last page.
+export interface Page<T> {
+  items: T[];
+  nextCursor?: string;
+  // Counted up to 10000 matches; beyond that it is a lower bound
+  estimatedTotal: number;
+}
+
+// Without a limit the whole listing is one page
+export interface PageRequest {
+  cursor?: string;
+  limit?: number;
+}
+
+export interface ThreadQuery extends PageRequest {
+  accountId?: string;
+}
+
+// Every filter given must match
+export interface AuditQuery extends PageRequest {
+  actor?: string;
+  // An action and the actions under it: campaign matches campaign.approve
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  requestId?: string;
+  since?: Date;
+  until?: Date;
+}
+
+export interface DraftSaveResult {
+  draft: Email;
+  // The draft changed since expectedRevision; draft holds the current version
+  conflict: boolean;
+}
+
 export interface FetchOptions {
   folder?: string;
   limit?: number;
@@ -84,6 +449,66 @@ export interface FetchOptions {
   unreadOnly?: boolean;
 }
 
+export interface MailboxWatchOptions {
+  pollInterval?: number;
+  onError?: (error: Error) => void;
+}
+
+export interface MailboxWatchHandle {
+  mode: 'idle' | 'noop';
+  stop(): Promise<void>;
+}
+
+export interface MailboxSyncState {
+  accountId: string;
+  folder: string;
+  uidValidity: number;
+  highestUid: number;
+  highestModseq?: string;
+  lastSyncedAt: Date;
+}
+
+export interface MailboxSyncOptions {
+  initialLimit?: number;
+}
+
+export interface MailboxSyncResult {
+  uidValidity: number;
+  highestUid: number;
+  highestModseq?: string;
+  uidValidityChanged: boolean;
+  newEmails: Email[];
+  flagUpdates: FlagUpdate[];
+  existingUids: number[];
+}
+
+export interface FlagUpdate {
+  uid: number;
+  isRead: boolean;
+  isStarred: boolean;
+  isDraft: boolean;
+}
+
+export type OutboxState = 'scheduled' | 'queued' | 'sending' | 'sent' | 'failed';
+
+// Delivery record for an outgoing message; the message itself is stored in emails.
+// Scheduled entries go out at nextAttemptAt and stay editable until then
+export interface OutboxEntry {
+  emailId: string;
+  state: OutboxState;
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  sentAt?: Date;
+}
+
+export interface FolderUid {
+  id: string;
+  uid: number;
+}
+
 export interface AgentProcessResult {
   success: boolean;
   modifications?: Partial<Email>;
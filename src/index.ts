@@ -64,14 +64,42 @@ main().catch((error) => {
 });
 
 export * from './models/email.model';
+export * from './models/account.model';
+export * from './models/label.model';
+export * from './models/bulk-operation.model';
+export * from './models/contact.model';
+export * from './models/data-subject.model';
+export * from './models/audit.model';
 export { AgentType, AgentConfig, AgentTask, AgentTypeSchema, AgentConfigSchema, AgentTaskSchema, AgentStatusSchema } from './models/agent.model';
-export { IEmailService, IEmailProvider, IAgent, IAgentOrchestrator, IDatabase, EmailSearchQuery, EmailThread, FetchOptions, AgentProcessResult, AgentAction, ProcessingResult } from './core/interfaces';
+export { IEmailService, IEmailProvider, IAgent, IAgentOrchestrator, IDatabase, EmailSearchQuery, EmailSearchSort, EmailSearchHit, Page, PageRequest, ThreadQuery, AuditQuery, SearchNode, SearchTextField, SearchFlag, EmailThread, FetchOptions, IPushEmailProvider, IDraftEmailProvider, ILabelEmailProvider, IBulkEmailProvider, MessageRef, MessageFlagChanges, LabelCounts, Correspondent, Migration, MigrationContext, SchemaStatus, DraftSaveResult, MailboxWatchOptions, MailboxWatchHandle, ISyncEmailProvider, MailboxSyncState, MailboxSyncOptions, MailboxSyncResult, FlagUpdate, FolderUid, IAttachmentStore, AttachmentContent, IKeyProvider, WrappedDataKey, EncryptionStatus, OutboxEntry, OutboxState, SendOptions, ScheduledEmail, AgentProcessResult, AgentAction, ProcessingResult } from './core/interfaces';
 export * from './services/email.service';
 export * from './services/agent-orchestrator.service';
 export * from './services/database.service';
+export * from './services/mailbox-watcher.service';
+export * from './services/mailbox-sync.service';
+export * from './services/threading.service';
+export * from './services/search-query.parser';
+export * from './services/composer.service';
+export * from './services/mail-archive.service';
+export * from './services/outbox.service';
+export * from './services/account-registry.service';
+export * from './services/label.service';
+export * from './services/bulk-operation.service';
+export * from './services/contact.service';
+export * from './services/vcard.parser';
+export * from './services/attachment-store.service';
+export * from './services/encryption.service';
+export * from './services/key-rotation.service';
+export * from './services/data-subject.service';
+export * from './services/zip.writer';
+export * from './services/audit.service';
 export * from './agents/base.agent';
 export * from './agents/categorizer.agent';
 export * from './agents/prioritizer.agent';
 export * from './agents/summarizer.agent';
 export * from './providers/gmail.provider';
+export * from './providers/imap-smtp.provider';
+export * from './providers/in-memory.provider';
+export * from './providers/maildir.provider';
+export * from './providers/provider.factory';
 export * from './api/server';
\ No newline at end of file
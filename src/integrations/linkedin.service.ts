@@ -382,6 +382,15 @@ export class LinkedInService {
     }
   }
 
+  // A profile fetched earlier, whether or not it is still fresh
+  getCachedProfile(url: string): LinkedInProfile | null {
+    return this.cache.get(url)?.data ?? null;
+  }
+
+  evict(url: string): boolean {
+    return this.cache.delete(url);
+  }
+
   private getCached(key: string): any | null {
     const cached = this.cache.get(key);
     if (cached && Date.now() - cached.timestamp.getTime() < this.cacheTimeout) {
@@ -0,0 +1,51 @@
+import { DatabaseService } from './services/database.service';
+import winston from 'winston';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.json(),
+  defaultMeta: { service: 'migrate' },
+  transports: [
+    new winston.transports.Console({
+      format: winston.format.simple(),
+    }),
+  ],
+});
+
+// npm run migrate             applies every pending migration to DB_PATH
+// npm run migrate -- --status lists pending migrations without applying them
+// npm run migrate -- --to 7   applies pending migrations up to version 7
+async function main(args: string[]): Promise<void> {
+  const toIndex = args.indexOf('--to');
+  const target = toIndex >= 0 ? parseInt(args[toIndex + 1], 10) : undefined;
+  if (target !== undefined && Number.isNaN(target)) {
+    throw new Error('--to needs a schema version');
+  }
+
+  const database = new DatabaseService(process.env.DB_PATH || './emails.db', undefined, { migrate: false });
+  await database.connect();
+  try {
+    const status = await database.getSchemaStatus();
+    logger.info(`Schema is at version ${status.version} of ${status.latest}`);
+
+    if (args.includes('--status')) {
+      for (const migration of status.pending) {
+        logger.info(`Pending: ${migration.version} ${migration.name}`);
+      }
+      return;
+    }
+
+    const applied = await database.migrate(target);
+    logger.info(applied.length > 0 ? `Applied migrations ${applied.join(', ')}` : 'Nothing to migrate');
+  } finally {
+    await database.disconnect();
+  }
+}
+
+main(process.argv.slice(2)).catch(error => {
+  logger.error('Migration failed', error);
+  process.exit(1);
+});
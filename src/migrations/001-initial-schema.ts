@@ -0,0 +1,82 @@
+import { Migration } from '../core/interfaces';
+
+// The schema as it was before migrations were versioned
+export const initialSchema: Migration = {
+  version: 1,
+  name: 'initial-schema',
+  up: async db => {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS emails (
+        id TEXT PRIMARY KEY,
+        messageId TEXT UNIQUE,
+        threadId TEXT,
+        fromEmail TEXT,
+        fromName TEXT,
+        subject TEXT,
+        body TEXT,
+        htmlBody TEXT,
+        snippet TEXT,
+        date INTEGER,
+        priority TEXT,
+        category TEXT,
+        isRead INTEGER,
+        isStarred INTEGER,
+        isDraft INTEGER,
+        metadata TEXT,
+        aiAnalysis TEXT,
+        created_at INTEGER DEFAULT (strftime('%s', 'now'))
+      )
+    `);
+
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS email_recipients (
+        email_id TEXT,
+        type TEXT,
+        email TEXT,
+        name TEXT,
+        FOREIGN KEY (email_id) REFERENCES emails(id)
+      )
+    `);
+
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS email_labels (
+        email_id TEXT,
+        label TEXT,
+        FOREIGN KEY (email_id) REFERENCES emails(id)
+      )
+    `);
+
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS email_attachments (
+        id TEXT PRIMARY KEY,
+        email_id TEXT,
+        filename TEXT,
+        contentType TEXT,
+        size INTEGER,
+        data TEXT,
+        url TEXT,
+        FOREIGN KEY (email_id) REFERENCES emails(id)
+      )
+    `);
+
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS agent_tasks (
+        id TEXT PRIMARY KEY,
+        agentId TEXT,
+        emailId TEXT,
+        action TEXT,
+        parameters TEXT,
+        status TEXT,
+        result TEXT,
+        error TEXT,
+        createdAt INTEGER,
+        completedAt INTEGER
+      )
+    `);
+
+    await db.run('CREATE INDEX IF NOT EXISTS idx_emails_date ON emails(date)');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_emails_category ON emails(category)');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_emails_priority ON emails(priority)');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_agent_tasks_agentId ON agent_tasks(agentId)');
+  },
+};
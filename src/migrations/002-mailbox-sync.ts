@@ -0,0 +1,25 @@
+import { Migration } from '../core/interfaces';
+
+// Folder and UID of each stored message, and per-folder checkpoints for incremental sync
+export const mailboxSync: Migration = {
+  version: 2,
+  name: 'mailbox-sync',
+  up: async db => {
+    await db.addColumn('emails', 'folder', 'TEXT');
+    await db.addColumn('emails', 'uid', 'INTEGER');
+
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS mailbox_sync_state (
+        accountId TEXT,
+        folder TEXT,
+        uidValidity INTEGER,
+        highestUid INTEGER,
+        highestModseq TEXT,
+        lastSyncedAt INTEGER,
+        PRIMARY KEY (accountId, folder)
+      )
+    `);
+
+    await db.run('CREATE INDEX IF NOT EXISTS idx_emails_folder_uid ON emails(folder, uid)');
+  },
+};
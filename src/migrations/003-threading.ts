@@ -0,0 +1,26 @@
+import { Migration } from '../core/interfaces';
+import { normalizeSubject } from '../services/threading.service';
+
+// Reply headers and the normalized subject that threading falls back on
+export const threading: Migration = {
+  version: 3,
+  name: 'threading',
+  up: async db => {
+    await db.addColumn('emails', 'inReplyTo', 'TEXT');
+    await db.addColumn('emails', 'referenceIds', 'TEXT');
+    await db.addColumn('emails', 'normalizedSubject', 'TEXT');
+
+    // Stored mail would otherwise never join a thread by subject
+    const rows = await db.all('SELECT id, subject FROM emails WHERE normalizedSubject IS NULL');
+    for (const row of rows) {
+      await db.run('UPDATE emails SET normalizedSubject = ? WHERE id = ?', [
+        normalizeSubject(row.subject || ''),
+        row.id,
+      ]);
+    }
+
+    await db.run('CREATE INDEX IF NOT EXISTS idx_emails_threadId ON emails(threadId)');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_emails_inReplyTo ON emails(inReplyTo)');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_emails_normalizedSubject ON emails(normalizedSubject)');
+  },
+};
@@ -0,0 +1,16 @@
+import { Migration } from '../core/interfaces';
+
+// The original RFC 822 source of imported messages, for lossless export
+export const emailSources: Migration = {
+  version: 4,
+  name: 'email-sources',
+  up: async db => {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS email_sources (
+        email_id TEXT PRIMARY KEY,
+        raw BLOB,
+        FOREIGN KEY (email_id) REFERENCES emails(id)
+      )
+    `);
+  },
+};
@@ -0,0 +1,14 @@
+import { Migration } from '../core/interfaces';
+
+// Attachment content moves to the blob store; rows keep its hash. Rows with inline
+// data are still read as they are and move over when their email is saved again.
+export const attachmentBlobs: Migration = {
+  version: 5,
+  name: 'attachment-blobs',
+  up: async db => {
+    await db.addColumn('email_attachments', 'contentHash', 'TEXT');
+
+    await db.run('CREATE INDEX IF NOT EXISTS idx_attachments_emailId ON email_attachments(email_id)');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_attachments_contentHash ON email_attachments(contentHash)');
+  },
+};
@@ -0,0 +1,23 @@
+import { Migration } from '../core/interfaces';
+
+export const outbox: Migration = {
+  version: 6,
+  name: 'outbox',
+  up: async db => {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS outbox (
+        email_id TEXT PRIMARY KEY,
+        state TEXT,
+        attempts INTEGER,
+        lastError TEXT,
+        nextAttemptAt INTEGER,
+        createdAt INTEGER,
+        updatedAt INTEGER,
+        sentAt INTEGER,
+        FOREIGN KEY (email_id) REFERENCES emails(id)
+      )
+    `);
+
+    await db.run('CREATE INDEX IF NOT EXISTS idx_outbox_state ON outbox(state, nextAttemptAt)');
+  },
+};
@@ -0,0 +1,81 @@
+import { Migration } from '../core/interfaces';
+
+const EMAIL_COLUMNS = [
+  'id', 'messageId', 'threadId', 'inReplyTo', 'referenceIds', 'normalizedSubject', 'folder', 'uid',
+  'fromEmail', 'fromName', 'subject', 'body', 'htmlBody', 'snippet', 'date', 'priority', 'category',
+  'isRead', 'isStarred', 'isDraft', 'metadata', 'aiAnalysis', 'created_at',
+].join(', ');
+
+// Mail, sync state and agent tasks belong to an account; existing rows go to the default
+// one. A Message-ID is only unique within an account, which SQLite can only change by
+// rebuilding the emails table. Rowids are kept so rows stay matched to other tables.
+export const accounts: Migration = {
+  version: 7,
+  name: 'accounts',
+  up: async db => {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS accounts (
+        id TEXT PRIMARY KEY,
+        name TEXT,
+        email TEXT,
+        provider TEXT,
+        settings TEXT,
+        credentials TEXT,
+        enabled INTEGER,
+        createdAt INTEGER,
+        updatedAt INTEGER
+      )
+    `);
+
+    await db.addColumn('agent_tasks', 'accountId', 'TEXT');
+
+    if (!(await db.hasColumn('emails', 'accountId'))) {
+      await db.run(`
+        CREATE TABLE emails_by_account (
+          id TEXT PRIMARY KEY,
+          accountId TEXT NOT NULL DEFAULT 'default',
+          messageId TEXT,
+          threadId TEXT,
+          inReplyTo TEXT,
+          referenceIds TEXT,
+          normalizedSubject TEXT,
+          folder TEXT,
+          uid INTEGER,
+          fromEmail TEXT,
+          fromName TEXT,
+          subject TEXT,
+          body TEXT,
+          htmlBody TEXT,
+          snippet TEXT,
+          date INTEGER,
+          priority TEXT,
+          category TEXT,
+          isRead INTEGER,
+          isStarred INTEGER,
+          isDraft INTEGER,
+          metadata TEXT,
+          aiAnalysis TEXT,
+          created_at INTEGER DEFAULT (strftime('%s', 'now')),
+          UNIQUE (accountId, messageId)
+        )
+      `);
+      await db.run(
+        `INSERT INTO emails_by_account (rowid, accountId, ${EMAIL_COLUMNS})
+         SELECT rowid, 'default', ${EMAIL_COLUMNS} FROM emails`
+      );
+      await db.run('DROP TABLE emails');
+      await db.run('ALTER TABLE emails_by_account RENAME TO emails');
+
+      // Dropped along with the old table
+      await db.run('CREATE INDEX IF NOT EXISTS idx_emails_date ON emails(date)');
+      await db.run('CREATE INDEX IF NOT EXISTS idx_emails_folder_uid ON emails(folder, uid)');
+      await db.run('CREATE INDEX IF NOT EXISTS idx_emails_threadId ON emails(threadId)');
+      await db.run('CREATE INDEX IF NOT EXISTS idx_emails_inReplyTo ON emails(inReplyTo)');
+      await db.run('CREATE INDEX IF NOT EXISTS idx_emails_normalizedSubject ON emails(normalizedSubject)');
+      await db.run('CREATE INDEX IF NOT EXISTS idx_emails_category ON emails(category)');
+      await db.run('CREATE INDEX IF NOT EXISTS idx_emails_priority ON emails(priority)');
+    }
+
+    await db.run('CREATE INDEX IF NOT EXISTS idx_emails_account_date ON emails(accountId, date)');
+  },
+};
@@ -0,0 +1,30 @@
+import { Migration } from '../core/interfaces';
+
+// FTS5 index over subject, body, sender, recipients and attachment names; its rows
+// share the rowid of their emails row
+export const searchIndex: Migration = {
+  version: 8,
+  name: 'search-index',
+  up: async db => {
+    await db.run(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS emails_fts USING fts5(
+        subject,
+        body,
+        sender,
+        recipients,
+        attachments,
+        tokenize = 'unicode61 remove_diacritics 2'
+      )
+    `);
+
+    await db.run(`
+      INSERT INTO emails_fts (rowid, subject, body, sender, recipients, attachments)
+      SELECT e.rowid, e.subject, e.body, trim(coalesce(e.fromName, '') || ' ' || e.fromEmail),
+        (SELECT group_concat(trim(coalesce(r.name, '') || ' ' || r.email), ' ')
+          FROM email_recipients r WHERE r.email_id = e.id),
+        (SELECT group_concat(a.filename, ' ') FROM email_attachments a WHERE a.email_id = e.id)
+      FROM emails e
+      WHERE e.rowid NOT IN (SELECT rowid FROM emails_fts)
+    `);
+  },
+};
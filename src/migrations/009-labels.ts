@@ -0,0 +1,39 @@
+import { Migration } from '../core/interfaces';
+import { labelPath } from '../models/label.model';
+import { v4 as uuidv4 } from 'uuid';
+
+// First-class labels; the free-form labels already on emails are registered, with their parents
+export const labels: Migration = {
+  version: 9,
+  name: 'labels',
+  up: async db => {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS labels (
+        id TEXT PRIMARY KEY,
+        accountId TEXT NOT NULL,
+        name TEXT NOT NULL COLLATE NOCASE,
+        color TEXT,
+        remoteName TEXT,
+        createdAt INTEGER,
+        updatedAt INTEGER,
+        UNIQUE (accountId, name)
+      )
+    `);
+
+    await db.run('CREATE INDEX IF NOT EXISTS idx_email_labels_emailId ON email_labels(email_id)');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_email_labels_label ON email_labels(label COLLATE NOCASE)');
+
+    const now = Date.now();
+    const rows = await db.all(
+      'SELECT DISTINCT e.accountId, l.label FROM email_labels l JOIN emails e ON e.id = l.email_id'
+    );
+    for (const row of rows) {
+      for (const name of labelPath(row.label)) {
+        await db.run(
+          'INSERT OR IGNORE INTO labels (id, accountId, name, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?)',
+          [uuidv4(), row.accountId, name, now, now]
+        );
+      }
+    }
+  },
+};
@@ -0,0 +1,42 @@
+import { Migration } from '../core/interfaces';
+
+// The contact book; contacts are derived from mail on the next refresh
+export const contacts: Migration = {
+  version: 10,
+  name: 'contacts',
+  up: async db => {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS contacts (
+        id TEXT PRIMARY KEY,
+        accountId TEXT NOT NULL,
+        name TEXT,
+        aliases TEXT,
+        phones TEXT,
+        organization TEXT,
+        notes TEXT,
+        firstContactAt INTEGER,
+        lastContactAt INTEGER,
+        sentCount INTEGER,
+        receivedCount INTEGER,
+        createdAt INTEGER,
+        updatedAt INTEGER
+      )
+    `);
+
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS contact_emails (
+        contact_id TEXT NOT NULL,
+        accountId TEXT NOT NULL,
+        email TEXT NOT NULL,
+        key TEXT NOT NULL,
+        position INTEGER,
+        PRIMARY KEY (accountId, key),
+        FOREIGN KEY (contact_id) REFERENCES contacts(id)
+      )
+    `);
+
+    await db.run('CREATE INDEX IF NOT EXISTS idx_contacts_accountId ON contacts(accountId)');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_contact_emails_contactId ON contact_emails(contact_id)');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_email_recipients_emailId ON email_recipients(email_id)');
+  },
+};
@@ -0,0 +1,87 @@
+import { Migration } from '../core/interfaces';
+
+// Campaigns with their audience segments, templates and generated drafts. Segments and
+// templates are shared between campaigns; the rest of a campaign is kept as JSON.
+export const campaigns: Migration = {
+  version: 11,
+  name: 'campaigns',
+  up: async db => {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS audience_segments (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        criteria TEXT,
+        estimatedSize INTEGER,
+        tags TEXT,
+        dynamicFields TEXT
+      )
+    `);
+
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS email_templates (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        category TEXT,
+        content TEXT,
+        variables TEXT,
+        performance TEXT
+      )
+    `);
+
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS campaigns (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT,
+        status TEXT NOT NULL,
+        type TEXT NOT NULL,
+        segmentId TEXT,
+        schedule TEXT,
+        content TEXT,
+        deliveryConfig TEXT,
+        metrics TEXT,
+        engagementScore REAL,
+        approvalStatus TEXT,
+        createdBy TEXT,
+        createdAt INTEGER,
+        updatedAt INTEGER,
+        FOREIGN KEY (segmentId) REFERENCES audience_segments(id)
+      )
+    `);
+
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS campaign_templates (
+        campaign_id TEXT NOT NULL,
+        template_id TEXT NOT NULL,
+        position INTEGER,
+        PRIMARY KEY (campaign_id, template_id),
+        FOREIGN KEY (campaign_id) REFERENCES campaigns(id),
+        FOREIGN KEY (template_id) REFERENCES email_templates(id)
+      )
+    `);
+
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS campaign_drafts (
+        id TEXT PRIMARY KEY,
+        campaign_id TEXT,
+        status TEXT NOT NULL,
+        recipientEmail TEXT,
+        recipient TEXT,
+        content TEXT,
+        aiGenerated INTEGER,
+        aiScore REAL,
+        personalizations TEXT,
+        metrics TEXT,
+        scheduledAt INTEGER,
+        sentAt INTEGER,
+        createdAt INTEGER,
+        updatedAt INTEGER,
+        FOREIGN KEY (campaign_id) REFERENCES campaigns(id)
+      )
+    `);
+
+    await db.run('CREATE INDEX IF NOT EXISTS idx_campaigns_status ON campaigns(status)');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_campaigns_createdAt ON campaigns(createdAt)');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_campaign_drafts_campaignId ON campaign_drafts(campaign_id)');
+  },
+};
@@ -0,0 +1,250 @@
+import { Migration, MigrationContext } from '../core/interfaces';
+import { v4 as uuidv4 } from 'uuid';
+
+// Threading as ingest did it when this migration was written. It is copied rather than
+// imported so the backfill stays the same whatever later releases do to the service.
+
+const REPLY_PREFIX = /^\s*((re|fwd?|aw|sv|antw)(\[\d+\])?\s*:|\[[^\]]+\])\s*/i;
+const SUBJECT_MATCH_WINDOW = 30 * 24 * 60 * 60 * 1000;
+const COLUMNS = 'id, accountId, messageId, threadId, inReplyTo, referenceIds, subject, date';
+
+interface Row {
+  id: string;
+  accountId: string;
+  messageId: string;
+  threadId: string | null;
+  inReplyTo: string | null;
+  references: string[];
+  subject: string;
+  date: number;
+}
+
+interface Container {
+  messageId: string;
+  row?: Row;
+  parent?: Container;
+  children: Container[];
+}
+
+const normalizeSubject = (subject: string): string => {
+  let normalized = subject;
+  while (REPLY_PREFIX.test(normalized)) {
+    normalized = normalized.replace(REPLY_PREFIX, '');
+  }
+  return normalized.replace(/\s+/g, ' ').trim().toLowerCase();
+};
+
+const isReplySubject = (subject: string): boolean => /^\s*(re|fwd?|aw|sv|antw)(\[\d+\])?\s*:/i.test(subject);
+
+const referenceChain = (row: Row): string[] => {
+  const refs = [...row.references];
+  if (row.inReplyTo && refs[refs.length - 1] !== row.inReplyTo) {
+    refs.push(row.inReplyTo);
+  }
+  return refs.filter(ref => ref !== row.messageId);
+};
+
+const select = async (db: MigrationContext, where: string, params: any[]): Promise<Row[]> =>
+  (await db.all(`SELECT ${COLUMNS} FROM emails WHERE ${where}`, params)).map(row => ({
+    ...row,
+    references: row.referenceIds ? JSON.parse(row.referenceIds) : [],
+    subject: row.subject || '',
+  }));
+
+// JWZ threading (https://www.jwz.org/doc/threading.html): the rows of each thread
+const jwzThreads = (rows: Row[]): Row[][] => {
+  const idTable = new Map<string, Container>();
+
+  const getContainer = (messageId: string): Container => {
+    let container = idTable.get(messageId);
+    if (!container) {
+      container = { messageId, children: [] };
+      idTable.set(messageId, container);
+    }
+    return container;
+  };
+
+  const isAncestor = (candidate: Container, of: Container): boolean => {
+    for (let node: Container | undefined = of; node; node = node.parent) {
+      if (node === candidate) return true;
+    }
+    return false;
+  };
+
+  const link = (parent: Container, child: Container): void => {
+    if (child.parent === parent || isAncestor(child, parent)) return;
+    if (child.parent) {
+      child.parent.children = child.parent.children.filter(c => c !== child);
+    }
+    child.parent = parent;
+    parent.children.push(child);
+  };
+
+  // 1. Build containers and link the reference chains
+  for (const row of rows) {
+    const container = getContainer(row.messageId);
+    if (container.row) {
+      const duplicate = getContainer(`${row.messageId}#${row.id}`);
+      duplicate.row = row;
+      continue;
+    }
+    container.row = row;
+
+    let previous: Container | undefined;
+    for (const ref of referenceChain(row)) {
+      const refContainer = getContainer(ref);
+      if (previous && !refContainer.parent) {
+        link(previous, refContainer);
+      }
+      previous = refContainer;
+    }
+
+    if (previous) {
+      link(previous, container);
+    } else if (container.parent) {
+      container.parent.children = container.parent.children.filter(c => c !== container);
+      container.parent = undefined;
+    }
+  }
+
+  // 2. Find the root set and prune empty containers
+  const prune = (container: Container): Container[] => {
+    container.children = container.children.flatMap(prune);
+    container.children.forEach(child => (child.parent = container));
+    if (container.row) return [container];
+    if (container.children.length === 0) return [];
+    if (!container.parent && container.children.length > 1) return [container];
+    return container.children;
+  };
+
+  const roots = [...idTable.values()].filter(c => !c.parent).flatMap(prune);
+  for (const root of roots) {
+    root.parent = undefined;
+    for (const child of root.children) child.parent = root;
+  }
+
+  // 3. Merge roots that share a normalized subject
+  const subjectOf = (container: Container): string => {
+    const row = container.row || container.children.find(c => c.row)?.row;
+    return row ? normalizeSubject(row.subject) : '';
+  };
+  const isReply = (container: Container): boolean => Boolean(container.row && isReplySubject(container.row.subject));
+
+  const subjectTable = new Map<string, Container>();
+  for (const root of roots) {
+    const subject = subjectOf(root);
+    if (!subject) continue;
+
+    const existing = subjectTable.get(subject);
+    if (
+      !existing ||
+      (existing.row && !root.row) ||
+      (existing.row && root.row && isReply(existing) && !isReply(root))
+    ) {
+      subjectTable.set(subject, root);
+    }
+  }
+
+  const merged: Container[] = [];
+  for (const root of roots) {
+    const subject = subjectOf(root);
+    const target = subject ? subjectTable.get(subject) : undefined;
+
+    if (!target || target === root) {
+      merged.push(root);
+    } else if (!target.row && !root.row) {
+      root.children.forEach(child => link(target, child));
+    } else if (!target.row || (isReply(root) && !isReply(target))) {
+      link(target, root);
+    } else {
+      const group: Container = { messageId: `${target.messageId}#group`, children: [] };
+      const index = merged.indexOf(target);
+      link(group, target);
+      link(group, root);
+      subjectTable.set(subject, group);
+      if (index >= 0) merged[index] = group;
+      else merged.push(group);
+    }
+  }
+
+  // 4. Flatten each tree
+  return merged.map(root => {
+    const threadRows: Row[] = [];
+    const collect = (container: Container): void => {
+      if (container.row) threadRows.push(container.row);
+      container.children.forEach(collect);
+    };
+    collect(root);
+    return threadRows;
+  });
+};
+
+// JWZ over the row and the stored threads it may belong to; threads it joins are merged
+const threadRow = async (db: MigrationContext, row: Row): Promise<string> => {
+  const chain = referenceChain(row);
+  const related =
+    chain.length > 0
+      ? await select(db, `accountId = ? AND messageId IN (${chain.map(() => '?').join(', ')})`, [
+          row.accountId,
+          ...chain,
+        ])
+      : [];
+  for (const messageId of [row.messageId, ...chain]) {
+    related.push(
+      ...(await select(
+        db,
+        'accountId = ? AND (inReplyTo = ? OR EXISTS (SELECT 1 FROM json_each(referenceIds) WHERE value = ?))',
+        [row.accountId, messageId, messageId],
+      )),
+    );
+  }
+
+  const threadIds = new Set<string>();
+  for (const other of related) {
+    if (other.threadId) threadIds.add(other.threadId);
+  }
+  if (isReplySubject(row.subject)) {
+    const [bySubject] = await db.all(
+      `SELECT threadId FROM emails
+       WHERE accountId = ? AND normalizedSubject = ? AND date >= ? AND threadId IS NOT NULL
+       ORDER BY date DESC LIMIT 1`,
+      [row.accountId, normalizeSubject(row.subject), row.date - SUBJECT_MATCH_WINDOW],
+    );
+    if (bySubject) threadIds.add(bySubject.threadId);
+  }
+
+  const stored = new Map(related.map(other => [other.id, other]));
+  for (const threadId of threadIds) {
+    for (const other of await select(db, 'threadId = ?', [threadId])) {
+      stored.set(other.id, other);
+    }
+  }
+  stored.delete(row.id);
+
+  const thread = jwzThreads([row, ...stored.values()])
+    .find(candidate => candidate.some(other => other.id === row.id))!
+    .sort((a, b) => a.date - b.date);
+  const threadId = thread.find(other => other.threadId)?.threadId || uuidv4();
+
+  const merged = new Set<string>();
+  for (const other of thread) {
+    if (other.id !== row.id && other.threadId && other.threadId !== threadId) merged.add(other.threadId);
+  }
+  for (const other of merged) {
+    await db.run('UPDATE emails SET threadId = ? WHERE threadId = ?', [threadId, other]);
+  }
+  return threadId;
+};
+
+// Threads are grouped by thread id in SQL, so mail stored before ids were assigned at
+// ingest gets one, oldest first and by the rules ingest used, so old and new mail
+// thread alike
+export const threadBackfill: Migration = {
+  version: 12,
+  name: 'thread-backfill',
+  up: async db => {
+    for (const row of await select(db, 'threadId IS NULL ORDER BY date ASC', [])) {
+      await db.run('UPDATE emails SET threadId = ? WHERE id = ?', [await threadRow(db, row), row.id]);
+    }
+  },
+};
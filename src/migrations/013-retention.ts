@@ -0,0 +1,37 @@
+import { Migration } from '../core/interfaces';
+
+// Retention rules and the record of every run that applied them
+export const retention: Migration = {
+  version: 13,
+  name: 'retention',
+  up: async db => {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS retention_rules (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        action TEXT NOT NULL,
+        olderThanDays INTEGER NOT NULL,
+        accountId TEXT,
+        category TEXT,
+        labels TEXT,
+        enabled INTEGER NOT NULL,
+        createdAt INTEGER,
+        updatedAt INTEGER
+      )
+    `);
+
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS retention_runs (
+        id TEXT PRIMARY KEY,
+        dryRun INTEGER NOT NULL,
+        startedAt INTEGER NOT NULL,
+        finishedAt INTEGER NOT NULL,
+        results TEXT NOT NULL
+      )
+    `);
+
+    // Mail is found by age through idx_emails_account_date; task history needs its own
+    await db.run('CREATE INDEX IF NOT EXISTS idx_agent_tasks_createdAt ON agent_tasks(createdAt)');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_retention_runs_startedAt ON retention_runs(startedAt)');
+  },
+};
@@ -0,0 +1,26 @@
+import { Migration } from '../core/interfaces';
+
+// Wrapped data keys, and which one each encrypted row or blob was written with, so
+// rotation can find what still needs re-encrypting. NULL means plaintext.
+export const encryption: Migration = {
+  version: 14,
+  name: 'encryption',
+  up: async db => {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS data_keys (
+        id TEXT PRIMARY KEY,
+        keyId TEXT NOT NULL,
+        wrappedKey TEXT NOT NULL,
+        createdAt INTEGER NOT NULL
+      )
+    `);
+
+    await db.addColumn('emails', 'dataKeyId', 'TEXT');
+    await db.addColumn('email_sources', 'dataKeyId', 'TEXT');
+    await db.addColumn('email_attachments', 'dataKeyId', 'TEXT');
+
+    await db.run('CREATE INDEX IF NOT EXISTS idx_emails_dataKeyId ON emails(dataKeyId)');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_email_sources_dataKeyId ON email_sources(dataKeyId)');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_email_attachments_dataKeyId ON email_attachments(dataKeyId)');
+  },
+};
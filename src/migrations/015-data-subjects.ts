@@ -0,0 +1,28 @@
+import { Migration } from '../core/interfaces';
+
+// A record of every data-subject erasure, and indexes to find a person's records by address
+export const dataSubjects: Migration = {
+  version: 15,
+  name: 'data-subjects',
+  up: async db => {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS erasure_reports (
+        id TEXT PRIMARY KEY,
+        subjectHash TEXT NOT NULL,
+        pseudonym TEXT NOT NULL,
+        dryRun INTEGER NOT NULL,
+        requestedAt INTEGER NOT NULL,
+        completedAt INTEGER NOT NULL,
+        counts TEXT NOT NULL,
+        remaining INTEGER NOT NULL
+      )
+    `);
+
+    await db.run('CREATE INDEX IF NOT EXISTS idx_erasure_reports_subjectHash ON erasure_reports(subjectHash)');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_emails_fromEmail ON emails(fromEmail COLLATE NOCASE)');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_email_recipients_email ON email_recipients(email COLLATE NOCASE)');
+    await db.run(
+      'CREATE INDEX IF NOT EXISTS idx_campaign_drafts_recipientEmail ON campaign_drafts(recipientEmail COLLATE NOCASE)',
+    );
+  },
+};
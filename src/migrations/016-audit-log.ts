@@ -0,0 +1,42 @@
+import { Migration } from '../core/interfaces';
+
+// Who changed what. seq orders the log; the triggers keep anything from rewriting it.
+export const auditLog: Migration = {
+  version: 16,
+  name: 'audit-log',
+  up: async db => {
+    await db.run(`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL UNIQUE,
+        timestamp INTEGER NOT NULL,
+        actor TEXT NOT NULL,
+        action TEXT NOT NULL,
+        targetType TEXT NOT NULL,
+        targetId TEXT,
+        requestId TEXT,
+        changes TEXT NOT NULL,
+        metadata TEXT
+      )
+    `);
+
+    await db.run('CREATE INDEX IF NOT EXISTS idx_audit_log_timestamp ON audit_log(timestamp)');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor)');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_audit_log_action ON audit_log(action)');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_audit_log_target ON audit_log(targetType, targetId)');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_audit_log_requestId ON audit_log(requestId)');
+
+    await db.run(`
+      CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END
+    `);
+    await db.run(`
+      CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END
+    `);
+  },
+};
@@ -0,0 +1,10 @@
+import { Migration } from '../core/interfaces';
+
+// Account credentials are encrypted like mail content, so rotation tracks their data key too
+export const accountEncryption: Migration = {
+  version: 17,
+  name: 'account-encryption',
+  up: async db => {
+    await db.addColumn('accounts', 'dataKeyId', 'TEXT');
+  },
+};
@@ -0,0 +1,39 @@
+import { Migration } from '../core/interfaces';
+import { initialSchema } from './001-initial-schema';
+import { mailboxSync } from './002-mailbox-sync';
+import { threading } from './003-threading';
+import { emailSources } from './004-email-sources';
+import { attachmentBlobs } from './005-attachment-blobs';
+import { outbox } from './006-outbox';
+import { accounts } from './007-accounts';
+import { searchIndex } from './008-search-index';
+import { labels } from './009-labels';
+import { contacts } from './010-contacts';
+import { campaigns } from './011-campaigns';
+import { threadBackfill } from './012-thread-backfill';
+import { retention } from './013-retention';
+import { encryption } from './014-encryption';
+import { dataSubjects } from './015-data-subjects';
+import { auditLog } from './016-audit-log';
+import { accountEncryption } from './017-account-encryption';
+
+// In version order; DatabaseService applies the ones a database has not seen yet
+export const MIGRATIONS: Migration[] = [
+  initialSchema,
+  mailboxSync,
+  threading,
+  emailSources,
+  attachmentBlobs,
+  outbox,
+  accounts,
+  searchIndex,
+  labels,
+  contacts,
+  campaigns,
+  threadBackfill,
+  retention,
+  encryption,
+  dataSubjects,
+  auditLog,
+  accountEncryption,
+];
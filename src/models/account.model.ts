@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+// Mail stored before accounts existed, or by a single-account setup, belongs here
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+export const AccountProviderSchema = z.enum(['gmail', 'imap', 'memory', 'maildir']);
+
+export const AccountCredentialsSchema = z.object({
+  pass: z.string().optional(),
+  accessToken: z.string().optional(),
+});
+
+export const AccountSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  email: z.string().email(),
+  provider: AccountProviderSchema,
+  // Non-secret provider settings: imap/smtp endpoints, folders, maildirPath, loopback
+  settings: z.record(z.unknown()),
+  credentials: AccountCredentialsSchema,
+  enabled: z.boolean(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+// Accepted when adding an account; the registry fills in ids and timestamps
+export const AccountInputSchema = AccountSchema.omit({ createdAt: true, updatedAt: true }).partial({
+  id: true,
+  name: true,
+  settings: true,
+  credentials: true,
+  enabled: true,
+});
+
+export type AccountProvider = z.infer<typeof AccountProviderSchema>;
+export type AccountCredentials = z.infer<typeof AccountCredentialsSchema>;
+export type Account = z.infer<typeof AccountSchema>;
+export type AccountInput = z.infer<typeof AccountInputSchema>;
+// What the API returns: everything but the credentials
+export type AccountSummary = Omit<Account, 'credentials'> & { hasCredentials: boolean };
@@ -35,6 +35,7 @@ export const AgentTaskSchema = z.object({
   id: z.string().uuid(),
   agentId: z.string().uuid(),
   emailId: z.string().uuid(),
+  accountId: z.string().optional(),
   action: z.string(),
   parameters: z.record(z.unknown()),
   status: z.enum(['pending', 'processing', 'completed', 'failed']),
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+// Background work (schedulers, queue workers, startup) acts as this actor
+export const SYSTEM_ACTOR = 'system';
+
+// Requests that do not name an actor
+export const ANONYMOUS_ACTOR = 'anonymous';
+
+// One changed field. Message content and addresses are personal data the log must not
+// keep past an erasure, so for those only the fact that they changed is recorded.
+export const AuditChangeSchema = z.object({
+  before: z.unknown().optional(),
+  after: z.unknown().optional(),
+  redacted: z.boolean().optional(),
+});
+
+export const AuditEntrySchema = z.object({
+  id: z.string(),
+  timestamp: z.date(),
+  actor: z.string(),
+  // Dotted, most general part first: email.update, campaign.approve, api.request
+  action: z.string(),
+  targetType: z.string(),
+  targetId: z.string().optional(),
+  // Shared by everything one API request changed
+  requestId: z.string().optional(),
+  // Fields that differ between the target before and after, by name
+  changes: z.record(AuditChangeSchema),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+export type AuditChange = z.infer<typeof AuditChangeSchema>;
+export type AuditEntry = z.infer<typeof AuditEntrySchema>;
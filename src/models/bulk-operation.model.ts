@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { LabelNameSchema } from './label.model';
+
+export const BulkActionSchema = z.enum(['read', 'unread', 'star', 'unstar', 'label', 'unlabel', 'move', 'delete']);
+
+// Emails are picked by id or by a Gmail-style query (see parseSearchQuery)
+export const BulkRequestSchema = z
+  .object({
+    action: BulkActionSchema,
+    ids: z.array(z.string()).optional(),
+    query: z.string().optional(),
+    // Scopes the query, and restricts ids to the account when given with them
+    accountId: z.string().optional(),
+    label: LabelNameSchema.optional(),
+    folder: z.string().min(1).optional(),
+  })
+  .refine(request => (request.ids === undefined) !== (request.query === undefined), {
+    message: 'Pass either ids or query',
+  })
+  .refine(request => !['label', 'unlabel'].includes(request.action) || request.label !== undefined, {
+    message: 'label is required to label or unlabel emails',
+    path: ['label'],
+  })
+  .refine(request => request.action !== 'move' || request.folder !== undefined, {
+    message: 'folder is required to move emails',
+    path: ['folder'],
+  });
+
+export type BulkAction = z.infer<typeof BulkActionSchema>;
+export type BulkRequest = z.infer<typeof BulkRequestSchema>;
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+
+// Mailboxes that ignore dots and +tags in the local part, so those variants are one person
+const DOTLESS_DOMAINS: Record<string, string> = {
+  'gmail.com': 'gmail.com',
+  'googlemail.com': 'gmail.com',
+};
+
+// Key used to deduplicate addresses: case-insensitive, and Gmail variants fold together
+export const contactKey = (address: string): string => {
+  const email = address.trim().toLowerCase();
+  const at = email.lastIndexOf('@');
+  const domain = DOTLESS_DOMAINS[email.slice(at + 1)];
+  if (at < 1 || !domain) {
+    return email;
+  }
+  return `${email.slice(0, at).split('+')[0].replace(/\./g, '')}@${domain}`;
+};
+
+export const ContactSchema = z.object({
+  id: z.string(),
+  accountId: z.string(),
+  name: z.string().optional(),
+  // The first address is the one mail goes to
+  emails: z.array(z.string().email()).min(1),
+  // Other display names this contact has used
+  aliases: z.array(z.string()),
+  phones: z.array(z.string()),
+  organization: z.string().optional(),
+  notes: z.string().optional(),
+  // Derived from mail history and replaced on every refresh
+  firstContactAt: z.date().optional(),
+  lastContactAt: z.date().optional(),
+  sentCount: z.number().int().nonnegative(),
+  receivedCount: z.number().int().nonnegative(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const ContactInputSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  emails: z.array(z.string().trim().email()).min(1),
+  aliases: z.array(z.string().trim().min(1)).optional(),
+  phones: z.array(z.string().trim().min(1)).optional(),
+  organization: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+// null clears an optional field
+export const ContactUpdateSchema = ContactInputSchema.partial().extend({
+  name: z.string().trim().min(1).nullable().optional(),
+  organization: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+export type Contact = z.infer<typeof ContactSchema>;
+export type ContactInput = z.infer<typeof ContactInputSchema>;
+export type ContactUpdate = z.infer<typeof ContactUpdateSchema>;
+export type ContactSummary = Contact & {
+  messageCount: number;
+  // Share of the exchanged mail that we sent; null before any mail was exchanged
+  sentRatio: number | null;
+  // 0 to 1; see relationshipStrength
+  strength: number;
+};
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+
+// Erased addresses become erased-<id>@erased.invalid; .invalid never resolves, so
+// nothing can be delivered to them and contacts are not derived from them
+export const ERASED_DOMAIN = 'erased.invalid';
+
+export const DataSubjectRequestSchema = z.object({
+  email: z.string().trim().email(),
+  // Reports what an erasure would change without changing anything
+  dryRun: z.boolean().default(false),
+});
+
+export const ErasureCountsSchema = z.object({
+  // Mail the person sent is deleted; mail they received keeps only a pseudonym for them
+  // and loses its raw source, which still carries the original headers
+  emailsDeleted: z.number().int().nonnegative(),
+  emailsPseudonymized: z.number().int().nonnegative(),
+  contactsDeleted: z.number().int().nonnegative(),
+  contactsUpdated: z.number().int().nonnegative(),
+  // Campaign drafts addressed to the person, with their recipient profile
+  draftsDeleted: z.number().int().nonnegative(),
+  agentTasksDeleted: z.number().int().nonnegative(),
+  agentTasksPseudonymized: z.number().int().nonnegative(),
+  // Delivery errors that quote the address, on mail that is kept
+  outboxErrorsPseudonymized: z.number().int().nonnegative(),
+  engagementEventsDeleted: z.number().int().nonnegative(),
+  linkedInProfilesEvicted: z.number().int().nonnegative(),
+});
+
+// Kept for every erasure as proof it happened. The address is only kept as a hash,
+// which a later request for the same address can be checked against.
+export const ErasureReportSchema = z.object({
+  id: z.string(),
+  subjectHash: z.string(),
+  pseudonym: z.string(),
+  dryRun: z.boolean(),
+  requestedAt: z.date(),
+  completedAt: z.date(),
+  counts: ErasureCountsSchema,
+  // Records a fresh search for the address still finds afterwards, 0 once erased; for
+  // a dry run, the records it found
+  remaining: z.number().int().nonnegative(),
+});
+
+export type DataSubjectRequest = z.input<typeof DataSubjectRequestSchema>;
+export type ErasureCounts = z.infer<typeof ErasureCountsSchema>;
+export type ErasureReport = z.infer<typeof ErasureReportSchema>;
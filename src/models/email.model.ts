@@ -21,6 +21,7 @@ export const EmailAttachmentSchema = z.object({
   contentType: z.string(),
   size: z.number(),
   data: z.string().optional(),
+  contentHash: z.string().optional(),
   url: z.string().url().optional(),
 });
 
@@ -31,8 +32,13 @@ export const EmailAddressSchema = z.object({
 
 export const EmailSchema = z.object({
   id: z.string().uuid(),
+  accountId: z.string().optional(),
   messageId: z.string(),
   threadId: z.string().optional(),
+  inReplyTo: z.string().optional(),
+  references: z.array(z.string()).optional(),
+  folder: z.string().optional(),
+  uid: z.number().int().optional(),
   from: EmailAddressSchema,
   to: z.array(EmailAddressSchema),
   cc: z.array(EmailAddressSchema).optional(),
@@ -0,0 +1,66 @@
+import { z } from 'zod';
+
+// Labels nest by path, like IMAP folders and Gmail labels: "Work/Projects"
+export const LABEL_DELIMITER = '/';
+
+// Mailboxes every account has; they cannot be renamed or deleted
+export const SYSTEM_LABELS = ['inbox', 'sent', 'drafts', 'outbox', 'trash', 'spam', 'archive'];
+
+export const LabelNameSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(255)
+  .refine(
+    name => name.split(LABEL_DELIMITER).every(part => part.trim().length > 0),
+    'Label names cannot start or end with "/" or contain empty levels',
+  );
+
+export const LabelColorSchema = z.string().regex(/^#[0-9a-f]{6}$/i, 'Colors must be #rrggbb');
+
+export const LabelSchema = z.object({
+  id: z.string(),
+  accountId: z.string(),
+  // Full path; matched case-insensitively
+  name: LabelNameSchema,
+  color: LabelColorSchema.optional(),
+  // Folder or Gmail label on the server, when it differs from the name
+  remoteName: z.string().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const LabelInputSchema = z.object({
+  name: LabelNameSchema,
+  color: LabelColorSchema.optional(),
+  remoteName: z.string().min(1).optional(),
+});
+
+// null clears the color or the remote mapping
+export const LabelUpdateSchema = z.object({
+  name: LabelNameSchema.optional(),
+  color: LabelColorSchema.nullable().optional(),
+  remoteName: z.string().min(1).nullable().optional(),
+});
+
+export type Label = z.infer<typeof LabelSchema>;
+export type LabelInput = z.infer<typeof LabelInputSchema>;
+export type LabelUpdate = z.infer<typeof LabelUpdateSchema>;
+// What the API returns: the label with its place in the tree and message counts
+export type LabelSummary = Label & { parent?: string; system: boolean; total: number; unread: number };
+
+export const isSystemLabel = (name: string): boolean => SYSTEM_LABELS.includes(name.toLowerCase());
+
+export const parentLabel = (name: string): string | undefined => {
+  const index = name.lastIndexOf(LABEL_DELIMITER);
+  return index === -1 ? undefined : name.slice(0, index);
+};
+
+// "a/b/c" -> ["a", "a/b", "a/b/c"]
+export const labelPath = (name: string): string[] =>
+  name.split(LABEL_DELIMITER).map((_part, index, parts) => parts.slice(0, index + 1).join(LABEL_DELIMITER));
+
+// Whether name is label itself or nested anywhere below it
+export const isWithinLabel = (name: string, label: string): boolean =>
+  name.toLowerCase() === label.toLowerCase() ||
+  name.toLowerCase().startsWith(`${label.toLowerCase()}${LABEL_DELIMITER}`);
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { EmailCategorySchema } from './email.model';
+
+// delete removes mail for good, trash moves it to the trash category, strip-attachments
+// keeps the message but drops attachment content, purge-agent-tasks deletes task history
+export const RetentionActionSchema = z.enum(['delete', 'trash', 'strip-attachments', 'purge-agent-tasks']);
+
+export const RetentionRuleInputSchema = z
+  .object({
+    name: z.string().trim().min(1),
+    action: RetentionActionSchema,
+    // Age of the message (by date) or agent task (by creation) before the rule applies
+    olderThanDays: z.number().int().positive(),
+    // Without an account the rule applies to every account
+    accountId: z.string().min(1).optional(),
+    category: EmailCategorySchema.optional(),
+    // Mail with any of these labels
+    labels: z.array(z.string().trim().min(1)).optional(),
+    enabled: z.boolean().default(true),
+  })
+  .refine(rule => rule.action !== 'purge-agent-tasks' || (!rule.category && !rule.labels), {
+    message: 'Agent task rules cannot filter by category or labels',
+  });
+
+export const RetentionRuleSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  action: RetentionActionSchema,
+  olderThanDays: z.number().int().positive(),
+  accountId: z.string().optional(),
+  category: EmailCategorySchema.optional(),
+  labels: z.array(z.string()).optional(),
+  enabled: z.boolean(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const RetentionRuleResultSchema = z.object({
+  ruleId: z.string(),
+  name: z.string(),
+  action: RetentionActionSchema,
+  // Emails or agent tasks the rule matched; applied is 0 on a dry run
+  matched: z.number().int().nonnegative(),
+  applied: z.number().int().nonnegative(),
+  error: z.string().optional(),
+});
+
+// One pass over the enabled rules; every run is kept as a record of what was removed
+export const RetentionRunSchema = z.object({
+  id: z.string(),
+  dryRun: z.boolean(),
+  startedAt: z.date(),
+  finishedAt: z.date(),
+  results: z.array(RetentionRuleResultSchema),
+});
+
+export type RetentionAction = z.infer<typeof RetentionActionSchema>;
+export type RetentionRuleInput = z.input<typeof RetentionRuleInputSchema>;
+export type RetentionRule = z.infer<typeof RetentionRuleSchema>;
+export type RetentionRuleResult = z.infer<typeof RetentionRuleResultSchema>;
+export type RetentionRun = z.infer<typeof RetentionRunSchema>;
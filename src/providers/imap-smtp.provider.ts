@@ -0,0 +1,913 @@
+import {
+  IPushEmailProvider,
+  ISyncEmailProvider,
+  IDraftEmailProvider,
+  ILabelEmailProvider,
+  IBulkEmailProvider,
+  MessageRef,
+  MessageFlagChanges,
+  FetchOptions,
+  MailboxSyncState,
+  MailboxSyncOptions,
+  MailboxSyncResult,
+  FlagUpdate,
+  MailboxWatchOptions,
+  MailboxWatchHandle,
+} from '../core/interfaces';
+import { Email } from '../models/email.model';
+import { mapParsedMail } from './parsed-mail.mapper';
+import { toMailOptions, buildRawMessage } from './mail-options.mapper';
+import nodemailer from 'nodemailer';
+import Imap from 'imap';
+import { simpleParser } from 'mailparser';
+import { Readable } from 'stream';
+import winston from 'winston';
+
+export type ImapAuthMethod = 'password' | 'xoauth2';
+
+export type SpecialFolder = 'inbox' | 'trash' | 'sent' | 'drafts' | 'allMail' | 'junk' | 'archive';
+
+export type FolderMapping = Record<SpecialFolder, string>;
+
+export interface ImapEndpoint {
+  host: string;
+  port?: number;
+  tls?: boolean;
+  rejectUnauthorized?: boolean;
+}
+
+export interface SmtpEndpoint {
+  host: string;
+  port?: number;
+  secure?: boolean;
+  rejectUnauthorized?: boolean;
+}
+
+export interface ImapSmtpConfig {
+  user: string;
+  pass?: string;
+  accessToken?: string;
+  authMethod?: ImapAuthMethod;
+  imap: ImapEndpoint;
+  smtp: SmtpEndpoint;
+  folders?: Partial<FolderMapping>;
+  discoverFolders?: boolean;
+}
+
+interface FetchedMessage {
+  uid: number;
+  flags: string[];
+  email: Email;
+}
+
+const flagsToState = (flags: string[]): Omit<FlagUpdate, 'uid'> => ({
+  isRead: flags.includes('\\Seen'),
+  isStarred: flags.includes('\\Flagged'),
+  isDraft: flags.includes('\\Draft'),
+});
+
+export const DEFAULT_FOLDERS: FolderMapping = {
+  inbox: 'INBOX',
+  trash: 'Trash',
+  sent: 'Sent',
+  drafts: 'Drafts',
+  allMail: 'All Mail',
+  junk: 'Junk',
+  archive: 'Archive',
+};
+
+// RFC 6154 SPECIAL-USE attributes, as returned in LIST responses
+const SPECIAL_USE_ATTRIBUTES: Record<string, SpecialFolder> = {
+  '\\trash': 'trash',
+  '\\sent': 'sent',
+  '\\drafts': 'drafts',
+  '\\all': 'allMail',
+  '\\junk': 'junk',
+  '\\archive': 'archive',
+};
+
+// System labels that live in special folders rather than in a folder of their own name
+export const LABEL_FOLDERS: Record<string, SpecialFolder> = {
+  inbox: 'inbox',
+  sent: 'sent',
+  drafts: 'drafts',
+  trash: 'trash',
+  spam: 'junk',
+  archive: 'archive',
+};
+
+// UIDs per STORE, COPY or MOVE command, keeping command lines a sane length
+const UID_SET_SIZE = 500;
+// Message-IDs ORed into one SEARCH
+const SEARCH_BATCH_SIZE = 50;
+
+// A balanced tree of ORs, so the nesting stays shallow
+const messageIdCriteria = (messageIds: string[]): unknown[] => {
+  if (messageIds.length === 1) {
+    return ['HEADER', 'Message-ID', messageIds[0]];
+  }
+  const middle = Math.ceil(messageIds.length / 2);
+  return ['OR', messageIdCriteria(messageIds.slice(0, middle)), messageIdCriteria(messageIds.slice(middle))];
+};
+
+const walkBoxes = (
+  tree: Imap.MailBoxes,
+  visit: (path: string, box: Imap.Folder) => void,
+  prefix: string = '',
+): void => {
+  for (const [name, box] of Object.entries(tree)) {
+    const path = prefix ? `${prefix}${box.delimiter}${name}` : name;
+    visit(path, box);
+    if (box.children) {
+      walkBoxes(box.children, visit, path);
+    }
+  }
+};
+
+export class ImapSmtpProvider
+  implements IPushEmailProvider, ISyncEmailProvider, IDraftEmailProvider, ILabelEmailProvider, IBulkEmailProvider
+{
+  protected transporter: nodemailer.Transporter | null = null;
+  protected imap: Imap | null = null;
+  protected logger: winston.Logger;
+  // Services connected through this provider; the first opens the connection, the last closes it
+  private sessions = 0;
+  private opening: Promise<void> | null = null;
+  protected readonly defaultFolders: FolderMapping = DEFAULT_FOLDERS;
+  private discoveredFolders: Partial<FolderMapping> = {};
+
+  constructor(
+    protected config: ImapSmtpConfig,
+    serviceName: string = 'imap-smtp-provider',
+  ) {
+    this.logger = winston.createLogger({
+      level: 'info',
+      format: winston.format.json(),
+      defaultMeta: { service: serviceName },
+      transports: [
+        new winston.transports.Console({
+          format: winston.format.simple(),
+        }),
+      ],
+    });
+  }
+
+  async connect(): Promise<void> {
+    this.sessions++;
+    try {
+      this.opening = this.opening || this.open();
+      await this.opening;
+    } catch (error) {
+      this.sessions--;
+      this.opening = null;
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.sessions = Math.max(this.sessions - 1, 0);
+    if (this.sessions > 0) return;
+
+    this.opening = null;
+    if (this.imap) {
+      this.imap.end();
+      this.imap = null;
+    }
+    this.transporter = null;
+    this.logger.info(`Disconnected from ${this.config.imap.host}`);
+  }
+
+  private async open(): Promise<void> {
+    const authMethod = this.config.authMethod || 'password';
+
+    this.transporter = nodemailer.createTransport({
+      host: this.config.smtp.host,
+      port: this.config.smtp.port || 587,
+      secure: this.config.smtp.secure !== undefined ? this.config.smtp.secure : false,
+      auth: authMethod === 'xoauth2'
+        ? { type: 'OAuth2', user: this.config.user, accessToken: this.config.accessToken }
+        : { user: this.config.user, pass: this.config.pass },
+      tls: { rejectUnauthorized: this.config.smtp.rejectUnauthorized !== false },
+    });
+
+    this.imap = this.createImapConnection();
+    await this.connectImap(this.imap);
+    this.logger.info(`IMAP connection established to ${this.config.imap.host}`);
+
+    if (this.config.discoverFolders !== false) {
+      try {
+        this.discoveredFolders = await this.discoverSpecialFolders();
+      } catch (error) {
+        this.logger.warn('Special-use folder discovery failed, using configured folders', error);
+      }
+    }
+  }
+
+  getFolders(): FolderMapping {
+    return {
+      ...this.defaultFolders,
+      ...this.discoveredFolders,
+      ...this.config.folders,
+    };
+  }
+
+  getFolder(folder: SpecialFolder): string {
+    return this.getFolders()[folder];
+  }
+
+  async sendEmail(email: Partial<Email>): Promise<string> {
+    if (!this.transporter) {
+      throw new Error('Not connected to email service');
+    }
+
+    const info = await this.transporter.sendMail(toMailOptions(email, this.config.user));
+    this.logger.info(`Email sent: ${info.messageId}`);
+
+    return info.messageId;
+  }
+
+  getDraftsFolder(): string {
+    return this.getFolder('drafts');
+  }
+
+  async saveDraft(draft: Partial<Email>): Promise<void> {
+    if (!this.imap) {
+      throw new Error('Not connected to IMAP service');
+    }
+
+    const folder = this.getDraftsFolder();
+    await this.openBox(folder);
+
+    // IMAP messages are immutable: append the new version, then drop the old copies
+    const previous = draft.messageId ? await this.findUidsByMessageId(draft.messageId) : [];
+    const raw = await buildRawMessage(draft, this.config.user);
+
+    await new Promise<void>((resolve, reject) => {
+      this.imap!.append(raw, { mailbox: folder, flags: ['Draft', 'Seen'] }, (err) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+
+    await this.expungeUids(previous);
+    this.logger.info(`Draft ${draft.messageId} saved to ${folder}`);
+  }
+
+  async deleteDraft(messageId: string): Promise<void> {
+    if (!this.imap) {
+      throw new Error('Not connected to IMAP service');
+    }
+
+    await this.openBox(this.getDraftsFolder());
+    await this.expungeUids(await this.findUidsByMessageId(messageId));
+  }
+
+  async fetchEmails(options?: FetchOptions): Promise<Email[]> {
+    if (!this.imap) {
+      throw new Error('Not connected to IMAP service');
+    }
+
+    await this.openBox(options?.folder || this.getFolder('inbox'));
+
+    const searchCriteria: unknown[] = options?.unreadOnly ? ['UNSEEN'] : ['ALL'];
+
+    if (options?.since) {
+      searchCriteria.push(['SINCE', options.since]);
+    }
+
+    const results = await new Promise<number[]>((resolve, reject) => {
+      this.imap!.search(searchCriteria, (err, results) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(results);
+        }
+      });
+    });
+
+    const fetchLimit = options?.limit || 50;
+    const folder = options?.folder || this.getFolder('inbox');
+    const messages = await this.fetchMessages(this.imap, results.slice(-fetchLimit), folder);
+    const emails = messages.map(message => ({ ...message.email, folder }));
+
+    this.logger.info(`Fetched ${emails.length} emails`);
+    return emails;
+  }
+
+  async markAsRead(messageId: string): Promise<void> {
+    const uid = await this.findUidByMessageId(messageId);
+    if (uid === null) {
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      this.imap!.addFlags(uid, '\\Seen', (err) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  async moveToFolder(messageId: string, folder: string): Promise<void> {
+    const uid = await this.findUidByMessageId(messageId);
+    if (uid === null) {
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      this.imap!.move(uid, folder, (err) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  async deleteEmail(messageId: string): Promise<void> {
+    await this.moveToFolder(messageId, this.getFolder('trash'));
+  }
+
+  async syncMailbox(
+    folder: string,
+    state: MailboxSyncState | null,
+    options: MailboxSyncOptions = {},
+  ): Promise<MailboxSyncResult> {
+    if (!this.imap) {
+      throw new Error('Not connected to IMAP service');
+    }
+
+    const box = await this.openBox(folder, true);
+    const uidValidityChanged = state !== null && state.uidValidity !== box.uidvalidity;
+    const known = state && !uidValidityChanged ? state : null;
+
+    const existingUids = await new Promise<number[]>((resolve, reject) => {
+      this.imap!.search(['ALL'], (err, results) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(results.sort((a, b) => a - b));
+        }
+      });
+    });
+
+    let newUids = existingUids.filter(uid => !known || uid > known.highestUid);
+    if (!known) {
+      newUids = newUids.slice(-(options.initialLimit || 50));
+    }
+
+    const newEmails = (await this.fetchMessages(this.imap, newUids, folder)).map(message => ({
+      ...message.email,
+      folder,
+    }));
+
+    let flagUpdates: FlagUpdate[] = [];
+    if (known && known.highestUid > 0) {
+      flagUpdates = await this.fetchFlagChanges(known, box);
+    }
+
+    const highestUid = newUids.reduce((max, uid) => Math.max(max, uid), known?.highestUid || 0);
+    this.logger.info(
+      `Synced ${folder}: ${newEmails.length} new, ${flagUpdates.length} flag changes`,
+    );
+
+    return {
+      uidValidity: box.uidvalidity,
+      highestUid,
+      highestModseq: box.highestmodseq || undefined,
+      uidValidityChanged,
+      newEmails,
+      flagUpdates,
+      existingUids,
+    };
+  }
+
+  async watchMailbox(
+    folder: string,
+    onEmails: (emails: Email[]) => Promise<void>,
+    options: MailboxWatchOptions = {},
+  ): Promise<MailboxWatchHandle> {
+    // A dedicated connection, so IDLE is not interrupted by other commands
+    const connection = this.createImapConnection({
+      keepalive: {
+        interval: options.pollInterval || 10000,
+        idleInterval: 300000,
+        forceNoop: false,
+      },
+    });
+    await this.connectImap(connection);
+
+    const box = await this.openBox(folder, true, connection);
+    let lastUid = box.uidnext - 1;
+    let stopped = false;
+    let pending = Promise.resolve();
+
+    const onMail = (): void => {
+      pending = pending
+        .then(async () => {
+          const messages = await this.fetchMessages(connection, `${lastUid + 1}:*`);
+          const fresh = messages.filter(message => message.uid > lastUid);
+          if (fresh.length === 0) return;
+
+          lastUid = Math.max(...fresh.map(message => message.uid));
+          await onEmails(fresh.map(message => message.email));
+        })
+        .catch((err: Error) => {
+          this.logger.error(`Failed to fetch new mail in ${folder}`, err);
+          options.onError?.(err);
+        });
+    };
+
+    connection.on('mail', onMail);
+    connection.on('error', (err: Error) => {
+      this.logger.error(`Watch connection error on ${folder}`, err);
+      options.onError?.(err);
+    });
+    connection.once('close', () => {
+      if (!stopped) {
+        options.onError?.(new Error(`Watch connection for ${folder} closed`));
+      }
+    });
+
+    const mode = connection.serverSupports('IDLE') ? 'idle' : 'noop';
+    this.logger.info(`Watching ${folder} using ${mode.toUpperCase()}`);
+
+    return {
+      mode,
+      stop: async () => {
+        stopped = true;
+        connection.removeListener('mail', onMail);
+        await pending;
+        connection.end();
+      },
+    };
+  }
+
+  // Uses CONDSTORE to fetch only changed flags when the server supports it
+  private async fetchFlagChanges(state: MailboxSyncState, box: Imap.Box): Promise<FlagUpdate[]> {
+    const condstore = Boolean(box.highestmodseq) && this.imap!.serverSupports('CONDSTORE');
+    if (condstore && state.highestModseq === box.highestmodseq) {
+      return [];
+    }
+
+    const updates: FlagUpdate[] = [];
+    const fetch = this.imap!.fetch(`1:${state.highestUid}`, {
+      bodies: [],
+      modifiers: condstore && state.highestModseq ? { changedsince: state.highestModseq } : undefined,
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      fetch.on('message', (msg) => {
+        msg.once('attributes', (attrs: Imap.ImapMessageAttributes) => {
+          if (attrs.uid <= state.highestUid) {
+            updates.push({ uid: attrs.uid, ...flagsToState(attrs.flags) });
+          }
+        });
+      });
+      fetch.once('error', reject);
+      fetch.once('end', () => resolve());
+    });
+
+    return updates;
+  }
+
+  // Every selectable folder that is not a special-use one is a label
+  async listLabels(): Promise<string[]> {
+    const special = new Set(Object.values(this.getFolders()).map(folder => folder.toLowerCase()));
+    const labels: string[] = [];
+
+    walkBoxes(await this.getBoxes(), (path, box) => {
+      const attribs = box.attribs.map(attrib => attrib.toLowerCase());
+      if (
+        !attribs.includes('\\noselect') &&
+        !attribs.some(attrib => SPECIAL_USE_ATTRIBUTES[attrib]) &&
+        !special.has(path.toLowerCase())
+      ) {
+        labels.push(this.folderToLabel(path) || path);
+      }
+    });
+
+    return labels;
+  }
+
+  async createLabel(name: string): Promise<void> {
+    const folder = this.labelToFolder(name);
+    await new Promise<void>((resolve, reject) => {
+      this.requireImap().addBox(folder, (err) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  async renameLabel(from: string, to: string): Promise<void> {
+    const source = this.labelToFolder(from);
+    await new Promise<void>((resolve, reject) => {
+      this.requireImap().renameBox(source, this.labelToFolder(to), (err) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  async deleteLabel(name: string): Promise<void> {
+    const folder = this.labelToFolder(name);
+    await new Promise<void>((resolve, reject) => {
+      this.requireImap().delBox(folder, (err) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  // Folders hold one copy per label
+  async addLabels(messages: MessageRef[], labels: string[]): Promise<void> {
+    await this.forEachFolder(messages, async (source, uids) => {
+      for (const label of labels) {
+        const folder = this.labelToFolder(label);
+        if (folder === source) continue;
+
+        await new Promise<void>((resolve, reject) => {
+          this.imap!.copy(uids, folder, (err) => {
+            if (err) {
+              reject(err);
+            } else {
+              resolve();
+            }
+          });
+        });
+      }
+    });
+  }
+
+  // Removing the label of the folder a message is stored in archives it rather
+  // than deleting the last copy
+  async removeLabels(messages: MessageRef[], labels: string[]): Promise<void> {
+    const archive = this.getFolder('archive');
+
+    for (const label of labels) {
+      const folder = this.labelToFolder(label);
+      const stored = messages.filter(message => this.folderOf(message) === folder);
+      const copies = messages.filter(message => this.folderOf(message) !== folder);
+
+      if (folder !== archive) {
+        await this.moveMessages(stored, archive);
+      }
+      if (copies.length > 0) {
+        await this.openBox(folder);
+        await this.expungeUids(await this.findUidsByMessageIds(copies.map(message => message.messageId)));
+      }
+    }
+  }
+
+  async setFlags(messages: MessageRef[], changes: MessageFlagChanges): Promise<void> {
+    await this.forEachFolder(messages, async (_folder, uids) => {
+      if (changes.isRead !== undefined) {
+        await this.storeFlag(uids, '\\Seen', changes.isRead);
+      }
+      if (changes.isStarred !== undefined) {
+        await this.storeFlag(uids, '\\Flagged', changes.isStarred);
+      }
+    });
+  }
+
+  async moveMessages(messages: MessageRef[], folder: string): Promise<void> {
+    const moving = messages.filter(message => this.folderOf(message) !== folder);
+    await this.forEachFolder(moving, async (_source, uids) => {
+      await new Promise<void>((resolve, reject) => {
+        this.imap!.move(uids, folder, (err) => {
+          if (err) {
+            reject(err);
+          } else {
+            resolve();
+          }
+        });
+      });
+    });
+  }
+
+  async deleteMessages(messages: MessageRef[]): Promise<void> {
+    await this.moveMessages(messages, this.getFolder('trash'));
+  }
+
+  protected labelToFolder(label: string): string {
+    const special = LABEL_FOLDERS[label.toLowerCase()];
+    if (special) {
+      return this.getFolder(special);
+    }
+    const delimiter = this.requireImap().delimiter || '/';
+    return label.split('/').join(delimiter);
+  }
+
+  // Null for folders that are not a label, such as All Mail
+  protected folderToLabel(folder: string): string | null {
+    const folders = this.getFolders();
+    const special = (Object.keys(folders) as SpecialFolder[]).find(
+      key => folders[key].toLowerCase() === folder.toLowerCase(),
+    );
+    if (special) {
+      return Object.keys(LABEL_FOLDERS).find(label => LABEL_FOLDERS[label] === special) || null;
+    }
+    const delimiter = this.imap?.delimiter;
+    return delimiter ? folder.split(delimiter).join('/') : folder;
+  }
+
+  protected messageLabels(folder: string, _attrs: Imap.ImapMessageAttributes): string[] {
+    const label = this.folderToLabel(folder);
+    return label ? [label] : [];
+  }
+
+  protected async openBox(
+    folder: string,
+    readOnly: boolean = false,
+    connection: Imap | null = this.imap,
+  ): Promise<Imap.Box> {
+    if (!connection) {
+      throw new Error('Not connected to IMAP service');
+    }
+
+    return new Promise<Imap.Box>((resolve, reject) => {
+      connection.openBox(folder, readOnly, (err, box) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(box);
+        }
+      });
+    });
+  }
+
+  protected async fetchByUid(uids: number[] | string): Promise<Email[]> {
+    if (!this.imap) {
+      throw new Error('Not connected to IMAP service');
+    }
+
+    const messages = await this.fetchMessages(this.imap, uids);
+    return messages.map(message => message.email);
+  }
+
+  // With a folder, labels come from the server instead of the parser's default
+  protected async fetchMessages(
+    connection: Imap,
+    uids: number[] | string,
+    folder?: string,
+  ): Promise<FetchedMessage[]> {
+    if (Array.isArray(uids) && uids.length === 0) {
+      return [];
+    }
+
+    const parsing: Promise<FetchedMessage | null>[] = [];
+    const fetch = connection.fetch(uids, {
+      bodies: '',
+      struct: true,
+      markSeen: false,
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      fetch.on('message', (msg) => {
+        let body: Promise<Email | null> = Promise.resolve(null);
+        const attributes = new Promise<Imap.ImapMessageAttributes>((resolveAttrs) => {
+          msg.once('attributes', resolveAttrs);
+        });
+
+        msg.on('body', (stream) => {
+          body = simpleParser(stream as unknown as Readable)
+            .then(mapParsedMail)
+            .catch((err: Error) => {
+              this.logger.error('Error parsing email', err);
+              return null;
+            });
+        });
+
+        msg.once('end', () => {
+          parsing.push(
+            Promise.all([body, attributes]).then(([email, attrs]) =>
+              email
+                ? {
+                    uid: attrs.uid,
+                    flags: attrs.flags,
+                    email: {
+                      ...email,
+                      uid: attrs.uid,
+                      ...flagsToState(attrs.flags),
+                      ...(folder ? { labels: this.messageLabels(folder, attrs) } : {}),
+                    },
+                  }
+                : null,
+            ),
+          );
+        });
+      });
+
+      fetch.once('error', (err) => {
+        this.logger.error('Fetch error', err);
+        reject(err);
+      });
+
+      fetch.once('end', () => {
+        resolve();
+      });
+    });
+
+    const messages = await Promise.all(parsing);
+    return messages.filter((message): message is FetchedMessage => message !== null);
+  }
+
+  // Selects each folder once and hands over its messages as UID sets; UIDs the
+  // store does not know are looked up with one search per folder
+  protected async forEachFolder(
+    messages: MessageRef[],
+    operation: (folder: string, uids: number[]) => Promise<void>,
+  ): Promise<void> {
+    const byFolder = new Map<string, MessageRef[]>();
+    for (const message of messages) {
+      const folder = this.folderOf(message);
+      byFolder.set(folder, [...(byFolder.get(folder) || []), message]);
+    }
+
+    for (const [folder, refs] of byFolder) {
+      await this.openBox(folder);
+      const known = refs.map(ref => ref.uid).filter((uid): uid is number => typeof uid === 'number');
+      const unknown = refs.filter(ref => typeof ref.uid !== 'number').map(ref => ref.messageId);
+      const uids = [...known, ...(await this.findUidsByMessageIds(unknown))];
+
+      for (let i = 0; i < uids.length; i += UID_SET_SIZE) {
+        await operation(folder, uids.slice(i, i + UID_SET_SIZE));
+      }
+    }
+  }
+
+  protected folderOf(message: MessageRef): string {
+    return message.folder || this.getFolder('inbox');
+  }
+
+  protected async findUidsByMessageIds(messageIds: string[]): Promise<number[]> {
+    const uids: number[] = [];
+    for (let i = 0; i < messageIds.length; i += SEARCH_BATCH_SIZE) {
+      const criteria = messageIdCriteria(messageIds.slice(i, i + SEARCH_BATCH_SIZE));
+      uids.push(
+        ...(await new Promise<number[]>((resolve, reject) => {
+          this.requireImap().search([criteria], (err, results) => {
+            if (err) {
+              reject(err);
+            } else {
+              resolve(results);
+            }
+          });
+        })),
+      );
+    }
+    return uids;
+  }
+
+  protected async storeFlag(uids: number[], flag: string, set: boolean): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      const callback = (err: Error) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      };
+      if (set) {
+        this.imap!.addFlags(uids, flag, callback);
+      } else {
+        this.imap!.delFlags(uids, flag, callback);
+      }
+    });
+  }
+
+  protected async findUidByMessageId(messageId: string): Promise<number | null> {
+    const uids = await this.findUidsByMessageId(messageId);
+    return uids.length > 0 ? uids[0] : null;
+  }
+
+  protected async findUidsByMessageId(messageId: string): Promise<number[]> {
+    if (!this.imap) {
+      throw new Error('Not connected to IMAP service');
+    }
+
+    return new Promise<number[]>((resolve, reject) => {
+      this.imap!.search([['HEADER', 'Message-ID', messageId]], (err, results) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(results);
+        }
+      });
+    });
+  }
+
+  protected async expungeUids(uids: number[]): Promise<void> {
+    if (uids.length === 0) {
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      this.imap!.addFlags(uids, '\\Deleted', (err) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+
+    // Uses UID EXPUNGE when the server supports UIDPLUS
+    await new Promise<void>((resolve, reject) => {
+      this.imap!.expunge(uids, (err) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  protected createImapConnection(overrides: Partial<Imap.Config> = {}): Imap {
+    const authMethod = this.config.authMethod || 'password';
+
+    return new Imap({
+      user: this.config.user,
+      password: this.config.pass || '',
+      xoauth2: authMethod === 'xoauth2' ? this.buildXOAuth2Token() : undefined,
+      host: this.config.imap.host,
+      port: this.config.imap.port || 993,
+      tls: this.config.imap.tls !== undefined ? this.config.imap.tls : true,
+      tlsOptions: { rejectUnauthorized: this.config.imap.rejectUnauthorized !== false },
+      ...overrides,
+    });
+  }
+
+  protected async connectImap(connection: Imap): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      connection.once('ready', () => {
+        resolve();
+      });
+
+      connection.once('error', (err: Error) => {
+        this.logger.error('IMAP connection error', err);
+        reject(err);
+      });
+
+      connection.connect();
+    });
+  }
+
+  protected requireImap(): Imap {
+    if (!this.imap) {
+      throw new Error('Not connected to IMAP service');
+    }
+    return this.imap;
+  }
+
+  private async getBoxes(): Promise<Imap.MailBoxes> {
+    return new Promise<Imap.MailBoxes>((resolve, reject) => {
+      this.requireImap().getBoxes((err, boxes) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(boxes);
+        }
+      });
+    });
+  }
+
+  private async discoverSpecialFolders(): Promise<Partial<FolderMapping>> {
+    const found: Partial<FolderMapping> = {};
+
+    walkBoxes(await this.getBoxes(), (path, box) => {
+      for (const attrib of box.attribs) {
+        const special = SPECIAL_USE_ATTRIBUTES[attrib.toLowerCase()];
+        if (special && !found[special]) {
+          found[special] = path;
+        }
+      }
+    });
+
+    this.logger.info('Discovered special-use folders', found);
+    return found;
+  }
+
+  private buildXOAuth2Token(): string {
+    const token = `user=${this.config.user}\x01auth=Bearer ${this.config.accessToken || ''}\x01\x01`;
+    return Buffer.from(token).toString('base64');
+  }
+}
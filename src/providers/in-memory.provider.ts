@@ -0,0 +1,463 @@
+import {
+  IPushEmailProvider,
+  ISyncEmailProvider,
+  IDraftEmailProvider,
+  ILabelEmailProvider,
+  IBulkEmailProvider,
+  MessageRef,
+  MessageFlagChanges,
+  FetchOptions,
+  FlagUpdate,
+  MailboxSyncState,
+  MailboxSyncOptions,
+  MailboxSyncResult,
+  MailboxWatchOptions,
+  MailboxWatchHandle,
+} from '../core/interfaces';
+import { Email, EmailSchema } from '../models/email.model';
+import { FolderMapping, DEFAULT_FOLDERS, SpecialFolder } from './imap-smtp.provider';
+import { isSystemLabel, isWithinLabel } from '../models/label.model';
+import { v4 as uuidv4 } from 'uuid';
+import winston from 'winston';
+
+export interface InMemoryProviderConfig {
+  user?: string;
+  folders?: Partial<FolderMapping>;
+  // Mail sent to the configured user is also delivered to the inbox
+  loopback?: boolean;
+}
+
+export type InMemoryOperation =
+  | 'connect'
+  | 'sendEmail'
+  | 'fetchEmails'
+  | 'markAsRead'
+  | 'moveToFolder'
+  | 'deleteEmail'
+  | 'syncMailbox'
+  | 'saveDraft'
+  | 'updateLabels'
+  | 'setFlags'
+  | 'moveMessages'
+  | 'deleteMessages';
+
+// Partial<Email> values may be present but undefined; those must not override defaults
+const definedFields = (email: Partial<Email>): Partial<Email> =>
+  Object.fromEntries(Object.entries(email).filter(([, value]) => value !== undefined));
+
+interface StoredMessage {
+  uid: number;
+  modseq: number;
+  email: Email;
+}
+
+interface MemoryFolder {
+  uidValidity: number;
+  uidNext: number;
+  messages: StoredMessage[];
+}
+
+interface Watcher {
+  folder: string;
+  onEmails: (emails: Email[]) => Promise<void>;
+  onError?: (error: Error) => void;
+}
+
+// A mailbox that lives in process memory: tests and demos script the inbox with
+// deliver() and inspect what the application sent through outbox. Labels work
+// like Gmail's: attributes of the stored message rather than folder copies.
+export class InMemoryProvider
+  implements IPushEmailProvider, ISyncEmailProvider, IDraftEmailProvider, ILabelEmailProvider, IBulkEmailProvider
+{
+  private logger: winston.Logger;
+  private folders = new Map<string, MemoryFolder>();
+  private sent: Email[] = [];
+  private watchers = new Set<Watcher>();
+  private labels = new Set<string>();
+  private failures = new Map<InMemoryOperation, Error[]>();
+  private modseq = 0;
+  // Connected services; like a real provider it stays connected until the last one is done
+  private sessions = 0;
+
+  constructor(private config: InMemoryProviderConfig = {}) {
+    this.logger = winston.createLogger({
+      level: 'info',
+      format: winston.format.json(),
+      defaultMeta: { service: 'in-memory-provider' },
+      transports: [
+        new winston.transports.Console({
+          format: winston.format.simple(),
+        }),
+      ],
+    });
+  }
+
+  get isConnected(): boolean {
+    return this.sessions > 0;
+  }
+
+  get outbox(): Email[] {
+    return this.sent.map(email => ({ ...email }));
+  }
+
+  clearOutbox(): void {
+    this.sent = [];
+  }
+
+  getFolder(folder: SpecialFolder): string {
+    return { ...DEFAULT_FOLDERS, ...this.config.folders }[folder];
+  }
+
+  getMessages(folder: string = this.getFolder('inbox')): Email[] {
+    return this.folderFor(folder).messages.map(message => this.snapshot(message, folder));
+  }
+
+  // Makes the next call to the operation reject with the error
+  failNext(operation: InMemoryOperation, error: Error = new Error(`${operation} failed`)): void {
+    const queue = this.failures.get(operation) || [];
+    queue.push(error);
+    this.failures.set(operation, queue);
+  }
+
+  // Simulates a new UIDVALIDITY, as after a server-side mailbox rebuild
+  resetUidValidity(folder: string = this.getFolder('inbox')): void {
+    const box = this.folderFor(folder);
+    box.uidValidity++;
+    let uid = 1;
+    for (const message of box.messages) {
+      message.uid = uid++;
+    }
+    box.uidNext = uid;
+  }
+
+  deliver(email: Partial<Email>, folder: string = this.getFolder('inbox')): Email {
+    const stored = this.append(folder, {
+      id: uuidv4(),
+      messageId: email.messageId || this.generateMessageId(email.from?.email),
+      from: email.from || { email: 'sender@example.com' },
+      to: email.to || [{ email: this.config.user || 'me@localhost' }],
+      subject: email.subject || '',
+      body: email.body || '',
+      date: email.date || new Date(),
+      priority: 'normal',
+      category: 'primary',
+      labels: ['inbox'],
+      attachments: [],
+      isRead: false,
+      isStarred: false,
+      isDraft: false,
+      ...definedFields(email),
+    });
+
+    this.notify(folder, [stored]);
+    return stored;
+  }
+
+  async connect(): Promise<void> {
+    this.takeFailure('connect');
+    this.sessions++;
+  }
+
+  async disconnect(): Promise<void> {
+    this.sessions = Math.max(this.sessions - 1, 0);
+  }
+
+  async sendEmail(email: Partial<Email>): Promise<string> {
+    this.takeFailure('sendEmail');
+
+    const messageId = email.messageId || this.generateMessageId(email.from?.email);
+    const sent = EmailSchema.parse({
+      id: uuidv4(),
+      from: { email: this.config.user || 'me@localhost' },
+      to: [],
+      subject: '',
+      body: '',
+      priority: 'normal',
+      category: 'sent',
+      labels: ['sent'],
+      attachments: [],
+      isStarred: false,
+      ...definedFields(email),
+      messageId,
+      date: new Date(),
+      isRead: true,
+      isDraft: false,
+    });
+
+    this.sent.push(sent);
+    this.append(this.getFolder('sent'), sent);
+
+    const recipients = [...sent.to, ...(sent.cc || []), ...(sent.bcc || [])];
+    const user = this.config.user?.toLowerCase();
+    if (this.config.loopback && user && recipients.some(r => r.email.toLowerCase() === user)) {
+      this.deliver({ ...sent, id: uuidv4(), isRead: false, category: 'primary', labels: ['inbox'] });
+    }
+
+    this.logger.info(`Captured outgoing email ${messageId}`);
+    return messageId;
+  }
+
+  async fetchEmails(options?: FetchOptions): Promise<Email[]> {
+    this.takeFailure('fetchEmails');
+
+    const folder = options?.folder || this.getFolder('inbox');
+    const emails = this.getMessages(folder).filter(
+      email =>
+        (!options?.unreadOnly || !email.isRead) &&
+        (!options?.since || email.date.getTime() >= options.since.getTime()),
+    );
+
+    return emails.slice(-(options?.limit || 50));
+  }
+
+  async markAsRead(messageId: string): Promise<void> {
+    this.takeFailure('markAsRead');
+
+    for (const message of this.findByMessageId(messageId)) {
+      message.email = { ...message.email, isRead: true };
+      message.modseq = ++this.modseq;
+    }
+  }
+
+  async moveToFolder(messageId: string, folder: string): Promise<void> {
+    this.takeFailure('moveToFolder');
+
+    for (const [name, box] of this.folders) {
+      if (name === folder) continue;
+
+      const moving = box.messages.filter(message => message.email.messageId === messageId);
+      box.messages = box.messages.filter(message => message.email.messageId !== messageId);
+      for (const message of moving) {
+        this.append(folder, message.email);
+      }
+    }
+  }
+
+  async deleteEmail(messageId: string): Promise<void> {
+    this.takeFailure('deleteEmail');
+    await this.moveToFolder(messageId, this.getFolder('trash'));
+  }
+
+  getDraftsFolder(): string {
+    return this.getFolder('drafts');
+  }
+
+  async saveDraft(draft: Partial<Email>): Promise<void> {
+    this.takeFailure('saveDraft');
+
+    await this.deleteDraft(draft.messageId || '');
+    this.append(this.getDraftsFolder(), EmailSchema.parse({
+      id: uuidv4(),
+      messageId: this.generateMessageId(draft.from?.email),
+      from: { email: this.config.user || 'me@localhost' },
+      to: [],
+      subject: '',
+      body: '',
+      priority: 'normal',
+      category: 'draft',
+      labels: ['drafts'],
+      attachments: [],
+      isStarred: false,
+      ...definedFields(draft),
+      date: draft.date || new Date(),
+      isRead: true,
+      isDraft: true,
+    }));
+  }
+
+  async deleteDraft(messageId: string): Promise<void> {
+    const box = this.folderFor(this.getDraftsFolder());
+    box.messages = box.messages.filter(message => message.email.messageId !== messageId);
+  }
+
+  async syncMailbox(
+    folder: string,
+    state: MailboxSyncState | null,
+    options: MailboxSyncOptions = {},
+  ): Promise<MailboxSyncResult> {
+    this.takeFailure('syncMailbox');
+
+    const box = this.folderFor(folder);
+    const uidValidityChanged = state !== null && state.uidValidity !== box.uidValidity;
+    const known = state && !uidValidityChanged ? state : null;
+
+    let fresh = box.messages.filter(message => !known || message.uid > known.highestUid);
+    if (!known) {
+      fresh = fresh.slice(-(options.initialLimit || 50));
+    }
+
+    const since = known?.highestModseq ? parseInt(known.highestModseq, 10) : Infinity;
+    const flagUpdates: FlagUpdate[] = box.messages
+      .filter(message => known && message.uid <= known.highestUid && message.modseq > since)
+      .map(message => ({
+        uid: message.uid,
+        isRead: message.email.isRead,
+        isStarred: message.email.isStarred,
+        isDraft: message.email.isDraft,
+      }));
+
+    return {
+      uidValidity: box.uidValidity,
+      highestUid: fresh.reduce((max, message) => Math.max(max, message.uid), known?.highestUid || 0),
+      highestModseq: this.modseq.toString(),
+      uidValidityChanged,
+      newEmails: fresh.map(message => this.snapshot(message, folder)),
+      flagUpdates,
+      existingUids: box.messages.map(message => message.uid),
+    };
+  }
+
+  async watchMailbox(
+    folder: string,
+    onEmails: (emails: Email[]) => Promise<void>,
+    options: MailboxWatchOptions = {},
+  ): Promise<MailboxWatchHandle> {
+    const watcher: Watcher = { folder, onEmails, onError: options.onError };
+    this.watchers.add(watcher);
+
+    return {
+      mode: 'idle',
+      stop: async () => {
+        this.watchers.delete(watcher);
+      },
+    };
+  }
+
+  async listLabels(): Promise<string[]> {
+    const names = new Set(this.labels);
+    for (const box of this.folders.values()) {
+      for (const message of box.messages) {
+        message.email.labels.filter(label => !isSystemLabel(label)).forEach(label => names.add(label));
+      }
+    }
+    return Array.from(names).sort();
+  }
+
+  async createLabel(name: string): Promise<void> {
+    this.takeFailure('updateLabels');
+    this.labels.add(name);
+  }
+
+  async renameLabel(from: string, to: string): Promise<void> {
+    this.takeFailure('updateLabels');
+
+    const rename = (label: string) => (isWithinLabel(label, from) ? `${to}${label.slice(from.length)}` : label);
+    this.labels = new Set(Array.from(this.labels).map(rename));
+    this.updateMessages(() => true, labels => labels.map(rename));
+  }
+
+  async deleteLabel(name: string): Promise<void> {
+    this.takeFailure('updateLabels');
+
+    this.labels = new Set(Array.from(this.labels).filter(label => !isWithinLabel(label, name)));
+    this.updateMessages(() => true, labels => labels.filter(label => !isWithinLabel(label, name)));
+  }
+
+  async addLabels(messages: MessageRef[], labels: string[]): Promise<void> {
+    this.takeFailure('updateLabels');
+
+    const messageIds = new Set(messages.map(message => message.messageId));
+    this.updateMessages(
+      message => messageIds.has(message.email.messageId),
+      current => [
+        ...current,
+        ...labels.filter(label => !current.some(existing => existing.toLowerCase() === label.toLowerCase())),
+      ],
+    );
+  }
+
+  async removeLabels(messages: MessageRef[], labels: string[]): Promise<void> {
+    this.takeFailure('updateLabels');
+
+    const messageIds = new Set(messages.map(message => message.messageId));
+    const removed = new Set(labels.map(label => label.toLowerCase()));
+    this.updateMessages(
+      message => messageIds.has(message.email.messageId),
+      current => current.filter(label => !removed.has(label.toLowerCase())),
+    );
+  }
+
+  async setFlags(messages: MessageRef[], changes: MessageFlagChanges): Promise<void> {
+    this.takeFailure('setFlags');
+
+    for (const ref of messages) {
+      for (const message of this.findByMessageId(ref.messageId)) {
+        message.email = { ...message.email, ...definedFields(changes) };
+        message.modseq = ++this.modseq;
+      }
+    }
+  }
+
+  async moveMessages(messages: MessageRef[], folder: string): Promise<void> {
+    this.takeFailure('moveMessages');
+
+    for (const message of messages) {
+      await this.moveToFolder(message.messageId, folder);
+    }
+  }
+
+  async deleteMessages(messages: MessageRef[]): Promise<void> {
+    this.takeFailure('deleteMessages');
+    await this.moveMessages(messages, this.getFolder('trash'));
+  }
+
+  private updateMessages(matches: (message: StoredMessage) => boolean, update: (labels: string[]) => string[]): void {
+    for (const box of this.folders.values()) {
+      for (const message of box.messages.filter(matches)) {
+        const labels = update(message.email.labels);
+        if (labels.join('\n') !== message.email.labels.join('\n')) {
+          message.email = { ...message.email, labels };
+          message.modseq = ++this.modseq;
+        }
+      }
+    }
+  }
+
+  private append(folder: string, email: Email): Email {
+    const box = this.folderFor(folder);
+    const message: StoredMessage = { uid: box.uidNext++, modseq: ++this.modseq, email };
+    box.messages.push(message);
+    return this.snapshot(message, folder);
+  }
+
+  private notify(folder: string, emails: Email[]): void {
+    for (const watcher of this.watchers) {
+      if (watcher.folder !== folder) continue;
+      watcher.onEmails(emails).catch((err: Error) => {
+        this.logger.error(`Watcher for ${folder} failed`, err);
+        watcher.onError?.(err);
+      });
+    }
+  }
+
+  private folderFor(folder: string): MemoryFolder {
+    let box = this.folders.get(folder);
+    if (!box) {
+      box = { uidValidity: 1, uidNext: 1, messages: [] };
+      this.folders.set(folder, box);
+    }
+    return box;
+  }
+
+  private findByMessageId(messageId: string): StoredMessage[] {
+    return Array.from(this.folders.values()).flatMap(box =>
+      box.messages.filter(message => message.email.messageId === messageId),
+    );
+  }
+
+  private snapshot(message: StoredMessage, folder: string): Email {
+    return { ...message.email, id: uuidv4(), folder, uid: message.uid };
+  }
+
+  private takeFailure(operation: InMemoryOperation): void {
+    const error = this.failures.get(operation)?.shift();
+    if (error) {
+      throw error;
+    }
+  }
+
+  private generateMessageId(from?: string): string {
+    const domain = (from || this.config.user || '').split('@')[1] || 'localhost';
+    return `<${uuidv4()}@${domain}>`;
+  }
+}
@@ -0,0 +1,34 @@
+import nodemailer from 'nodemailer';
+import MailComposer from 'nodemailer/lib/mail-composer';
+import { Email, EmailAddress } from '../models/email.model';
+
+const formatAddresses = (list?: EmailAddress[]): string | undefined =>
+  list?.map(r => `${r.name || ''} <${r.email}>`).join(', ');
+
+export function toMailOptions(email: Partial<Email>, defaultFrom?: string): nodemailer.SendMailOptions {
+  return {
+    messageId: email.messageId || undefined,
+    inReplyTo: email.inReplyTo,
+    references: email.references,
+    from: `${email.from?.name || ''} <${email.from?.email || defaultFrom || ''}>`,
+    to: formatAddresses(email.to),
+    cc: formatAddresses(email.cc),
+    bcc: formatAddresses(email.bcc),
+    subject: email.subject,
+    text: email.body,
+    html: email.htmlBody,
+    attachments: email.attachments?.map(a => ({
+      filename: a.filename,
+      content: a.data || '',
+      encoding: 'base64',
+      contentType: a.contentType,
+    })),
+  };
+}
+
+// Builds an RFC 822 message; Bcc is kept since the result is stored, not sent
+export async function buildRawMessage(email: Partial<Email>, defaultFrom?: string): Promise<Buffer> {
+  const message = new MailComposer({ ...toMailOptions(email, defaultFrom), date: email.date }).compile();
+  message.keepBcc = true;
+  return message.build();
+}
@@ -0,0 +1,269 @@
+import { IDraftEmailProvider, FetchOptions } from '../core/interfaces';
+import { Email } from '../models/email.model';
+import { FolderMapping, DEFAULT_FOLDERS, SpecialFolder } from './imap-smtp.provider';
+import { mapParsedMail } from './parsed-mail.mapper';
+import { buildRawMessage } from './mail-options.mapper';
+import { simpleParser } from 'mailparser';
+import { promises as fs } from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import os from 'os';
+import path from 'path';
+import winston from 'winston';
+
+export interface MaildirProviderConfig {
+  path: string;
+  user?: string;
+  folders?: Partial<FolderMapping>;
+  // Mail sent to the configured user is also delivered to the inbox
+  loopback?: boolean;
+}
+
+interface MaildirEntry {
+  file: string;
+  folder: string;
+  flags: string;
+}
+
+// Maildir info suffix, e.g. "1700000000.M1P2Q3.host:2,FS"
+const INFO_SEPARATOR = ':2,';
+const SUBDIRS = ['cur', 'new', 'tmp'];
+const HEADER_END = /\r?\n\r?\n/;
+
+const flagsToState = (flags: string): Pick<Email, 'isRead' | 'isStarred' | 'isDraft'> => ({
+  isRead: flags.includes('S'),
+  isStarred: flags.includes('F'),
+  isDraft: flags.includes('D'),
+});
+
+// Maildir++ layout: the inbox is the root, other folders are ".Name" directories
+// with "/" in IMAP-style names replaced by "."
+export class MaildirProvider implements IDraftEmailProvider {
+  private logger: winston.Logger;
+  private counter = 0;
+
+  constructor(private config: MaildirProviderConfig) {
+    this.logger = winston.createLogger({
+      level: 'info',
+      format: winston.format.json(),
+      defaultMeta: { service: 'maildir-provider' },
+      transports: [
+        new winston.transports.Console({
+          format: winston.format.simple(),
+        }),
+      ],
+    });
+  }
+
+  getFolder(folder: SpecialFolder): string {
+    return { ...DEFAULT_FOLDERS, ...this.config.folders }[folder];
+  }
+
+  async connect(): Promise<void> {
+    for (const folder of ['inbox', 'sent', 'drafts', 'trash'] as SpecialFolder[]) {
+      await this.ensureFolder(this.getFolder(folder));
+    }
+    this.logger.info(`Using Maildir at ${this.config.path}`);
+  }
+
+  async disconnect(): Promise<void> {
+    // Nothing to release; every operation works directly on the directory tree
+  }
+
+  async sendEmail(email: Partial<Email>): Promise<string> {
+    const from = email.from || { email: this.config.user || 'me@localhost' };
+    const messageId = email.messageId || this.generateMessageId(from.email);
+    const raw = await buildRawMessage({ ...email, from, messageId, date: new Date() }, this.config.user);
+
+    await this.writeMessage(this.getFolder('sent'), raw, 'S');
+
+    const recipients = [...(email.to || []), ...(email.cc || []), ...(email.bcc || [])];
+    const user = this.config.user?.toLowerCase();
+    if (this.config.loopback && user && recipients.some(r => r.email.toLowerCase() === user)) {
+      await this.writeMessage(this.getFolder('inbox'), raw);
+    }
+
+    this.logger.info(`Email ${messageId} written to ${this.getFolder('sent')}`);
+    return messageId;
+  }
+
+  async fetchEmails(options?: FetchOptions): Promise<Email[]> {
+    const folder = options?.folder || this.getFolder('inbox');
+    const entries = await this.listEntries(folder);
+    const emails: Email[] = [];
+
+    for (const entry of entries) {
+      const email = await this.readEmail(entry);
+      if (options?.unreadOnly && email.isRead) continue;
+      if (options?.since && email.date.getTime() < options.since.getTime()) continue;
+      emails.push(email);
+    }
+
+    emails.sort((a, b) => a.date.getTime() - b.date.getTime());
+    return emails.slice(-(options?.limit || 50));
+  }
+
+  async markAsRead(messageId: string): Promise<void> {
+    for (const entry of await this.findByMessageId(messageId)) {
+      await this.setFlags(entry, this.addFlag(entry.flags, 'S'));
+    }
+  }
+
+  async moveToFolder(messageId: string, folder: string): Promise<void> {
+    await this.ensureFolder(folder);
+
+    for (const entry of await this.findByMessageId(messageId)) {
+      if (entry.folder === folder) continue;
+      await fs.rename(entry.file, path.join(this.folderPath(folder), 'cur', path.basename(entry.file)));
+    }
+  }
+
+  async deleteEmail(messageId: string): Promise<void> {
+    await this.moveToFolder(messageId, this.getFolder('trash'));
+  }
+
+  getDraftsFolder(): string {
+    return this.getFolder('drafts');
+  }
+
+  async saveDraft(draft: Partial<Email>): Promise<void> {
+    const from = draft.from || { email: this.config.user || 'me@localhost' };
+    const messageId = draft.messageId || this.generateMessageId(from.email);
+    const raw = await buildRawMessage({ ...draft, from, messageId }, this.config.user);
+
+    // Write the new version before removing the old one, like an IMAP APPEND + EXPUNGE
+    const previous = await this.findByMessageId(messageId, [this.getDraftsFolder()]);
+    await this.writeMessage(this.getDraftsFolder(), raw, 'DS');
+    for (const entry of previous) {
+      await fs.rm(entry.file, { force: true });
+    }
+  }
+
+  async deleteDraft(messageId: string): Promise<void> {
+    for (const entry of await this.findByMessageId(messageId, [this.getDraftsFolder()])) {
+      await fs.rm(entry.file, { force: true });
+    }
+  }
+
+  async listFolders(): Promise<string[]> {
+    const entries = await fs.readdir(this.config.path, { withFileTypes: true }).catch(() => []);
+    return [
+      this.getFolder('inbox'),
+      ...entries
+        .filter(entry => entry.isDirectory() && entry.name.startsWith('.'))
+        .map(entry => entry.name.slice(1).split('.').join('/')),
+    ];
+  }
+
+  private async readEmail(entry: MaildirEntry): Promise<Email> {
+    const parsed = await simpleParser(await fs.readFile(entry.file));
+    return { ...mapParsedMail(parsed), ...flagsToState(entry.flags), folder: entry.folder };
+  }
+
+  private async listEntries(folder: string): Promise<MaildirEntry[]> {
+    const root = this.folderPath(folder);
+    const entries: MaildirEntry[] = [];
+
+    // Messages in new/ have not been seen by a client yet; move them to cur/ as MUAs do
+    for (const name of await this.readDir(path.join(root, 'new'))) {
+      await fs.rename(path.join(root, 'new', name), path.join(root, 'cur', `${name}${INFO_SEPARATOR}`));
+    }
+
+    for (const name of await this.readDir(path.join(root, 'cur'))) {
+      const separator = name.indexOf(INFO_SEPARATOR);
+      entries.push({
+        file: path.join(root, 'cur', name),
+        folder,
+        flags: separator === -1 ? '' : name.slice(separator + INFO_SEPARATOR.length),
+      });
+    }
+
+    return entries;
+  }
+
+  private async findByMessageId(messageId: string, folders?: string[]): Promise<MaildirEntry[]> {
+    const matches: MaildirEntry[] = [];
+
+    for (const folder of folders || (await this.listFolders())) {
+      for (const entry of await this.listEntries(folder)) {
+        if ((await this.readMessageId(entry.file)) === messageId) {
+          matches.push(entry);
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  // Reads just the header block, which is enough to match on Message-ID
+  private async readMessageId(file: string): Promise<string | null> {
+    const handle = await fs.open(file, 'r');
+    try {
+      const buffer = Buffer.alloc(16384);
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+      const header = buffer.subarray(0, bytesRead).toString('latin1').split(HEADER_END)[0];
+      const match = header.replace(/\r?\n[ \t]+/g, ' ').match(/^message-id:\s*(<[^>]+>)/im);
+      return match ? match[1] : null;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private async writeMessage(folder: string, raw: Buffer, flags?: string): Promise<string> {
+    await this.ensureFolder(folder);
+
+    const root = this.folderPath(folder);
+    const name = `${Date.now()}.M${uuidv4().slice(0, 8)}P${process.pid}Q${++this.counter}.${os.hostname()}`;
+    const temp = path.join(root, 'tmp', name);
+    const target =
+      flags === undefined
+        ? path.join(root, 'new', name)
+        : path.join(root, 'cur', `${name}${INFO_SEPARATOR}${this.sortFlags(flags)}`);
+
+    await fs.writeFile(temp, raw);
+    await fs.rename(temp, target);
+    return target;
+  }
+
+  private async setFlags(entry: MaildirEntry, flags: string): Promise<void> {
+    const name = `${path.basename(entry.file).split(INFO_SEPARATOR)[0]}${INFO_SEPARATOR}${flags}`;
+    await fs.rename(entry.file, path.join(path.dirname(entry.file), name));
+  }
+
+  private addFlag(flags: string, flag: string): string {
+    return flags.includes(flag) ? flags : this.sortFlags(flags + flag);
+  }
+
+  private sortFlags(flags: string): string {
+    return flags.split('').sort().join('');
+  }
+
+  private folderPath(folder: string): string {
+    if (folder.toUpperCase() === this.getFolder('inbox').toUpperCase()) {
+      return this.config.path;
+    }
+    if (folder.includes('..') || folder.startsWith('.')) {
+      throw new Error(`Invalid folder name: ${folder}`);
+    }
+    return path.join(this.config.path, `.${folder.split('/').join('.')}`);
+  }
+
+  private async ensureFolder(folder: string): Promise<void> {
+    const root = this.folderPath(folder);
+    for (const subdir of SUBDIRS) {
+      await fs.mkdir(path.join(root, subdir), { recursive: true });
+    }
+  }
+
+  private async readDir(directory: string): Promise<string[]> {
+    try {
+      return (await fs.readdir(directory)).filter(name => !name.startsWith('.')).sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private generateMessageId(from: string): string {
+    return `<${uuidv4()}@${from.split('@')[1] || 'localhost'}>`;
+  }
+}
@@ -0,0 +1,45 @@
+import { AddressObject, ParsedMail } from 'mailparser';
+import { Email, EmailAddress } from '../models/email.model';
+import { v4 as uuidv4 } from 'uuid';
+
+const toAddresses = (value?: AddressObject | AddressObject[]): EmailAddress[] => {
+  const objects = Array.isArray(value) ? value : value ? [value] : [];
+  return objects.flatMap(obj => obj.value).map(addr => ({
+    email: addr.address || '',
+    name: addr.name || undefined,
+  }));
+};
+
+export function mapParsedMail(parsed: ParsedMail): Email {
+  return {
+    id: uuidv4(),
+    messageId: parsed.messageId || uuidv4(),
+    inReplyTo: parsed.inReplyTo || undefined,
+    references: typeof parsed.references === 'string' ? [parsed.references] : parsed.references,
+    from: {
+      email: parsed.from?.value[0]?.address || '',
+      name: parsed.from?.value[0]?.name || undefined,
+    },
+    to: toAddresses(parsed.to),
+    cc: toAddresses(parsed.cc),
+    bcc: toAddresses(parsed.bcc),
+    subject: parsed.subject || '',
+    body: parsed.text || '',
+    htmlBody: parsed.html || undefined,
+    snippet: (parsed.text || '').substring(0, 200),
+    date: parsed.date || new Date(),
+    priority: 'normal',
+    category: 'primary',
+    labels: ['inbox'],
+    attachments: parsed.attachments.map(att => ({
+      id: uuidv4(),
+      filename: att.filename || 'attachment',
+      contentType: att.contentType || 'application/octet-stream',
+      size: att.size || 0,
+      data: att.content?.toString('base64'),
+    })),
+    isRead: false,
+    isStarred: false,
+    isDraft: false,
+  };
+}
@@ -0,0 +1,118 @@
+import { IEmailProvider } from '../core/interfaces';
+import { GmailProvider } from './gmail.provider';
+import { ImapSmtpProvider, ImapSmtpConfig, ImapAuthMethod, FolderMapping } from './imap-smtp.provider';
+import { InMemoryProvider } from './in-memory.provider';
+import { MaildirProvider } from './maildir.provider';
+import { Account, AccountInput } from '../models/account.model';
+
+export type ProviderKind = 'gmail' | 'imap' | 'memory' | 'maildir';
+
+export interface ProviderSettings extends ImapSmtpConfig {
+  kind: ProviderKind;
+  maildirPath?: string;
+  // memory and maildir: deliver mail addressed to the user back into the inbox
+  loopback?: boolean;
+}
+
+const parseBoolean = (value: string | undefined): boolean | undefined => {
+  if (value === undefined || value === '') return undefined;
+  return value.toLowerCase() === 'true' || value === '1';
+};
+
+const parsePort = (value: string | undefined): number | undefined => {
+  if (!value) return undefined;
+  const port = parseInt(value, 10);
+  return isNaN(port) ? undefined : port;
+};
+
+export function providerSettingsFromEnv(env: NodeJS.ProcessEnv = process.env): ProviderSettings {
+  const folders: Partial<FolderMapping> = {};
+  if (env.IMAP_FOLDER_TRASH) folders.trash = env.IMAP_FOLDER_TRASH;
+  if (env.IMAP_FOLDER_SENT) folders.sent = env.IMAP_FOLDER_SENT;
+  if (env.IMAP_FOLDER_DRAFTS) folders.drafts = env.IMAP_FOLDER_DRAFTS;
+  if (env.IMAP_FOLDER_ALL_MAIL) folders.allMail = env.IMAP_FOLDER_ALL_MAIL;
+
+  return {
+    kind: (env.EMAIL_PROVIDER as ProviderKind) || 'gmail',
+    user: env.EMAIL_USER || '',
+    pass: env.EMAIL_PASS || '',
+    accessToken: env.EMAIL_ACCESS_TOKEN,
+    authMethod: (env.EMAIL_AUTH_METHOD as ImapAuthMethod) || 'password',
+    imap: {
+      host: env.IMAP_HOST || 'imap.gmail.com',
+      port: parsePort(env.IMAP_PORT),
+      tls: parseBoolean(env.IMAP_TLS),
+      rejectUnauthorized: parseBoolean(env.IMAP_REJECT_UNAUTHORIZED),
+    },
+    smtp: {
+      host: env.SMTP_HOST || 'smtp.gmail.com',
+      port: parsePort(env.SMTP_PORT),
+      secure: parseBoolean(env.SMTP_SECURE),
+      rejectUnauthorized: parseBoolean(env.SMTP_REJECT_UNAUTHORIZED),
+    },
+    folders,
+    discoverFolders: parseBoolean(env.IMAP_DISCOVER_FOLDERS),
+    maildirPath: env.MAILDIR_PATH,
+    loopback: parseBoolean(env.EMAIL_LOOPBACK),
+  };
+}
+
+// Stored accounts only keep overrides; everything else falls back to the same
+// defaults as an env-configured mailbox
+export function providerSettingsForAccount(account: Account): ProviderSettings {
+  const defaults = providerSettingsFromEnv({});
+  const settings = account.settings as Partial<ProviderSettings>;
+
+  return {
+    ...defaults,
+    ...settings,
+    kind: account.provider,
+    user: account.email,
+    pass: account.credentials.pass,
+    accessToken: account.credentials.accessToken,
+    imap: { ...defaults.imap, ...settings.imap },
+    smtp: { ...defaults.smtp, ...settings.smtp },
+  };
+}
+
+export function accountInputFromSettings(settings: ProviderSettings, id: string, name: string): AccountInput {
+  const { kind, user, pass, accessToken, ...rest } = settings;
+  return {
+    id,
+    name,
+    email: user,
+    provider: kind,
+    settings: rest,
+    credentials: { pass, accessToken },
+  };
+}
+
+export function createEmailProvider(settings: ProviderSettings): IEmailProvider {
+  switch (settings.kind) {
+    case 'gmail':
+      return new GmailProvider({
+        user: settings.user,
+        pass: settings.pass || '',
+        host: settings.smtp.host,
+        port: settings.smtp.port,
+        secure: settings.smtp.secure,
+      });
+    case 'imap':
+      return new ImapSmtpProvider(settings);
+    case 'memory':
+      return new InMemoryProvider({
+        user: settings.user || undefined,
+        folders: settings.folders,
+        loopback: settings.loopback,
+      });
+    case 'maildir':
+      return new MaildirProvider({
+        path: settings.maildirPath || './maildir',
+        user: settings.user || undefined,
+        folders: settings.folders,
+        loopback: settings.loopback,
+      });
+    default:
+      throw new Error(`Unknown email provider: ${settings.kind as string}`);
+  }
+}
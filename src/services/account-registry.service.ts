@@ -0,0 +1,180 @@
+import { Account, AccountInput, AccountInputSchema, AccountSummary } from '../models/account.model';
+import { IEmailProvider, IDatabase } from '../core/interfaces';
+import { ProviderSettings, createEmailProvider, providerSettingsForAccount } from '../providers/provider.factory';
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import winston from 'winston';
+
+export type ProviderFactory = (settings: ProviderSettings) => IEmailProvider;
+
+export interface AddAccountOptions {
+  // Connect once with the new settings first, and store nothing if that fails
+  verify?: boolean;
+}
+
+export interface RemoveAccountOptions {
+  // Also delete every email stored for the account
+  purgeMail?: boolean;
+}
+
+export const toAccountSummary = ({ credentials, ...account }: Account): AccountSummary => ({
+  ...account,
+  hasCredentials: Boolean(credentials.pass || credentials.accessToken),
+});
+
+// Keeps the configured mailboxes and one provider instance per enabled account. The
+// registry holds no connection itself: every service connects the provider for its work
+// and disconnects after, and the provider closes once the last of them is done. A
+// replaced or removed provider is simply dropped, so work already using it can finish.
+export class AccountRegistry extends EventEmitter {
+  private logger: winston.Logger;
+  private accounts = new Map<string, Account>();
+  private providers = new Map<string, IEmailProvider>();
+
+  constructor(
+    private database: IDatabase,
+    private providerFactory: ProviderFactory = createEmailProvider,
+  ) {
+    super();
+    this.logger = winston.createLogger({
+      level: 'info',
+      format: winston.format.json(),
+      defaultMeta: { service: 'account-registry' },
+      transports: [
+        new winston.transports.Console({
+          format: winston.format.simple(),
+        }),
+      ],
+    });
+  }
+
+  async load(): Promise<Account[]> {
+    for (const account of await this.database.listAccounts()) {
+      this.register(account);
+    }
+    this.logger.info(`Loaded ${this.accounts.size} accounts`);
+    return this.list();
+  }
+
+  list(): Account[] {
+    return Array.from(this.accounts.values());
+  }
+
+  get(id: string): Account | null {
+    return this.accounts.get(id) || null;
+  }
+
+  getProvider(id: string): IEmailProvider | null {
+    return this.providers.get(id) || null;
+  }
+
+  async add(input: AccountInput, options: AddAccountOptions = {}): Promise<Account> {
+    const parsed = AccountInputSchema.parse(input);
+    if (parsed.id && this.accounts.has(parsed.id)) {
+      throw new Error(`Account ${parsed.id} already exists`);
+    }
+
+    const now = new Date();
+    const account: Account = {
+      id: parsed.id || uuidv4(),
+      name: parsed.name || parsed.email,
+      email: parsed.email,
+      provider: parsed.provider,
+      settings: parsed.settings || {},
+      credentials: parsed.credentials || {},
+      enabled: parsed.enabled ?? true,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    // Build the provider before persisting so bad settings never get stored, and register
+    // the account only once it is
+    const provider = this.createProvider(account);
+    if (options.verify) {
+      await this.connectOnce(provider || this.providerFactory(providerSettingsForAccount(account)));
+    }
+    await this.database.saveAccount(account);
+    this.register(account, provider);
+
+    this.logger.info(`Account ${account.id} (${account.email}) added`);
+    this.emit('account-added', account);
+    return account;
+  }
+
+  // Credentials are replaced as a whole; settings are merged into the stored ones
+  async update(id: string, changes: Partial<AccountInput>): Promise<Account | null> {
+    const current = this.accounts.get(id);
+    if (!current) {
+      return null;
+    }
+
+    const parsed = AccountInputSchema.partial().parse(changes);
+    const account: Account = {
+      ...current,
+      name: parsed.name ?? current.name,
+      email: parsed.email ?? current.email,
+      provider: parsed.provider ?? current.provider,
+      settings: parsed.settings ? { ...current.settings, ...parsed.settings } : current.settings,
+      credentials: parsed.credentials ?? current.credentials,
+      enabled: parsed.enabled ?? current.enabled,
+      updatedAt: new Date(),
+    };
+
+    const provider = this.createProvider(account);
+    await this.database.saveAccount(account);
+    this.register(account, provider);
+
+    this.logger.info(`Account ${id} updated`);
+    this.emit('account-updated', account);
+    return account;
+  }
+
+  async remove(id: string, options: RemoveAccountOptions = {}): Promise<boolean> {
+    const account = this.accounts.get(id);
+    if (!account) {
+      return false;
+    }
+
+    this.emit('account-removed', account);
+    this.providers.delete(id);
+    this.accounts.delete(id);
+    await this.database.deleteAccount(id);
+
+    if (options.purgeMail) {
+      for (const email of await this.database.searchEmails({ accountId: id })) {
+        await this.database.deleteEmail(email.id);
+      }
+    }
+
+    this.logger.info(`Account ${id} removed`);
+    return true;
+  }
+
+  // Connects and disconnects once to check the settings and credentials
+  async verify(id: string): Promise<void> {
+    const provider = this.providers.get(id);
+    if (!provider) {
+      throw new Error(`Account ${id} is not enabled`);
+    }
+
+    await this.connectOnce(provider);
+  }
+
+  private async connectOnce(provider: IEmailProvider): Promise<void> {
+    await provider.connect();
+    await provider.disconnect();
+  }
+
+  private createProvider(account: Account): IEmailProvider | null {
+    return account.enabled ? this.providerFactory(providerSettingsForAccount(account)) : null;
+  }
+
+  private register(account: Account, provider = this.createProvider(account)): void {
+    if (provider) {
+      this.providers.set(account.id, provider);
+    } else {
+      this.providers.delete(account.id);
+    }
+    this.accounts.set(account.id, account);
+  }
+}
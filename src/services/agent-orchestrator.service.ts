@@ -1,6 +1,7 @@
 import { Email } from '../models/email.model';
 import { AgentTask } from '../models/agent.model';
 import { IAgent, IAgentOrchestrator, ProcessingResult, AgentStatus, IDatabase } from '../core/interfaces';
+import { AuditLogService } from './audit.service';
 import { v4 as uuidv4 } from 'uuid';
 import winston from 'winston';
 import Bull from 'bull';
@@ -10,9 +11,11 @@ export class AgentOrchestrator implements IAgentOrchestrator {
   private logger: winston.Logger;
   private processingQueue: Bull.Queue;
   private database: IDatabase;
+  private audit?: AuditLogService;
 
-  constructor(database: IDatabase, redisUrl?: string) {
+  constructor(database: IDatabase, redisUrl?: string, audit?: AuditLogService) {
     this.database = database;
+    this.audit = audit;
     this.logger = winston.createLogger({
       level: 'info',
       format: winston.format.json(),
@@ -49,6 +52,7 @@ export class AgentOrchestrator implements IAgentOrchestrator {
     }
 
     this.agents.set(agent.id, agent);
+    this.recordAudit('agent.register', null, agent);
     this.logger.info(`Agent ${agent.name} (${agent.id}) registered`);
   }
 
@@ -59,9 +63,24 @@ export class AgentOrchestrator implements IAgentOrchestrator {
     }
 
     this.agents.delete(agentId);
+    this.recordAudit('agent.unregister', agent, null);
     this.logger.info(`Agent ${agent.name} (${agentId}) unregistered`);
   }
 
+  // Registration stays synchronous; the entry is written in the background and a
+  // failed write is logged by the audit log itself
+  private recordAudit(action: string, before: IAgent | null, after: IAgent | null): void {
+    const agent = (after || before)!;
+    const describe = (entry: IAgent | null) => entry && { name: entry.name, type: entry.type };
+    void this.audit?.record({
+      action,
+      targetType: 'agent',
+      targetId: agent.id,
+      before: describe(before),
+      after: describe(after),
+    });
+  }
+
   async processEmail(email: Email): Promise<ProcessingResult> {
     const job = await this.processingQueue.add({ email });
     const result = await job.finished();
@@ -85,6 +104,7 @@ export class AgentOrchestrator implements IAgentOrchestrator {
           id: uuidv4(),
           agentId: agent.id,
           emailId: email.id,
+          accountId: email.accountId,
           action: 'process',
           parameters: { email: processedEmail },
           status: 'processing',
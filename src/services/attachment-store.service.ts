@@ -0,0 +1,97 @@
+import { IAttachmentStore } from '../core/interfaces';
+import { createHash } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import { Readable } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import path from 'path';
+
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+export const sha256 = (content: Buffer): string => createHash('sha256').update(content).digest('hex');
+
+const assertHash = (hash: string): void => {
+  if (!HASH_PATTERN.test(hash)) {
+    throw new Error(`Invalid content hash: ${hash}`);
+  }
+};
+
+// Blobs live at <root>/ab/cd/abcd..., so no directory grows past 256 entries per level
+export class FileSystemAttachmentStore implements IAttachmentStore {
+  constructor(private rootDir: string) {}
+
+  async put(content: Buffer): Promise<string> {
+    const hash = sha256(content);
+    const file = this.pathFor(hash);
+
+    if (await this.exists(file)) {
+      return hash;
+    }
+
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // Write then rename so readers never see a partial blob
+    const temp = `${file}.${uuidv4()}.tmp`;
+    await fs.writeFile(temp, content);
+    await fs.rename(temp, file);
+
+    return hash;
+  }
+
+  async get(hash: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.pathFor(hash));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async createReadStream(hash: string): Promise<Readable | null> {
+    const file = this.pathFor(hash);
+    return (await this.exists(file)) ? createReadStream(file) : null;
+  }
+
+  async delete(hash: string): Promise<void> {
+    await fs.rm(this.pathFor(hash), { force: true });
+  }
+
+  private pathFor(hash: string): string {
+    assertHash(hash);
+    return path.join(this.rootDir, hash.slice(0, 2), hash.slice(2, 4), hash);
+  }
+
+  private async exists(file: string): Promise<boolean> {
+    try {
+      await fs.access(file);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+export class InMemoryAttachmentStore implements IAttachmentStore {
+  private blobs = new Map<string, Buffer>();
+
+  async put(content: Buffer): Promise<string> {
+    const hash = sha256(content);
+    this.blobs.set(hash, content);
+    return hash;
+  }
+
+  async get(hash: string): Promise<Buffer | null> {
+    return this.blobs.get(hash) || null;
+  }
+
+  async createReadStream(hash: string): Promise<Readable | null> {
+    const content = this.blobs.get(hash);
+    return content ? Readable.from([content]) : null;
+  }
+
+  async delete(hash: string): Promise<void> {
+    this.blobs.delete(hash);
+  }
+
+  get size(): number {
+    return this.blobs.size;
+  }
+}
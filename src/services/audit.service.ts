@@ -0,0 +1,99 @@
+import { AuditChange, AuditEntry, SYSTEM_ACTOR } from '../models/audit.model';
+import { AuditQuery, IDatabase, Page } from '../core/interfaces';
+import { AsyncLocalStorage } from 'async_hooks';
+import { v4 as uuidv4 } from 'uuid';
+import winston from 'winston';
+
+export interface AuditContext {
+  actor: string;
+  requestId?: string;
+}
+
+export interface AuditRecord {
+  action: string;
+  targetType: string;
+  targetId?: string;
+  // The target as it was and as it is now; null or left out when it did not exist
+  before?: object | null;
+  after?: object | null;
+  // Fields whose values stay out of the log
+  redact?: readonly string[];
+  metadata?: Record<string, unknown>;
+}
+
+const contexts = new AsyncLocalStorage<AuditContext>();
+
+// Everything fn records, however deep in the call chain, is attributed to context
+export const withAuditContext = <T>(context: AuditContext, fn: () => T): T => contexts.run(context, fn);
+
+export const currentAuditContext = (): AuditContext | undefined => contexts.getStore();
+
+// Stored values are JSON, so they are compared as JSON: dates by their time, objects by content
+const toJson = (value: unknown): unknown => (value === undefined ? undefined : JSON.parse(JSON.stringify(value)));
+
+// Top-level fields that differ between before and after
+export const diffFields = (
+  before: object | null | undefined,
+  after: object | null | undefined,
+  redact: readonly string[] = [],
+): Record<string, AuditChange> => {
+  const previous = (toJson(before) || {}) as Record<string, unknown>;
+  const current = (toJson(after) || {}) as Record<string, unknown>;
+  const changes: Record<string, AuditChange> = {};
+
+  for (const field of new Set([...Object.keys(previous), ...Object.keys(current)])) {
+    if (JSON.stringify(previous[field]) === JSON.stringify(current[field])) continue;
+    changes[field] = redact.includes(field)
+      ? { redacted: true }
+      : { before: previous[field], after: current[field] };
+  }
+  return changes;
+};
+
+// Appends who changed what to the audit log. The actor and request id come from the
+// context the change runs in (see withAuditContext); outside one it is the system.
+// A failed write is logged rather than thrown: the change it describes has already
+// happened, and failing the caller would not undo it.
+export class AuditLogService {
+  private logger: winston.Logger;
+
+  constructor(private database: IDatabase) {
+    this.logger = winston.createLogger({
+      level: 'info',
+      format: winston.format.json(),
+      defaultMeta: { service: 'audit-log' },
+      transports: [
+        new winston.transports.Console({
+          format: winston.format.simple(),
+        }),
+      ],
+    });
+  }
+
+  async record(record: AuditRecord): Promise<AuditEntry | null> {
+    const context = currentAuditContext();
+    const entry: AuditEntry = {
+      id: uuidv4(),
+      timestamp: new Date(),
+      actor: context?.actor || SYSTEM_ACTOR,
+      action: record.action,
+      targetType: record.targetType,
+      targetId: record.targetId,
+      requestId: context?.requestId,
+      changes: diffFields(record.before, record.after, record.redact),
+      metadata: record.metadata && (toJson(record.metadata) as Record<string, unknown>),
+    };
+
+    try {
+      await this.database.appendAuditEntry(entry);
+      return entry;
+    } catch (error) {
+      this.logger.error(`Failed to record ${entry.action} of ${entry.targetType} ${entry.targetId || ''}`, error);
+      return null;
+    }
+  }
+
+  async list(query: AuditQuery = {}): Promise<Page<AuditEntry>> {
+    return this.database.listAuditEntries(query);
+  }
+}
@@ -0,0 +1,258 @@
+import { Email } from '../models/email.model';
+import { BulkAction, BulkRequest, BulkRequestSchema } from '../models/bulk-operation.model';
+import { DEFAULT_ACCOUNT_ID } from '../models/account.model';
+import { IEmailProvider, IBulkEmailProvider, IDatabase, MessageFlagChanges } from '../core/interfaces';
+import { LabelService } from './label.service';
+import { parseSearchQuery } from './search-query.parser';
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import winston from 'winston';
+
+// Picks the provider for an account; null when the account is gone or disabled
+export type BulkProviderResolver = (accountId?: string) => IEmailProvider | null;
+
+export interface BulkOperationOptions {
+  // Emails per database update and provider call; progress is reported after each batch
+  batchSize?: number;
+}
+
+export interface BulkProgress {
+  operationId: string;
+  action: BulkAction;
+  total: number;
+  processed: number;
+  failed: number;
+}
+
+export interface BulkResult extends BulkProgress {
+  // Emails the server refused or has no way to change; they are left as they were locally too
+  failedIds: string[];
+}
+
+export interface BulkOperation {
+  id: string;
+  action: BulkAction;
+  total: number;
+  batches: number;
+  done: Promise<BulkResult>;
+}
+
+export const supportsBulk = (provider: IEmailProvider): provider is IBulkEmailProvider =>
+  typeof (provider as Partial<IBulkEmailProvider>).setFlags === 'function';
+
+const FLAG_CHANGES: Partial<Record<BulkAction, MessageFlagChanges>> = {
+  read: { isRead: true },
+  unread: { isRead: false },
+  star: { isStarred: true },
+  unstar: { isStarred: false },
+};
+
+// Applies one change to many emails: batch by batch, each batch first on the
+// server (as UID sets, where the provider supports it) and then in the store.
+// Labels go through LabelService, which keeps its local-first behaviour.
+export class BulkOperationService extends EventEmitter {
+  private logger: winston.Logger;
+  private resolveProvider: BulkProviderResolver;
+  private batchSize: number;
+
+  constructor(
+    emailProvider: IEmailProvider | BulkProviderResolver,
+    private database: IDatabase,
+    private labels: LabelService,
+    options: BulkOperationOptions = {},
+  ) {
+    super();
+    this.resolveProvider = typeof emailProvider === 'function' ? emailProvider : () => emailProvider;
+    this.batchSize = options.batchSize || 100;
+    this.logger = winston.createLogger({
+      level: 'info',
+      format: winston.format.json(),
+      defaultMeta: { service: 'bulk-operations' },
+      transports: [
+        new winston.transports.Console({
+          format: winston.format.simple(),
+        }),
+      ],
+    });
+  }
+
+  // Resolves once the emails are known; the work itself continues in done, and
+  // 'bulk-progress', 'bulk-completed' or 'bulk-failed' follow
+  async start(request: BulkRequest): Promise<BulkOperation> {
+    const parsed = BulkRequestSchema.parse(request);
+    const emails = await this.findEmails(parsed);
+    const operation = {
+      id: uuidv4(),
+      action: parsed.action,
+      total: emails.length,
+      batches: Math.ceil(emails.length / this.batchSize),
+    };
+
+    const done = this.process(operation, parsed, emails);
+    done.then(
+      result => this.emit('bulk-completed', result),
+      error => {
+        this.logger.error(`Bulk ${operation.action} ${operation.id} failed`, error);
+        this.emit('bulk-failed', {
+          operationId: operation.id,
+          action: operation.action,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      },
+    );
+
+    this.logger.info(`Bulk ${operation.action} ${operation.id} started for ${operation.total} emails`);
+    return { ...operation, done };
+  }
+
+  private async findEmails(request: BulkRequest): Promise<Email[]> {
+    if (request.query !== undefined) {
+      return this.database.searchEmails({
+        accountId: request.accountId || DEFAULT_ACCOUNT_ID,
+        where: parseSearchQuery(request.query),
+      });
+    }
+
+    const emails: Email[] = [];
+    for (const id of new Set(request.ids)) {
+      const email = await this.database.getEmail(id);
+      if (email && (!request.accountId || (email.accountId || DEFAULT_ACCOUNT_ID) === request.accountId)) {
+        emails.push(email);
+      }
+    }
+    return emails;
+  }
+
+  private async process(
+    operation: Omit<BulkOperation, 'done'>,
+    request: BulkRequest,
+    emails: Email[],
+  ): Promise<BulkResult> {
+    const progress: BulkProgress = {
+      operationId: operation.id,
+      action: operation.action,
+      total: operation.total,
+      processed: 0,
+      failed: 0,
+    };
+    const failedIds: string[] = [];
+
+    const byAccount = new Map<string, Email[]>();
+    for (const email of emails) {
+      const accountId = email.accountId || DEFAULT_ACCOUNT_ID;
+      byAccount.set(accountId, [...(byAccount.get(accountId) || []), email]);
+    }
+
+    for (const [accountId, group] of byAccount) {
+      const runBatch = await this.prepare(accountId, request);
+
+      try {
+        for (let i = 0; i < group.length; i += this.batchSize) {
+          const batch = group.slice(i, i + this.batchSize);
+          try {
+            await runBatch.run(batch);
+          } catch (error) {
+            this.logger.warn(`Bulk ${operation.action} batch failed for ${accountId}`, error);
+            failedIds.push(...batch.map(email => email.id));
+          }
+
+          progress.processed += batch.length;
+          progress.failed = failedIds.length;
+          if (operation.batches > 1) {
+            this.emit('bulk-progress', { ...progress });
+          }
+        }
+      } finally {
+        await runBatch.finish();
+      }
+    }
+
+    this.logger.info(
+      `Bulk ${operation.action} ${operation.id}: ${progress.processed - failedIds.length} done, ${failedIds.length} failed`,
+    );
+    return { ...progress, failedIds };
+  }
+
+  // Server changes share one connection per account. Label changes connect through
+  // LabelService instead, so that a server that is down does not fail them.
+  private async prepare(
+    accountId: string,
+    request: BulkRequest,
+  ): Promise<{ run: (batch: Email[]) => Promise<void>; finish: () => Promise<void> }> {
+    if (request.action === 'label' || request.action === 'unlabel') {
+      const existing = await this.database.findLabelByName(accountId, request.label!);
+      const label =
+        existing || (request.action === 'label' ? (await this.labels.create(accountId, { name: request.label! })).label : null);
+
+      return {
+        run: async batch => {
+          if (!label) return;
+          const ids = batch.map(email => email.id);
+          await (request.action === 'label' ? this.labels.apply(label.id, ids) : this.labels.remove(label.id, ids));
+        },
+        finish: async () => undefined,
+      };
+    }
+
+    const provider = this.resolveProvider(accountId);
+    let connected: Promise<void> | null = null;
+
+    return {
+      run: async batch => {
+        if (!provider) {
+          throw new Error(`Account ${accountId} is not available`);
+        }
+        // Connecting lazily turns a refused connection into failed batches
+        connected = connected || provider.connect();
+        await connected;
+        await this.applyBatch(provider, request, batch);
+      },
+      finish: async () => {
+        if (provider && connected) {
+          await provider.disconnect().catch(error => {
+            this.logger.warn(`Failed to disconnect account ${accountId}`, error);
+          });
+        }
+      },
+    };
+  }
+
+  private async applyBatch(provider: IEmailProvider, request: BulkRequest, batch: Email[]): Promise<void> {
+    const ids = batch.map(email => email.id);
+    const flags = FLAG_CHANGES[request.action];
+
+    if (flags) {
+      if (supportsBulk(provider)) {
+        await provider.setFlags(batch, flags);
+      } else if (flags.isRead) {
+        for (const email of batch) {
+          await provider.markAsRead(email.messageId);
+        }
+      } else {
+        // Marking as read is the only flag change every provider has a call for
+        throw new Error(`The provider of this account cannot ${request.action} messages`);
+      }
+      await this.database.setEmailFlags(ids, flags);
+    } else if (request.action === 'move') {
+      if (supportsBulk(provider)) {
+        await provider.moveMessages(batch, request.folder!);
+      } else {
+        for (const email of batch) {
+          await provider.moveToFolder(email.messageId, request.folder!);
+        }
+      }
+      await this.database.moveEmails(ids, request.folder!);
+    } else if (request.action === 'delete') {
+      if (supportsBulk(provider)) {
+        await provider.deleteMessages(batch);
+      } else {
+        for (const email of batch) {
+          await provider.deleteEmail(email.messageId);
+        }
+      }
+      for (const id of ids) {
+        await this.database.deleteEmail(id);
+      }
+    }
+  }
+}
@@ -7,7 +7,8 @@ import {
   CampaignMetrics
 } from '../core/campaign.interfaces';
 import { DraftGeneratorService, GenerationOptions } from './draft-generator.service';
-import { IDatabase } from '../core/interfaces';
+import { IDatabase, Page } from '../core/interfaces';
+import { AuditLogService } from './audit.service';
 import { v4 as uuidv4 } from 'uuid';
 import winston from 'winston';
 import Bull from 'bull';
@@ -16,10 +17,15 @@ export class CampaignService implements ICampaignService {
   private logger: winston.Logger;
   private draftGenerator: DraftGeneratorService;
   private campaignQueue: Bull.Queue;
+  // Campaigns and drafts are stored in the database; these keep the objects already
+  // handed out, so callers holding one see later changes to it
   private campaigns: Map<string, EmailCampaign> = new Map();
   private drafts: Map<string, EmailDraft> = new Map();
 
-  constructor(private readonly database: IDatabase) {
+  constructor(
+    private readonly database: IDatabase,
+    private readonly audit?: AuditLogService,
+  ) {
     this.logger = winston.createLogger({
       level: 'info',
       format: winston.format.json(),
@@ -54,12 +60,7 @@ export class CampaignService implements ICampaignService {
     // Process draft generation jobs
     this.campaignQueue.process('generate-drafts', async (job) => {
       const { campaignId, count } = job.data;
-      const campaign = await this.getCampaign(campaignId);
-      if (campaign) {
-        // In production, this would fetch recipients from database
-        const mockRecipients = this.generateMockRecipients(count);
-        await this.draftGenerator.generateBulkDrafts(campaign, mockRecipients);
-      }
+      await this.generateDrafts(campaignId, count);
     });
 
     this.campaignQueue.on('completed', (job) => {
@@ -77,7 +78,7 @@ export class CampaignService implements ICampaignService {
         id: uuidv4(),
         name: campaignData.name || 'Untitled Campaign',
         description: campaignData.description,
-        status: 'draft',
+        status: campaignData.status || 'draft',
         type: campaignData.type || 'one-time',
         targetAudience: campaignData.targetAudience || {
           id: uuidv4(),
@@ -157,11 +158,15 @@ export class CampaignService implements ICampaignService {
         createdBy: campaignData.createdBy || 'system',
       };
 
+      await this.database.saveCampaign(campaign);
       this.campaigns.set(campaign.id, campaign);
-      
-      // Save to database
-      await this.saveCampaignToDatabase(campaign);
-      
+      await this.audit?.record({
+        action: 'campaign.create',
+        targetType: 'campaign',
+        targetId: campaign.id,
+        after: campaign,
+      });
+
       this.logger.info(`Created campaign: ${campaign.id}`);
       return campaign;
     } catch (error) {
@@ -177,14 +182,7 @@ export class CampaignService implements ICampaignService {
         throw new Error(`Campaign ${id} not found`);
       }
 
-      const updatedCampaign = {
-        ...campaign,
-        ...updates,
-        updatedAt: new Date(),
-      };
-
-      this.campaigns.set(id, updatedCampaign);
-      await this.saveCampaignToDatabase(updatedCampaign);
+      const updatedCampaign = await this.applyCampaignChanges(campaign, updates, 'campaign.update');
 
       this.logger.info(`Updated campaign: ${id}`);
       return updatedCampaign;
@@ -196,17 +194,16 @@ export class CampaignService implements ICampaignService {
 
   async getCampaign(id: string): Promise<EmailCampaign | null> {
     try {
-      let campaign = this.campaigns.get(id);
-      
+      let campaign = this.campaigns.get(id) ?? null;
+
       if (!campaign) {
-        // Try to load from database
-        campaign = await this.loadCampaignFromDatabase(id);
+        campaign = await this.database.getCampaign(id);
         if (campaign) {
           this.campaigns.set(id, campaign);
         }
       }
 
-      return campaign ?? null;
+      return campaign;
     } catch (error) {
       this.logger.error(`Failed to get campaign ${id}:`, error);
       return null;
@@ -215,67 +212,20 @@ export class CampaignService implements ICampaignService {
 
   async listCampaigns(filter?: CampaignFilter): Promise<EmailCampaign[]> {
     try {
-      let campaigns = Array.from(this.campaigns.values());
-
-      // Apply filters
-      if (filter) {
-        if (filter.status && filter.status.length > 0) {
-          campaigns = campaigns.filter(c => filter.status!.includes(c.status));
-        }
-
-        if (filter.type && filter.type.length > 0) {
-          campaigns = campaigns.filter(c => filter.type!.includes(c.type));
-        }
-
-        if (filter.createdBy) {
-          campaigns = campaigns.filter(c => c.createdBy === filter.createdBy);
-        }
-
-        if (filter.dateFrom) {
-          campaigns = campaigns.filter(c => c.createdAt >= filter.dateFrom!);
-        }
-
-        if (filter.dateTo) {
-          campaigns = campaigns.filter(c => c.createdAt <= filter.dateTo!);
-        }
-
-        if (filter.tags && filter.tags.length > 0) {
-          campaigns = campaigns.filter(c => 
-            filter.tags!.some(tag => c.targetAudience.tags.includes(tag))
-          );
-        }
-
-        // Sort
-        if (filter.sortBy) {
-          campaigns.sort((a, b) => {
-            let compareValue = 0;
-            switch (filter.sortBy) {
-              case 'created':
-                compareValue = a.createdAt.getTime() - b.createdAt.getTime();
-                break;
-              case 'updated':
-                compareValue = a.updatedAt.getTime() - b.updatedAt.getTime();
-                break;
-              case 'name':
-                compareValue = a.name.localeCompare(b.name);
-                break;
-              case 'performance':
-                compareValue = a.metrics.engagementScore - b.metrics.engagementScore;
-                break;
-            }
-            return filter.sortOrder === 'desc' ? -compareValue : compareValue;
-          });
-        }
-
-        // Apply pagination
-        if (filter.offset !== undefined && filter.limit !== undefined) {
-          campaigns = campaigns.slice(filter.offset, filter.offset + filter.limit);
-        }
-      }
+      // Filtering, sorting and paging all happen in SQL
+      return await this.database.listCampaigns(filter);
+    } catch (error) {
+      this.logger.error('Failed to list campaigns:', error);
+      throw new Error(`Failed to list campaigns: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-      return campaigns;
+  async listCampaignPage(filter: CampaignFilter): Promise<Page<EmailCampaign>> {
+    try {
+      return await this.database.listCampaignPage(filter);
     } catch (error) {
       this.logger.error('Failed to list campaigns:', error);
+      if (error instanceof SyntaxError) throw error;
       throw new Error(`Failed to list campaigns: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -292,8 +242,14 @@ export class CampaignService implements ICampaignService {
         await this.cancelScheduledJobs(id);
       }
 
+      await this.database.deleteCampaign(id);
       this.campaigns.delete(id);
-      await this.deleteCampaignFromDatabase(id);
+      await this.audit?.record({ action: 'campaign.delete', targetType: 'campaign', targetId: id, before: campaign });
+      for (const draft of this.drafts.values()) {
+        if (draft.campaignId === id) {
+          this.drafts.delete(draft.id);
+        }
+      }
 
       this.logger.info(`Deleted campaign: ${id}`);
       return true;
@@ -310,9 +266,7 @@ export class CampaignService implements ICampaignService {
         throw new Error(`Campaign ${id} not found`);
       }
 
-      campaign.schedule = schedule;
-      campaign.status = 'scheduled';
-      await this.updateCampaign(id, campaign);
+      await this.applyCampaignChanges(campaign, { schedule, status: 'scheduled' }, 'campaign.schedule');
 
       // Schedule job based on schedule type
       if (schedule.frequency) {
@@ -391,8 +345,7 @@ export class CampaignService implements ICampaignService {
         throw new Error(`Campaign ${id} not found`);
       }
 
-      campaign.status = 'paused';
-      await this.updateCampaign(id, campaign);
+      await this.applyCampaignChanges(campaign, { status: 'paused' }, 'campaign.pause');
 
       // Pause jobs in queue
       const jobs = await this.campaignQueue.getJobs(['waiting', 'delayed']);
@@ -420,8 +373,7 @@ export class CampaignService implements ICampaignService {
         throw new Error('Campaign is not paused');
       }
 
-      campaign.status = 'active';
-      await this.updateCampaign(id, campaign);
+      await this.applyCampaignChanges(campaign, { status: 'active' }, 'campaign.resume');
 
       // Reschedule campaign
       await this.scheduleCampaign(id, campaign.schedule);
@@ -463,8 +415,10 @@ export class CampaignService implements ICampaignService {
         updatedAt: new Date(),
       };
 
+      await this.database.saveCampaignDrafts([draft]);
       this.drafts.set(draft.id, draft);
-      
+      await this.recordDraftAudit('campaign.draft.create', null, draft);
+
       this.logger.info(`Created draft ${draft.id}`);
       return draft;
     } catch (error) {
@@ -475,25 +429,28 @@ export class CampaignService implements ICampaignService {
 
   async approveDraft(draftId: string, approver: string): Promise<void> {
     try {
-      const draft = this.drafts.get(draftId);
+      const draft = await this.getDraft(draftId);
       if (!draft) {
         throw new Error(`Draft ${draftId} not found`);
       }
 
+      const before = structuredClone(draft);
       draft.status = 'approved';
       draft.updatedAt = new Date();
+      await this.database.saveCampaignDrafts([draft]);
+      await this.recordDraftAudit('campaign.draft.approve', before, draft, { approver });
 
       // Update campaign approval status if linked
       if (draft.campaignId) {
         const campaign = await this.getCampaign(draft.campaignId);
         if (campaign) {
-          campaign.approvalStatus = {
+          const approvalStatus = {
             required: true,
             approved: true,
             approvedBy: approver,
             approvedAt: new Date(),
           };
-          await this.updateCampaign(draft.campaignId, campaign);
+          await this.applyCampaignChanges(campaign, { approvalStatus }, 'campaign.approve', { approver, draftId });
         }
       }
 
@@ -506,13 +463,16 @@ export class CampaignService implements ICampaignService {
 
   async rejectDraft(draftId: string, reason: string): Promise<void> {
     try {
-      const draft = this.drafts.get(draftId);
+      const draft = await this.getDraft(draftId);
       if (!draft) {
         throw new Error(`Draft ${draftId} not found`);
       }
 
+      const before = structuredClone(draft);
       draft.status = 'rejected';
       draft.updatedAt = new Date();
+      await this.database.saveCampaignDrafts([draft]);
+      await this.recordDraftAudit('campaign.draft.reject', before, draft, { reason });
 
       this.logger.info(`Draft ${draftId} rejected: ${reason}`);
     } catch (error) {
@@ -521,6 +481,29 @@ export class CampaignService implements ICampaignService {
     }
   }
 
+  async getDraft(draftId: string): Promise<EmailDraft | null> {
+    let draft = this.drafts.get(draftId) ?? null;
+
+    if (!draft) {
+      draft = await this.database.getCampaignDraft(draftId);
+      if (draft) {
+        this.drafts.set(draftId, draft);
+      }
+    }
+
+    return draft;
+  }
+
+  async listDrafts(campaignId: string, status?: EmailDraft['status']): Promise<EmailDraft[]> {
+    try {
+      const drafts = await this.database.listCampaignDrafts(campaignId, status);
+      return drafts.map(draft => this.drafts.get(draft.id) ?? draft);
+    } catch (error) {
+      this.logger.error(`Failed to list drafts for campaign ${campaignId}:`, error);
+      throw new Error(`Failed to list drafts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   async generateDrafts(campaignId: string, count: number): Promise<EmailDraft[]> {
     try {
       const campaign = await this.getCampaign(campaignId);
@@ -539,10 +522,16 @@ export class CampaignService implements ICampaignService {
 
       const drafts = await this.draftGenerator.generateBulkDrafts(campaign, recipients, options);
       
-      // Store drafts
+      await this.database.saveCampaignDrafts(drafts);
       drafts.forEach(draft => {
         this.drafts.set(draft.id, draft);
       });
+      await this.audit?.record({
+        action: 'campaign.draft.generate',
+        targetType: 'campaign',
+        targetId: campaignId,
+        metadata: { draftIds: drafts.map(draft => draft.id) },
+      });
 
       this.logger.info(`Generated ${drafts.length} drafts for campaign ${campaignId}`);
       return drafts;
@@ -554,7 +543,7 @@ export class CampaignService implements ICampaignService {
 
   async optimizeDraft(draftId: string): Promise<EmailDraft> {
     try {
-      const draft = this.drafts.get(draftId);
+      const draft = await this.getDraft(draftId);
       if (!draft) {
         throw new Error(`Draft ${draftId} not found`);
       }
@@ -570,10 +559,13 @@ export class CampaignService implements ICampaignService {
           );
           
           // Update the existing draft with optimized content
+          const before = structuredClone(draft);
           draft.content = optimizedDraft.content;
           draft.metrics = optimizedDraft.metrics;
           draft.aiScore = optimizedDraft.aiScore;
           draft.updatedAt = new Date();
+          await this.database.saveCampaignDrafts([draft]);
+          await this.recordDraftAudit('campaign.draft.optimize', before, draft);
         }
       }
 
@@ -637,15 +629,56 @@ export class CampaignService implements ICampaignService {
       throw new Error(`Campaign ${campaignId} not found`);
     }
 
-    campaign.status = 'active';
-    await this.updateCampaign(campaignId, campaign);
+    await this.applyCampaignChanges(campaign, { status: 'active' }, 'campaign.send');
 
     // Execute campaign logic here
     this.logger.info(`Executing campaign ${campaignId}`);
     
     // Update metrics
-    campaign.metrics.sent += 100; // Mock sending
-    await this.updateCampaign(campaignId, campaign);
+    const metrics = { ...campaign.metrics, sent: campaign.metrics.sent + 100 }; // Mock sending
+    await this.applyCampaignChanges(campaign, { metrics }, 'campaign.update');
+  }
+
+  // Changes the campaign object in place, so callers holding it see the change, and
+  // records it in the audit log
+  private async applyCampaignChanges(
+    campaign: EmailCampaign,
+    changes: Partial<EmailCampaign>,
+    action: string,
+    metadata?: Record<string, unknown>,
+  ): Promise<EmailCampaign> {
+    const before = structuredClone(campaign);
+    Object.assign(campaign, changes, { updatedAt: new Date() });
+
+    await this.database.saveCampaign(campaign);
+    this.campaigns.set(campaign.id, campaign);
+    await this.audit?.record({
+      action,
+      targetType: 'campaign',
+      targetId: campaign.id,
+      before,
+      after: campaign,
+      metadata,
+    });
+    return campaign;
+  }
+
+  // Recipients and their personalized content stay out of the audit log
+  private async recordDraftAudit(
+    action: string,
+    before: EmailDraft | null,
+    after: EmailDraft,
+    metadata?: Record<string, unknown>,
+  ): Promise<void> {
+    await this.audit?.record({
+      action,
+      targetType: 'campaign-draft',
+      targetId: after.id,
+      before,
+      after,
+      redact: ['recipient', 'content', 'personalizations'],
+      metadata: { campaignId: after.campaignId, ...metadata },
+    });
   }
 
   private async cancelScheduledJobs(campaignId: string): Promise<void> {
@@ -719,20 +752,4 @@ Metrics:
 
     return Buffer.from(content);
   }
-
-  private async saveCampaignToDatabase(campaign: EmailCampaign): Promise<void> {
-    // Implementation would save to actual database
-    this.logger.debug(`Saving campaign ${campaign.id} to database`);
-  }
-
-  private async loadCampaignFromDatabase(id: string): Promise<EmailCampaign | null> {
-    // Implementation would load from actual database
-    this.logger.debug(`Loading campaign ${id} from database`);
-    return null;
-  }
-
-  private async deleteCampaignFromDatabase(id: string): Promise<void> {
-    // Implementation would delete from actual database
-    this.logger.debug(`Deleting campaign ${id} from database`);
-  }
-}
\ No newline at end of file
+}
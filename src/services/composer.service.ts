@@ -0,0 +1,167 @@
+import { Email, EmailAddress } from '../models/email.model';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface ReplyOptions {
+  all?: boolean;
+  htmlBody?: string;
+  from?: EmailAddress;
+}
+
+export interface ForwardOptions {
+  htmlBody?: string;
+  from?: EmailAddress;
+  cc?: EmailAddress[];
+  includeAttachments?: boolean;
+}
+
+// Long chains are trimmed to the first and most recent ids (RFC 5322 §3.6.4 allows this)
+const MAX_REFERENCES = 20;
+
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const textToHtml = (text: string): string => escapeHtml(text).replace(/\r?\n/g, '<br>');
+
+const formatAddress = (addr: EmailAddress): string =>
+  addr.name ? `${addr.name} <${addr.email}>` : addr.email;
+
+export class ComposerService {
+  constructor(private identities: EmailAddress[] = []) {}
+
+  generateMessageId(from?: EmailAddress): string {
+    const domain = from?.email.split('@')[1] || 'localhost';
+    return `<${uuidv4()}@${domain}>`;
+  }
+
+  prefixSubject(subject: string, prefix: 'Re' | 'Fwd'): string {
+    const pattern = prefix === 'Re' ? /^\s*re\s*:/i : /^\s*(fwd?|fw)\s*:/i;
+    return pattern.test(subject) ? subject : `${prefix}: ${subject}`;
+  }
+
+  buildReferences(original: Email): string[] {
+    const references = [...(original.references || [])];
+    if (original.inReplyTo && !references.includes(original.inReplyTo)) {
+      references.push(original.inReplyTo);
+    }
+    references.push(original.messageId);
+
+    if (references.length <= MAX_REFERENCES) {
+      return references;
+    }
+    return [references[0], ...references.slice(-(MAX_REFERENCES - 1))];
+  }
+
+  buildReply(original: Email, body: string, options: ReplyOptions = {}): Partial<Email> {
+    const from = options.from || this.identityFor(original);
+    const sentByMe = this.isSelf(original.from);
+
+    let to: EmailAddress[] = sentByMe ? original.to : [original.from];
+    let cc: EmailAddress[] = [];
+
+    if (options.all) {
+      to = this.dedupe([...to, ...original.to]).filter(addr => !this.isSelf(addr, from));
+      cc = this.dedupe(original.cc || []).filter(
+        addr => !this.isSelf(addr, from) && !to.some(t => this.sameAddress(t, addr)),
+      );
+    }
+
+    if (to.length === 0) {
+      to = [original.from];
+    }
+
+    const attribution = `On ${original.date.toUTCString()}, ${formatAddress(original.from)} wrote:`;
+
+    return {
+      from,
+      to,
+      cc,
+      subject: this.prefixSubject(original.subject, 'Re'),
+      body: `${body}\n\n${attribution}\n${this.quoteText(original.body)}`,
+      htmlBody:
+        `<div>${options.htmlBody || textToHtml(body)}</div><br>` +
+        `<div class="quote">${escapeHtml(attribution)}<br>` +
+        `<blockquote type="cite" style="margin:0 0 0 .8ex;border-left:1px solid #ccc;padding-left:1ex">` +
+        `${this.originalHtml(original)}</blockquote></div>`,
+      inReplyTo: original.messageId,
+      references: this.buildReferences(original),
+      threadId: original.threadId,
+      attachments: [],
+    };
+  }
+
+  buildForward(
+    original: Email,
+    to: EmailAddress[],
+    body: string,
+    options: ForwardOptions = {},
+  ): Partial<Email> {
+    const from = options.from || this.identityFor(original);
+
+    const headerLines = [
+      '---------- Forwarded message ---------',
+      `From: ${formatAddress(original.from)}`,
+      `Date: ${original.date.toUTCString()}`,
+      `Subject: ${original.subject}`,
+      `To: ${original.to.map(formatAddress).join(', ')}`,
+      ...(original.cc && original.cc.length > 0 ? [`Cc: ${original.cc.map(formatAddress).join(', ')}`] : []),
+    ];
+
+    return {
+      from,
+      to,
+      cc: options.cc || [],
+      subject: this.prefixSubject(original.subject, 'Fwd'),
+      body: `${body}\n\n${headerLines.join('\n')}\n\n${original.body}`,
+      htmlBody:
+        `<div>${options.htmlBody || textToHtml(body)}</div><br>` +
+        `<div class="forward">${headerLines.map(escapeHtml).join('<br>')}<br><br>` +
+        `${this.originalHtml(original)}</div>`,
+      references: this.buildReferences(original),
+      threadId: original.threadId,
+      attachments:
+        options.includeAttachments === false
+          ? []
+          : original.attachments.map(attachment => ({ ...attachment, id: uuidv4() })),
+    };
+  }
+
+  private quoteText(text: string): string {
+    return text
+      .split(/\r?\n/)
+      .map(line => (line.startsWith('>') ? `>${line}` : `> ${line}`))
+      .join('\n');
+  }
+
+  private originalHtml(original: Email): string {
+    return original.htmlBody || textToHtml(original.body);
+  }
+
+  private identityFor(original: Email): EmailAddress {
+    const recipients = [...original.to, ...(original.cc || [])];
+    const addressed = recipients.find(addr => this.isSelf(addr));
+    if (addressed) return addressed;
+    if (this.isSelf(original.from)) return original.from;
+    return this.identities[0] || recipients[0] || original.from;
+  }
+
+  private isSelf(addr: EmailAddress, from?: EmailAddress): boolean {
+    return (
+      (from !== undefined && this.sameAddress(addr, from)) ||
+      this.identities.some(identity => this.sameAddress(identity, addr))
+    );
+  }
+
+  private sameAddress(a: EmailAddress, b: EmailAddress): boolean {
+    return a.email.toLowerCase() === b.email.toLowerCase();
+  }
+
+  private dedupe(addresses: EmailAddress[]): EmailAddress[] {
+    return addresses.filter(
+      (addr, index) => addresses.findIndex(other => this.sameAddress(other, addr)) === index,
+    );
+  }
+}
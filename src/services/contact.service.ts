@@ -0,0 +1,494 @@
+import {
+  Contact,
+  ContactInput,
+  ContactInputSchema,
+  ContactSummary,
+  ContactUpdate,
+  ContactUpdateSchema,
+  contactKey,
+} from '../models/contact.model';
+import { DEFAULT_ACCOUNT_ID } from '../models/account.model';
+import { IDatabase, Correspondent } from '../core/interfaces';
+import { VCard, formatVCards, parseVCards } from './vcard.parser';
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import winston from 'winston';
+
+export interface ContactServiceOptions {
+  // Quiet period before a scheduled refresh runs, so a burst of new mail refreshes once
+  refreshDelay?: number;
+}
+
+export interface ContactChangeResult {
+  contact: ContactSummary;
+  // Another contact already has one of the addresses; merge them instead
+  rejected?: 'conflict';
+}
+
+export interface ContactRefreshReport {
+  created: number;
+  updated: number;
+}
+
+export interface ContactImportReport {
+  created: number;
+  updated: number;
+  // Cards without a usable email address
+  skipped: number;
+}
+
+type ContactStats = Pick<Contact, 'firstContactAt' | 'lastContactAt' | 'sentCount' | 'receivedCount'>;
+
+const DAY = 24 * 60 * 60 * 1000;
+// Days after which the last exchange counts half as much towards strength
+const RECENCY_HALF_LIFE = 90;
+
+const isEmail = (value: string): boolean => z.string().email().safeParse(value).success;
+
+const sameText = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+// Adds values that are not there yet, ignoring case
+const union = (values: string[], additions: string[]): string[] =>
+  additions.reduce(
+    (merged, value) => (merged.some(existing => sameText(existing, value)) ? merged : [...merged, value]),
+    values,
+  );
+
+// Addresses of the contact with one per contactKey, in order
+const uniqueEmails = (emails: string[]): string[] =>
+  emails.filter((email, i) => emails.findIndex(other => contactKey(other) === contactKey(email)) === i);
+
+// 0 to 1: how much mail was exchanged (mail we wrote counts double), whether it went
+// both ways, and how recently. Someone we only hear from, like a newsletter, stays low.
+export const relationshipStrength = (contact: ContactStats, now: Date = new Date()): number => {
+  const volume = 1 - Math.exp(-(contact.sentCount * 2 + contact.receivedCount) / 20);
+  const reciprocity =
+    contact.sentCount > 0 && contact.receivedCount > 0 ? 1 : contact.sentCount > 0 ? 0.5 : 0;
+  const recency = contact.lastContactAt
+    ? 0.5 ** (Math.max(0, now.getTime() - contact.lastContactAt.getTime()) / DAY / RECENCY_HALF_LIFE)
+    : 0;
+  return Math.round((volume * 0.4 + reciprocity * 0.3 + recency * 0.3) * 100) / 100;
+};
+
+// Contact book derived from mail history: everyone we sent mail to or received mail
+// from becomes a contact on refresh, deduplicated by address. Edits, merges and
+// vCard imports are kept across refreshes; only the mail statistics are replaced.
+export class ContactService extends EventEmitter {
+  private logger: winston.Logger;
+  private refreshDelay: number;
+  private refreshTimers = new Map<string, NodeJS.Timeout>();
+
+  constructor(
+    private database: IDatabase,
+    options: ContactServiceOptions = {},
+  ) {
+    super();
+    this.refreshDelay = options.refreshDelay ?? 5000;
+    this.logger = winston.createLogger({
+      level: 'info',
+      format: winston.format.json(),
+      defaultMeta: { service: 'contacts' },
+      transports: [
+        new winston.transports.Console({
+          format: winston.format.simple(),
+        }),
+      ],
+    });
+  }
+
+  async list(accountId: string = DEFAULT_ACCOUNT_ID): Promise<ContactSummary[]> {
+    const now = new Date();
+    return (await this.database.listContacts(accountId)).map(contact => this.summarize(contact, now));
+  }
+
+  async get(id: string): Promise<ContactSummary | null> {
+    const contact = await this.database.getContact(id);
+    return contact ? this.summarize(contact) : null;
+  }
+
+  // Contacts whose name, alias, address or domain starts with the prefix, strongest
+  // relationships first; without a prefix, the strongest relationships overall
+  async autocomplete(accountId: string, prefix: string, limit = 10): Promise<ContactSummary[]> {
+    const contacts = prefix.trim()
+      ? await this.database.searchContacts(accountId, prefix)
+      : await this.database.listContacts(accountId);
+    const now = new Date();
+
+    return contacts
+      .map(contact => this.summarize(contact, now))
+      .sort(
+        (a, b) =>
+          b.strength - a.strength ||
+          (b.lastContactAt?.getTime() || 0) - (a.lastContactAt?.getTime() || 0) ||
+          (a.name || a.emails[0]).localeCompare(b.name || b.emails[0]),
+      )
+      .slice(0, limit);
+  }
+
+  async create(accountId: string, input: ContactInput): Promise<ContactChangeResult> {
+    const parsed = ContactInputSchema.parse(input);
+    const emails = uniqueEmails(parsed.emails);
+
+    const owner = await this.findOwner(accountId, emails);
+    if (owner) {
+      return { contact: this.summarize(owner), rejected: 'conflict' };
+    }
+
+    const now = new Date();
+    const contact = await this.withStats({
+      id: uuidv4(),
+      accountId,
+      name: parsed.name,
+      emails,
+      aliases: union([], parsed.aliases || []),
+      phones: parsed.phones || [],
+      organization: parsed.organization || undefined,
+      notes: parsed.notes || undefined,
+      sentCount: 0,
+      receivedCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await this.database.saveContacts([contact]);
+
+    this.logger.info(`Contact ${contact.id} created for ${accountId}`);
+    this.emit('contacts-changed', accountId);
+    return { contact: this.summarize(contact) };
+  }
+
+  // Changing the addresses also moves the mail statistics over to the new ones
+  async update(id: string, changes: ContactUpdate): Promise<ContactChangeResult | null> {
+    const parsed = ContactUpdateSchema.parse(changes);
+    const current = await this.database.getContact(id);
+    if (!current) {
+      return null;
+    }
+
+    const emails = parsed.emails ? uniqueEmails(parsed.emails) : current.emails;
+    const owner = parsed.emails ? await this.findOwner(current.accountId, emails, current.id) : null;
+    if (owner) {
+      return { contact: this.summarize(current), rejected: 'conflict' };
+    }
+
+    const updated: Contact = {
+      ...current,
+      name: parsed.name === null ? undefined : parsed.name ?? current.name,
+      emails,
+      aliases: parsed.aliases ? union([], parsed.aliases) : current.aliases,
+      phones: parsed.phones ?? current.phones,
+      organization: parsed.organization === null ? undefined : parsed.organization ?? current.organization,
+      notes: parsed.notes === null ? undefined : parsed.notes ?? current.notes,
+      updatedAt: new Date(),
+    };
+    const contact = parsed.emails ? await this.withStats(updated) : updated;
+    await this.database.saveContacts([contact]);
+
+    this.logger.info(`Contact ${id} updated for ${current.accountId}`);
+    this.emit('contacts-changed', current.accountId);
+    return { contact: this.summarize(contact) };
+  }
+
+  // A deleted contact comes back on the next refresh while mail with it is still stored
+  async delete(id: string): Promise<boolean> {
+    const contact = await this.database.getContact(id);
+    if (!contact) {
+      return false;
+    }
+
+    await this.database.deleteContact(id);
+    this.logger.info(`Contact ${id} deleted for ${contact.accountId}`);
+    this.emit('contacts-changed', contact.accountId);
+    return true;
+  }
+
+  // Folds the other contacts into this one, e.g. someone writing from work and home.
+  // Contacts of other accounts are left alone; null when the contact is missing.
+  async merge(id: string, otherIds: string[]): Promise<ContactSummary | null> {
+    const target = await this.database.getContact(id);
+    if (!target) {
+      return null;
+    }
+
+    const others: Contact[] = [];
+    for (const otherId of new Set(otherIds)) {
+      const other = otherId === id ? null : await this.database.getContact(otherId);
+      if (other && other.accountId === target.accountId) {
+        others.push(other);
+      }
+    }
+
+    const merged = await this.withStats(
+      others.reduce<Contact>(
+        (contact, other) => ({
+          ...contact,
+          name: contact.name || other.name,
+          emails: uniqueEmails([...contact.emails, ...other.emails]),
+          aliases: union(contact.aliases, [...(other.name ? [other.name] : []), ...other.aliases]).filter(
+            alias => !contact.name || !sameText(alias, contact.name),
+          ),
+          phones: union(contact.phones, other.phones),
+          organization: contact.organization || other.organization,
+          notes: [contact.notes, other.notes].filter(Boolean).join('\n\n') || undefined,
+        }),
+        { ...target, updatedAt: new Date() },
+      ),
+    );
+    await this.database.saveContacts(
+      [merged],
+      others.map(other => other.id),
+    );
+
+    this.logger.info(`Merged ${others.length} contacts into ${id} for ${target.accountId}`);
+    this.emit('contacts-changed', target.accountId);
+    return this.summarize(merged);
+  }
+
+  // Adds everyone from the mail history that has no contact yet, picks up new display
+  // names as aliases and recomputes every contact's statistics
+  async refresh(accountId: string = DEFAULT_ACCOUNT_ID): Promise<ContactRefreshReport> {
+    const [contacts, correspondents, account] = await Promise.all([
+      this.database.listContacts(accountId),
+      this.database.getCorrespondents(accountId),
+      this.database.getAccount(accountId),
+    ]);
+    const own = account ? contactKey(account.email) : null;
+
+    const byKey = this.groupByKey(correspondents.filter(correspondent => contactKey(correspondent.email) !== own));
+    const owners = new Map<string, Contact>();
+    for (const contact of contacts) {
+      for (const email of contact.emails) {
+        owners.set(contactKey(email), contact);
+      }
+    }
+
+    const now = new Date();
+    const changed = new Map<string, Contact>();
+    let created = 0;
+
+    for (const [key, group] of byKey) {
+      const names = group.flatMap(correspondent => correspondent.names).filter(name => !sameText(name, group[0].email));
+      const owner = owners.get(key);
+
+      if (!owner) {
+        const contact: Contact = {
+          id: uuidv4(),
+          accountId,
+          name: names[0],
+          emails: [group[0].email],
+          aliases: union([], names.slice(1)).filter(alias => !sameText(alias, names[0])),
+          phones: [],
+          sentCount: 0,
+          receivedCount: 0,
+          createdAt: now,
+          updatedAt: now,
+        };
+        owners.set(key, contact);
+        changed.set(contact.id, contact);
+        created++;
+        continue;
+      }
+
+      const current = changed.get(owner.id) || owner;
+      const name = current.name || names[0];
+      const aliases = union(current.aliases, names).filter(alias => !name || !sameText(alias, name));
+      if (name !== current.name || aliases.length !== current.aliases.length) {
+        changed.set(owner.id, { ...current, name, aliases, updatedAt: now });
+      }
+    }
+
+    for (const contact of [...contacts, ...changed.values()]) {
+      const current = changed.get(contact.id) || contact;
+      const stats = this.stats(current, byKey);
+      if (
+        stats.sentCount !== current.sentCount ||
+        stats.receivedCount !== current.receivedCount ||
+        stats.firstContactAt?.getTime() !== current.firstContactAt?.getTime() ||
+        stats.lastContactAt?.getTime() !== current.lastContactAt?.getTime()
+      ) {
+        changed.set(current.id, { ...current, ...stats });
+      }
+    }
+
+    await this.database.saveContacts([...changed.values()]);
+
+    const report = { created, updated: changed.size - created };
+    if (changed.size > 0) {
+      this.logger.info(`Contacts refreshed for ${accountId}: ${report.created} created, ${report.updated} updated`);
+      this.emit('contacts-changed', accountId);
+    }
+    return report;
+  }
+
+  // Refreshes once mail has stopped arriving for refreshDelay
+  scheduleRefresh(accountId: string = DEFAULT_ACCOUNT_ID): void {
+    clearTimeout(this.refreshTimers.get(accountId));
+    this.refreshTimers.set(
+      accountId,
+      setTimeout(() => {
+        this.refreshTimers.delete(accountId);
+        this.refresh(accountId).catch(error => {
+          this.logger.error(`Failed to refresh contacts for ${accountId}`, error);
+        });
+      }, this.refreshDelay),
+    );
+  }
+
+  stop(): void {
+    for (const timer of this.refreshTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.refreshTimers.clear();
+  }
+
+  // Cards matching an existing contact by address fill in what it is missing and add
+  // their other addresses; the rest become new contacts
+  async importVCards(accountId: string, input: string): Promise<ContactImportReport> {
+    const [contacts, correspondents] = await Promise.all([
+      this.database.listContacts(accountId),
+      this.database.getCorrespondents(accountId),
+    ]);
+    const byKey = this.groupByKey(correspondents);
+    const owners = new Map<string, Contact>();
+    for (const contact of contacts) {
+      for (const email of contact.emails) {
+        owners.set(contactKey(email), contact);
+      }
+    }
+
+    const now = new Date();
+    const changed = new Map<string, Contact>();
+    const created = new Set<string>();
+    let skipped = 0;
+
+    for (const card of parseVCards(input)) {
+      const emails = uniqueEmails(card.emails.filter(isEmail));
+      if (emails.length === 0) {
+        skipped++;
+        continue;
+      }
+
+      const owner = emails.map(email => owners.get(contactKey(email))).find(Boolean);
+      const current = owner ? changed.get(owner.id) || owner : null;
+      const free = emails.filter(email => !owners.has(contactKey(email)));
+
+      const contact = current ? this.fillIn(current, card, free) : this.fromCard(accountId, card, free, now);
+      if (current && contact === current) continue;
+
+      for (const email of contact.emails) {
+        owners.set(contactKey(email), contact);
+      }
+      if (!current) {
+        created.add(contact.id);
+      }
+      changed.set(contact.id, { ...contact, ...this.stats(contact, byKey), updatedAt: now });
+    }
+
+    await this.database.saveContacts([...changed.values()]);
+
+    const report = { created: created.size, updated: changed.size - created.size, skipped };
+    this.logger.info(
+      `Imported vCards for ${accountId}: ${report.created} created, ${report.updated} updated, ${report.skipped} skipped`,
+    );
+    if (changed.size > 0) {
+      this.emit('contacts-changed', accountId);
+    }
+    return report;
+  }
+
+  async exportVCards(accountId: string = DEFAULT_ACCOUNT_ID): Promise<string> {
+    return formatVCards(await this.database.listContacts(accountId));
+  }
+
+  // The same object when the card adds nothing
+  private fillIn(contact: Contact, card: VCard, emails: string[]): Contact {
+    const name = contact.name || card.name;
+    const aliases = union(contact.aliases, [...(card.name ? [card.name] : []), ...card.aliases]).filter(
+      alias => !name || !sameText(alias, name),
+    );
+    const phones = union(contact.phones, card.phones);
+    const organization = contact.organization || card.organization;
+    const notes = contact.notes || card.notes;
+
+    if (
+      emails.length === 0 &&
+      name === contact.name &&
+      aliases.length === contact.aliases.length &&
+      phones.length === contact.phones.length &&
+      organization === contact.organization &&
+      notes === contact.notes
+    ) {
+      return contact;
+    }
+    return { ...contact, name, emails: [...contact.emails, ...emails], aliases, phones, organization, notes };
+  }
+
+  private fromCard(accountId: string, card: VCard, emails: string[], now: Date): Contact {
+    return {
+      id: uuidv4(),
+      accountId,
+      name: card.name,
+      emails,
+      aliases: union([], card.aliases).filter(alias => !card.name || !sameText(alias, card.name)),
+      phones: union([], card.phones),
+      organization: card.organization,
+      notes: card.notes,
+      sentCount: 0,
+      receivedCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  // The contact other than except that already has one of the addresses
+  private async findOwner(accountId: string, emails: string[], except?: string): Promise<Contact | null> {
+    for (const email of emails) {
+      const owner = await this.database.findContactByEmail(accountId, email);
+      if (owner && owner.id !== except) {
+        return owner;
+      }
+    }
+    return null;
+  }
+
+  private async withStats(contact: Contact): Promise<Contact> {
+    const byKey = this.groupByKey(await this.database.getCorrespondents(contact.accountId));
+    return { ...contact, ...this.stats(contact, byKey) };
+  }
+
+  // Gmail variants of an address share a key, so one person can show up as several
+  // correspondents; the most recent comes first
+  private groupByKey(correspondents: Correspondent[]): Map<string, Correspondent[]> {
+    const byKey = new Map<string, Correspondent[]>();
+    const sorted = [...correspondents].sort((a, b) => b.lastContactAt.getTime() - a.lastContactAt.getTime());
+    for (const correspondent of sorted) {
+      const key = contactKey(correspondent.email);
+      byKey.set(key, [...(byKey.get(key) || []), correspondent]);
+    }
+    return byKey;
+  }
+
+  private stats(contact: Contact, byKey: Map<string, Correspondent[]>): ContactStats {
+    const exchanged = contact.emails.flatMap(email => byKey.get(contactKey(email)) || []);
+    if (exchanged.length === 0) {
+      return { firstContactAt: undefined, lastContactAt: undefined, sentCount: 0, receivedCount: 0 };
+    }
+
+    return {
+      firstContactAt: new Date(Math.min(...exchanged.map(correspondent => correspondent.firstContactAt.getTime()))),
+      lastContactAt: new Date(Math.max(...exchanged.map(correspondent => correspondent.lastContactAt.getTime()))),
+      sentCount: exchanged.reduce((sum, correspondent) => sum + correspondent.sentCount, 0),
+      receivedCount: exchanged.reduce((sum, correspondent) => sum + correspondent.receivedCount, 0),
+    };
+  }
+
+  private summarize(contact: Contact, now: Date = new Date()): ContactSummary {
+    const messageCount = contact.sentCount + contact.receivedCount;
+    return {
+      ...contact,
+      messageCount,
+      sentRatio: messageCount > 0 ? Math.round((contact.sentCount / messageCount) * 100) / 100 : null,
+      strength: relationshipStrength(contact, now),
+    };
+  }
+}
@@ -0,0 +1,307 @@
+import {
+  DataSubjectRequest,
+  DataSubjectRequestSchema,
+  ERASED_DOMAIN,
+  ErasureCounts,
+  ErasureReport,
+} from '../models/data-subject.model';
+import { Email, EmailAddress } from '../models/email.model';
+import { Contact, contactKey } from '../models/contact.model';
+import { AgentTask } from '../models/agent.model';
+import { EmailDraft, EngagementEvent, RecipientProfile } from '../core/campaign.interfaces';
+import { DataSubjectRecords, IDatabase, OutboxEntry } from '../core/interfaces';
+import { EngagementOptimizerService } from './engagement-optimizer.service';
+import { LinkedInProfile, LinkedInService } from '../integrations/linkedin.service';
+import { createZip, ZipEntry } from './zip.writer';
+import { createHmac, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import winston from 'winston';
+
+export interface DataSubjectOptions {
+  // Engagement history and LinkedIn profiles kept in memory by the caller's services
+  engagement?: EngagementOptimizerService;
+  linkedIn?: LinkedInService;
+}
+
+export interface DataSubjectExport {
+  email: string;
+  exportedAt: Date;
+  sentEmails: Email[];
+  receivedEmails: Email[];
+  contacts: Contact[];
+  campaignDrafts: EmailDraft[];
+  recipientProfiles: RecipientProfile[];
+  engagementHistory: EngagementEvent[];
+  linkedInProfiles: LinkedInProfile[];
+  agentTasks: AgentTask[];
+  outboxEntries: OutboxEntry[];
+}
+
+// Emails loaded and rewritten per saveEmails transaction during an erasure
+const ERASURE_BATCH = 200;
+
+// Stands in for the address in erasure reports. Keyed, so the reports cannot be
+// matched against a list of addresses without the secret
+export const subjectHash = (email: string, secret: string): string =>
+  createHmac('sha256', secret).update(email.trim().toLowerCase()).digest('hex');
+
+// Reads the subjectHash secret, writing a random one the first time
+export const loadSubjectSecret = async (file: string): Promise<string> => {
+  try {
+    return (await fs.readFile(file, 'utf8')).trim();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+
+  const secret = randomBytes(32).toString('hex');
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, secret, { mode: 0o600 });
+  return secret;
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Archive paths come from attachment names, which may hold anything
+const safeFilename = (name: string): string => name.replace(/[/\\:\x00-\x1f]/g, '_') || 'attachment';
+
+const batches = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+// Finds everything stored about one email address, to hand it over (export) or remove
+// it (erase). Erasure deletes what belongs to the person and replaces their address
+// with a pseudonym where the record belongs to someone else as well, then searches
+// again so its report can show nothing was left behind.
+export class DataSubjectService {
+  private logger: winston.Logger;
+
+  constructor(
+    private database: IDatabase,
+    private secret: string,
+    private options: DataSubjectOptions = {},
+  ) {
+    this.logger = winston.createLogger({
+      level: 'info',
+      format: winston.format.json(),
+      defaultMeta: { service: 'data-subject' },
+      transports: [
+        new winston.transports.Console({
+          format: winston.format.simple(),
+        }),
+      ],
+    });
+  }
+
+  async export(email: string): Promise<DataSubjectExport> {
+    const { email: address } = DataSubjectRequestSchema.parse({ email });
+    const records = await this.database.findDataSubjectRecords(address);
+    const profiles = records.drafts.map(draft => draft.recipient);
+
+    return {
+      email: address,
+      exportedAt: new Date(),
+      sentEmails: await this.loadEmails(records.sentEmailIds),
+      receivedEmails: await this.loadEmails(records.receivedEmailIds),
+      contacts: records.contacts,
+      campaignDrafts: records.drafts,
+      recipientProfiles: profiles,
+      engagementHistory: [
+        ...profiles.flatMap(profile => profile.engagementHistory),
+        ...(this.options.engagement?.getHistoricalData(address) || []),
+      ],
+      linkedInProfiles: this.linkedInUrls(profiles)
+        .map(url => this.options.linkedIn?.getCachedProfile(url))
+        .filter((profile): profile is LinkedInProfile => Boolean(profile)),
+      agentTasks: records.agentTasks,
+      outboxEntries: records.outboxEntries,
+    };
+  }
+
+  // data.json holds the export; attachments and original sources sit next to it as files
+  async exportZip(email: string): Promise<Buffer> {
+    const data = await this.export(email);
+    const entries: ZipEntry[] = [{ name: 'data.json', content: Buffer.from(JSON.stringify(data, null, 2)) }];
+
+    for (const message of [...data.sentEmails, ...data.receivedEmails]) {
+      for (const attachment of await this.database.loadAttachmentData(message.attachments)) {
+        if (!attachment.data) continue;
+        entries.push({
+          name: `emails/${message.id}/attachments/${attachment.id}-${safeFilename(attachment.filename)}`,
+          content: Buffer.from(attachment.data, 'base64'),
+        });
+      }
+
+      const source = await this.database.getEmailSource(message.id);
+      if (source) {
+        entries.push({ name: `emails/${message.id}/source.eml`, content: source });
+      }
+    }
+
+    return createZip(entries, data.exportedAt);
+  }
+
+  async erase(request: DataSubjectRequest): Promise<ErasureReport> {
+    const { email, dryRun } = DataSubjectRequestSchema.parse(request);
+    const requestedAt = new Date();
+    const pseudonym = `erased-${uuidv4()}@${ERASED_DOMAIN}`;
+    const records = await this.database.findDataSubjectRecords(email);
+
+    const key = contactKey(email);
+    const contacts = records.contacts.map(contact => ({
+      contact,
+      emails: contact.emails.filter(address => contactKey(address) !== key),
+    }));
+    const sent = new Set(records.sentEmailIds);
+    const tasksDeleted = records.agentTasks.filter(task => sent.has(task.emailId));
+    const tasksKept = records.agentTasks.filter(task => !sent.has(task.emailId));
+    // Outbox entries of deleted mail go with it
+    const outboxKept = records.outboxEntries.filter(entry => !sent.has(entry.emailId));
+    const linkedInUrls = this.linkedInUrls(records.drafts.map(draft => draft.recipient)).filter(url =>
+      Boolean(this.options.linkedIn?.getCachedProfile(url)),
+    );
+
+    const counts: ErasureCounts = {
+      emailsDeleted: records.sentEmailIds.length,
+      emailsPseudonymized: records.receivedEmailIds.length,
+      contactsDeleted: contacts.filter(entry => entry.emails.length === 0).length,
+      contactsUpdated: contacts.filter(entry => entry.emails.length > 0).length,
+      draftsDeleted: records.drafts.length,
+      agentTasksDeleted: tasksDeleted.length,
+      agentTasksPseudonymized: tasksKept.length,
+      outboxErrorsPseudonymized: outboxKept.length,
+      engagementEventsDeleted: this.options.engagement?.getHistoricalData(email).length || 0,
+      linkedInProfilesEvicted: linkedInUrls.length,
+    };
+
+    if (!dryRun) {
+      const scrub = this.scrubber(email, pseudonym);
+
+      for (const ids of batches(records.sentEmailIds, ERASURE_BATCH)) {
+        await this.database.deleteEmails(ids);
+      }
+      for (const ids of batches(records.receivedEmailIds, ERASURE_BATCH)) {
+        const emails = await this.loadEmails(ids);
+        await this.database.saveEmails(emails.map(message => this.pseudonymizeEmail(message, email, pseudonym)));
+        await this.database.deleteEmailSources(ids);
+      }
+
+      for (const entry of contacts) {
+        if (entry.emails.length === 0) {
+          await this.database.deleteContact(entry.contact.id);
+        } else {
+          await this.database.saveContacts([{ ...entry.contact, emails: entry.emails, updatedAt: new Date() }]);
+        }
+      }
+
+      await this.database.deleteCampaignDrafts(records.drafts.map(draft => draft.id));
+
+      await this.database.deleteAgentTasks(tasksDeleted.map(task => task.id));
+      for (const task of tasksKept) {
+        await this.database.saveAgentTask({
+          ...task,
+          parameters: scrub(task.parameters),
+          result: task.result === undefined ? undefined : scrub(task.result),
+          error: task.error === undefined ? undefined : scrub(task.error),
+        });
+      }
+      // Only while the entry is unchanged; a later attempt replaces the error anyway
+      for (const entry of outboxKept) {
+        await this.database.transitionOutboxEntry({ ...entry, lastError: scrub(entry.lastError) }, entry.state);
+      }
+
+      this.options.engagement?.forgetRecipient(email);
+      for (const url of linkedInUrls) {
+        this.options.linkedIn?.evict(url);
+      }
+    }
+
+    const report: ErasureReport = {
+      id: uuidv4(),
+      subjectHash: subjectHash(email, this.secret),
+      pseudonym,
+      dryRun,
+      requestedAt,
+      completedAt: new Date(),
+      counts,
+      remaining: dryRun ? this.countRecords(records) : await this.countRemaining(email),
+    };
+    await this.database.saveErasureReport(report);
+
+    // The address stays out of the logs; the report id and hash are enough to trace it
+    this.logger.info(`Erasure ${report.id}${dryRun ? ' (dry run)' : ''} left ${report.remaining} records`);
+    return report;
+  }
+
+  // Earlier erasures of the address, newest first
+  async listErasures(email?: string, limit?: number): Promise<ErasureReport[]> {
+    const hash =
+      email === undefined ? undefined : subjectHash(DataSubjectRequestSchema.parse({ email }).email, this.secret);
+    return this.database.listErasureReports(hash, limit);
+  }
+
+  private async loadEmails(ids: string[]): Promise<Email[]> {
+    const emails: Email[] = [];
+    for (const id of ids) {
+      const email = await this.database.getEmail(id);
+      if (email) emails.push(email);
+    }
+    return emails;
+  }
+
+  private linkedInUrls(profiles: RecipientProfile[]): string[] {
+    return [...new Set(profiles.map(profile => profile.linkedinUrl).filter((url): url is string => Boolean(url)))];
+  }
+
+  // Replaces the address wherever it appears in a string or a JSON value
+  private scrubber(email: string, pseudonym: string): <T>(value: T) => T {
+    const pattern = new RegExp(escapeRegExp(email), 'gi');
+    return <T>(value: T): T =>
+      typeof value === 'string'
+        ? (value.replace(pattern, pseudonym) as T)
+        : JSON.parse(JSON.stringify(value).replace(pattern, pseudonym));
+  }
+
+  private pseudonymizeEmail(message: Email, email: string, pseudonym: string): Email {
+    const scrub = this.scrubber(email, pseudonym);
+    const replace = (recipients: EmailAddress[]): EmailAddress[] =>
+      recipients.map(recipient =>
+        recipient.email.toLowerCase() === email.toLowerCase() ? { email: pseudonym } : recipient,
+      );
+
+    return {
+      ...message,
+      to: replace(message.to),
+      cc: message.cc && replace(message.cc),
+      bcc: message.bcc && replace(message.bcc),
+      subject: scrub(message.subject),
+      body: scrub(message.body),
+      htmlBody: message.htmlBody && scrub(message.htmlBody),
+      snippet: message.snippet && scrub(message.snippet),
+      aiAnalysis: message.aiAnalysis && scrub(message.aiAnalysis),
+      // Header-derived metadata can carry the address too
+      metadata: message.metadata && scrub(message.metadata),
+    };
+  }
+
+  private countRecords(records: DataSubjectRecords): number {
+    return (
+      records.sentEmailIds.length +
+      records.receivedEmailIds.length +
+      records.contacts.length +
+      records.drafts.length +
+      records.agentTasks.length +
+      records.outboxEntries.length
+    );
+  }
+
+  private async countRemaining(email: string): Promise<number> {
+    const records = await this.database.findDataSubjectRecords(email);
+    const profiles = records.drafts.map(draft => draft.recipient);
+    return (
+      this.countRecords(records) +
+      (this.options.engagement?.getHistoricalData(email).length || 0) +
+      this.linkedInUrls(profiles).filter(url => Boolean(this.options.linkedIn?.getCachedProfile(url))).length
+    );
+  }
+}
@@ -1,14 +1,281 @@
-import { Email } from '../models/email.model';
+import { Email, EmailAttachment } from '../models/email.model';
 import { AgentTask } from '../models/agent.model';
-import { IDatabase, EmailSearchQuery } from '../core/interfaces';
+import { Account, DEFAULT_ACCOUNT_ID } from '../models/account.model';
+import { Label, LABEL_DELIMITER, labelPath } from '../models/label.model';
+import { Contact, contactKey } from '../models/contact.model';
+import { RetentionRule, RetentionRun } from '../models/retention.model';
+import { ERASED_DOMAIN, ErasureReport } from '../models/data-subject.model';
+import { AuditEntry } from '../models/audit.model';
+import { AudienceSegment, CampaignFilter, EmailCampaign, EmailDraft, EmailTemplate } from '../core/campaign.interfaces';
+import { normalizeSubject, toThread } from './threading.service';
+import { escapeHtml } from './composer.service';
+import { FileSystemAttachmentStore, InMemoryAttachmentStore } from './attachment-store.service';
+import {
+  DataKey,
+  EncryptedAttachmentStore,
+  EnvelopeCipher,
+  isEncrypted,
+  isEncryptedBuffer,
+} from './encryption.service';
+import {
+  IDatabase,
+  IAttachmentStore,
+  AttachmentContent,
+  IKeyProvider,
+  EncryptionStatus,
+  EmailSearchQuery,
+  EmailSearchHit,
+  EmailThread,
+  Page,
+  PageRequest,
+  ThreadQuery,
+  AuditQuery,
+  SearchNode,
+  SearchTextField,
+  MailboxSyncState,
+  FolderUid,
+  OutboxEntry,
+  OutboxState,
+  LabelCounts,
+  MessageFlagChanges,
+  Correspondent,
+  MigrationContext,
+  SchemaStatus,
+  DataSubjectRecords,
+} from '../core/interfaces';
+import { MIGRATIONS } from '../migrations';
+import { Readable } from 'stream';
 import sqlite3 from 'sqlite3';
+import { AsyncLocalStorage } from 'async_hooks';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
 import winston from 'winston';
 
+// Attachment content lives in the blob store; rows only carry the hash
+const ATTACHMENT_COLUMNS = 'id, email_id, filename, contentType, size, url, contentHash';
+
+// emails_fts rows share the rowid of their emails row; this builds them from the
+// stored email, recipients and attachments. The body is bound as the first parameter
+// since the stored one may be encrypted.
+const SEARCH_INDEX_INSERT = `
+  INSERT INTO emails_fts (rowid, subject, body, sender, recipients, attachments)
+  SELECT e.rowid, e.subject, ?, trim(coalesce(e.fromName, '') || ' ' || e.fromEmail),
+    (SELECT group_concat(trim(coalesce(r.name, '') || ' ' || r.email), ' ')
+      FROM email_recipients r WHERE r.email_id = e.id),
+    (SELECT group_concat(a.filename, ' ') FROM email_attachments a WHERE a.email_id = e.id)
+  FROM emails e`;
+
+// Ids per IN (...) list when loading the rows that hang off emails; well under SQLite's
+// limit on bound parameters
+const EMAIL_LOAD_BATCH = 500;
+
+const groupByEmail = (rows: any[]): Map<string, any[]> => {
+  const groups = new Map<string, any[]>();
+  for (const row of rows) {
+    const group = groups.get(row.email_id);
+    if (group) group.push(row);
+    else groups.set(row.email_id, [row]);
+  }
+  return groups;
+};
+
+// bm25 weights in emails_fts column order: a subject hit counts far more than one in the body
+const SEARCH_WEIGHTS = '10.0, 1.0, 5.0, 3.0, 2.0';
+
+// Mail text has no use for these control characters, so they mark matches until
+// the rest has been escaped and they can become <mark> tags
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+const markMatches = (text: string): string =>
+  escapeHtml(text).split(MATCH_START).join('<mark>').split(MATCH_END).join('</mark>');
+
+// Full-text fields of a parsed query and the emails_fts column each one searches;
+// cc and bcc are not indexed separately and are matched on email_recipients instead
+const SEARCH_COLUMNS: Partial<Record<SearchTextField, string>> = {
+  from: 'sender',
+  to: 'recipients',
+  subject: 'subject',
+  body: 'body',
+  filename: 'attachments',
+};
+
+// A label and everything nested below it; takes the name, the length of name + "/" and name + "/"
+const LABEL_SUBTREE = (column: string) =>
+  `(${column} = ? COLLATE NOCASE OR substr(${column}, 1, ?) = ? COLLATE NOCASE)`;
+
+const subtreeParams = (name: string): any[] => [name, name.length + 1, `${name}${LABEL_DELIMITER}`];
+
+// Mail we sent is labelled sent once it has left the outbox; drafts are not exchanged mail.
+// Takes the account id twice. Our own addresses are the senders of sent mail.
+const EXCHANGED = `
+  WITH sent AS (
+    SELECT e.* FROM emails e
+    WHERE e.accountId = ? AND e.isDraft = 0
+      AND EXISTS (SELECT 1 FROM email_labels l WHERE l.email_id = e.id AND l.label = 'sent' COLLATE NOCASE)
+  ),
+  exchanged AS (
+    SELECT lower(r.email) AS email, r.name, s.id AS emailId, s.date, 1 AS sent
+    FROM sent s JOIN email_recipients r ON r.email_id = s.id
+    UNION ALL
+    SELECT lower(e.fromEmail), e.fromName, e.id, e.date, 0
+    FROM emails e
+    WHERE e.accountId = ? AND e.isDraft = 0 AND e.fromEmail IS NOT NULL AND e.id NOT IN (SELECT id FROM sent)
+  ),
+  correspondents AS (
+    SELECT * FROM exchanged WHERE email NOT IN (SELECT lower(fromEmail) FROM sent WHERE fromEmail IS NOT NULL)
+      AND email NOT LIKE '%@${ERASED_DOMAIN}'
+  )`;
+
+// LIKE pattern matching text literally at the start of a value
+const likePrefix = (text: string): string => `${text.replace(/[\\%_]/g, '\\$&')}%`;
+
+// LIKE pattern matching text literally anywhere in a value
+const likeContains = (text: string): string => `%${likePrefix(text)}`;
+
+const MATCHES = 'emails.rowid IN (SELECT rowid FROM emails_fts WHERE emails_fts MATCH ?)';
+
+// Text is passed to FTS5 as a quoted string, so operators and column names in it
+// are matched literally. Words match as prefixes so partial words still find mail.
+// Null when there is nothing searchable in it.
+const toMatchTerm = (text: string, exact: boolean): string | null => {
+  if (!/[\p{L}\p{N}]/u.test(text)) return null;
+  const quoted = `"${text.replace(/"/g, '""')}"`;
+  return exact ? quoted : `${quoted}*`;
+};
+
+// Free text from EmailSearchQuery: every word must match; "quoted phrases" match exactly
+const toMatchExpression = (input: string): string | null => {
+  const terms = (input.match(/"[^"]*"|\S+/g) || [])
+    .map(term =>
+      term.length > 1 && term.startsWith('"') && term.endsWith('"')
+        ? toMatchTerm(term.slice(1, -1), true)
+        : toMatchTerm(term, false),
+    )
+    .filter((term): term is string => term !== null);
+
+  return terms.length > 0 ? `(${terms.join(' ')})` : null;
+};
+
+// Campaigns with the columns of their audience segment, for rowToCampaign
+const CAMPAIGN_SELECT = `
+  SELECT c.*, s.name AS segmentName, s.criteria AS segmentCriteria, s.estimatedSize AS segmentEstimatedSize,
+    s.tags AS segmentTags, s.dynamicFields AS segmentDynamicFields
+  FROM campaigns c LEFT JOIN audience_segments s ON s.id = c.segmentId`;
+
+const CAMPAIGN_SORT_COLUMNS: Record<NonNullable<CampaignFilter['sortBy']>, string> = {
+  created: 'c.createdAt',
+  updated: 'c.updatedAt',
+  name: 'c.name COLLATE NOCASE',
+  performance: 'c.engagementScore',
+};
+
+// The row field behind each sort column, for cursors
+const CAMPAIGN_SORT_FIELDS: Record<NonNullable<CampaignFilter['sortBy']>, string> = {
+  created: 'createdAt',
+  updated: 'updatedAt',
+  name: 'name',
+  performance: 'engagementScore',
+};
+
+// Totals are counted up to this many rows, so a broad query does not scan the whole table
+const MAX_COUNTED = 10000;
+
+// A cursor holds the sort key of the last row of a page. Relevance ranks move as mail
+// arrives anyway, so ranked search pages hold a position instead.
+type CursorPosition = { after: Array<number | string> } | { offset: number };
+
+const encodeCursor = (position: CursorPosition): string =>
+  Buffer.from(JSON.stringify(position)).toString('base64url');
+
+// Malformed cursors are a SyntaxError, like malformed search queries
+const decodeCursor = (cursor: string): CursorPosition => {
+  let position: any;
+  try {
+    position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    position = null;
+  }
+
+  const valid =
+    (Array.isArray(position?.after) &&
+      position.after.length > 0 &&
+      position.after.every((value: unknown) => typeof value === 'number' || typeof value === 'string')) ||
+    (Number.isInteger(position?.offset) && position.offset >= 0);
+  if (!valid) throw new SyntaxError('Invalid cursor');
+  return position;
+};
+
+// The sort key a cursor continues after, checked against the listing's ORDER BY
+const cursorKey = (cursor: string, length: number): Array<number | string> => {
+  const position = decodeCursor(cursor);
+  if (!('after' in position) || position.after.length !== length) throw new SyntaxError('Invalid cursor');
+  return position.after;
+};
+
+// Rows past key in an ORDER BY of columns, appending its parameters
+const afterKey = (columns: Array<[string, 'ASC' | 'DESC']>, key: Array<number | string>, params: any[]): string => {
+  const [[column, direction], ...rest] = columns;
+  const comparison = `${column} ${direction === 'DESC' ? '<' : '>'} ?`;
+  if (rest.length === 0) {
+    params.push(key[0]);
+    return comparison;
+  }
+  params.push(key[0], key[0]);
+  return `(${comparison} OR (${column} = ? AND ${afterKey(rest, key.slice(1), params)}))`;
+};
+
+// Pages are fetched one row longer than limit to learn whether another page follows
+const nextCursor = (rows: any[], limit: number | undefined, key: (row: any) => CursorPosition): string | undefined =>
+  limit !== undefined && rows.length > limit ? encodeCursor(key(rows[limit - 1])) : undefined;
+
+export interface DatabaseOptions {
+  // Apply pending migrations on connect (the default); when off, the schema is left
+  // as it is for getSchemaStatus and migrate
+  migrate?: boolean;
+  // Encrypts bodies, HTML, snippets, AI analysis, raw sources and attachment content
+  encryption?: EncryptionOptions;
+}
+
+export interface EncryptionOptions {
+  keyProvider: IKeyProvider;
+  // Keeps bodies in the full-text index, which holds them in plaintext. Off by default,
+  // so text search only covers subjects, senders, recipients and attachment names.
+  indexBodies?: boolean;
+}
+
+// Rows and blobs not yet under the current data key
+const STALE_KEY = '(dataKeyId IS NULL OR dataKeyId != ?)';
+
 export class DatabaseService implements IDatabase {
   private db: sqlite3.Database | null = null;
   private logger: winston.Logger;
+  private attachmentStore: IAttachmentStore;
+  private transactions: Promise<void> = Promise.resolve();
+  // Transactions queued or running, and the async context of the running one's work
+  private pendingTransactions = 0;
+  private transactionScope = new AsyncLocalStorage<boolean>();
+  private statements = new Map<string, sqlite3.Statement>();
+  private autoMigrate: boolean;
+  private cipher: EnvelopeCipher | null = null;
+  private indexBodies = true;
 
-  constructor(private dbPath: string = ':memory:') {
+  constructor(
+    private dbPath: string = ':memory:',
+    attachmentStore?: IAttachmentStore,
+    options: DatabaseOptions = {},
+  ) {
+    this.autoMigrate = options.migrate ?? true;
+    this.attachmentStore =
+      attachmentStore ||
+      (dbPath === ':memory:'
+        ? new InMemoryAttachmentStore()
+        : new FileSystemAttachmentStore(path.join(path.dirname(dbPath), 'attachments')));
+    if (options.encryption) {
+      this.cipher = new EnvelopeCipher(options.encryption.keyProvider);
+      this.attachmentStore = new EncryptedAttachmentStore(this.attachmentStore, this.cipher);
+      this.indexBodies = options.encryption.indexBodies ?? false;
+    }
     this.logger = winston.createLogger({
       level: 'info',
       format: winston.format.json(),
@@ -22,23 +289,37 @@ export class DatabaseService implements IDatabase {
   }
 
   async connect(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.db = new sqlite3.Database(this.dbPath, async (err) => {
+    await new Promise<void>((resolve, reject) => {
+      this.db = new sqlite3.Database(this.dbPath, (err) => {
         if (err) {
           this.logger.error('Failed to connect to database', err);
           reject(err);
         } else {
           this.logger.info('Connected to database');
-          await this.initializeTables();
           resolve();
         }
       });
+      this.guardConnection(this.db);
     });
+
+    try {
+      // migrate loads the data keys itself once the schema has them
+      if (this.autoMigrate) await this.migrate();
+      else await this.loadDataKeysIfReady();
+    } catch (error) {
+      await this.disconnect();
+      throw error;
+    }
   }
 
   async disconnect(): Promise<void> {
     if (!this.db) return;
 
+    for (const statement of this.statements.values()) {
+      await new Promise<void>(resolve => statement.finalize(() => resolve()));
+    }
+    this.statements.clear();
+
     return new Promise((resolve, reject) => {
       this.db!.close((err) => {
         if (err) {
@@ -53,225 +334,97 @@ export class DatabaseService implements IDatabase {
     });
   }
 
-  private async initializeTables(): Promise<void> {
+  // Applies pending migrations up to target, each in its own transaction, and resolves
+  // to the versions applied. Databases from before versioning start at version 0.
+  async migrate(target?: number): Promise<number[]> {
     if (!this.db) throw new Error('Database not connected');
 
-    const runAsync = (sql: string, params?: any[]): Promise<void> => {
-      return new Promise((resolve, reject) => {
-        this.db!.run(sql, params || [], function(err) {
+    const status = await this.getSchemaStatus();
+    await new Promise<void>((resolve, reject) => {
+      this.db!.run(
+        'CREATE TABLE IF NOT EXISTS schema_version (version INTEGER PRIMARY KEY, name TEXT, appliedAt INTEGER)',
+        (err) => {
           if (err) reject(err);
           else resolve();
-        });
+        }
+      );
+    });
+
+    const applied: number[] = [];
+    for (const migration of MIGRATIONS) {
+      if (migration.version <= status.version || (target !== undefined && migration.version > target)) continue;
+
+      await this.transaction(async () => {
+        const db = this.migrationContext();
+        await migration.up(db);
+        await db.run('INSERT INTO schema_version (version, name, appliedAt) VALUES (?, ?, ?)', [
+          migration.version,
+          migration.name,
+          Date.now(),
+        ]);
       });
-    };
+      this.logger.info(`Applied migration ${migration.version} ${migration.name}`);
+      applied.push(migration.version);
+    }
 
-    await runAsync(`
-      CREATE TABLE IF NOT EXISTS emails (
-        id TEXT PRIMARY KEY,
-        messageId TEXT UNIQUE,
-        threadId TEXT,
-        fromEmail TEXT,
-        fromName TEXT,
-        subject TEXT,
-        body TEXT,
-        htmlBody TEXT,
-        snippet TEXT,
-        date INTEGER,
-        priority TEXT,
-        category TEXT,
-        isRead INTEGER,
-        isStarred INTEGER,
-        isDraft INTEGER,
-        metadata TEXT,
-        aiAnalysis TEXT,
-        created_at INTEGER DEFAULT (strftime('%s', 'now'))
-      )
-    `);
-
-    await runAsync(`
-      CREATE TABLE IF NOT EXISTS email_recipients (
-        email_id TEXT,
-        type TEXT,
-        email TEXT,
-        name TEXT,
-        FOREIGN KEY (email_id) REFERENCES emails(id)
-      )
-    `);
-
-    await runAsync(`
-      CREATE TABLE IF NOT EXISTS email_labels (
-        email_id TEXT,
-        label TEXT,
-        FOREIGN KEY (email_id) REFERENCES emails(id)
-      )
-    `);
-
-    await runAsync(`
-      CREATE TABLE IF NOT EXISTS email_attachments (
-        id TEXT PRIMARY KEY,
-        email_id TEXT,
-        filename TEXT,
-        contentType TEXT,
-        size INTEGER,
-        data TEXT,
-        url TEXT,
-        FOREIGN KEY (email_id) REFERENCES emails(id)
-      )
-    `);
-
-    await runAsync(`
-      CREATE TABLE IF NOT EXISTS agent_tasks (
-        id TEXT PRIMARY KEY,
-        agentId TEXT,
-        emailId TEXT,
-        action TEXT,
-        parameters TEXT,
-        status TEXT,
-        result TEXT,
-        error TEXT,
-        createdAt INTEGER,
-        completedAt INTEGER
-      )
-    `);
-
-    await runAsync('CREATE INDEX IF NOT EXISTS idx_emails_date ON emails(date)');
-    await runAsync('CREATE INDEX IF NOT EXISTS idx_emails_category ON emails(category)');
-    await runAsync('CREATE INDEX IF NOT EXISTS idx_emails_priority ON emails(priority)');
-    await runAsync('CREATE INDEX IF NOT EXISTS idx_agent_tasks_agentId ON agent_tasks(agentId)');
+    await this.loadDataKeysIfReady();
+    return applied;
   }
 
-  async saveEmail(email: Email): Promise<void> {
+  async getSchemaStatus(): Promise<SchemaStatus> {
     if (!this.db) throw new Error('Database not connected');
 
-    const runAsync = (sql: string, params?: any[]): Promise<void> => {
-      return new Promise((resolve, reject) => {
-        this.db!.run(sql, params || [], function(err) {
+    const all = (sql: string): Promise<any[]> =>
+      new Promise((resolve, reject) => {
+        this.db!.all(sql, [], (err, rows) => {
           if (err) reject(err);
-          else resolve();
+          else resolve(rows);
         });
       });
-    };
-
-    await runAsync(
-      `INSERT OR REPLACE INTO emails (
-        id, messageId, threadId, fromEmail, fromName, subject, body, 
-        htmlBody, snippet, date, priority, category, isRead, isStarred, 
-        isDraft, metadata, aiAnalysis
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        email.id,
-        email.messageId,
-        email.threadId || null,
-        email.from.email,
-        email.from.name || null,
-        email.subject,
-        email.body,
-        email.htmlBody || null,
-        email.snippet || null,
-        email.date.getTime(),
-        email.priority,
-        email.category,
-        email.isRead ? 1 : 0,
-        email.isStarred ? 1 : 0,
-        email.isDraft ? 1 : 0,
-        JSON.stringify(email.metadata || {}),
-        JSON.stringify(email.aiAnalysis || {}),
-      ]
-    );
-
-    await runAsync('DELETE FROM email_recipients WHERE email_id = ?', [email.id]);
-    
-    for (const recipient of email.to) {
-      await runAsync(
-        'INSERT INTO email_recipients (email_id, type, email, name) VALUES (?, ?, ?, ?)',
-        [email.id, 'to', recipient.email, recipient.name || null]
-      );
-    }
-
-    if (email.cc) {
-      for (const recipient of email.cc) {
-        await runAsync(
-          'INSERT INTO email_recipients (email_id, type, email, name) VALUES (?, ?, ?, ?)',
-          [email.id, 'cc', recipient.email, recipient.name || null]
-        );
-      }
-    }
 
-    if (email.bcc) {
-      for (const recipient of email.bcc) {
-        await runAsync(
-          'INSERT INTO email_recipients (email_id, type, email, name) VALUES (?, ?, ?, ?)',
-          [email.id, 'bcc', recipient.email, recipient.name || null]
-        );
-      }
+    const tracked = await all("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'");
+    const [row] = tracked.length > 0 ? await all('SELECT max(version) AS version FROM schema_version') : [];
+    const version: number = row?.version || 0;
+    const latest = MIGRATIONS[MIGRATIONS.length - 1].version;
+    if (version > latest) {
+      throw new Error(`Database schema version ${version} is newer than this release supports (${latest})`);
     }
 
-    await runAsync('DELETE FROM email_labels WHERE email_id = ?', [email.id]);
-    for (const label of email.labels) {
-      await runAsync(
-        'INSERT INTO email_labels (email_id, label) VALUES (?, ?)',
-        [email.id, label]
-      );
-    }
+    return {
+      version,
+      latest,
+      pending: MIGRATIONS.filter(migration => migration.version > version).map(({ version, name }) => ({
+        version,
+        name,
+      })),
+    };
+  }
 
-    await runAsync('DELETE FROM email_attachments WHERE email_id = ?', [email.id]);
-    for (const attachment of email.attachments) {
-      await runAsync(
-        `INSERT INTO email_attachments (
-          id, email_id, filename, contentType, size, data, url
-        ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
-        [
-          attachment.id,
-          email.id,
-          attachment.filename,
-          attachment.contentType,
-          attachment.size,
-          attachment.data || null,
-          attachment.url || null,
-        ]
-      );
-    }
+  async saveEmail(email: Email): Promise<void> {
+    await this.saveEmails([email]);
   }
 
-  async getEmail(id: string): Promise<Email | null> {
+  // One transaction for the whole batch, so a failure part way leaves none of it behind
+  async saveEmails(emails: Email[]): Promise<void> {
     if (!this.db) throw new Error('Database not connected');
+    if (emails.length === 0) return;
 
-    const getAsync = (sql: string, params?: any[]): Promise<any> => {
-      return new Promise((resolve, reject) => {
-        this.db!.get(sql, params || [], (err, row) => {
-          if (err) reject(err);
-          else resolve(row);
-        });
-      });
-    };
-    const allAsync = (sql: string, params?: any[]): Promise<any[]> => {
-      return new Promise((resolve, reject) => {
-        this.db!.all(sql, params || [], (err, rows) => {
-          if (err) reject(err);
-          else resolve(rows);
-        });
-      });
-    };
-
-    const row = await getAsync('SELECT * FROM emails WHERE id = ?', [id]);
-    if (!row) return null;
-
-    const recipients = await allAsync(
-      'SELECT * FROM email_recipients WHERE email_id = ?',
-      [id]
-    );
+    const previousHashes: Array<string | null> = [];
+    await this.transaction(async () => {
+      for (const email of emails) {
+        previousHashes.push(...(await this.writeEmail(email)));
+      }
+    });
 
-    const labels = await allAsync(
-      'SELECT label FROM email_labels WHERE email_id = ?',
-      [id]
-    );
+    // Only once the new rows are committed can blobs nothing points at any more go
+    await this.releaseBlobs(previousHashes);
+  }
 
-    const attachments = await allAsync(
-      'SELECT * FROM email_attachments WHERE email_id = ?',
-      [id]
-    );
+  async getEmail(id: string): Promise<Email | null> {
+    if (!this.db) throw new Error('Database not connected');
 
-    return this.rowToEmail(row as any, recipients as any[], labels as any[], attachments as any[]);
+    const row = await this.getPrepared('SELECT * FROM emails WHERE id = ?', [id]);
+    return row ? (await this.loadEmailRows([row]))[0] : null;
   }
 
   async updateEmail(id: string, updates: Partial<Email>): Promise<void> {
@@ -283,24 +436,88 @@ export class DatabaseService implements IDatabase {
   }
 
   async deleteEmail(id: string): Promise<void> {
+    return this.deleteEmails([id]);
+  }
+
+  async deleteEmails(ids: string[]): Promise<void> {
     if (!this.db) throw new Error('Database not connected');
+    if (ids.length === 0) return;
 
-    const runAsync = (sql: string, params?: any[]): Promise<void> => {
-      return new Promise((resolve, reject) => {
-        this.db!.run(sql, params || [], function(err) {
-          if (err) reject(err);
-          else resolve();
-        });
-      });
-    };
+    const hashes: Array<string | null> = [];
+    await this.transaction(async () => {
+      for (const id of ids) {
+        const rows = await this.allPrepared('SELECT contentHash FROM email_attachments WHERE email_id = ?', [id]);
+        hashes.push(...rows.map(row => row.contentHash));
+        await this.runPrepared('DELETE FROM email_recipients WHERE email_id = ?', [id]);
+        await this.runPrepared('DELETE FROM email_labels WHERE email_id = ?', [id]);
+        await this.runPrepared('DELETE FROM email_attachments WHERE email_id = ?', [id]);
+        await this.runPrepared('DELETE FROM email_sources WHERE email_id = ?', [id]);
+        await this.runPrepared('DELETE FROM outbox WHERE email_id = ?', [id]);
+        await this.runPrepared('DELETE FROM emails_fts WHERE rowid = (SELECT rowid FROM emails WHERE id = ?)', [id]);
+        await this.runPrepared('DELETE FROM emails WHERE id = ?', [id]);
+      }
+    });
+    await this.releaseBlobs(hashes);
+  }
+
+  // Moves mail to the trash category and label, off the inbox
+  async trashEmails(ids: string[]): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+    if (ids.length === 0) return;
 
-    await runAsync('DELETE FROM email_recipients WHERE email_id = ?', [id]);
-    await runAsync('DELETE FROM email_labels WHERE email_id = ?', [id]);
-    await runAsync('DELETE FROM email_attachments WHERE email_id = ?', [id]);
-    await runAsync('DELETE FROM emails WHERE id = ?', [id]);
+    await this.transaction(async () => {
+      for (const id of ids) {
+        const row = await this.getPrepared('SELECT accountId FROM emails WHERE id = ?', [id]);
+        if (!row) continue;
+        await this.runPrepared("UPDATE emails SET category = 'trash' WHERE id = ?", [id]);
+        await this.runPrepared("DELETE FROM email_labels WHERE email_id = ? AND label COLLATE NOCASE = 'inbox'", [id]);
+        await this.runPrepared(
+          "INSERT INTO email_labels (email_id, label) SELECT ?, 'trash' WHERE NOT EXISTS " +
+            "(SELECT 1 FROM email_labels WHERE email_id = ? AND label COLLATE NOCASE = 'trash')",
+          [id, id],
+        );
+        await this.registerLabels(row.accountId, ['trash']);
+      }
+    });
+  }
+
+  // Keeps the attachments' names and sizes but drops their content
+  async stripAttachmentContent(emailIds: string[]): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+    if (emailIds.length === 0) return;
+
+    const hashes: Array<string | null> = [];
+    await this.transaction(async () => {
+      for (const id of emailIds) {
+        const rows = await this.allPrepared('SELECT contentHash FROM email_attachments WHERE email_id = ?', [id]);
+        hashes.push(...rows.map(row => row.contentHash));
+        await this.runPrepared('UPDATE email_attachments SET data = NULL, contentHash = NULL WHERE email_id = ?', [id]);
+      }
+    });
+    await this.releaseBlobs(hashes);
   }
 
   async searchEmails(query: EmailSearchQuery): Promise<Email[]> {
+    return (await this.searchEmailHits(query)).map(hit => hit.email);
+  }
+
+  async searchEmailHits(query: EmailSearchQuery): Promise<EmailSearchHit[]> {
+    return (await this.findEmailHits(query)).hits;
+  }
+
+  async searchEmailPage(query: EmailSearchQuery): Promise<Page<EmailSearchHit>> {
+    const { hits, nextCursor, conditions, params } = await this.findEmailHits(query);
+    return {
+      items: hits,
+      nextCursor,
+      estimatedTotal: await this.countRows(`SELECT 1 FROM emails WHERE 1=1${conditions}`, params),
+    };
+  }
+
+  // One page of search hits, with the query's WHERE conditions for counting its matches
+  private async findEmailHits(
+    query: EmailSearchQuery,
+  ): Promise<{ hits: EmailSearchHit[]; nextCursor?: string; conditions: string; params: any[] }> {
     if (!this.db) throw new Error('Database not connected');
 
     const allAsync = (sql: string, params?: any[]): Promise<any[]> => {
@@ -312,152 +529,2690 @@ export class DatabaseService implements IDatabase {
       });
     };
 
-    let sql = 'SELECT * FROM emails WHERE 1=1';
+    // Full-text conditions are rowid lookups in emails_fts so they can sit under OR
+    // and NOT; every positive one also feeds the ranking and highlighting join
+    const rankTerms: string[] = [];
     const params: any[] = [];
+    let conditions = '';
 
-    if (query.from) {
-      sql += ' AND fromEmail LIKE ?';
-      params.push(`%${query.from}%`);
+    const filters: Array<[string | undefined, string]> = [
+      [query.text, ''],
+      [query.subject, 'subject : '],
+      [query.body, 'body : '],
+      [query.to, 'recipients : '],
+    ];
+    for (const [input, column] of filters) {
+      const expression = input ? toMatchExpression(input) : null;
+      if (expression) {
+        conditions += ` AND ${MATCHES}`;
+        params.push(`${column}${expression}`);
+        rankTerms.push(`${column}${expression}`);
+      }
+    }
+
+    if (query.where) {
+      conditions += ` AND ${this.compileSearchNode(query.where, params, rankTerms, false)}`;
     }
 
-    if (query.subject) {
-      sql += ' AND subject LIKE ?';
-      params.push(`%${query.subject}%`);
+    if (query.accountId) {
+      conditions += ' AND accountId = ?';
+      params.push(query.accountId);
     }
 
-    if (query.body) {
-      sql += ' AND body LIKE ?';
-      params.push(`%${query.body}%`);
+    if (query.from) {
+      conditions += " AND fromEmail LIKE ? ESCAPE '\\'";
+      params.push(likeContains(query.from));
     }
 
     if (query.category) {
-      sql += ' AND category = ?';
+      conditions += ' AND category = ?';
       params.push(query.category);
     }
 
     if (query.priority) {
-      sql += ' AND priority = ?';
+      conditions += ' AND priority = ?';
       params.push(query.priority);
     }
 
+    for (const label of query.labels || []) {
+      conditions += ' AND EXISTS (SELECT 1 FROM email_labels l WHERE l.email_id = emails.id AND l.label = ? COLLATE NOCASE)';
+      params.push(label);
+    }
+
     if (query.dateFrom) {
-      sql += ' AND date >= ?';
+      conditions += ' AND date >= ?';
       params.push(query.dateFrom.getTime());
     }
 
     if (query.dateTo) {
-      sql += ' AND date <= ?';
+      conditions += ' AND date <= ?';
       params.push(query.dateTo.getTime());
     }
 
     if (query.isRead !== undefined) {
-      sql += ' AND isRead = ?';
+      conditions += ' AND isRead = ?';
       params.push(query.isRead ? 1 : 0);
     }
 
     if (query.isStarred !== undefined) {
-      sql += ' AND isStarred = ?';
+      conditions += ' AND isStarred = ?';
       params.push(query.isStarred ? 1 : 0);
     }
 
-    sql += ' ORDER BY date DESC';
+    if (query.isDraft !== undefined) {
+      conditions += ' AND isDraft = ?';
+      params.push(query.isDraft ? 1 : 0);
+    }
+
+    const filterParams = [...params];
+    const ranked = query.sortBy === 'relevance' && rankTerms.length > 0;
+    const limit = query.limit || undefined;
+    let offset = query.offset || 0;
+    let sql = conditions;
 
-    if (query.limit) {
-      sql += ' LIMIT ?';
-      params.push(query.limit);
+    if (query.cursor && ranked) {
+      const position = decodeCursor(query.cursor);
+      if (!('offset' in position)) throw new SyntaxError('Invalid cursor');
+      offset = position.offset;
+    } else if (query.cursor) {
+      const key = cursorKey(query.cursor, 2);
+      sql += ` AND ${afterKey([['emails.date', 'DESC'], ['emails.id', 'DESC']], key, params)}`;
+      offset = 0;
     }
 
-    if (query.offset) {
-      sql += ' OFFSET ?';
-      params.push(query.offset);
+    if (rankTerms.length > 0) {
+      sql = `
+        SELECT emails.*, ranked.searchRank, ranked.subjectHighlight, ranked.bodyHighlight
+        FROM emails LEFT JOIN (
+          SELECT rowid AS rankedRowid,
+            bm25(emails_fts, ${SEARCH_WEIGHTS}) AS searchRank,
+            highlight(emails_fts, 0, '${MATCH_START}', '${MATCH_END}') AS subjectHighlight,
+            snippet(emails_fts, 1, '${MATCH_START}', '${MATCH_END}', '…', 24) AS bodyHighlight
+          FROM emails_fts WHERE emails_fts MATCH ?
+        ) ranked ON ranked.rankedRowid = emails.rowid
+        WHERE 1=1${sql}`;
+      params.unshift(rankTerms.map(term => `(${term})`).join(' OR '));
+    } else {
+      sql = `SELECT emails.* FROM emails WHERE 1=1${sql}`;
+    }
+
+    // Mail that matched only through non-text conditions has no rank and sorts last
+    sql += ranked
+      ? ' ORDER BY ranked.searchRank IS NULL, ranked.searchRank, emails.date DESC, emails.id DESC'
+      : ' ORDER BY emails.date DESC, emails.id DESC';
+
+    if (limit !== undefined || offset > 0) {
+      sql += ' LIMIT ? OFFSET ?';
+      params.push(limit !== undefined ? limit + 1 : -1, offset);
     }
 
     const rows = await allAsync(sql, params);
-    const emails: Email[] = [];
+    const page = limit !== undefined ? rows.slice(0, limit) : rows;
+    const emails = await this.loadEmailRows(page);
 
-    for (const row of rows as any[]) {
-      const recipients = await allAsync(
-        'SELECT * FROM email_recipients WHERE email_id = ?',
-        [row.id]
-      );
+    return {
+      hits: page.map((row, i) =>
+        row.searchRank !== undefined && row.searchRank !== null
+          ? {
+              email: emails[i],
+              rank: row.searchRank,
+              highlights: { subject: markMatches(row.subjectHighlight), body: markMatches(row.bodyHighlight) },
+            }
+          : { email: emails[i] },
+      ),
+      nextCursor: nextCursor(rows, limit, row =>
+        ranked ? { offset: offset + limit! } : { after: [row.date, row.id] },
+      ),
+      conditions,
+      params: filterParams,
+    };
+  }
+
+  async getEmailByMessageId(messageId: string, accountId: string = DEFAULT_ACCOUNT_ID): Promise<Email | null> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const row = await this.getPrepared('SELECT * FROM emails WHERE accountId = ? AND messageId = ?', [
+      accountId,
+      messageId,
+    ]);
+
+    return row ? (await this.loadEmailRows([row]))[0] : null;
+  }
+
+  async findEmailsByMessageIds(
+    messageIds: string[],
+    accountId: string = DEFAULT_ACCOUNT_ID
+  ): Promise<Email[]> {
+    if (!this.db) throw new Error('Database not connected');
+    if (messageIds.length === 0) return [];
 
-      const labels = await allAsync(
-        'SELECT label FROM email_labels WHERE email_id = ?',
-        [row.id]
+    const rows = await new Promise<any[]>((resolve, reject) => {
+      this.db!.all(
+        `SELECT * FROM emails WHERE accountId = ? AND messageId IN (${messageIds.map(() => '?').join(', ')})`,
+        [accountId, ...messageIds],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows);
+        }
       );
+    });
+
+    return this.loadEmailRows(rows);
+  }
+
+  async findEmailsReferencing(messageId: string, accountId: string = DEFAULT_ACCOUNT_ID): Promise<Email[]> {
+    if (!this.db) throw new Error('Database not connected');
 
-      const attachments = await allAsync(
-        'SELECT * FROM email_attachments WHERE email_id = ?',
-        [row.id]
+    const rows = await new Promise<any[]>((resolve, reject) => {
+      this.db!.all(
+        // Matched as whole entries: Message-IDs often hold _ or %, which LIKE would treat as wildcards
+        `SELECT * FROM emails WHERE accountId = ?
+         AND (inReplyTo = ? OR EXISTS (SELECT 1 FROM json_each(referenceIds) WHERE value = ?))`,
+        [accountId, messageId, messageId],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows);
+        }
       );
+    });
 
-      const email = this.rowToEmail(row, recipients as any[], labels as any[], attachments as any[]);
-      emails.push(email);
-    }
+    return this.loadEmailRows(rows);
+  }
 
-    return emails;
+  async findThreadIdBySubject(
+    normalizedSubject: string,
+    since: Date,
+    accountId: string = DEFAULT_ACCOUNT_ID
+  ): Promise<string | null> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const row = await new Promise<any>((resolve, reject) => {
+      this.db!.get(
+        `SELECT threadId FROM emails
+         WHERE accountId = ? AND normalizedSubject = ? AND date >= ? AND threadId IS NOT NULL
+         ORDER BY date DESC LIMIT 1`,
+        [accountId, normalizedSubject, since.getTime()],
+        (err, row) => {
+          if (err) reject(err);
+          else resolve(row);
+        }
+      );
+    });
+
+    return row ? row.threadId : null;
   }
 
-  async saveAgentTask(task: AgentTask): Promise<void> {
+  async getThreadEmails(threadId: string): Promise<Email[]> {
     if (!this.db) throw new Error('Database not connected');
 
-    const runAsync = (sql: string, params?: any[]): Promise<void> => {
-      return new Promise((resolve, reject) => {
-        this.db!.run(sql, params || [], function(err) {
+    const rows = await new Promise<any[]>((resolve, reject) => {
+      this.db!.all(
+        'SELECT * FROM emails WHERE threadId = ? ORDER BY date ASC',
+        [threadId],
+        (err, rows) => {
           if (err) reject(err);
-          else resolve();
-        });
-      });
-    };
+          else resolve(rows);
+        }
+      );
+    });
 
-    await runAsync(
-      `INSERT OR REPLACE INTO agent_tasks (
-        id, agentId, emailId, action, parameters, status, result, error, createdAt, completedAt
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        task.id,
-        task.agentId,
-        task.emailId,
-        task.action,
-        JSON.stringify(task.parameters),
-        task.status,
-        task.result ? JSON.stringify(task.result) : null,
-        task.error || null,
-        task.createdAt.getTime(),
-        task.completedAt ? task.completedAt.getTime() : null,
-      ]
-    );
+    return this.loadEmailRows(rows);
   }
 
-  async getAgentTasks(agentId: string): Promise<AgentTask[]> {
+  async getThreadPage(query: ThreadQuery = {}): Promise<Page<EmailThread>> {
     if (!this.db) throw new Error('Database not connected');
 
-    const allAsync = (sql: string, params?: any[]): Promise<any[]> => {
+    const allAsync = (sql: string, params: any[]): Promise<any[]> => {
       return new Promise((resolve, reject) => {
-        this.db!.all(sql, params || [], (err, rows) => {
+        this.db!.all(sql, params, (err, rows) => {
           if (err) reject(err);
           else resolve(rows);
         });
       });
     };
 
-    const rows = await allAsync(
-      'SELECT * FROM agent_tasks WHERE agentId = ? ORDER BY createdAt DESC',
-      [agentId]
-    );
+    const params: any[] = [];
+    let threads = 'SELECT coalesce(threadId, id) AS threadKey, max(date) AS lastDate FROM emails';
+    if (query.accountId) {
+      threads += ' WHERE accountId = ?';
+      params.push(query.accountId);
+    }
+    threads += ' GROUP BY threadKey';
 
-    return (rows as any[]).map(row => ({
-      id: row.id,
-      agentId: row.agentId,
-      emailId: row.emailId,
-      action: row.action,
-      parameters: JSON.parse(row.parameters),
+    const pageParams = [...params];
+    let sql = `SELECT threadKey, lastDate FROM (${threads})`;
+    if (query.cursor) {
+      const key = cursorKey(query.cursor, 2);
+      sql += ` WHERE ${afterKey([['lastDate', 'DESC'], ['threadKey', 'DESC']], key, pageParams)}`;
+    }
+    sql += ' ORDER BY lastDate DESC, threadKey DESC';
+    if (query.limit !== undefined) {
+      sql += ' LIMIT ?';
+      pageParams.push(query.limit + 1);
+    }
+
+    const keyRows = await allAsync(sql, pageParams);
+    const pageRows = query.limit !== undefined ? keyRows.slice(0, query.limit) : keyRows;
+
+    // Only the mail of the threads on this page is loaded, in batches
+    const byThread = new Map<string, Email[]>(pageRows.map(row => [row.threadKey, []]));
+    for (let i = 0; i < pageRows.length; i += EMAIL_LOAD_BATCH) {
+      const keys = pageRows.slice(i, i + EMAIL_LOAD_BATCH).map(row => row.threadKey);
+      const placeholders = keys.map(() => '?').join(', ');
+      const rows = await allAsync(
+        `SELECT * FROM emails
+         WHERE (threadId IN (${placeholders}) OR (threadId IS NULL AND id IN (${placeholders})))${
+           query.accountId ? ' AND accountId = ?' : ''
+         }
+         ORDER BY date ASC`,
+        [...keys, ...keys, ...(query.accountId ? [query.accountId] : [])],
+      );
+      for (const email of await this.loadEmailRows(rows)) {
+        byThread.get(email.threadId ?? email.id)!.push(email);
+      }
+    }
+
+    return {
+      items: Array.from(byThread.values()).map(emails => toThread(emails)),
+      nextCursor: nextCursor(keyRows, query.limit, row => ({ after: [row.lastDate, row.threadKey] })),
+      estimatedTotal: await this.countRows(threads, params),
+    };
+  }
+
+  async reassignThread(fromThreadId: string, toThreadId: string): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        'UPDATE emails SET threadId = ? WHERE threadId = ?',
+        [toThreadId, fromThreadId],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  async getFolderUids(folder: string, accountId: string = DEFAULT_ACCOUNT_ID): Promise<FolderUid[]> {
+    if (!this.db) throw new Error('Database not connected');
+
+    return new Promise((resolve, reject) => {
+      this.db!.all(
+        'SELECT id, uid FROM emails WHERE accountId = ? AND folder = ? AND uid IS NOT NULL ORDER BY uid',
+        [accountId, folder],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows as FolderUid[]);
+        }
+      );
+    });
+  }
+
+  async clearFolderUids(folder: string, accountId: string = DEFAULT_ACCOUNT_ID): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        'UPDATE emails SET uid = NULL WHERE accountId = ? AND folder = ?',
+        [accountId, folder],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  async getSyncState(accountId: string, folder: string): Promise<MailboxSyncState | null> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const row = await new Promise<any>((resolve, reject) => {
+      this.db!.get(
+        'SELECT * FROM mailbox_sync_state WHERE accountId = ? AND folder = ?',
+        [accountId, folder],
+        (err, row) => {
+          if (err) reject(err);
+          else resolve(row);
+        }
+      );
+    });
+
+    if (!row) return null;
+
+    return {
+      accountId: row.accountId,
+      folder: row.folder,
+      uidValidity: row.uidValidity,
+      highestUid: row.highestUid,
+      highestModseq: row.highestModseq || undefined,
+      lastSyncedAt: new Date(row.lastSyncedAt),
+    };
+  }
+
+  async saveSyncState(state: MailboxSyncState): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `INSERT OR REPLACE INTO mailbox_sync_state (
+          accountId, folder, uidValidity, highestUid, highestModseq, lastSyncedAt
+        ) VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          state.accountId,
+          state.folder,
+          state.uidValidity,
+          state.highestUid,
+          state.highestModseq || null,
+          state.lastSyncedAt.getTime(),
+        ],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  async saveEmailSource(emailId: string, raw: Buffer): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        'INSERT OR REPLACE INTO email_sources (email_id, raw, dataKeyId) VALUES (?, ?, ?)',
+        [emailId, this.cipher ? this.cipher.encryptBuffer(raw) : raw, this.cipher?.dataKeyId ?? null],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  async getEmailSource(emailId: string): Promise<Buffer | null> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const row = await new Promise<any>((resolve, reject) => {
+      this.db!.get('SELECT raw FROM email_sources WHERE email_id = ?', [emailId], (err, row) => {
+        if (err) reject(err);
+        else resolve(row);
+      });
+    });
+
+    return row ? this.openBuffer(row.raw) : null;
+  }
+
+  async getAttachment(emailId: string, attachmentId: string): Promise<AttachmentContent | null> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const row = await new Promise<any>((resolve, reject) => {
+      this.db!.get(
+        `SELECT ${ATTACHMENT_COLUMNS}, data FROM email_attachments WHERE email_id = ? AND id = ?`,
+        [emailId, attachmentId],
+        (err, row) => {
+          if (err) reject(err);
+          else resolve(row);
+        }
+      );
+    });
+
+    if (!row) return null;
+
+    const stream = row.contentHash
+      ? await this.attachmentStore.createReadStream(row.contentHash)
+      : row.data
+        ? Readable.from([Buffer.from(row.data, 'base64')])
+        : null;
+
+    if (!stream) return null;
+
+    return {
+      attachment: {
+        id: row.id,
+        filename: row.filename,
+        contentType: row.contentType,
+        size: row.size,
+        contentHash: row.contentHash || undefined,
+        url: row.url || undefined,
+      },
+      stream,
+    };
+  }
+
+  async loadAttachmentData(attachments: EmailAttachment[]): Promise<EmailAttachment[]> {
+    const loaded: EmailAttachment[] = [];
+
+    for (const attachment of attachments) {
+      if (attachment.data || !attachment.contentHash) {
+        loaded.push(attachment);
+        continue;
+      }
+
+      const content = await this.attachmentStore.get(attachment.contentHash);
+      if (!content) {
+        throw new Error(`Attachment content ${attachment.contentHash} is missing`);
+      }
+      loaded.push({ ...attachment, data: content.toString('base64') });
+    }
+
+    return loaded;
+  }
+
+  // Blobs are shared between attachments with the same content
+  private async releaseBlobs(hashes: Array<string | null>): Promise<void> {
+    for (const hash of new Set(hashes.filter((h): h is string => Boolean(h)))) {
+      const row = await this.getPrepared('SELECT 1 AS used FROM email_attachments WHERE contentHash = ? LIMIT 1', [
+        hash,
+      ]);
+
+      if (!row) {
+        await this.attachmentStore.delete(hash);
+      }
+    }
+  }
+
+  async saveOutboxEntry(entry: OutboxEntry): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `INSERT OR REPLACE INTO outbox (
+          email_id, state, attempts, lastError, nextAttemptAt, createdAt, updatedAt, sentAt
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          entry.emailId,
+          entry.state,
+          entry.attempts,
+          entry.lastError || null,
+          entry.nextAttemptAt.getTime(),
+          entry.createdAt.getTime(),
+          entry.updatedAt.getTime(),
+          entry.sentAt ? entry.sentAt.getTime() : null,
+        ],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  async getOutboxEntry(emailId: string): Promise<OutboxEntry | null> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const row = await new Promise<any>((resolve, reject) => {
+      this.db!.get('SELECT * FROM outbox WHERE email_id = ?', [emailId], (err, row) => {
+        if (err) reject(err);
+        else resolve(row);
+      });
+    });
+
+    return row ? this.rowToOutboxEntry(row) : null;
+  }
+
+  async listOutboxEntries(state?: OutboxState): Promise<OutboxEntry[]> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const rows = await new Promise<any[]>((resolve, reject) => {
+      this.db!.all(
+        state
+          ? 'SELECT * FROM outbox WHERE state = ? ORDER BY createdAt DESC'
+          : 'SELECT * FROM outbox ORDER BY createdAt DESC',
+        state ? [state] : [],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows);
+        }
+      );
+    });
+
+    return rows.map(row => this.rowToOutboxEntry(row));
+  }
+
+  async getDueOutboxEntries(now: Date, limit: number): Promise<OutboxEntry[]> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const rows = await new Promise<any[]>((resolve, reject) => {
+      this.db!.all(
+        `SELECT * FROM outbox WHERE state IN ('scheduled', 'queued') AND nextAttemptAt <= ?
+         ORDER BY nextAttemptAt, createdAt LIMIT ?`,
+        [now.getTime(), limit],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows);
+        }
+      );
+    });
+
+    return rows.map(row => this.rowToOutboxEntry(row));
+  }
+
+  async transitionOutboxEntry(entry: OutboxEntry, from: OutboxState): Promise<boolean> {
+    if (!this.db) throw new Error('Database not connected');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `UPDATE outbox SET state = ?, attempts = ?, lastError = ?, nextAttemptAt = ?, updatedAt = ?, sentAt = ?
+         WHERE email_id = ? AND state = ?`,
+        [
+          entry.state,
+          entry.attempts,
+          entry.lastError || null,
+          entry.nextAttemptAt.getTime(),
+          entry.updatedAt.getTime(),
+          entry.sentAt ? entry.sentAt.getTime() : null,
+          entry.emailId,
+          from,
+        ],
+        function(err) {
+          if (err) reject(err);
+          else resolve(this.changes > 0);
+        }
+      );
+    });
+  }
+
+  async deleteOutboxEntry(emailId: string, state: OutboxState): Promise<boolean> {
+    if (!this.db) throw new Error('Database not connected');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run('DELETE FROM outbox WHERE email_id = ? AND state = ?', [emailId, state], function(err) {
+        if (err) reject(err);
+        else resolve(this.changes > 0);
+      });
+    });
+  }
+
+  async saveAccount(account: Account): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `INSERT OR REPLACE INTO accounts (
+          id, name, email, provider, settings, credentials, enabled, createdAt, updatedAt, dataKeyId
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          account.id,
+          account.name,
+          account.email,
+          account.provider,
+          JSON.stringify(account.settings),
+          this.seal(JSON.stringify(account.credentials)),
+          account.enabled ? 1 : 0,
+          account.createdAt.getTime(),
+          account.updatedAt.getTime(),
+          this.cipher?.dataKeyId ?? null,
+        ],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  async getAccount(id: string): Promise<Account | null> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const row = await new Promise<any>((resolve, reject) => {
+      this.db!.get('SELECT * FROM accounts WHERE id = ?', [id], (err, row) => {
+        if (err) reject(err);
+        else resolve(row);
+      });
+    });
+
+    return row ? this.rowToAccount(row) : null;
+  }
+
+  async listAccounts(): Promise<Account[]> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const rows = await new Promise<any[]>((resolve, reject) => {
+      this.db!.all('SELECT * FROM accounts ORDER BY createdAt', [], (err, rows) => {
+        if (err) reject(err);
+        else resolve(rows);
+      });
+    });
+
+    return rows.map(row => this.rowToAccount(row));
+  }
+
+  async deleteAccount(id: string): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const runAsync = (sql: string, params?: any[]): Promise<void> => {
+      return new Promise((resolve, reject) => {
+        this.db!.run(sql, params || [], function(err) {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+    };
+
+    await runAsync('DELETE FROM mailbox_sync_state WHERE accountId = ?', [id]);
+    await runAsync('DELETE FROM accounts WHERE id = ?', [id]);
+  }
+
+  async saveLabel(label: Label): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `INSERT INTO labels (id, accountId, name, color, remoteName, createdAt, updatedAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           name = excluded.name, color = excluded.color, remoteName = excluded.remoteName,
+           updatedAt = excluded.updatedAt`,
+        [
+          label.id,
+          label.accountId,
+          label.name,
+          label.color || null,
+          label.remoteName || null,
+          label.createdAt.getTime(),
+          label.updatedAt.getTime(),
+        ],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  async getLabel(id: string): Promise<Label | null> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const row = await new Promise<any>((resolve, reject) => {
+      this.db!.get('SELECT * FROM labels WHERE id = ?', [id], (err, row) => {
+        if (err) reject(err);
+        else resolve(row);
+      });
+    });
+
+    return row ? this.rowToLabel(row) : null;
+  }
+
+  async findLabelByName(accountId: string, name: string): Promise<Label | null> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const row = await new Promise<any>((resolve, reject) => {
+      this.db!.get('SELECT * FROM labels WHERE accountId = ? AND name = ?', [accountId, name], (err, row) => {
+        if (err) reject(err);
+        else resolve(row);
+      });
+    });
+
+    return row ? this.rowToLabel(row) : null;
+  }
+
+  async listLabels(accountId: string): Promise<Label[]> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const rows = await new Promise<any[]>((resolve, reject) => {
+      this.db!.all('SELECT * FROM labels WHERE accountId = ? ORDER BY name', [accountId], (err, rows) => {
+        if (err) reject(err);
+        else resolve(rows);
+      });
+    });
+
+    return rows.map(row => this.rowToLabel(row));
+  }
+
+  // Emails carrying each label by name; a label set twice on one email counts once
+  async getLabelCounts(accountId: string): Promise<LabelCounts[]> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const rows = await new Promise<any[]>((resolve, reject) => {
+      this.db!.all(
+        `SELECT min(l.label) AS label, count(DISTINCT e.id) AS total,
+           count(DISTINCT CASE WHEN e.isRead = 0 THEN e.id END) AS unread
+         FROM email_labels l JOIN emails e ON e.id = l.email_id
+         WHERE e.accountId = ?
+         GROUP BY l.label COLLATE NOCASE`,
+        [accountId],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows);
+        }
+      );
+    });
+
+    return rows.map(row => ({ label: row.label, total: row.total, unread: row.unread }));
+  }
+
+  async renameLabel(accountId: string, from: string, to: string): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const runAsync = (sql: string, params?: any[]): Promise<void> => {
+      return new Promise((resolve, reject) => {
+        this.db!.run(sql, params || [], function(err) {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+    };
+
+    // Nested labels keep their own part of the path: a/b -> x/b
+    const start = from.length + 1;
+    const updatedAt = Date.now();
+    await this.transaction(async () => {
+      await runAsync(
+        `UPDATE labels SET name = ? || substr(name, ?), updatedAt = ?
+         WHERE accountId = ? AND ${LABEL_SUBTREE('name')}`,
+        [to, start, updatedAt, accountId, ...subtreeParams(from)]
+      );
+      await runAsync(
+        `UPDATE email_labels SET label = ? || substr(label, ?)
+         WHERE email_id IN (SELECT id FROM emails WHERE accountId = ?) AND ${LABEL_SUBTREE('label')}`,
+        [to, start, accountId, ...subtreeParams(from)]
+      );
+    });
+  }
+
+  async deleteLabel(accountId: string, name: string): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const runAsync = (sql: string, params?: any[]): Promise<void> => {
+      return new Promise((resolve, reject) => {
+        this.db!.run(sql, params || [], function(err) {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+    };
+
+    await this.transaction(async () => {
+      await runAsync(
+        `DELETE FROM email_labels
+         WHERE email_id IN (SELECT id FROM emails WHERE accountId = ?) AND ${LABEL_SUBTREE('label')}`,
+        [accountId, ...subtreeParams(name)]
+      );
+      await runAsync(`DELETE FROM labels WHERE accountId = ? AND ${LABEL_SUBTREE('name')}`, [
+        accountId,
+        ...subtreeParams(name),
+      ]);
+    });
+  }
+
+  async addEmailLabels(emailIds: string[], labels: string[]): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+    if (emailIds.length === 0 || labels.length === 0) return;
+
+    const runAsync = (sql: string, params?: any[]): Promise<void> => {
+      return new Promise((resolve, reject) => {
+        this.db!.run(sql, params || [], function(err) {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+    };
+
+    const accounts = await new Promise<any[]>((resolve, reject) => {
+      this.db!.all(
+        `SELECT DISTINCT accountId FROM emails WHERE id IN (${emailIds.map(() => '?').join(', ')})`,
+        emailIds,
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows);
+        }
+      );
+    });
+
+    await this.transaction(async () => {
+      for (const row of accounts) {
+        await this.registerLabels(row.accountId, labels);
+      }
+      for (const emailId of emailIds) {
+        for (const label of labels) {
+          await runAsync(
+            `INSERT INTO email_labels (email_id, label)
+             SELECT id, ? FROM emails WHERE id = ?
+               AND NOT EXISTS (SELECT 1 FROM email_labels WHERE email_id = ? AND label = ? COLLATE NOCASE)`,
+            [label, emailId, emailId, label]
+          );
+        }
+      }
+    });
+  }
+
+  async removeEmailLabels(emailIds: string[], labels: string[]): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+    if (emailIds.length === 0 || labels.length === 0) return;
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `DELETE FROM email_labels
+         WHERE email_id IN (${emailIds.map(() => '?').join(', ')})
+           AND label COLLATE NOCASE IN (${labels.map(() => '?').join(', ')})`,
+        [...emailIds, ...labels],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  async setEmailFlags(emailIds: string[], changes: MessageFlagChanges): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const columns = (['isRead', 'isStarred'] as const).filter(column => changes[column] !== undefined);
+    if (emailIds.length === 0 || columns.length === 0) return;
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `UPDATE emails SET ${columns.map(column => `${column} = ?`).join(', ')}
+         WHERE id IN (${emailIds.map(() => '?').join(', ')})`,
+        [...columns.map(column => (changes[column] ? 1 : 0)), ...emailIds],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  async moveEmails(emailIds: string[], folder: string): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+    if (emailIds.length === 0) return;
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `UPDATE emails SET folder = ?, uid = NULL WHERE id IN (${emailIds.map(() => '?').join(', ')})`,
+        [folder, ...emailIds],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  async saveContacts(contacts: Contact[], replaced: string[] = []): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+    if (contacts.length === 0 && replaced.length === 0) return;
+
+    const runAsync = (sql: string, params?: any[]): Promise<void> => {
+      return new Promise((resolve, reject) => {
+        this.db!.run(sql, params || [], function(err) {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+    };
+
+    await this.transaction(async () => {
+      for (const id of replaced) {
+        await runAsync('DELETE FROM contact_emails WHERE contact_id = ?', [id]);
+        await runAsync('DELETE FROM contacts WHERE id = ?', [id]);
+      }
+
+      for (const contact of contacts) {
+        await runAsync(
+          `INSERT OR REPLACE INTO contacts (
+            id, accountId, name, aliases, phones, organization, notes, firstContactAt, lastContactAt,
+            sentCount, receivedCount, createdAt, updatedAt
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            contact.id,
+            contact.accountId,
+            contact.name || null,
+            JSON.stringify(contact.aliases),
+            JSON.stringify(contact.phones),
+            contact.organization || null,
+            contact.notes || null,
+            contact.firstContactAt?.getTime() ?? null,
+            contact.lastContactAt?.getTime() ?? null,
+            contact.sentCount,
+            contact.receivedCount,
+            contact.createdAt.getTime(),
+            contact.updatedAt.getTime(),
+          ]
+        );
+
+        await runAsync('DELETE FROM contact_emails WHERE contact_id = ?', [contact.id]);
+        for (const [position, email] of contact.emails.entries()) {
+          await runAsync(
+            'INSERT INTO contact_emails (contact_id, accountId, email, key, position) VALUES (?, ?, ?, ?, ?)',
+            [contact.id, contact.accountId, email, contactKey(email), position]
+          );
+        }
+      }
+    });
+  }
+
+  async getContact(id: string): Promise<Contact | null> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const row = await new Promise<any>((resolve, reject) => {
+      this.db!.get('SELECT * FROM contacts WHERE id = ?', [id], (err, row) => {
+        if (err) reject(err);
+        else resolve(row);
+      });
+    });
+
+    return row ? (await this.loadContacts([row]))[0] : null;
+  }
+
+  async findContactByEmail(accountId: string, email: string): Promise<Contact | null> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const row = await new Promise<any>((resolve, reject) => {
+      this.db!.get(
+        `SELECT c.* FROM contacts c JOIN contact_emails ce ON ce.contact_id = c.id
+         WHERE ce.accountId = ? AND ce.key = ?`,
+        [accountId, contactKey(email)],
+        (err, row) => {
+          if (err) reject(err);
+          else resolve(row);
+        }
+      );
+    });
+
+    return row ? (await this.loadContacts([row]))[0] : null;
+  }
+
+  async listContacts(accountId: string): Promise<Contact[]> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const rows = await new Promise<any[]>((resolve, reject) => {
+      this.db!.all(
+        'SELECT * FROM contacts WHERE accountId = ? ORDER BY name IS NULL, name COLLATE NOCASE, createdAt',
+        [accountId],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows);
+        }
+      );
+    });
+
+    return this.loadContacts(rows);
+  }
+
+  async searchContacts(accountId: string, prefix: string): Promise<Contact[]> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const start = likePrefix(prefix.trim());
+    const word = `% ${start}`;
+    const rows = await new Promise<any[]>((resolve, reject) => {
+      this.db!.all(
+        `SELECT * FROM contacts c
+         WHERE c.accountId = ? AND (
+           c.name LIKE ? ESCAPE '\\' OR c.name LIKE ? ESCAPE '\\'
+           OR c.aliases LIKE ? ESCAPE '\\' OR c.aliases LIKE ? ESCAPE '\\'
+           OR EXISTS (
+             SELECT 1 FROM contact_emails ce
+             WHERE ce.contact_id = c.id AND (ce.email LIKE ? ESCAPE '\\' OR ce.email LIKE ? ESCAPE '\\')
+           )
+         )`,
+        [accountId, start, word, `%"${start}`, word, start, `%@${start}`],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows);
+        }
+      );
+    });
+
+    return this.loadContacts(rows);
+  }
+
+  async deleteContact(id: string): Promise<void> {
+    await this.saveContacts([], [id]);
+  }
+
+  async getCorrespondents(accountId: string): Promise<Correspondent[]> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const allAsync = (sql: string, params: any[]): Promise<any[]> => {
+      return new Promise((resolve, reject) => {
+        this.db!.all(sql, params, (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows);
+        });
+      });
+    };
+
+    const stats = await allAsync(
+      `${EXCHANGED}
+       SELECT email, min(date) AS firstContactAt, max(date) AS lastContactAt,
+         count(DISTINCT CASE WHEN sent = 1 THEN emailId END) AS sentCount,
+         count(DISTINCT CASE WHEN sent = 0 THEN emailId END) AS receivedCount
+       FROM correspondents GROUP BY email`,
+      [accountId, accountId]
+    );
+    const names = await allAsync(
+      `${EXCHANGED}
+       SELECT email, name, max(date) AS lastUsed FROM correspondents
+       WHERE trim(coalesce(name, '')) != '' GROUP BY email, name ORDER BY lastUsed DESC`,
+      [accountId, accountId]
+    );
+
+    const namesByEmail = new Map<string, string[]>();
+    for (const row of names) {
+      namesByEmail.set(row.email, [...(namesByEmail.get(row.email) || []), row.name]);
+    }
+
+    return stats.map(row => ({
+      email: row.email,
+      names: namesByEmail.get(row.email) || [],
+      firstContactAt: new Date(row.firstContactAt),
+      lastContactAt: new Date(row.lastContactAt),
+      sentCount: row.sentCount,
+      receivedCount: row.receivedCount,
+    }));
+  }
+
+  async saveCampaign(campaign: EmailCampaign): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const runAsync = (sql: string, params?: any[]): Promise<void> => {
+      return new Promise((resolve, reject) => {
+        this.db!.run(sql, params || [], function(err) {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+    };
+
+    const { templates, ...content } = campaign.content;
+    await this.transaction(async () => {
+      await this.saveSegment(campaign.targetAudience);
+      for (const template of templates) {
+        await this.saveTemplate(template);
+      }
+
+      await runAsync(
+        `INSERT OR REPLACE INTO campaigns (
+          id, name, description, status, type, segmentId, schedule, content, deliveryConfig, metrics,
+          engagementScore, approvalStatus, createdBy, createdAt, updatedAt
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          campaign.id,
+          campaign.name,
+          campaign.description || null,
+          campaign.status,
+          campaign.type,
+          campaign.targetAudience.id,
+          JSON.stringify(campaign.schedule),
+          JSON.stringify(content),
+          JSON.stringify(campaign.deliveryConfig),
+          JSON.stringify(campaign.metrics),
+          campaign.metrics.engagementScore,
+          campaign.approvalStatus ? JSON.stringify(campaign.approvalStatus) : null,
+          campaign.createdBy,
+          campaign.createdAt.getTime(),
+          campaign.updatedAt.getTime(),
+        ]
+      );
+
+      await runAsync('DELETE FROM campaign_templates WHERE campaign_id = ?', [campaign.id]);
+      for (const [position, template] of templates.entries()) {
+        await runAsync(
+          'INSERT OR IGNORE INTO campaign_templates (campaign_id, template_id, position) VALUES (?, ?, ?)',
+          [campaign.id, template.id, position]
+        );
+      }
+    });
+  }
+
+  async getCampaign(id: string): Promise<EmailCampaign | null> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const row = await new Promise<any>((resolve, reject) => {
+      this.db!.get(`${CAMPAIGN_SELECT} WHERE c.id = ?`, [id], (err, row) => {
+        if (err) reject(err);
+        else resolve(row);
+      });
+    });
+
+    return row ? (await this.loadCampaigns([row]))[0] : null;
+  }
+
+  async listCampaigns(filter: CampaignFilter = {}): Promise<EmailCampaign[]> {
+    return (await this.listCampaignPage(filter)).items;
+  }
+
+  async listCampaignPage(filter: CampaignFilter): Promise<Page<EmailCampaign>> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const params: any[] = [];
+    let sql = `${CAMPAIGN_SELECT} WHERE 1=1`;
+
+    if (filter.status && filter.status.length > 0) {
+      sql += ` AND c.status IN (${filter.status.map(() => '?').join(', ')})`;
+      params.push(...filter.status);
+    }
+
+    if (filter.type && filter.type.length > 0) {
+      sql += ` AND c.type IN (${filter.type.map(() => '?').join(', ')})`;
+      params.push(...filter.type);
+    }
+
+    if (filter.createdBy) {
+      sql += ' AND c.createdBy = ?';
+      params.push(filter.createdBy);
+    }
+
+    if (filter.dateFrom) {
+      sql += ' AND c.createdAt >= ?';
+      params.push(filter.dateFrom.getTime());
+    }
+
+    if (filter.dateTo) {
+      sql += ' AND c.createdAt <= ?';
+      params.push(filter.dateTo.getTime());
+    }
+
+    // Campaigns whose audience segment carries any of the tags
+    if (filter.tags && filter.tags.length > 0) {
+      sql += ` AND EXISTS (SELECT 1 FROM json_each(s.tags) WHERE json_each.value IN (${filter.tags
+        .map(() => '?')
+        .join(', ')}))`;
+      params.push(...filter.tags);
+    }
+
+    const filterSql = sql;
+    const filterParams = [...params];
+    const sortBy = filter.sortBy || 'created';
+    const direction = filter.sortOrder === 'desc' ? 'DESC' : 'ASC';
+    const order: Array<[string, 'ASC' | 'DESC']> = [
+      [CAMPAIGN_SORT_COLUMNS[sortBy], direction],
+      ['c.createdAt', 'ASC'],
+      ['c.id', 'ASC'],
+    ];
+
+    if (filter.cursor) {
+      sql += ` AND ${afterKey(order, cursorKey(filter.cursor, 3), params)}`;
+    }
+    sql += ` ORDER BY ${order.map(([column, dir]) => `${column} ${dir}`).join(', ')}`;
+
+    const offset = filter.cursor ? 0 : filter.offset ?? 0;
+    if (filter.limit !== undefined || offset > 0) {
+      sql += ' LIMIT ? OFFSET ?';
+      params.push(filter.limit !== undefined ? filter.limit + 1 : -1, offset);
+    }
+
+    const rows = await new Promise<any[]>((resolve, reject) => {
+      this.db!.all(sql, params, (err, rows) => {
+        if (err) reject(err);
+        else resolve(rows);
+      });
+    });
+
+    return {
+      items: await this.loadCampaigns(filter.limit !== undefined ? rows.slice(0, filter.limit) : rows),
+      nextCursor: nextCursor(rows, filter.limit, row => ({
+        after: [row[CAMPAIGN_SORT_FIELDS[sortBy]], row.createdAt, row.id],
+      })),
+      estimatedTotal: await this.countRows(filterSql, filterParams),
+    };
+  }
+
+  async deleteCampaign(id: string): Promise<boolean> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const runAsync = (sql: string, params?: any[]): Promise<number> => {
+      return new Promise((resolve, reject) => {
+        this.db!.run(sql, params || [], function(err) {
+          if (err) reject(err);
+          else resolve(this.changes);
+        });
+      });
+    };
+
+    let deleted = 0;
+    await this.transaction(async () => {
+      await runAsync('DELETE FROM campaign_drafts WHERE campaign_id = ?', [id]);
+      await runAsync('DELETE FROM campaign_templates WHERE campaign_id = ?', [id]);
+      deleted = await runAsync('DELETE FROM campaigns WHERE id = ?', [id]);
+    });
+    return deleted > 0;
+  }
+
+  async saveCampaignDrafts(drafts: EmailDraft[]): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+    if (drafts.length === 0) return;
+
+    const runAsync = (sql: string, params?: any[]): Promise<void> => {
+      return new Promise((resolve, reject) => {
+        this.db!.run(sql, params || [], function(err) {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+    };
+
+    await this.transaction(async () => {
+      for (const draft of drafts) {
+        await runAsync(
+          `INSERT OR REPLACE INTO campaign_drafts (
+            id, campaign_id, status, recipientEmail, recipient, content, aiGenerated, aiScore,
+            personalizations, metrics, scheduledAt, sentAt, createdAt, updatedAt
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            draft.id,
+            draft.campaignId || null,
+            draft.status,
+            draft.recipient.email,
+            JSON.stringify(draft.recipient),
+            JSON.stringify(draft.content),
+            draft.aiGenerated ? 1 : 0,
+            draft.aiScore ?? null,
+            JSON.stringify(draft.personalizations),
+            draft.metrics ? JSON.stringify(draft.metrics) : null,
+            draft.scheduledAt?.getTime() ?? null,
+            draft.sentAt?.getTime() ?? null,
+            draft.createdAt.getTime(),
+            draft.updatedAt.getTime(),
+          ]
+        );
+      }
+    });
+  }
+
+  async getCampaignDraft(id: string): Promise<EmailDraft | null> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const row = await new Promise<any>((resolve, reject) => {
+      this.db!.get('SELECT * FROM campaign_drafts WHERE id = ?', [id], (err, row) => {
+        if (err) reject(err);
+        else resolve(row);
+      });
+    });
+
+    return row ? this.rowToCampaignDraft(row) : null;
+  }
+
+  async listCampaignDrafts(campaignId: string, status?: EmailDraft['status']): Promise<EmailDraft[]> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const params: any[] = [campaignId];
+    let sql = 'SELECT * FROM campaign_drafts WHERE campaign_id = ?';
+    if (status) {
+      sql += ' AND status = ?';
+      params.push(status);
+    }
+
+    const rows = await new Promise<any[]>((resolve, reject) => {
+      this.db!.all(`${sql} ORDER BY createdAt, id`, params, (err, rows) => {
+        if (err) reject(err);
+        else resolve(rows);
+      });
+    });
+
+    return rows.map(row => this.rowToCampaignDraft(row));
+  }
+
+  async saveSegment(segment: AudienceSegment): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+
+    await new Promise<void>((resolve, reject) => {
+      this.db!.run(
+        `INSERT OR REPLACE INTO audience_segments (id, name, criteria, estimatedSize, tags, dynamicFields)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          segment.id,
+          segment.name,
+          JSON.stringify(segment.criteria),
+          segment.estimatedSize,
+          JSON.stringify(segment.tags),
+          segment.dynamicFields ? JSON.stringify(segment.dynamicFields) : null,
+        ],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  async getSegment(id: string): Promise<AudienceSegment | null> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const row = await new Promise<any>((resolve, reject) => {
+      this.db!.get('SELECT * FROM audience_segments WHERE id = ?', [id], (err, row) => {
+        if (err) reject(err);
+        else resolve(row);
+      });
+    });
+
+    return row ? this.rowToSegment(row) : null;
+  }
+
+  async listSegments(): Promise<AudienceSegment[]> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const rows = await new Promise<any[]>((resolve, reject) => {
+      this.db!.all('SELECT * FROM audience_segments ORDER BY name COLLATE NOCASE, id', [], (err, rows) => {
+        if (err) reject(err);
+        else resolve(rows);
+      });
+    });
+
+    return rows.map(row => this.rowToSegment(row));
+  }
+
+  async saveTemplate(template: EmailTemplate): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+
+    await new Promise<void>((resolve, reject) => {
+      this.db!.run(
+        `INSERT OR REPLACE INTO email_templates (id, name, category, content, variables, performance)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          template.id,
+          template.name,
+          template.category,
+          template.content,
+          JSON.stringify(template.variables),
+          template.performance ? JSON.stringify(template.performance) : null,
+        ],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  async getTemplate(id: string): Promise<EmailTemplate | null> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const row = await new Promise<any>((resolve, reject) => {
+      this.db!.get('SELECT * FROM email_templates WHERE id = ?', [id], (err, row) => {
+        if (err) reject(err);
+        else resolve(row);
+      });
+    });
+
+    return row ? this.rowToTemplate(row) : null;
+  }
+
+  async listTemplates(category?: string): Promise<EmailTemplate[]> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const rows = await new Promise<any[]>((resolve, reject) => {
+      this.db!.all(
+        `SELECT * FROM email_templates ${category ? 'WHERE category = ? ' : ''}ORDER BY name COLLATE NOCASE, id`,
+        category ? [category] : [],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows);
+        }
+      );
+    });
+
+    return rows.map(row => this.rowToTemplate(row));
+  }
+
+  async saveAgentTask(task: AgentTask): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const runAsync = (sql: string, params?: any[]): Promise<void> => {
+      return new Promise((resolve, reject) => {
+        this.db!.run(sql, params || [], function(err) {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+    };
+
+    await runAsync(
+      `INSERT OR REPLACE INTO agent_tasks (
+        id, agentId, emailId, accountId, action, parameters, status, result, error, createdAt, completedAt
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        task.id,
+        task.agentId,
+        task.emailId,
+        task.accountId || null,
+        task.action,
+        JSON.stringify(task.parameters),
+        task.status,
+        task.result ? JSON.stringify(task.result) : null,
+        task.error || null,
+        task.createdAt.getTime(),
+        task.completedAt ? task.completedAt.getTime() : null,
+      ]
+    );
+  }
+
+  async getAgentTasks(agentId: string): Promise<AgentTask[]> {
+    return (await this.listAgentTasks(agentId)).items;
+  }
+
+  async listAgentTasks(agentId: string, page: PageRequest = {}): Promise<Page<AgentTask>> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const params: any[] = [agentId];
+    let sql = 'SELECT * FROM agent_tasks WHERE agentId = ?';
+    if (page.cursor) {
+      sql += ` AND ${afterKey([['createdAt', 'DESC'], ['id', 'DESC']], cursorKey(page.cursor, 2), params)}`;
+    }
+    sql += ' ORDER BY createdAt DESC, id DESC';
+    if (page.limit !== undefined) {
+      sql += ' LIMIT ?';
+      params.push(page.limit + 1);
+    }
+
+    const rows = await new Promise<any[]>((resolve, reject) => {
+      this.db!.all(sql, params, (err, rows) => {
+        if (err) reject(err);
+        else resolve(rows);
+      });
+    });
+
+    return {
+      items: (page.limit !== undefined ? rows.slice(0, page.limit) : rows).map(row => this.rowToAgentTask(row)),
+      nextCursor: nextCursor(rows, page.limit, row => ({ after: [row.createdAt, row.id] })),
+      estimatedTotal: await this.countRows('SELECT 1 FROM agent_tasks WHERE agentId = ?', [agentId]),
+    };
+  }
+
+  async deleteAgentTasks(ids: string[]): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+    if (ids.length === 0) return;
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(`DELETE FROM agent_tasks WHERE id IN (${ids.map(() => '?').join(', ')})`, ids, (err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
+  async saveRetentionRule(rule: RetentionRule): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `INSERT OR REPLACE INTO retention_rules (
+          id, name, action, olderThanDays, accountId, category, labels, enabled, createdAt, updatedAt
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          rule.id,
+          rule.name,
+          rule.action,
+          rule.olderThanDays,
+          rule.accountId || null,
+          rule.category || null,
+          rule.labels ? JSON.stringify(rule.labels) : null,
+          rule.enabled ? 1 : 0,
+          rule.createdAt.getTime(),
+          rule.updatedAt.getTime(),
+        ],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  async getRetentionRule(id: string): Promise<RetentionRule | null> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const row = await new Promise<any>((resolve, reject) => {
+      this.db!.get('SELECT * FROM retention_rules WHERE id = ?', [id], (err, row) => {
+        if (err) reject(err);
+        else resolve(row);
+      });
+    });
+
+    return row ? this.rowToRetentionRule(row) : null;
+  }
+
+  async listRetentionRules(): Promise<RetentionRule[]> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const rows = await new Promise<any[]>((resolve, reject) => {
+      this.db!.all('SELECT * FROM retention_rules ORDER BY createdAt, rowid', [], (err, rows) => {
+        if (err) reject(err);
+        else resolve(rows);
+      });
+    });
+
+    return rows.map(row => this.rowToRetentionRule(row));
+  }
+
+  async deleteRetentionRule(id: string): Promise<boolean> {
+    if (!this.db) throw new Error('Database not connected');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run('DELETE FROM retention_rules WHERE id = ?', [id], function(err) {
+        if (err) reject(err);
+        else resolve(this.changes > 0);
+      });
+    });
+  }
+
+  async saveRetentionRun(run: RetentionRun): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        'INSERT INTO retention_runs (id, dryRun, startedAt, finishedAt, results) VALUES (?, ?, ?, ?, ?)',
+        [run.id, run.dryRun ? 1 : 0, run.startedAt.getTime(), run.finishedAt.getTime(), JSON.stringify(run.results)],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  async listRetentionRuns(limit: number = 50): Promise<RetentionRun[]> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const rows = await new Promise<any[]>((resolve, reject) => {
+      this.db!.all('SELECT * FROM retention_runs ORDER BY startedAt DESC, rowid DESC LIMIT ?', [limit], (err, rows) => {
+        if (err) reject(err);
+        else resolve(rows);
+      });
+    });
+
+    return rows.map(row => ({
+      id: row.id,
+      dryRun: Boolean(row.dryRun),
+      startedAt: new Date(row.startedAt),
+      finishedAt: new Date(row.finishedAt),
+      results: JSON.parse(row.results),
+    }));
+  }
+
+  async findRetentionTargets(rule: RetentionRule, before: Date, limit: number): Promise<string[]> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const { sql, params, order } = this.retentionTargets(rule, before);
+    const rows = await new Promise<any[]>((resolve, reject) => {
+      this.db!.all(`${sql} ORDER BY ${order} LIMIT ?`, [...params, limit], (err, rows) => {
+        if (err) reject(err);
+        else resolve(rows);
+      });
+    });
+
+    return rows.map(row => row.id);
+  }
+
+  async countRetentionTargets(rule: RetentionRule, before: Date): Promise<number> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const { sql, params } = this.retentionTargets(rule, before);
+    const row = await new Promise<any>((resolve, reject) => {
+      this.db!.get(`SELECT count(*) AS total FROM (${sql})`, params, (err, row) => {
+        if (err) reject(err);
+        else resolve(row);
+      });
+    });
+
+    return row.total;
+  }
+
+  async findDataSubjectRecords(address: string): Promise<DataSubjectRecords> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const email = address.trim();
+    const sent = await this.allPrepared('SELECT id FROM emails WHERE fromEmail = ? COLLATE NOCASE ORDER BY date, id', [
+      email,
+    ]);
+    const received = await this.allPrepared(
+      `SELECT id FROM emails
+       WHERE id IN (SELECT email_id FROM email_recipients WHERE email = ? COLLATE NOCASE)
+         AND fromEmail IS NOT ? COLLATE NOCASE
+       ORDER BY date, id`,
+      [email, email],
+    );
+
+    const contacts: Contact[] = [];
+    const contactRows = await this.allPrepared('SELECT DISTINCT contact_id FROM contact_emails WHERE key = ?', [
+      contactKey(email),
+    ]);
+    for (const row of contactRows) {
+      const contact = await this.getContact(row.contact_id);
+      if (contact) contacts.push(contact);
+    }
+
+    const drafts = await this.allPrepared(
+      'SELECT * FROM campaign_drafts WHERE recipientEmail = ? COLLATE NOCASE ORDER BY createdAt, id',
+      [email],
+    );
+
+    // Payloads are JSON text and errors free text, searched for the address anywhere in them
+    const needle = email.toLowerCase();
+    const tasks = await this.allPrepared(
+      `SELECT * FROM agent_tasks
+       WHERE emailId IN (SELECT value FROM json_each(?))
+         OR instr(lower(parameters), ?) > 0 OR instr(lower(coalesce(result, '')), ?) > 0
+         OR instr(lower(coalesce(error, '')), ?) > 0
+       ORDER BY createdAt, id`,
+      [JSON.stringify([...sent, ...received].map(row => row.id)), needle, needle, needle],
+    );
+    const outbox = await this.allPrepared(
+      "SELECT * FROM outbox WHERE instr(lower(coalesce(lastError, '')), ?) > 0 ORDER BY createdAt, email_id",
+      [needle],
+    );
+
+    return {
+      sentEmailIds: sent.map(row => row.id),
+      receivedEmailIds: received.map(row => row.id),
+      contacts,
+      drafts: drafts.map(row => this.rowToCampaignDraft(row)),
+      agentTasks: tasks.map(row => this.rowToAgentTask(row)),
+      outboxEntries: outbox.map(row => this.rowToOutboxEntry(row)),
+    };
+  }
+
+  async deleteEmailSources(emailIds: string[]): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        'DELETE FROM email_sources WHERE email_id IN (SELECT value FROM json_each(?))',
+        [JSON.stringify(emailIds)],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  async deleteCampaignDrafts(ids: string[]): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        'DELETE FROM campaign_drafts WHERE id IN (SELECT value FROM json_each(?))',
+        [JSON.stringify(ids)],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  async saveErasureReport(report: ErasureReport): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `INSERT INTO erasure_reports (
+          id, subjectHash, pseudonym, dryRun, requestedAt, completedAt, counts, remaining
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          report.id,
+          report.subjectHash,
+          report.pseudonym,
+          report.dryRun ? 1 : 0,
+          report.requestedAt.getTime(),
+          report.completedAt.getTime(),
+          JSON.stringify(report.counts),
+          report.remaining,
+        ],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  async listErasureReports(subjectHash?: string, limit: number = 50): Promise<ErasureReport[]> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const rows = await new Promise<any[]>((resolve, reject) => {
+      this.db!.all(
+        `SELECT * FROM erasure_reports ${subjectHash ? 'WHERE subjectHash = ?' : ''}
+         ORDER BY requestedAt DESC, rowid DESC LIMIT ?`,
+        subjectHash ? [subjectHash, limit] : [limit],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows);
+        }
+      );
+    });
+
+    return rows.map(row => ({
+      id: row.id,
+      subjectHash: row.subjectHash,
+      pseudonym: row.pseudonym,
+      dryRun: Boolean(row.dryRun),
+      requestedAt: new Date(row.requestedAt),
+      completedAt: new Date(row.completedAt),
+      counts: JSON.parse(row.counts),
+      remaining: row.remaining,
+    }));
+  }
+
+  async appendAuditEntry(entry: AuditEntry): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+
+    await this.runPrepared(
+      `INSERT INTO audit_log (
+        id, timestamp, actor, action, targetType, targetId, requestId, changes, metadata
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        entry.id,
+        entry.timestamp.getTime(),
+        entry.actor,
+        entry.action,
+        entry.targetType,
+        entry.targetId || null,
+        entry.requestId || null,
+        JSON.stringify(entry.changes),
+        entry.metadata ? JSON.stringify(entry.metadata) : null,
+      ],
+    );
+  }
+
+  async listAuditEntries(query: AuditQuery = {}): Promise<Page<AuditEntry>> {
+    if (!this.db) throw new Error('Database not connected');
+
+    const conditions: string[] = [];
+    const params: any[] = [];
+    for (const field of ['actor', 'targetType', 'targetId', 'requestId'] as const) {
+      if (query[field] !== undefined) {
+        conditions.push(`${field} = ?`);
+        params.push(query[field]);
+      }
+    }
+    if (query.action !== undefined) {
+      conditions.push('(action = ? OR substr(action, 1, length(?) + 1) = ? || \'.\')');
+      params.push(query.action, query.action, query.action);
+    }
+    if (query.since) {
+      conditions.push('timestamp >= ?');
+      params.push(query.since.getTime());
+    }
+    if (query.until) {
+      conditions.push('timestamp < ?');
+      params.push(query.until.getTime());
+    }
+
+    const filterSql = `SELECT 1 FROM audit_log${conditions.length ? ` WHERE ${conditions.join(' AND ')}` : ''}`;
+    const filterParams = [...params];
+    if (query.cursor) {
+      conditions.push(afterKey([['seq', 'DESC']], cursorKey(query.cursor, 1), params));
+    }
+
+    let sql = `SELECT * FROM audit_log${conditions.length ? ` WHERE ${conditions.join(' AND ')}` : ''}`;
+    sql += ' ORDER BY seq DESC';
+    if (query.limit !== undefined) {
+      sql += ' LIMIT ?';
+      params.push(query.limit + 1);
+    }
+
+    const rows = await new Promise<any[]>((resolve, reject) => {
+      this.db!.all(sql, params, (err, rows) => {
+        if (err) reject(err);
+        else resolve(rows);
+      });
+    });
+
+    return {
+      items: (query.limit !== undefined ? rows.slice(0, query.limit) : rows).map(row => ({
+        id: row.id,
+        timestamp: new Date(row.timestamp),
+        actor: row.actor,
+        action: row.action,
+        targetType: row.targetType,
+        targetId: row.targetId || undefined,
+        requestId: row.requestId || undefined,
+        changes: JSON.parse(row.changes),
+        metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+      })),
+      nextCursor: nextCursor(rows, query.limit, row => ({ after: [row.seq] })),
+      estimatedTotal: await this.countRows(filterSql, filterParams),
+    };
+  }
+
+  async getEncryptionStatus(): Promise<EncryptionStatus> {
+    if (!this.db) throw new Error('Database not connected');
+    const cipher = this.requireCipher();
+
+    const dataKey = await this.getPrepared('SELECT keyId FROM data_keys WHERE id = ?', [cipher.dataKeyId]);
+    const row = await this.getPrepared(
+      `SELECT (SELECT count(*) FROM emails WHERE ${STALE_KEY})
+        + (SELECT count(*) FROM email_sources WHERE ${STALE_KEY})
+        + (SELECT count(*) FROM email_attachments WHERE data IS NOT NULL
+          OR (contentHash IS NOT NULL AND ${STALE_KEY}))
+        + (SELECT count(*) FROM accounts WHERE ${STALE_KEY}) AS pending`,
+      [cipher.dataKeyId, cipher.dataKeyId, cipher.dataKeyId, cipher.dataKeyId],
+    );
+
+    return { dataKeyId: cipher.dataKeyId, keyId: dataKey.keyId, pending: row.pending };
+  }
+
+  async rotateDataKey(): Promise<EncryptionStatus> {
+    if (!this.db) throw new Error('Database not connected');
+    this.requireCipher();
+
+    // In a transaction so no write is half under the old key and half under the new one
+    await this.transaction(() => this.addDataKey());
+    return this.getEncryptionStatus();
+  }
+
+  async reencryptBatch(limit: number): Promise<number> {
+    if (!this.db) throw new Error('Database not connected');
+    const cipher = this.requireCipher();
+
+    let changed = 0;
+    const released: string[] = [];
+    const written: string[] = [];
+    try {
+      await this.transaction(async () => {
+        const dataKeyId = cipher.dataKeyId;
+
+        const accounts = await this.allPrepared(`SELECT id, credentials FROM accounts WHERE ${STALE_KEY} LIMIT ?`, [
+          dataKeyId,
+          limit,
+        ]);
+        for (const row of accounts) {
+          await this.runPrepared('UPDATE accounts SET credentials = ?, dataKeyId = ? WHERE id = ?', [
+            this.seal(this.open(row.credentials)),
+            dataKeyId,
+            row.id,
+          ]);
+        }
+        changed += accounts.length;
+
+        const emails = await this.allPrepared(
+          `SELECT rowid, body, htmlBody, snippet, aiAnalysis FROM emails WHERE ${STALE_KEY} LIMIT ?`,
+          [dataKeyId, limit - changed],
+        );
+        for (const row of emails) {
+          const body = this.open(row.body);
+          await this.runPrepared(
+            'UPDATE emails SET body = ?, htmlBody = ?, snippet = ?, aiAnalysis = ?, dataKeyId = ? WHERE rowid = ?',
+            [
+              this.seal(body),
+              this.seal(this.open(row.htmlBody)),
+              this.seal(this.open(row.snippet)),
+              this.seal(this.open(row.aiAnalysis)),
+              dataKeyId,
+              row.rowid,
+            ],
+          );
+          // Rows written before encryption was on may have their body in the index
+          await this.runPrepared('DELETE FROM emails_fts WHERE rowid = ?', [row.rowid]);
+          await this.runPrepared(`${SEARCH_INDEX_INSERT} WHERE e.rowid = ?`, [this.indexedBody(body), row.rowid]);
+        }
+        changed += emails.length;
+
+        const sources = await this.allPrepared(`SELECT email_id, raw FROM email_sources WHERE ${STALE_KEY} LIMIT ?`, [
+          dataKeyId,
+          limit - changed,
+        ]);
+        for (const row of sources) {
+          await this.runPrepared('UPDATE email_sources SET raw = ?, dataKeyId = ? WHERE email_id = ?', [
+            cipher.encryptBuffer(this.openBuffer(row.raw)),
+            dataKeyId,
+            row.email_id,
+          ]);
+        }
+        changed += sources.length;
+
+        // Content from before the blob store moves into it
+        const inline = await this.allPrepared(
+          'SELECT rowid, data FROM email_attachments WHERE data IS NOT NULL LIMIT ?',
+          [limit - changed],
+        );
+        for (const row of inline) {
+          const contentHash = await this.attachmentStore.put(Buffer.from(row.data, 'base64'));
+          written.push(contentHash);
+          await this.runPrepared(
+            'UPDATE email_attachments SET data = NULL, contentHash = ?, dataKeyId = ? WHERE rowid = ?',
+            [contentHash, dataKeyId, row.rowid],
+          );
+        }
+        changed += inline.length;
+
+        // Every attachment sharing a blob moves to the re-encrypted one together
+        const blobs = await this.allPrepared(
+          `SELECT DISTINCT contentHash FROM email_attachments WHERE contentHash IS NOT NULL AND ${STALE_KEY} LIMIT ?`,
+          [dataKeyId, limit - changed],
+        );
+        for (const { contentHash } of blobs) {
+          const content = await this.attachmentStore.get(contentHash);
+          const next = content ? await this.attachmentStore.put(content) : contentHash;
+          if (next !== contentHash) written.push(next);
+          await this.runPrepared('UPDATE email_attachments SET contentHash = ?, dataKeyId = ? WHERE contentHash = ?', [
+            next,
+            dataKeyId,
+            contentHash,
+          ]);
+          if (next !== contentHash) released.push(contentHash);
+        }
+        changed += blobs.length;
+      });
+    } catch (error) {
+      // Blobs are written as the batch goes; the ones the rolled back rows pointed at go again
+      await this.releaseBlobs(written);
+      throw error;
+    }
+
+    await this.releaseBlobs(released);
+    if (changed === 0) await this.retireDataKeys();
+    return changed;
+  }
+
+  private requireCipher(): EnvelopeCipher {
+    if (!this.cipher) throw new Error('Encryption is not enabled');
+    return this.cipher;
+  }
+
+  // Encrypted content can be neither read nor written until the data keys are loaded,
+  // and they can only be loaded once the schema has the data_keys table
+  private async loadDataKeysIfReady(): Promise<void> {
+    if (!this.cipher) return;
+    const [table] = await this.allPrepared(
+      "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'data_keys'",
+      [],
+    );
+    if (table) await this.loadDataKeys();
+  }
+
+  private async loadDataKeys(): Promise<void> {
+    const rows = await this.allPrepared('SELECT * FROM data_keys ORDER BY createdAt, rowid', []);
+    await this.cipher!.load(rows.map(row => ({ ...row, createdAt: new Date(row.createdAt) })));
+    if (rows.length === 0) {
+      await this.transaction(() => this.addDataKey());
+    }
+  }
+
+  // Runs inside a transaction; the key is only used once it is stored
+  private async addDataKey(): Promise<void> {
+    const dataKey: DataKey = await this.cipher!.createDataKey();
+    await this.runPrepared('INSERT INTO data_keys (id, keyId, wrappedKey, createdAt) VALUES (?, ?, ?, ?)', [
+      dataKey.id,
+      dataKey.keyId,
+      dataKey.wrappedKey,
+      dataKey.createdAt.getTime(),
+    ]);
+    await this.cipher!.load([dataKey]);
+    this.logger.info(`Encrypting with data key ${dataKey.id}`);
+  }
+
+  // Drops data keys nothing is encrypted with any more; the current one always stays
+  private async retireDataKeys(): Promise<void> {
+    const cipher = this.cipher!;
+    const unused = await this.allPrepared(
+      `SELECT id FROM data_keys d WHERE id != ?
+        AND NOT EXISTS (SELECT 1 FROM emails WHERE dataKeyId = d.id)
+        AND NOT EXISTS (SELECT 1 FROM email_sources WHERE dataKeyId = d.id)
+        AND NOT EXISTS (SELECT 1 FROM email_attachments WHERE dataKeyId = d.id)
+        AND NOT EXISTS (SELECT 1 FROM accounts WHERE dataKeyId = d.id)`,
+      [cipher.dataKeyId],
+    );
+
+    for (const { id } of unused) {
+      await this.runPrepared('DELETE FROM data_keys WHERE id = ?', [id]);
+      cipher.forget(id);
+      this.logger.info(`Retired data key ${id}`);
+    }
+  }
+
+  // Column values pass through untouched unless encryption is on
+  private seal(value: string | null): string | null {
+    return value !== null && this.cipher ? this.cipher.encrypt(value) : value;
+  }
+
+  private open(value: string): string;
+  private open(value: string | null): string | null;
+  private open(value: string | null): string | null {
+    if (value === null || !isEncrypted(value)) return value;
+    return this.requireCipher().decrypt(value);
+  }
+
+  private openBuffer(content: Buffer): Buffer {
+    return isEncryptedBuffer(content) ? this.requireCipher().decryptBuffer(content) : content;
+  }
+
+  private indexedBody(body: string): string {
+    return this.indexBodies ? body : '';
+  }
+
+  // Turns a parsed query into a WHERE condition on emails, appending its parameters
+  private compileSearchNode(node: SearchNode, params: any[], rankTerms: string[], negated: boolean): string {
+    switch (node.type) {
+      case 'and':
+      case 'or': {
+        if (node.children.length === 0) {
+          return node.type === 'and' ? '1' : '0';
+        }
+        const children = node.children.map(child => this.compileSearchNode(child, params, rankTerms, negated));
+        return `(${children.join(node.type === 'and' ? ' AND ' : ' OR ')})`;
+      }
+      case 'not':
+        return `NOT ${this.compileSearchNode(node.child, params, rankTerms, !negated)}`;
+      case 'text': {
+        if (node.field === 'cc' || node.field === 'bcc') {
+          params.push(node.field, likeContains(node.value), likeContains(node.value));
+          return (
+            'EXISTS (SELECT 1 FROM email_recipients r WHERE r.email_id = emails.id AND r.type = ?' +
+            " AND (r.email LIKE ? ESCAPE '\\' OR r.name LIKE ? ESCAPE '\\'))"
+          );
+        }
+
+        const term = toMatchTerm(node.value, node.exact);
+        if (!term) return '1';
+
+        const expression = node.field ? `${SEARCH_COLUMNS[node.field]} : ${term}` : term;
+        params.push(expression);
+        if (!negated) rankTerms.push(expression);
+        return MATCHES;
+      }
+      case 'label':
+        params.push(node.label);
+        return 'EXISTS (SELECT 1 FROM email_labels l WHERE l.email_id = emails.id AND l.label = ? COLLATE NOCASE)';
+      case 'category':
+        params.push(node.category);
+        return 'emails.category = ?';
+      case 'priority':
+        params.push(node.priority);
+        return 'emails.priority = ?';
+      case 'flag':
+        return {
+          read: 'emails.isRead = 1',
+          unread: 'emails.isRead = 0',
+          starred: 'emails.isStarred = 1',
+          unstarred: 'emails.isStarred = 0',
+          draft: 'emails.isDraft = 1',
+        }[node.flag];
+      case 'hasAttachment':
+        return 'EXISTS (SELECT 1 FROM email_attachments a WHERE a.email_id = emails.id)';
+      case 'date':
+        params.push(node.date.getTime());
+        return node.op === 'after' ? 'emails.date >= ?' : 'emails.date < ?';
+    }
+  }
+
+  // What a rule still applies to: mail it already trashed or stripped no longer matches,
+  // so a run can take batch after batch until none is left
+  private retentionTargets(rule: RetentionRule, before: Date): { sql: string; params: any[]; order: string } {
+    if (rule.action === 'purge-agent-tasks') {
+      const params: any[] = [before.getTime()];
+      let sql = 'SELECT id FROM agent_tasks WHERE createdAt < ?';
+      if (rule.accountId) {
+        sql += ' AND accountId = ?';
+        params.push(rule.accountId);
+      }
+      return { sql, params, order: 'createdAt, id' };
+    }
+
+    const params: any[] = [before.getTime()];
+    let sql = 'SELECT id FROM emails WHERE date < ?';
+
+    if (rule.accountId) {
+      sql += ' AND accountId = ?';
+      params.push(rule.accountId);
+    }
+
+    if (rule.category) {
+      sql += ' AND category = ?';
+      params.push(rule.category);
+    }
+
+    if (rule.labels && rule.labels.length > 0) {
+      const placeholders = rule.labels.map(() => '?').join(', ');
+      sql +=
+        ' AND EXISTS (SELECT 1 FROM email_labels l' +
+        ` WHERE l.email_id = emails.id AND l.label COLLATE NOCASE IN (${placeholders}))`;
+      params.push(...rule.labels);
+    }
+
+    if (rule.action === 'trash') {
+      sql += " AND category != 'trash'";
+    } else if (rule.action === 'strip-attachments') {
+      sql +=
+        ' AND EXISTS (SELECT 1 FROM email_attachments a WHERE a.email_id = emails.id' +
+        ' AND (a.data IS NOT NULL OR a.contentHash IS NOT NULL))';
+    }
+
+    return { sql, params, order: 'date, id' };
+  }
+
+  // Labels and their parents, for any that are not stored yet
+  private async registerLabels(accountId: string, names: string[]): Promise<void> {
+    const now = Date.now();
+    for (const name of new Set(names.flatMap(labelPath))) {
+      await this.runPrepared(
+        'INSERT OR IGNORE INTO labels (id, accountId, name, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?)',
+        [uuidv4(), accountId, name, now, now]
+      );
+    }
+  }
+
+  // Transactions run one at a time. Other callers' statements wait until none is
+  // queued or running, so they never join one on the shared connection and are not
+  // rolled back with it; keep the work short.
+  private async transaction(work: () => Promise<void>): Promise<void> {
+    this.pendingTransactions++;
+    const run = this.transactions
+      .then(() => this.transactionScope.run(true, () => this.runTransaction(work)))
+      .finally(() => this.pendingTransactions--);
+    this.transactions = run.catch(() => undefined);
+    return run;
+  }
+
+  // Resolves once no transaction is queued or running, straight away for the work of one
+  private async outsideTransactions(): Promise<void> {
+    while (this.pendingTransactions > 0 && !this.transactionScope.getStore()) {
+      await this.transactions;
+    }
+  }
+
+  // Statements through the connection's own methods wait for transactions the same way
+  private guardConnection(db: sqlite3.Database): void {
+    for (const method of ['run', 'get', 'all', 'each', 'exec'] as const) {
+      Object.assign(db, {
+        [method]: (...args: unknown[]): sqlite3.Database => {
+          const call = sqlite3.Database.prototype[method] as (...args: unknown[]) => sqlite3.Database;
+          if (this.pendingTransactions === 0 || this.transactionScope.getStore()) {
+            return call.apply(db, args);
+          }
+          this.outsideTransactions().then(() => call.apply(db, args));
+          return db;
+        },
+      });
+    }
+  }
+
+  private async runTransaction(work: () => Promise<void>): Promise<void> {
+    const exec = (sql: string): Promise<void> =>
+      new Promise((resolve, reject) => {
+        this.db!.exec(sql, (err) => {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+
+    await exec('BEGIN IMMEDIATE');
+    try {
+      await work();
+      await exec('COMMIT');
+    } catch (error) {
+      await exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private migrationContext(): MigrationContext {
+    const run = (sql: string, params?: any[]): Promise<void> =>
+      new Promise((resolve, reject) => {
+        this.db!.run(sql, params || [], (err) => {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+    const all = (sql: string, params?: any[]): Promise<any[]> =>
+      new Promise((resolve, reject) => {
+        this.db!.all(sql, params || [], (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows);
+        });
+      });
+    const hasColumn = async (table: string, column: string): Promise<boolean> =>
+      (await all(`PRAGMA table_info(${table})`)).some(row => row.name === column);
+
+    return {
+      run,
+      all,
+      hasColumn,
+      addColumn: async (table, column, definition) => {
+        if (!(await hasColumn(table, column))) {
+          await run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+        }
+      },
+    };
+  }
+
+  // Writes one email with its recipients, labels, attachments and index entry; runs inside
+  // the saveEmails transaction. Resolves to the content hashes it referenced before.
+  private async writeEmail(email: Email): Promise<Array<string | null>> {
+    const accountId = email.accountId || DEFAULT_ACCOUNT_ID;
+
+    // Another row with the same Message-ID would be silently replaced, orphaning
+    // its recipients, labels and attachments; keep the existing row's id instead
+    const existing = await this.getPrepared('SELECT id FROM emails WHERE accountId = ? AND messageId = ?', [
+      accountId,
+      email.messageId,
+    ]);
+    if (existing && existing.id !== email.id) {
+      this.logger.warn(`Email ${email.messageId} already stored as ${existing.id}`);
+      email = { ...email, id: existing.id };
+    }
+
+    // REPLACE gives the row a new rowid, so drop the index entry while the old one is known
+    await this.runPrepared('DELETE FROM emails_fts WHERE rowid = (SELECT rowid FROM emails WHERE id = ?)', [email.id]);
+
+    await this.runPrepared(
+      `INSERT OR REPLACE INTO emails (
+        id, accountId, messageId, threadId, inReplyTo, referenceIds, normalizedSubject, folder, uid,
+        fromEmail, fromName, subject, body, htmlBody, snippet, date, priority, category,
+        isRead, isStarred, isDraft, metadata, aiAnalysis, dataKeyId
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        email.id,
+        accountId,
+        email.messageId,
+        email.threadId || null,
+        email.inReplyTo || null,
+        email.references ? JSON.stringify(email.references) : null,
+        normalizeSubject(email.subject),
+        email.folder || null,
+        email.uid ?? null,
+        email.from.email,
+        email.from.name || null,
+        email.subject,
+        this.seal(email.body),
+        this.seal(email.htmlBody || null),
+        this.seal(email.snippet || null),
+        email.date.getTime(),
+        email.priority,
+        email.category,
+        email.isRead ? 1 : 0,
+        email.isStarred ? 1 : 0,
+        email.isDraft ? 1 : 0,
+        JSON.stringify(email.metadata || {}),
+        this.seal(JSON.stringify(email.aiAnalysis || {})),
+        this.cipher?.dataKeyId ?? null,
+      ]
+    );
+
+    await this.runPrepared('DELETE FROM email_recipients WHERE email_id = ?', [email.id]);
+    const recipients = [
+      ...email.to.map(recipient => ['to', recipient] as const),
+      ...(email.cc || []).map(recipient => ['cc', recipient] as const),
+      ...(email.bcc || []).map(recipient => ['bcc', recipient] as const),
+    ];
+    for (const [type, recipient] of recipients) {
+      await this.runPrepared('INSERT INTO email_recipients (email_id, type, email, name) VALUES (?, ?, ?, ?)', [
+        email.id,
+        type,
+        recipient.email,
+        recipient.name || null,
+      ]);
+    }
+
+    await this.runPrepared('DELETE FROM email_labels WHERE email_id = ?', [email.id]);
+    for (const label of email.labels) {
+      await this.runPrepared('INSERT INTO email_labels (email_id, label) VALUES (?, ?)', [email.id, label]);
+    }
+    await this.registerLabels(accountId, email.labels);
+
+    // Rows from before the blob store keep base64 in `data`; carry it over on re-save
+    const previous = await this.allPrepared('SELECT id, data, contentHash FROM email_attachments WHERE email_id = ?', [
+      email.id,
+    ]);
+
+    // New content goes in under the current data key; a blob already stored keeps the
+    // data key it was written with
+    const stored: Array<{ contentHash: string | null; dataKeyId: string | null }> = [];
+    for (const attachment of email.attachments) {
+      const inline = attachment.data ?? previous.find(row => row.id === attachment.id && row.data)?.data;
+      if (inline) {
+        const contentHash = await this.attachmentStore.put(Buffer.from(inline, 'base64'));
+        stored.push({ contentHash, dataKeyId: this.cipher?.dataKeyId ?? null });
+      } else if (attachment.contentHash) {
+        const row = await this.getPrepared('SELECT dataKeyId FROM email_attachments WHERE contentHash = ? LIMIT 1', [
+          attachment.contentHash,
+        ]);
+        stored.push({ contentHash: attachment.contentHash, dataKeyId: row?.dataKeyId ?? null });
+      } else {
+        stored.push({ contentHash: null, dataKeyId: null });
+      }
+    }
+
+    await this.runPrepared('DELETE FROM email_attachments WHERE email_id = ?', [email.id]);
+    for (const [i, attachment] of email.attachments.entries()) {
+      await this.runPrepared(
+        `INSERT INTO email_attachments (
+          id, email_id, filename, contentType, size, data, url, contentHash, dataKeyId
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          attachment.id,
+          email.id,
+          attachment.filename,
+          attachment.contentType,
+          attachment.size,
+          null,
+          attachment.url || null,
+          stored[i].contentHash,
+          stored[i].dataKeyId,
+        ]
+      );
+    }
+
+    await this.runPrepared(`${SEARCH_INDEX_INSERT} WHERE e.id = ?`, [this.indexedBody(email.body), email.id]);
+    return previous.map(row => row.contentHash);
+  }
+
+  // Fills in recipients, labels and attachments with three queries per batch of rows
+  // instead of three per email, keeping the order of rows
+  private async loadEmailRows(rows: any[]): Promise<Email[]> {
+    const allAsync = (sql: string, params: any[]): Promise<any[]> => {
+      return new Promise((resolve, reject) => {
+        this.db!.all(sql, params, (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows);
+        });
+      });
+    };
+
+    const emails: Email[] = [];
+    for (let start = 0; start < rows.length; start += EMAIL_LOAD_BATCH) {
+      const batch = rows.slice(start, start + EMAIL_LOAD_BATCH);
+      const ids = batch.map(row => row.id);
+      const inIds = `email_id IN (${ids.map(() => '?').join(', ')})`;
+
+      const recipients = groupByEmail(
+        await allAsync(`SELECT * FROM email_recipients WHERE ${inIds} ORDER BY rowid`, ids)
+      );
+      const labels = groupByEmail(
+        await allAsync(`SELECT email_id, label FROM email_labels WHERE ${inIds} ORDER BY rowid`, ids)
+      );
+      const attachments = groupByEmail(
+        await allAsync(`SELECT ${ATTACHMENT_COLUMNS} FROM email_attachments WHERE ${inIds} ORDER BY rowid`, ids)
+      );
+
+      emails.push(
+        ...batch.map(row =>
+          this.rowToEmail(row, recipients.get(row.id) || [], labels.get(row.id) || [], attachments.get(row.id) || [])
+        )
+      );
+    }
+    return emails;
+  }
+
+  // Counts the rows of a query up to MAX_COUNTED
+  private countRows(sql: string, params: any[]): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.db!.get(`SELECT count(*) AS total FROM (${sql} LIMIT ${MAX_COUNTED})`, params, (err, row: any) => {
+        if (err) reject(err);
+        else resolve(row.total);
+      });
+    });
+  }
+
+  // Statements on the hot paths are prepared once per connection and reused
+  private prepared(sql: string): sqlite3.Statement {
+    let statement = this.statements.get(sql);
+    if (!statement) {
+      statement = this.db!.prepare(sql);
+      this.statements.set(sql, statement);
+    }
+    return statement;
+  }
+
+  // A statement that failed, say because the schema changed under it, is prepared afresh next time
+  private discardPrepared(sql: string): void {
+    this.statements.get(sql)?.finalize();
+    this.statements.delete(sql);
+  }
+
+  private async runPrepared(sql: string, params: any[]): Promise<void> {
+    await this.outsideTransactions();
+    return new Promise((resolve, reject) => {
+      this.prepared(sql).run(params, (err) => {
+        if (err) {
+          this.discardPrepared(sql);
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  private async getPrepared(sql: string, params: any[]): Promise<any> {
+    await this.outsideTransactions();
+    return new Promise((resolve, reject) => {
+      this.prepared(sql).get(params, (err, row) => {
+        if (err) {
+          this.discardPrepared(sql);
+          reject(err);
+        } else {
+          resolve(row);
+        }
+      });
+    });
+  }
+
+  private async allPrepared(sql: string, params: any[]): Promise<any[]> {
+    await this.outsideTransactions();
+    return new Promise((resolve, reject) => {
+      this.prepared(sql).all(params, (err, rows) => {
+        if (err) {
+          this.discardPrepared(sql);
+          reject(err);
+        } else {
+          resolve(rows);
+        }
+      });
+    });
+  }
+
+  private rowToAccount(row: any): Account {
+    return {
+      id: row.id,
+      name: row.name,
+      email: row.email,
+      provider: row.provider,
+      settings: JSON.parse(row.settings || '{}'),
+      credentials: JSON.parse(this.open(row.credentials) || '{}'),
+      enabled: row.enabled === 1,
+      createdAt: new Date(row.createdAt),
+      updatedAt: new Date(row.updatedAt),
+    };
+  }
+
+  private rowToLabel(row: any): Label {
+    return {
+      id: row.id,
+      accountId: row.accountId,
+      name: row.name,
+      color: row.color || undefined,
+      remoteName: row.remoteName || undefined,
+      createdAt: new Date(row.createdAt),
+      updatedAt: new Date(row.updatedAt),
+    };
+  }
+
+  // Attaches the addresses of each contact, in one query for all rows
+  private async loadContacts(rows: any[]): Promise<Contact[]> {
+    if (rows.length === 0) return [];
+
+    const emails = await new Promise<any[]>((resolve, reject) => {
+      this.db!.all(
+        `SELECT contact_id, email FROM contact_emails
+         WHERE contact_id IN (${rows.map(() => '?').join(', ')}) ORDER BY position`,
+        rows.map(row => row.id),
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows);
+        }
+      );
+    });
+
+    const byContact = new Map<string, string[]>();
+    for (const row of emails) {
+      byContact.set(row.contact_id, [...(byContact.get(row.contact_id) || []), row.email]);
+    }
+    return rows.map(row => this.rowToContact(row, byContact.get(row.id) || []));
+  }
+
+  private rowToContact(row: any, emails: string[]): Contact {
+    return {
+      id: row.id,
+      accountId: row.accountId,
+      name: row.name || undefined,
+      emails,
+      aliases: JSON.parse(row.aliases || '[]'),
+      phones: JSON.parse(row.phones || '[]'),
+      organization: row.organization || undefined,
+      notes: row.notes || undefined,
+      firstContactAt: row.firstContactAt ? new Date(row.firstContactAt) : undefined,
+      lastContactAt: row.lastContactAt ? new Date(row.lastContactAt) : undefined,
+      sentCount: row.sentCount || 0,
+      receivedCount: row.receivedCount || 0,
+      createdAt: new Date(row.createdAt),
+      updatedAt: new Date(row.updatedAt),
+    };
+  }
+
+  // Attaches the templates of each campaign, in one query for all rows
+  private async loadCampaigns(rows: any[]): Promise<EmailCampaign[]> {
+    if (rows.length === 0) return [];
+
+    const templates = await new Promise<any[]>((resolve, reject) => {
+      this.db!.all(
+        `SELECT ct.campaign_id, t.* FROM campaign_templates ct JOIN email_templates t ON t.id = ct.template_id
+         WHERE ct.campaign_id IN (${rows.map(() => '?').join(', ')}) ORDER BY ct.position`,
+        rows.map(row => row.id),
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve(rows);
+        }
+      );
+    });
+
+    const byCampaign = new Map<string, EmailTemplate[]>();
+    for (const row of templates) {
+      byCampaign.set(row.campaign_id, [...(byCampaign.get(row.campaign_id) || []), this.rowToTemplate(row)]);
+    }
+    return rows.map(row => this.rowToCampaign(row, byCampaign.get(row.id) || []));
+  }
+
+  // Dates inside the JSON columns come back as ISO strings
+  private rowToCampaign(row: any, templates: EmailTemplate[]): EmailCampaign {
+    const schedule = JSON.parse(row.schedule);
+    const approvalStatus = row.approvalStatus ? JSON.parse(row.approvalStatus) : undefined;
+
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description || undefined,
+      status: row.status,
+      type: row.type,
+      targetAudience: this.rowToSegment({
+        id: row.segmentId,
+        name: row.segmentName,
+        criteria: row.segmentCriteria,
+        estimatedSize: row.segmentEstimatedSize,
+        tags: row.segmentTags,
+        dynamicFields: row.segmentDynamicFields,
+      }),
+      schedule: {
+        ...schedule,
+        startDate: new Date(schedule.startDate),
+        endDate: schedule.endDate ? new Date(schedule.endDate) : undefined,
+      },
+      content: { ...JSON.parse(row.content), templates },
+      deliveryConfig: JSON.parse(row.deliveryConfig),
+      metrics: JSON.parse(row.metrics),
+      createdAt: new Date(row.createdAt),
+      updatedAt: new Date(row.updatedAt),
+      createdBy: row.createdBy,
+      approvalStatus: approvalStatus && {
+        ...approvalStatus,
+        approvedAt: approvalStatus.approvedAt ? new Date(approvalStatus.approvedAt) : undefined,
+      },
+    };
+  }
+
+  private rowToCampaignDraft(row: any): EmailDraft {
+    const recipient = JSON.parse(row.recipient);
+
+    return {
+      id: row.id,
+      campaignId: row.campaign_id || undefined,
+      status: row.status,
+      recipient: {
+        ...recipient,
+        engagementHistory: (recipient.engagementHistory || []).map((event: any) => ({
+          ...event,
+          timestamp: new Date(event.timestamp),
+        })),
+      },
+      content: JSON.parse(row.content),
+      aiGenerated: row.aiGenerated === 1,
+      aiScore: row.aiScore ?? undefined,
+      personalizations: JSON.parse(row.personalizations || '{}'),
+      scheduledAt: row.scheduledAt ? new Date(row.scheduledAt) : undefined,
+      sentAt: row.sentAt ? new Date(row.sentAt) : undefined,
+      metrics: row.metrics ? JSON.parse(row.metrics) : undefined,
+      createdAt: new Date(row.createdAt),
+      updatedAt: new Date(row.updatedAt),
+    };
+  }
+
+  private rowToSegment(row: any): AudienceSegment {
+    return {
+      id: row.id,
+      name: row.name,
+      criteria: JSON.parse(row.criteria || '[]'),
+      estimatedSize: row.estimatedSize || 0,
+      tags: JSON.parse(row.tags || '[]'),
+      dynamicFields: row.dynamicFields ? JSON.parse(row.dynamicFields) : undefined,
+    };
+  }
+
+  private rowToTemplate(row: any): EmailTemplate {
+    return {
+      id: row.id,
+      name: row.name,
+      category: row.category,
+      content: row.content,
+      variables: JSON.parse(row.variables || '[]'),
+      performance: row.performance ? JSON.parse(row.performance) : undefined,
+    };
+  }
+
+  private rowToAgentTask(row: any): AgentTask {
+    return {
+      id: row.id,
+      agentId: row.agentId,
+      emailId: row.emailId,
+      accountId: row.accountId || undefined,
+      action: row.action,
+      parameters: JSON.parse(row.parameters),
       status: row.status,
       result: row.result ? JSON.parse(row.result) : undefined,
       error: row.error || undefined,
       createdAt: new Date(row.createdAt),
       completedAt: row.completedAt ? new Date(row.completedAt) : undefined,
-    }));
+    };
+  }
+
+  private rowToRetentionRule(row: any): RetentionRule {
+    return {
+      id: row.id,
+      name: row.name,
+      action: row.action,
+      olderThanDays: row.olderThanDays,
+      accountId: row.accountId || undefined,
+      category: row.category || undefined,
+      labels: row.labels ? JSON.parse(row.labels) : undefined,
+      enabled: Boolean(row.enabled),
+      createdAt: new Date(row.createdAt),
+      updatedAt: new Date(row.updatedAt),
+    };
+  }
+
+  private rowToOutboxEntry(row: any): OutboxEntry {
+    return {
+      emailId: row.email_id,
+      state: row.state,
+      attempts: row.attempts,
+      lastError: row.lastError || undefined,
+      nextAttemptAt: new Date(row.nextAttemptAt),
+      createdAt: new Date(row.createdAt),
+      updatedAt: new Date(row.updatedAt),
+      sentAt: row.sentAt ? new Date(row.sentAt) : undefined,
+    };
   }
 
   private rowToEmail(
@@ -468,8 +3223,13 @@ export class DatabaseService implements IDatabase {
   ): Email {
     return {
       id: row.id,
+      accountId: row.accountId,
       messageId: row.messageId,
       threadId: row.threadId || undefined,
+      inReplyTo: row.inReplyTo || undefined,
+      references: row.referenceIds ? JSON.parse(row.referenceIds) : undefined,
+      folder: row.folder || undefined,
+      uid: row.uid ?? undefined,
       from: {
         email: row.fromEmail,
         name: row.fromName || undefined,
@@ -487,9 +3247,9 @@ export class DatabaseService implements IDatabase {
         name: r.name || undefined,
       })) || undefined,
       subject: row.subject,
-      body: row.body,
-      htmlBody: row.htmlBody || undefined,
-      snippet: row.snippet || undefined,
+      body: this.open(row.body),
+      htmlBody: this.open(row.htmlBody) || undefined,
+      snippet: this.open(row.snippet) || undefined,
       date: new Date(row.date),
       priority: row.priority,
       category: row.category,
@@ -499,14 +3259,14 @@ export class DatabaseService implements IDatabase {
         filename: a.filename,
         contentType: a.contentType,
         size: a.size,
-        data: a.data || undefined,
+        contentHash: a.contentHash || undefined,
         url: a.url || undefined,
       })),
       isRead: row.isRead === 1,
       isStarred: row.isStarred === 1,
       isDraft: row.isDraft === 1,
       metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
-      aiAnalysis: row.aiAnalysis ? JSON.parse(row.aiAnalysis) : undefined,
+      aiAnalysis: row.aiAnalysis ? JSON.parse(this.open(row.aiAnalysis)) : undefined,
     };
   }
 }
\ No newline at end of file
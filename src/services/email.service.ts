@@ -1,15 +1,83 @@
-import { Email, EmailSchema } from '../models/email.model';
-import { IEmailService, IEmailProvider, IDatabase, EmailSearchQuery, EmailThread } from '../core/interfaces';
+import { Email, EmailAddress, EmailSchema } from '../models/email.model';
+import { DEFAULT_ACCOUNT_ID } from '../models/account.model';
+import {
+  IEmailService,
+  IEmailProvider,
+  IDraftEmailProvider,
+  IDatabase,
+  EmailSearchQuery,
+  EmailSearchHit,
+  EmailThread,
+  Page,
+  ThreadQuery,
+  DraftSaveResult,
+  AttachmentContent,
+  SendOptions,
+  ScheduledEmail,
+} from '../core/interfaces';
+import { MailboxSyncService, SyncReport, supportsSync, draftRevision } from './mailbox-sync.service';
+import { ThreadingService } from './threading.service';
+import { ComposerService, ReplyOptions, ForwardOptions } from './composer.service';
+import { OutboxService } from './outbox.service';
+import { AuditLogService } from './audit.service';
 import { v4 as uuidv4 } from 'uuid';
 import winston from 'winston';
 
+export interface EmailServiceOptions {
+  // Autosaves within this window are coalesced into one upload to the Drafts folder
+  draftUploadDelay?: number;
+  // When set, send() stores the message and leaves delivery to the outbox worker
+  outbox?: OutboxService;
+  // Mailbox this service sends from and receives into
+  accountId?: string;
+  // Records sends, edits and deletions in the audit log
+  audit?: AuditLogService;
+}
+
+const DRAFT_FIELDS = [
+  'from',
+  'to',
+  'cc',
+  'bcc',
+  'subject',
+  'body',
+  'htmlBody',
+  'attachments',
+  'priority',
+] as const;
+
+// Addresses and content are personal data; the audit log only notes that they changed
+const AUDIT_REDACTED = [
+  'from',
+  'to',
+  'cc',
+  'bcc',
+  'subject',
+  'body',
+  'htmlBody',
+  'snippet',
+  'attachments',
+  'aiAnalysis',
+  'metadata',
+] as const;
+
+export const supportsDrafts = (provider: IEmailProvider): provider is IDraftEmailProvider =>
+  typeof (provider as Partial<IDraftEmailProvider>).saveDraft === 'function';
+
 export class EmailService implements IEmailService {
   private logger: winston.Logger;
+  private threading: ThreadingService;
+  private composer: ComposerService;
+  private pendingDraftUploads = new Map<string, NodeJS.Timeout>();
 
   constructor(
     private emailProvider: IEmailProvider,
     private database: IDatabase,
+    private identities: EmailAddress[] = [],
+    private options: EmailServiceOptions = {},
   ) {
+    this.threading = new ThreadingService(database);
+    this.composer = new ComposerService(identities);
     this.logger = winston.createLogger({
       level: 'info',
       format: winston.format.json(),
@@ -22,11 +90,24 @@ export class EmailService implements IEmailService {
     });
   }
 
-  async send(emailData: Partial<Email>): Promise<Email> {
+  get accountId(): string {
+    return this.options.accountId || DEFAULT_ACCOUNT_ID;
+  }
+
+  async send(emailData: Partial<Email>, options: SendOptions = {}): Promise<Email> {
     try {
+      const sendAt = this.resolveSendAt(options);
+      if (sendAt && !this.options.outbox) {
+        throw new Error('Scheduled sending requires an outbox');
+      }
+
       const email: Email = {
         id: uuidv4(),
-        messageId: '',
+        accountId: this.accountId,
+        messageId: emailData.messageId || this.composer.generateMessageId(emailData.from),
+        threadId: emailData.threadId,
+        inReplyTo: emailData.inReplyTo,
+        references: emailData.references,
         from: emailData.from!,
         to: emailData.to || [],
         cc: emailData.cc || [],
@@ -46,29 +127,94 @@ export class EmailService implements IEmailService {
       };
 
       const validatedEmail = EmailSchema.parse(email);
-      const messageId = await this.emailProvider.sendEmail(validatedEmail);
+
+      if (this.options.outbox) {
+        const queued = await this.threading.threadEmail({
+          ...validatedEmail,
+          labels: validatedEmail.labels.map(label => (label === 'sent' ? 'outbox' : label)),
+        });
+        await this.database.saveEmail(queued);
+        await this.options.outbox.enqueue(queued, sendAt);
+        this.logger.info(
+          sendAt
+            ? `Email ${queued.messageId} scheduled for ${sendAt.toISOString()}`
+            : `Email queued for delivery: ${queued.messageId}`,
+        );
+        const stored = (await this.database.getEmail(queued.id)) || queued;
+        await this.recordAudit('email.send', null, stored, sendAt && { sendAt });
+        return stored;
+      }
+
+      // Forwards and drafts reference stored attachments by hash only
+      const attachments = await this.database.loadAttachmentData(validatedEmail.attachments);
+      const messageId = await this.emailProvider.sendEmail({ ...validatedEmail, attachments });
       validatedEmail.messageId = messageId;
 
+      const threadedEmail = await this.threading.threadEmail(validatedEmail);
+      validatedEmail.threadId = threadedEmail.threadId;
       await this.database.saveEmail(validatedEmail);
       this.logger.info(`Email sent successfully: ${messageId}`);
 
-      return validatedEmail;
+      // The stored copy references attachment content instead of inlining it
+      const stored = (await this.database.getEmail(validatedEmail.id)) || validatedEmail;
+      await this.recordAudit('email.send', null, stored);
+      return stored;
     } catch (error) {
       this.logger.error('Failed to send email', error);
       throw new Error(`Failed to send email: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  async reply(id: string, body: string, options: ReplyOptions = {}): Promise<Email> {
+    const original = await this.database.getEmail(id);
+    if (!original) {
+      throw new Error(`Email ${id} not found`);
+    }
+
+    return this.send(this.composer.buildReply(original, body, options));
+  }
+
+  async forward(
+    id: string,
+    to: EmailAddress[],
+    body: string,
+    options: ForwardOptions = {},
+  ): Promise<Email> {
+    const original = await this.database.getEmail(id);
+    if (!original) {
+      throw new Error(`Email ${id} not found`);
+    }
+
+    return this.send(this.composer.buildForward(original, to, body, options));
+  }
+
   async receive(): Promise<Email[]> {
     try {
       await this.emailProvider.connect();
-      const emails = await this.emailProvider.fetchEmails();
-      
-      for (const email of emails) {
-        await this.database.saveEmail(email);
+      let emails: Email[];
+
+      try {
+        if (supportsSync(this.emailProvider)) {
+          const syncService = new MailboxSyncService(this.emailProvider, this.database, this.accountId);
+          const report = await syncService.syncFolder('INBOX');
+          emails = report.added;
+        } else {
+          const fetched = await this.emailProvider.fetchEmails();
+          emails = [];
+
+          for (const email of fetched.map(email => ({ ...email, accountId: this.accountId }))) {
+            if (await this.database.getEmailByMessageId(email.messageId, this.accountId)) {
+              continue;
+            }
+            const threaded = await this.threading.threadEmail(email);
+            await this.database.saveEmail(threaded);
+            emails.push(threaded);
+          }
+        }
+      } finally {
+        await this.emailProvider.disconnect();
       }
 
-      await this.emailProvider.disconnect();
       this.logger.info(`Received ${emails.length} emails`);
       
       return emails;
@@ -89,6 +235,7 @@ export class EmailService implements IEmailService {
 
   async update(id: string, updates: Partial<Email>): Promise<Email> {
     try {
+      const before = await this.database.getEmail(id);
       await this.database.updateEmail(id, updates);
       const updatedEmail = await this.database.getEmail(id);
       
@@ -100,6 +247,7 @@ export class EmailService implements IEmailService {
         await this.emailProvider.markAsRead(updatedEmail.messageId);
       }
 
+      await this.recordAudit('email.update', before, updatedEmail);
       this.logger.info(`Email ${id} updated successfully`);
       return updatedEmail;
     } catch (error) {
@@ -117,6 +265,7 @@ export class EmailService implements IEmailService {
 
       await this.emailProvider.deleteEmail(email.messageId);
       await this.database.deleteEmail(id);
+      await this.recordAudit('email.delete', email, null);
       
       this.logger.info(`Email ${id} deleted successfully`);
       return true;
@@ -137,57 +286,421 @@ export class EmailService implements IEmailService {
     }
   }
 
-  async getThreads(): Promise<EmailThread[]> {
+  async searchWithHighlights(query: EmailSearchQuery): Promise<EmailSearchHit[]> {
     try {
-      const allEmails = await this.database.searchEmails({});
-      const threadMap = new Map<string, EmailThread>();
+      const hits = await this.database.searchEmailHits(query);
+      this.logger.info(`Search returned ${hits.length} emails`);
+      return hits;
+    } catch (error) {
+      this.logger.error('Failed to search emails', error);
+      throw new Error(`Failed to search emails: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-      for (const email of allEmails) {
-        const threadId = email.threadId || email.id;
-        
-        if (!threadMap.has(threadId)) {
-          threadMap.set(threadId, {
-            id: threadId,
-            subject: email.subject,
-            participants: [],
-            emails: [],
-            lastMessageDate: email.date,
-            unreadCount: 0,
-            totalCount: 0,
-          });
+  // A malformed cursor stays a SyntaxError so the API can answer 400
+  async searchPage(query: EmailSearchQuery): Promise<Page<EmailSearchHit>> {
+    try {
+      const page = await this.database.searchEmailPage(query);
+      this.logger.info(`Search returned ${page.items.length} of about ${page.estimatedTotal} emails`);
+      return page;
+    } catch (error) {
+      this.logger.error('Failed to search emails', error);
+      if (error instanceof SyntaxError) throw error;
+      throw new Error(`Failed to search emails: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getThreads(accountId?: string): Promise<EmailThread[]> {
+    return (await this.getThreadPage({ accountId })).items;
+  }
+
+  async getThreadPage(query: ThreadQuery): Promise<Page<EmailThread>> {
+    try {
+      const page = await this.database.getThreadPage(query);
+      this.logger.info(`Retrieved ${page.items.length} email threads`);
+      return page;
+    } catch (error) {
+      this.logger.error('Failed to get email threads', error);
+      if (error instanceof SyntaxError) throw error;
+      throw new Error(`Failed to get threads: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getThread(threadId: string): Promise<EmailThread | null> {
+    try {
+      const emails = await this.database.getThreadEmails(threadId);
+      return emails.length > 0 ? this.threading.toThread(emails) : null;
+    } catch (error) {
+      this.logger.error(`Failed to get thread ${threadId}`, error);
+      throw new Error(`Failed to get thread: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getAttachment(emailId: string, attachmentId: string): Promise<AttachmentContent | null> {
+    try {
+      return await this.database.getAttachment(emailId, attachmentId);
+    } catch (error) {
+      this.logger.error(`Failed to get attachment ${attachmentId}`, error);
+      throw new Error(`Failed to get attachment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async saveDraft(draftData: Partial<Email>): Promise<Email> {
+    try {
+      const from = draftData.from || this.identities[0];
+      const draft = EmailSchema.parse({
+        id: uuidv4(),
+        accountId: this.accountId,
+        messageId: draftData.messageId || this.composer.generateMessageId(from),
+        threadId: draftData.threadId,
+        inReplyTo: draftData.inReplyTo,
+        references: draftData.references,
+        from,
+        to: draftData.to || [],
+        cc: draftData.cc || [],
+        bcc: draftData.bcc || [],
+        subject: draftData.subject || '',
+        body: draftData.body || '',
+        htmlBody: draftData.htmlBody,
+        date: new Date(),
+        priority: draftData.priority || 'normal',
+        category: 'draft',
+        labels: ['drafts'],
+        attachments: draftData.attachments || [],
+        isRead: true,
+        isStarred: false,
+        isDraft: true,
+        metadata: { ...draftData.metadata, draftRevision: 1 },
+      });
+
+      await this.database.saveEmail(draft);
+      await this.scheduleDraftUpload(draft.id);
+      await this.recordAudit('email.draft.create', null, draft);
+      this.logger.info(`Draft ${draft.id} created`);
+
+      return draft;
+    } catch (error) {
+      this.logger.error('Failed to save draft', error);
+      throw new Error(`Failed to save draft: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async updateDraft(
+    id: string,
+    updates: Partial<Email>,
+    expectedRevision?: number,
+  ): Promise<DraftSaveResult | null> {
+    try {
+      const current = await this.database.getEmail(id);
+      if (!current || !current.isDraft) {
+        return null;
+      }
+
+      const revision = draftRevision(current);
+      if (expectedRevision !== undefined && expectedRevision !== revision) {
+        return { draft: current, conflict: true };
+      }
+
+      const changes: Partial<Email> = {};
+      for (const field of DRAFT_FIELDS) {
+        if (updates[field] !== undefined) {
+          Object.assign(changes, { [field]: updates[field] });
         }
+      }
+
+      const draft = EmailSchema.parse({
+        ...current,
+        ...changes,
+        date: new Date(),
+        metadata: { ...current.metadata, draftRevision: revision + 1 },
+      });
+
+      await this.database.saveEmail(draft);
+      await this.scheduleDraftUpload(draft.id);
+      await this.recordAudit('email.draft.update', current, draft);
 
-        const thread = threadMap.get(threadId)!;
-        thread.emails.push(email);
-        thread.totalCount++;
-        
-        if (!email.isRead) {
-          thread.unreadCount++;
+      return { draft, conflict: false };
+    } catch (error) {
+      this.logger.error(`Failed to update draft ${id}`, error);
+      throw new Error(`Failed to update draft: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getDrafts(accountId?: string): Promise<Email[]> {
+    try {
+      return await this.database.searchEmails({ isDraft: true, accountId });
+    } catch (error) {
+      this.logger.error('Failed to get drafts', error);
+      throw new Error(`Failed to get drafts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async deleteDraft(id: string): Promise<boolean> {
+    try {
+      const draft = await this.database.getEmail(id);
+      if (!draft || !draft.isDraft) {
+        return false;
+      }
+
+      this.cancelDraftUpload(id);
+      if (supportsDrafts(this.emailProvider)) {
+        await this.emailProvider.connect();
+        try {
+          await this.emailProvider.deleteDraft(draft.messageId);
+        } finally {
+          await this.emailProvider.disconnect();
         }
+      }
+      await this.database.deleteEmail(id);
+      await this.recordAudit('email.draft.delete', draft, null);
+
+      this.logger.info(`Draft ${id} deleted`);
+      return true;
+    } catch (error) {
+      this.logger.error(`Failed to delete draft ${id}`, error);
+      throw new Error(`Failed to delete draft: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async sendDraft(id: string): Promise<Email> {
+    const draft = await this.database.getEmail(id);
+    if (!draft || !draft.isDraft) {
+      throw new Error(`Draft ${id} not found`);
+    }
+
+    this.cancelDraftUpload(id);
+    const { draftRevision: _revision, ...metadata } = draft.metadata || {};
+    const sent = await this.send({
+      ...draft,
+      messageId: undefined,
+      category: undefined,
+      labels: undefined,
+      metadata,
+    });
 
-        if (email.date > thread.lastMessageDate) {
-          thread.lastMessageDate = email.date;
+    try {
+      if (supportsDrafts(this.emailProvider)) {
+        await this.emailProvider.connect();
+        try {
+          await this.emailProvider.deleteDraft(draft.messageId);
+        } finally {
+          await this.emailProvider.disconnect();
         }
+      }
+    } catch (error) {
+      // The message is already out (or queued); a stale server copy is removed by the next drafts sync
+      this.logger.warn(`Failed to remove sent draft ${id} from the server`, error);
+    }
+    await this.database.deleteEmail(id);
+    await this.recordAudit('email.draft.send', draft, null, { emailId: sent.id });
+
+    return sent;
+  }
+
+  async getScheduled(accountId?: string): Promise<ScheduledEmail[]> {
+    if (!this.options.outbox) {
+      return [];
+    }
 
-        const addParticipant = (addr: typeof email.from) => {
-          if (!thread.participants.some(p => p.email === addr.email)) {
-            thread.participants.push(addr);
+    try {
+      const scheduled: ScheduledEmail[] = [];
+      for (const entry of await this.options.outbox.list('scheduled')) {
+        const email = await this.database.getEmail(entry.emailId);
+        if (email && (!accountId || email.accountId === accountId)) {
+          scheduled.push({ email, sendAt: entry.nextAttemptAt });
+        }
+      }
+      return scheduled.sort((a, b) => a.sendAt.getTime() - b.sendAt.getTime());
+    } catch (error) {
+      this.logger.error('Failed to get scheduled emails', error);
+      throw new Error(`Failed to get scheduled emails: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Returns null once the message has started sending
+  async updateScheduled(id: string, updates: Partial<Email>, sendAt?: Date): Promise<ScheduledEmail | null> {
+    if (!this.options.outbox) {
+      return null;
+    }
+    const outbox = this.options.outbox;
+
+    try {
+      return await outbox.whileScheduled(id, async entry => {
+        const current = await this.database.getEmail(id);
+        if (!current) {
+          return null;
+        }
+
+        const changes: Partial<Email> = {};
+        for (const field of DRAFT_FIELDS) {
+          if (updates[field] !== undefined) {
+            Object.assign(changes, { [field]: updates[field] });
           }
+        }
+
+        const email = EmailSchema.parse({ ...current, ...changes });
+        await this.database.saveEmail(email);
+
+        const rescheduled = sendAt ? await outbox.reschedule(entry, sendAt) : entry;
+        const scheduled = {
+          email: (await this.database.getEmail(id)) || email,
+          sendAt: (rescheduled || entry).nextAttemptAt,
         };
+        await this.recordAudit('email.scheduled.update', current, scheduled.email, {
+          sendAt: { before: entry.nextAttemptAt, after: scheduled.sendAt },
+        });
+        return scheduled;
+      });
+    } catch (error) {
+      this.logger.error(`Failed to update scheduled email ${id}`, error);
+      throw new Error(`Failed to update scheduled email: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Undo: the message goes back to the drafts so the sender can keep editing it
+  async cancelScheduled(id: string): Promise<Email | null> {
+    if (!this.options.outbox) {
+      return null;
+    }
+    const outbox = this.options.outbox;
 
-        addParticipant(email.from);
-        email.to.forEach(addParticipant);
-        email.cc?.forEach(addParticipant);
+    try {
+      return await outbox.whileScheduled(id, async entry => {
+        const current = await this.database.getEmail(id);
+        if (!current || !(await outbox.cancel(entry))) {
+          return null;
+        }
+
+        const draft = EmailSchema.parse({
+          ...current,
+          category: 'draft',
+          labels: ['drafts'],
+          isDraft: true,
+          date: new Date(),
+          metadata: { ...current.metadata, draftRevision: 1 },
+        });
+        await this.database.saveEmail(draft);
+        await this.scheduleDraftUpload(draft.id);
+        await this.recordAudit('email.scheduled.cancel', current, draft);
+        this.logger.info(`Scheduled email ${id} cancelled`);
+
+        return draft;
+      });
+    } catch (error) {
+      this.logger.error(`Failed to cancel scheduled email ${id}`, error);
+      throw new Error(`Failed to cancel scheduled email: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async syncDrafts(): Promise<SyncReport | null> {
+    if (!supportsSync(this.emailProvider) || !supportsDrafts(this.emailProvider)) {
+      return null;
+    }
+
+    try {
+      await this.flushDrafts();
+      await this.emailProvider.connect();
+      try {
+        const syncService = new MailboxSyncService(this.emailProvider, this.database, this.accountId);
+        const report = await syncService.syncFolder(this.emailProvider.getDraftsFolder());
+
+        // Some clients store drafts without the \Draft flag
+        for (const email of report.added.filter(added => !added.isDraft)) {
+          await this.database.updateEmail(email.id, {
+            isDraft: true,
+            category: 'draft',
+            labels: ['drafts'],
+          });
+        }
+
+        return report;
+      } finally {
+        await this.emailProvider.disconnect();
       }
+    } catch (error) {
+      this.logger.error('Failed to sync drafts', error);
+      throw new Error(`Failed to sync drafts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async flushDrafts(): Promise<void> {
+    const ids = Array.from(this.pendingDraftUploads.keys());
+    for (const id of ids) {
+      this.cancelDraftUpload(id);
+      await this.uploadDraft(id);
+    }
+  }
+
+  private async scheduleDraftUpload(id: string): Promise<void> {
+    const delay = this.options.draftUploadDelay || 0;
+    if (delay <= 0) {
+      await this.uploadDraft(id);
+      return;
+    }
 
-      const threads = Array.from(threadMap.values());
-      threads.sort((a, b) => b.lastMessageDate.getTime() - a.lastMessageDate.getTime());
+    this.cancelDraftUpload(id);
+    this.pendingDraftUploads.set(
+      id,
+      setTimeout(() => {
+        this.pendingDraftUploads.delete(id);
+        void this.uploadDraft(id);
+      }, delay),
+    );
+  }
 
-      this.logger.info(`Retrieved ${threads.length} email threads`);
-      return threads;
+  private async recordAudit(
+    action: string,
+    before: Email | null,
+    after: Email | null,
+    metadata?: Record<string, unknown>,
+  ): Promise<void> {
+    await this.options.audit?.record({
+      action,
+      targetType: 'email',
+      targetId: (after || before)?.id,
+      before,
+      after,
+      redact: AUDIT_REDACTED,
+      metadata,
+    });
+  }
+
+  private resolveSendAt(options: SendOptions): Date | undefined {
+    const undoUntil = options.undoWindow ? Date.now() + options.undoWindow : 0;
+    const scheduled = options.sendAt ? options.sendAt.getTime() : 0;
+    const sendAt = Math.max(undoUntil, scheduled);
+    return sendAt > Date.now() ? new Date(sendAt) : undefined;
+  }
+
+  private cancelDraftUpload(id: string): void {
+    const timer = this.pendingDraftUploads.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.pendingDraftUploads.delete(id);
+    }
+  }
+
+  // Upload failures keep the local draft; the next save retries the upload
+  private async uploadDraft(id: string): Promise<void> {
+    if (!supportsDrafts(this.emailProvider)) {
+      return;
+    }
+
+    try {
+      const draft = await this.database.getEmail(id);
+      if (!draft || !draft.isDraft) {
+        return;
+      }
+
+      const attachments = await this.database.loadAttachmentData(draft.attachments);
+      await this.emailProvider.connect();
+      try {
+        await this.emailProvider.saveDraft({ ...draft, attachments });
+      } finally {
+        await this.emailProvider.disconnect();
+      }
     } catch (error) {
-      this.logger.error('Failed to get email threads', error);
-      throw new Error(`Failed to get threads: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      this.logger.warn(`Failed to upload draft ${id}`, error);
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,224 @@
+import { IAttachmentStore, IKeyProvider, WrappedDataKey } from '../core/interfaces';
+import { createCipheriv, createDecipheriv, createHmac, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import { Readable } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import path from 'path';
+
+// AES-256-GCM throughout; sealed values are iv | tag | ciphertext
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// Encrypted columns read enc1:<data key id>:<base64>; anything else is legacy plaintext
+const COLUMN_PREFIX = 'enc1:';
+// Encrypted blobs start with this, then the data key id's length and the id
+const BLOB_MAGIC = Buffer.from('EMLENC1\0');
+
+const seal = (key: Buffer, plaintext: Buffer, iv: Buffer = randomBytes(IV_LENGTH)): Buffer => {
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+};
+
+const open = (key: Buffer, sealed: Buffer): Buffer => {
+  const decipher = createDecipheriv(ALGORITHM, key, sealed.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(sealed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(sealed.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+};
+
+const newKey = (): string => randomBytes(KEY_LENGTH).toString('base64');
+
+export const isEncrypted = (value: string): boolean => value.startsWith(COLUMN_PREFIX);
+
+export const isEncryptedBuffer = (content: Buffer): boolean =>
+  content.length > BLOB_MAGIC.length && content.subarray(0, BLOB_MAGIC.length).equals(BLOB_MAGIC);
+
+// A data key as stored next to the data, wrapped so it is useless without the provider
+export interface DataKey {
+  id: string;
+  keyId: string;
+  wrappedKey: string;
+  createdAt: Date;
+}
+
+interface Keyfile {
+  current: string;
+  keys: Record<string, string>;
+}
+
+// Keys in a JSON file only its owner can read: { current, keys: { id: base64 } }. A
+// missing file is created with one key; rotate adds a key and keeps the old ones.
+export class LocalKeyfileProvider implements IKeyProvider {
+  private keyfile: Promise<Keyfile> | null = null;
+
+  constructor(private file: string) {}
+
+  async currentKeyId(): Promise<string> {
+    return (await this.load()).current;
+  }
+
+  async wrapKey(dataKey: Buffer): Promise<WrappedDataKey> {
+    const keyfile = await this.load();
+    return { keyId: keyfile.current, wrapped: seal(this.key(keyfile, keyfile.current), dataKey).toString('base64') };
+  }
+
+  async unwrapKey(wrapped: WrappedDataKey): Promise<Buffer> {
+    const keyfile = await this.load();
+    return open(this.key(keyfile, wrapped.keyId), Buffer.from(wrapped.wrapped, 'base64'));
+  }
+
+  async rotate(): Promise<string> {
+    const keyfile = await this.load();
+    const id = uuidv4();
+    const rotated: Keyfile = { current: id, keys: { ...keyfile.keys, [id]: newKey() } };
+
+    await this.write(rotated);
+    this.keyfile = Promise.resolve(rotated);
+    return id;
+  }
+
+  private load(): Promise<Keyfile> {
+    if (!this.keyfile) {
+      this.keyfile = this.read().catch(error => {
+        this.keyfile = null;
+        throw error;
+      });
+    }
+    return this.keyfile;
+  }
+
+  private async read(): Promise<Keyfile> {
+    try {
+      const keyfile: Keyfile = JSON.parse(await fs.readFile(this.file, 'utf8'));
+      this.key(keyfile, keyfile.current);
+      return keyfile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    const id = uuidv4();
+    const keyfile: Keyfile = { current: id, keys: { [id]: newKey() } };
+    await this.write(keyfile);
+    return keyfile;
+  }
+
+  private async write(keyfile: Keyfile): Promise<void> {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    // Write then rename so a crash never leaves a truncated keyfile
+    const temp = `${this.file}.${uuidv4()}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(keyfile, null, 2), { mode: 0o600 });
+    await fs.rename(temp, this.file);
+  }
+
+  private key(keyfile: Keyfile, id: string): Buffer {
+    const key = keyfile.keys?.[id] ? Buffer.from(keyfile.keys[id], 'base64') : null;
+    if (!key || key.length !== KEY_LENGTH) {
+      throw new Error(`Key ${id} is missing from ${this.file}`);
+    }
+    return key;
+  }
+}
+
+// Encrypts with data keys held unwrapped in memory, so it works synchronously once
+// load has run. Columns get a random IV; blobs get one derived from their content, so
+// identical attachments encrypt to the same blob under the same data key and are still
+// stored once.
+export class EnvelopeCipher {
+  private keys = new Map<string, { key: Buffer; ivKey: Buffer }>();
+  private current: string | null = null;
+
+  constructor(private keyProvider: IKeyProvider) {}
+
+  get dataKeyId(): string {
+    if (!this.current) throw new Error('No data key loaded');
+    return this.current;
+  }
+
+  get dataKeyIds(): string[] {
+    return [...this.keys.keys()];
+  }
+
+  // Unwraps stored data keys; the last one becomes current
+  async load(dataKeys: DataKey[]): Promise<void> {
+    for (const dataKey of dataKeys) {
+      const key = await this.keyProvider.unwrapKey({ keyId: dataKey.keyId, wrapped: dataKey.wrappedKey });
+      this.keys.set(dataKey.id, { key, ivKey: createHmac('sha256', key).update('blob-iv').digest() });
+      this.current = dataKey.id;
+    }
+  }
+
+  // A fresh data key wrapped with the provider's current key; it is only used once
+  // the caller has stored it and passed it to load
+  async createDataKey(): Promise<DataKey> {
+    const wrapped = await this.keyProvider.wrapKey(randomBytes(KEY_LENGTH));
+    return { id: uuidv4(), keyId: wrapped.keyId, wrappedKey: wrapped.wrapped, createdAt: new Date() };
+  }
+
+  forget(dataKeyId: string): void {
+    if (dataKeyId !== this.current) this.keys.delete(dataKeyId);
+  }
+
+  encrypt(text: string): string {
+    const id = this.dataKeyId;
+    return `${COLUMN_PREFIX}${id}:${seal(this.keys.get(id)!.key, Buffer.from(text, 'utf8')).toString('base64')}`;
+  }
+
+  decrypt(value: string): string {
+    if (!isEncrypted(value)) return value;
+
+    const separator = value.indexOf(':', COLUMN_PREFIX.length);
+    const id = value.slice(COLUMN_PREFIX.length, separator);
+    return open(this.keyFor(id).key, Buffer.from(value.slice(separator + 1), 'base64')).toString('utf8');
+  }
+
+  encryptBuffer(content: Buffer): Buffer {
+    const id = Buffer.from(this.dataKeyId, 'utf8');
+    const { key, ivKey } = this.keys.get(this.dataKeyId)!;
+    const iv = createHmac('sha256', ivKey).update(content).digest().subarray(0, IV_LENGTH);
+    return Buffer.concat([BLOB_MAGIC, Buffer.from([id.length]), id, seal(key, content, iv)]);
+  }
+
+  decryptBuffer(content: Buffer): Buffer {
+    if (!isEncryptedBuffer(content)) return content;
+
+    const start = BLOB_MAGIC.length + 1;
+    const end = start + content[BLOB_MAGIC.length];
+    return open(this.keyFor(content.subarray(start, end).toString('utf8')).key, content.subarray(end));
+  }
+
+  private keyFor(id: string): { key: Buffer; ivKey: Buffer } {
+    const entry = this.keys.get(id);
+    if (!entry) throw new Error(`Data key ${id} is not available`);
+    return entry;
+  }
+}
+
+// Encrypts blobs on their way into another store. Hashes are of the ciphertext, so a
+// blob re-encrypted under a new data key gets a new hash.
+export class EncryptedAttachmentStore implements IAttachmentStore {
+  constructor(
+    private store: IAttachmentStore,
+    private cipher: EnvelopeCipher,
+  ) {}
+
+  async put(content: Buffer): Promise<string> {
+    return this.store.put(this.cipher.encryptBuffer(content));
+  }
+
+  async get(hash: string): Promise<Buffer | null> {
+    const content = await this.store.get(hash);
+    return content ? this.cipher.decryptBuffer(content) : null;
+  }
+
+  // GCM only authenticates once the whole blob is read, so it is decrypted up front
+  async createReadStream(hash: string): Promise<Readable | null> {
+    const content = await this.get(hash);
+    return content ? Readable.from([content]) : null;
+  }
+
+  async delete(hash: string): Promise<void> {
+    await this.store.delete(hash);
+  }
+}
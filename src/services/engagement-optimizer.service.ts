@@ -536,4 +536,24 @@ export class EngagementOptimizerService {
     const existing = this.historicalData.get(recipientEmail) || [];
     this.historicalData.set(recipientEmail, [...existing, ...events]);
   }
+
+  getHistoricalData(recipientEmail: string): EngagementEvent[] {
+    return this.historyKeys(recipientEmail).flatMap(key => this.historicalData.get(key) || []);
+  }
+
+  // Drops the recipient's history and resolves to how many events it held
+  forgetRecipient(recipientEmail: string): number {
+    let forgotten = 0;
+    for (const key of this.historyKeys(recipientEmail)) {
+      forgotten += this.historicalData.get(key)!.length;
+      this.historicalData.delete(key);
+    }
+    return forgotten;
+  }
+
+  // History is keyed by the address as it was given; match it case-insensitively
+  private historyKeys(recipientEmail: string): string[] {
+    const email = recipientEmail.toLowerCase();
+    return [...this.historicalData.keys()].filter(key => key.toLowerCase() === email);
+  }
 }
\ No newline at end of file
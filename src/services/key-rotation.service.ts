@@ -0,0 +1,109 @@
+import { EncryptionStatus, IDatabase, IKeyProvider } from '../core/interfaces';
+import { EventEmitter } from 'events';
+import winston from 'winston';
+
+export interface KeyRotationOptions {
+  // Emails, sources, attachments and accounts re-encrypted per database transaction
+  batchSize?: number;
+}
+
+export interface ReencryptionProgress {
+  reencrypted: number;
+  pending: number;
+}
+
+// Rotates the provider key and the data key together. New content is encrypted under
+// the new keys straight away; what was written under the old ones is re-encrypted in
+// the background a batch at a time, so mail keeps flowing while it runs.
+export class KeyRotationService extends EventEmitter {
+  private logger: winston.Logger;
+  private batchSize: number;
+  private running: Promise<void> | null = null;
+  private stopped = false;
+  // Set when more work turns up while a pass is already going
+  private again = false;
+
+  constructor(
+    private database: IDatabase,
+    private keyProvider: IKeyProvider,
+    options: KeyRotationOptions = {},
+  ) {
+    super();
+    this.batchSize = options.batchSize || 200;
+    this.logger = winston.createLogger({
+      level: 'info',
+      format: winston.format.json(),
+      defaultMeta: { service: 'key-rotation' },
+      transports: [
+        new winston.transports.Console({
+          format: winston.format.simple(),
+        }),
+      ],
+    });
+  }
+
+  get isReencrypting(): boolean {
+    return this.running !== null;
+  }
+
+  async getStatus(): Promise<EncryptionStatus> {
+    return this.database.getEncryptionStatus();
+  }
+
+  // Resolves once the new keys are in use; re-encryption carries on in the background
+  async rotate(): Promise<EncryptionStatus> {
+    const keyId = await this.keyProvider.rotate();
+    const status = await this.database.rotateDataKey();
+    this.logger.info(`Rotated to key ${keyId} and data key ${status.dataKeyId}`);
+
+    this.resume();
+    return status;
+  }
+
+  // Re-encrypts whatever is still in plaintext or under an older key, e.g. mail stored
+  // before encryption was turned on
+  resume(): void {
+    this.stopped = false;
+    if (this.running) {
+      this.again = true;
+      return;
+    }
+
+    this.running = this.reencrypt()
+      .catch(error => {
+        this.logger.error('Re-encryption failed', error);
+        this.emit('reencryption-failed', error);
+      })
+      .finally(() => {
+        this.running = null;
+      });
+  }
+
+  // Stops after the batch in progress; resume picks up where it left off
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.running) {
+      await this.running;
+    }
+  }
+
+  private async reencrypt(): Promise<void> {
+    let reencrypted = 0;
+
+    while (!this.stopped) {
+      this.again = false;
+      const changed = await this.database.reencryptBatch(this.batchSize);
+      if (changed === 0) {
+        if (this.again) continue;
+        this.logger.info(`Re-encrypted ${reencrypted} items`);
+        this.emit('reencryption-completed', { reencrypted, pending: 0 });
+        return;
+      }
+
+      reencrypted += changed;
+      const { pending } = await this.database.getEncryptionStatus();
+      const progress: ReencryptionProgress = { reencrypted, pending };
+      this.emit('reencryption-progress', progress);
+    }
+  }
+}
@@ -0,0 +1,294 @@
+import { Email } from '../models/email.model';
+import {
+  Label,
+  LabelInput,
+  LabelInputSchema,
+  LabelSummary,
+  LabelUpdate,
+  LabelUpdateSchema,
+  isSystemLabel,
+  isWithinLabel,
+  labelPath,
+  parentLabel,
+} from '../models/label.model';
+import { DEFAULT_ACCOUNT_ID } from '../models/account.model';
+import { IEmailProvider, ILabelEmailProvider, IDatabase } from '../core/interfaces';
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import winston from 'winston';
+
+// Picks the provider for an account; null when the account is gone or disabled
+export type LabelProviderResolver = (accountId?: string) => IEmailProvider | null;
+
+export interface LabelChangeResult {
+  label: Label;
+  // Why nothing changed: the name is taken, or system labels cannot be renamed or deleted
+  rejected?: 'conflict' | 'system';
+}
+
+export const supportsLabels = (provider: IEmailProvider): provider is ILabelEmailProvider =>
+  typeof (provider as Partial<ILabelEmailProvider>).addLabels === 'function';
+
+// Labels that only exist locally and are never mirrored to the server
+const LOCAL_LABELS = ['outbox'];
+
+// First-class labels on top of email_labels. Changes are stored first and then
+// mirrored to the server as IMAP folders or Gmail labels; a server that is down
+// or refuses a change only costs the mirror, never the local change.
+export class LabelService extends EventEmitter {
+  private logger: winston.Logger;
+  private resolveProvider: LabelProviderResolver;
+
+  constructor(
+    private database: IDatabase,
+    emailProvider: IEmailProvider | LabelProviderResolver | null = null,
+  ) {
+    super();
+    this.resolveProvider = typeof emailProvider === 'function' ? emailProvider : () => emailProvider;
+    this.logger = winston.createLogger({
+      level: 'info',
+      format: winston.format.json(),
+      defaultMeta: { service: 'labels' },
+      transports: [
+        new winston.transports.Console({
+          format: winston.format.simple(),
+        }),
+      ],
+    });
+  }
+
+  async list(accountId: string = DEFAULT_ACCOUNT_ID): Promise<LabelSummary[]> {
+    const [labels, counts] = await Promise.all([
+      this.database.listLabels(accountId),
+      this.database.getLabelCounts(accountId),
+    ]);
+    const byName = new Map(counts.map(count => [count.label.toLowerCase(), count]));
+
+    return labels.map(label => ({
+      ...label,
+      parent: parentLabel(label.name),
+      system: isSystemLabel(label.name),
+      total: byName.get(label.name.toLowerCase())?.total || 0,
+      unread: byName.get(label.name.toLowerCase())?.unread || 0,
+    }));
+  }
+
+  async get(id: string): Promise<Label | null> {
+    return this.database.getLabel(id);
+  }
+
+  // Parents of a nested label are created along with it
+  async create(accountId: string, input: LabelInput): Promise<LabelChangeResult> {
+    const parsed = LabelInputSchema.parse(input);
+
+    const existing = await this.database.findLabelByName(accountId, parsed.name);
+    if (existing) {
+      return { label: existing, rejected: 'conflict' };
+    }
+
+    await this.ensureLabels(accountId, labelPath(parsed.name).slice(0, -1));
+    const now = new Date();
+    const label: Label = {
+      id: uuidv4(),
+      accountId,
+      name: parsed.name,
+      color: parsed.color,
+      remoteName: parsed.remoteName,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.database.saveLabel(label);
+
+    await this.mirror(accountId, `create label ${label.name}`, provider =>
+      provider.createLabel(this.remoteName(label)),
+    );
+
+    this.logger.info(`Label ${label.name} created for ${accountId}`);
+    this.emit('labels-changed', accountId);
+    return { label };
+  }
+
+  // Renaming moves nested labels along and retags every email in one transaction.
+  // A label with a remoteName stays pinned to that server folder when renamed.
+  async update(id: string, changes: LabelUpdate): Promise<LabelChangeResult | null> {
+    const parsed = LabelUpdateSchema.parse(changes);
+    const current = await this.database.getLabel(id);
+    if (!current) {
+      return null;
+    }
+
+    const renamed = parsed.name !== undefined && parsed.name !== current.name;
+    if (renamed && isSystemLabel(current.name)) {
+      return { label: current, rejected: 'system' };
+    }
+
+    if (renamed && (await this.isTaken(current, parsed.name!))) {
+      return { label: current, rejected: 'conflict' };
+    }
+
+    if (renamed) {
+      await this.database.renameLabel(current.accountId, current.name, parsed.name!);
+      await this.ensureLabels(current.accountId, labelPath(parsed.name!).slice(0, -1));
+      if (!current.remoteName && parsed.remoteName === undefined) {
+        await this.mirror(current.accountId, `rename label ${current.name}`, provider =>
+          provider.renameLabel(current.name, parsed.name!),
+        );
+      }
+    }
+
+    const label: Label = {
+      ...current,
+      name: parsed.name ?? current.name,
+      color: parsed.color === null ? undefined : parsed.color ?? current.color,
+      remoteName: parsed.remoteName === null ? undefined : parsed.remoteName ?? current.remoteName,
+      updatedAt: new Date(),
+    };
+    await this.database.saveLabel(label);
+
+    this.logger.info(`Label ${current.name} updated for ${current.accountId}`);
+    this.emit('labels-changed', current.accountId);
+    return { label };
+  }
+
+  // Deletes nested labels too; the emails themselves stay
+  async delete(id: string): Promise<LabelChangeResult | null> {
+    const label = await this.database.getLabel(id);
+    if (!label) {
+      return null;
+    }
+    if (isSystemLabel(label.name)) {
+      return { label, rejected: 'system' };
+    }
+
+    await this.database.deleteLabel(label.accountId, label.name);
+    await this.mirror(label.accountId, `delete label ${label.name}`, provider =>
+      provider.deleteLabel(this.remoteName(label)),
+    );
+
+    this.logger.info(`Label ${label.name} deleted for ${label.accountId}`);
+    this.emit('labels-changed', label.accountId);
+    return { label };
+  }
+
+  // Emails of other accounts are skipped; resolves to the number of emails changed
+  async apply(id: string, emailIds: string[]): Promise<number | null> {
+    return this.tag(id, emailIds, true);
+  }
+
+  async remove(id: string, emailIds: string[]): Promise<number | null> {
+    return this.tag(id, emailIds, false);
+  }
+
+  // Creates local labels for folders or Gmail labels that exist only on the server;
+  // null when the provider has no labels
+  async importRemote(accountId: string = DEFAULT_ACCOUNT_ID): Promise<Label[] | null> {
+    const provider = this.resolveProvider(accountId);
+    if (!provider || !supportsLabels(provider)) {
+      return null;
+    }
+
+    await provider.connect();
+    let remote: string[];
+    try {
+      remote = await provider.listLabels();
+    } finally {
+      await provider.disconnect();
+    }
+
+    const known = await this.database.listLabels(accountId);
+    const created = await this.ensureLabels(
+      accountId,
+      remote.filter(name => !known.some(label => (label.remoteName || label.name).toLowerCase() === name.toLowerCase())),
+    );
+
+    if (created.length > 0) {
+      this.logger.info(`Imported ${created.length} labels for ${accountId}`);
+      this.emit('labels-changed', accountId);
+    }
+    return created;
+  }
+
+  private async tag(id: string, emailIds: string[], add: boolean): Promise<number | null> {
+    const label = await this.database.getLabel(id);
+    if (!label) {
+      return null;
+    }
+
+    const emails: Email[] = [];
+    for (const emailId of new Set(emailIds)) {
+      const email = await this.database.getEmail(emailId);
+      if (email && (email.accountId || DEFAULT_ACCOUNT_ID) === label.accountId) {
+        emails.push(email);
+      }
+    }
+
+    const ids = emails.map(email => email.id);
+    if (add) {
+      await this.database.addEmailLabels(ids, [label.name]);
+    } else {
+      await this.database.removeEmailLabels(ids, [label.name]);
+    }
+
+    if (emails.length > 0 && !LOCAL_LABELS.includes(label.name.toLowerCase())) {
+      await this.mirror(label.accountId, `${add ? 'apply' : 'remove'} label ${label.name}`, provider =>
+        add
+          ? provider.addLabels(emails, [this.remoteName(label)])
+          : provider.removeLabels(emails, [this.remoteName(label)]),
+      );
+    }
+    if (emails.length > 0) {
+      this.emit('labels-changed', label.accountId);
+    }
+    return emails.length;
+  }
+
+  // Whether renaming label to name would collide with a label outside its own subtree
+  private async isTaken(label: Label, name: string): Promise<boolean> {
+    const labels = await this.database.listLabels(label.accountId);
+    const moving = labels
+      .filter(other => isWithinLabel(other.name, label.name))
+      .map(other => `${name}${other.name.slice(label.name.length)}`.toLowerCase());
+    return labels.some(
+      other => !isWithinLabel(other.name, label.name) && moving.includes(other.name.toLowerCase()),
+    );
+  }
+
+  private async ensureLabels(accountId: string, names: string[]): Promise<Label[]> {
+    const created: Label[] = [];
+    for (const name of new Set(names.flatMap(labelPath))) {
+      if (await this.database.findLabelByName(accountId, name)) continue;
+
+      const now = new Date();
+      const label: Label = { id: uuidv4(), accountId, name, createdAt: now, updatedAt: now };
+      await this.database.saveLabel(label);
+      created.push(label);
+    }
+    return created;
+  }
+
+  private remoteName(label: Label): string {
+    return label.remoteName || label.name;
+  }
+
+  private async mirror(
+    accountId: string,
+    action: string,
+    operation: (provider: ILabelEmailProvider) => Promise<void>,
+  ): Promise<void> {
+    const provider = this.resolveProvider(accountId);
+    if (!provider || !supportsLabels(provider)) {
+      return;
+    }
+
+    try {
+      await provider.connect();
+      try {
+        await operation(provider);
+      } finally {
+        await provider.disconnect();
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to ${action} on the server for ${accountId}`, error);
+    }
+  }
+}
@@ -0,0 +1,293 @@
+import { Email } from '../models/email.model';
+import { IDatabase, IAgentOrchestrator, EmailSearchQuery } from '../core/interfaces';
+import { mapParsedMail } from '../providers/parsed-mail.mapper';
+import { buildRawMessage } from '../providers/mail-options.mapper';
+import { ThreadingService } from './threading.service';
+import { simpleParser } from 'mailparser';
+import { Readable, Writable } from 'stream';
+import { once } from 'events';
+import { promises as fs, createReadStream } from 'fs';
+import path from 'path';
+import winston from 'winston';
+
+export interface ImportOptions {
+  // Run the registered agents on each imported message
+  runAgents?: boolean;
+  // Replaces the default labels unless the message carries X-Gmail-Labels
+  labels?: string[];
+  folder?: string;
+  accountId?: string;
+}
+
+export interface ImportReport {
+  imported: number;
+  skipped: number;
+  failed: number;
+  errors: string[];
+}
+
+const MAX_REPORTED_ERRORS = 20;
+const LF = 0x0a;
+
+const MBOX_SEPARATOR = /^From /;
+const ESCAPED_FROM = /^>+From /;
+const UNESCAPED_FROM = /^>*From /;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// asctime() format used on mbox separator lines, e.g. "Mon Jan  6 09:05:00 2025"
+function asctime(date: Date): string {
+  const pad = (n: number): string => n.toString().padStart(2, '0');
+  return (
+    `${WEEKDAYS[date.getUTCDay()]} ${MONTHS[date.getUTCMonth()]} ` +
+    `${date.getUTCDate().toString().padStart(2, ' ')} ` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} ` +
+    `${date.getUTCFullYear()}`
+  );
+}
+
+// Splits an mboxrd/mboxo stream into raw messages without buffering the whole file
+export async function* splitMbox(input: Readable): AsyncGenerator<Buffer> {
+  let pending = Buffer.alloc(0);
+  let lines: Buffer[] = [];
+  let previousBlank = true;
+
+  const flush = (): Buffer | null => {
+    if (lines.length === 0) return null;
+    // The blank line before the next separator belongs to the mbox framing
+    const last = lines[lines.length - 1];
+    if (last.length === 1 || (last.length === 2 && last[0] === 0x0d)) {
+      lines.pop();
+    }
+    const message = Buffer.concat(lines);
+    lines = [];
+    return message.some(byte => byte > 0x20) ? message : null;
+  };
+
+  const handleLine = (line: Buffer): Buffer | null => {
+    const head = line.subarray(0, 64).toString('latin1');
+
+    if (previousBlank && MBOX_SEPARATOR.test(head)) {
+      previousBlank = false;
+      return flush();
+    }
+
+    lines.push(ESCAPED_FROM.test(head) ? line.subarray(1) : line);
+    previousBlank = head === '\n' || head === '\r\n';
+    return null;
+  };
+
+  for await (const chunk of input) {
+    pending = Buffer.concat([pending, Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk)]);
+
+    let newline = pending.indexOf(LF);
+    while (newline !== -1) {
+      const message = handleLine(pending.subarray(0, newline + 1));
+      if (message) yield message;
+      pending = pending.subarray(newline + 1);
+      newline = pending.indexOf(LF);
+    }
+  }
+
+  if (pending.length > 0) {
+    const message = handleLine(pending);
+    if (message) yield message;
+  }
+
+  const last = flush();
+  if (last) yield last;
+}
+
+export class MailArchiveService {
+  private logger: winston.Logger;
+  private threading: ThreadingService;
+
+  constructor(
+    private database: IDatabase,
+    private orchestrator?: IAgentOrchestrator,
+  ) {
+    this.threading = new ThreadingService(database);
+    this.logger = winston.createLogger({
+      level: 'info',
+      format: winston.format.json(),
+      defaultMeta: { service: 'mail-archive' },
+      transports: [
+        new winston.transports.Console({
+          format: winston.format.simple(),
+        }),
+      ],
+    });
+  }
+
+  async importMbox(input: Readable | string, options: ImportOptions = {}): Promise<ImportReport> {
+    const stream = typeof input === 'string' ? createReadStream(input) : input;
+    const report: ImportReport = { imported: 0, skipped: 0, failed: 0, errors: [] };
+
+    for await (const raw of splitMbox(stream)) {
+      await this.importMessage(raw, options, report);
+    }
+
+    this.logger.info(
+      `mbox import: ${report.imported} imported, ${report.skipped} skipped, ${report.failed} failed`,
+    );
+    return report;
+  }
+
+  async importEml(raw: Buffer, options: ImportOptions = {}): Promise<ImportReport> {
+    const report: ImportReport = { imported: 0, skipped: 0, failed: 0, errors: [] };
+    await this.importMessage(raw, options, report);
+    return report;
+  }
+
+  async importEmlDirectory(directory: string, options: ImportOptions = {}): Promise<ImportReport> {
+    const report: ImportReport = { imported: 0, skipped: 0, failed: 0, errors: [] };
+
+    for (const file of await this.findEmlFiles(directory)) {
+      await this.importMessage(await fs.readFile(file), options, report, file);
+    }
+
+    this.logger.info(
+      `EML import from ${directory}: ${report.imported} imported, ${report.skipped} skipped, ${report.failed} failed`,
+    );
+    return report;
+  }
+
+  async exportEml(email: Email): Promise<Buffer> {
+    const source = await this.database.getEmailSource(email.id);
+    if (source) {
+      return source;
+    }
+
+    const attachments = await this.database.loadAttachmentData(email.attachments);
+    return buildRawMessage({ ...email, attachments });
+  }
+
+  async exportMbox(emails: Email[], output: Writable): Promise<number> {
+    const ordered = [...emails].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    for (const email of ordered) {
+      const raw = await this.exportEml(email);
+      await this.write(output, `From ${email.from.email || 'MAILER-DAEMON'} ${asctime(email.date)}\n`);
+      await this.write(output, this.escapeMbox(raw));
+      await this.write(output, raw[raw.length - 1] === LF ? '\n' : '\n\n');
+    }
+
+    return ordered.length;
+  }
+
+  async exportEmlDirectory(emails: Email[], directory: string): Promise<string[]> {
+    await fs.mkdir(directory, { recursive: true });
+    const files: string[] = [];
+
+    for (const email of emails) {
+      const stamp = email.date.toISOString().replace(/[:.]/g, '-');
+      const file = path.join(directory, `${stamp}-${email.id}.eml`);
+      await fs.writeFile(file, await this.exportEml(email));
+      files.push(file);
+    }
+
+    return files;
+  }
+
+  async exportSearch(query: EmailSearchQuery, output: Writable): Promise<number> {
+    return this.exportMbox(await this.database.searchEmails(query), output);
+  }
+
+  async exportThread(threadId: string, output: Writable): Promise<number> {
+    return this.exportMbox(await this.database.getThreadEmails(threadId), output);
+  }
+
+  private async importMessage(
+    raw: Buffer,
+    options: ImportOptions,
+    report: ImportReport,
+    source?: string,
+  ): Promise<void> {
+    try {
+      const parsed = await simpleParser(raw);
+      let email: Email = { ...mapParsedMail(parsed), accountId: options.accountId };
+
+      if (await this.database.getEmailByMessageId(email.messageId, options.accountId)) {
+        report.skipped++;
+        return;
+      }
+
+      const gmailLabels = parsed.headers.get('x-gmail-labels');
+      const labels =
+        typeof gmailLabels === 'string'
+          ? gmailLabels.split(',').map(label => label.trim().toLowerCase()).filter(Boolean)
+          : options.labels;
+
+      email = {
+        ...email,
+        folder: options.folder,
+        labels: labels || email.labels,
+        // Archived mail has been dealt with already
+        isRead: labels ? !labels.includes('unread') : true,
+      };
+
+      email = await this.threading.threadEmail(email);
+      await this.database.saveEmail(email);
+      await this.database.saveEmailSource(email.id, raw);
+
+      if (options.runAgents && this.orchestrator) {
+        const result = await this.orchestrator.processEmail(email);
+        await this.database.saveEmail(result.finalEmail);
+      }
+
+      report.imported++;
+    } catch (error) {
+      report.failed++;
+      const message = `${source || `message ${report.imported + report.skipped + report.failed}`}: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`;
+      if (report.errors.length < MAX_REPORTED_ERRORS) {
+        report.errors.push(message);
+      }
+      this.logger.warn(`Failed to import ${message}`);
+    }
+  }
+
+  private async findEmlFiles(directory: string): Promise<string[]> {
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    const files: string[] = [];
+
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const full = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...(await this.findEmlFiles(full)));
+      } else if (entry.isFile() && entry.name.toLowerCase().endsWith('.eml')) {
+        files.push(full);
+      }
+    }
+
+    return files;
+  }
+
+  // mboxrd quoting: every line starting with >*From gains one more '>'
+  private escapeMbox(raw: Buffer): Buffer {
+    const parts: Buffer[] = [];
+    let start = 0;
+
+    while (start < raw.length) {
+      const newline = raw.indexOf(LF, start);
+      const end = newline === -1 ? raw.length : newline + 1;
+      const line = raw.subarray(start, end);
+
+      if (UNESCAPED_FROM.test(line.subarray(0, 64).toString('latin1'))) {
+        parts.push(Buffer.from('>'));
+      }
+      parts.push(line);
+      start = end;
+    }
+
+    return Buffer.concat(parts);
+  }
+
+  private async write(output: Writable, data: string | Buffer): Promise<void> {
+    if (!output.write(data)) {
+      await once(output, 'drain');
+    }
+  }
+}
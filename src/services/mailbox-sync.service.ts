@@ -0,0 +1,164 @@
+import { Email, EmailAddress } from '../models/email.model';
+import { IEmailProvider, ISyncEmailProvider, IDatabase, MailboxSyncOptions } from '../core/interfaces';
+import { ThreadingService } from './threading.service';
+import { DEFAULT_ACCOUNT_ID } from '../models/account.model';
+import winston from 'winston';
+
+export interface SyncReport {
+  folder: string;
+  added: Email[];
+  updated: number;
+  expunged: number;
+  uidValidityReset: boolean;
+}
+
+export const supportsSync = (provider: IEmailProvider): provider is ISyncEmailProvider =>
+  typeof (provider as Partial<ISyncEmailProvider>).syncMailbox === 'function';
+
+export const draftRevision = (email: Email): number =>
+  typeof email.metadata?.draftRevision === 'number' ? email.metadata.draftRevision : 0;
+
+export class MailboxSyncService {
+  private logger: winston.Logger;
+  private threading: ThreadingService;
+
+  constructor(
+    private emailProvider: ISyncEmailProvider,
+    private database: IDatabase,
+    private accountId: string = DEFAULT_ACCOUNT_ID,
+  ) {
+    this.threading = new ThreadingService(database);
+    this.logger = winston.createLogger({
+      level: 'info',
+      format: winston.format.json(),
+      defaultMeta: { service: 'mailbox-sync' },
+      transports: [
+        new winston.transports.Console({
+          format: winston.format.simple(),
+        }),
+      ],
+    });
+  }
+
+  async syncFolder(folder: string = 'INBOX', options?: MailboxSyncOptions): Promise<SyncReport> {
+    const state = await this.database.getSyncState(this.accountId, folder);
+    const result = await this.emailProvider.syncMailbox(folder, state, options);
+
+    if (result.uidValidityChanged) {
+      // UIDs from the old UIDVALIDITY epoch are meaningless; messages are
+      // re-matched by Message-ID as they are fetched again
+      this.logger.warn(`UIDVALIDITY changed for ${folder}, resetting local UIDs`);
+      await this.database.clearFolderUids(folder, this.accountId);
+    }
+
+    const added: Email[] = [];
+    let updated = 0;
+
+    for (const fetched of result.newEmails) {
+      const email = { ...fetched, accountId: this.accountId };
+      const existing = await this.database.getEmailByMessageId(email.messageId, this.accountId);
+
+      if (existing) {
+        await this.database.updateEmail(existing.id, {
+          folder: email.folder,
+          uid: email.uid,
+          isRead: email.isRead,
+          isStarred: email.isStarred,
+          ...(existing.isDraft ? this.draftChanges(existing, email) : {}),
+        });
+        updated++;
+      } else {
+        const threaded = await this.threading.threadEmail(
+          email.isDraft ? { ...email, labels: ['drafts'], category: 'draft' } : email,
+        );
+        await this.database.saveEmail(threaded);
+        added.push(threaded);
+      }
+    }
+
+    const localUids = await this.database.getFolderUids(folder, this.accountId);
+    const byUid = new Map(localUids.map(entry => [entry.uid, entry.id]));
+
+    for (const change of result.flagUpdates) {
+      const id = byUid.get(change.uid);
+      if (!id) continue;
+
+      const local = await this.database.getEmail(id);
+      if (
+        local &&
+        (local.isRead !== change.isRead ||
+          local.isStarred !== change.isStarred ||
+          local.isDraft !== change.isDraft)
+      ) {
+        await this.database.updateEmail(id, {
+          isRead: change.isRead,
+          isStarred: change.isStarred,
+          isDraft: change.isDraft,
+        });
+        updated++;
+      }
+    }
+
+    const serverUids = new Set(result.existingUids);
+    const expunged = localUids.filter(
+      entry => entry.uid <= result.highestUid && !serverUids.has(entry.uid),
+    );
+
+    for (const entry of expunged) {
+      await this.database.deleteEmail(entry.id);
+    }
+
+    await this.database.saveSyncState({
+      accountId: this.accountId,
+      folder,
+      uidValidity: result.uidValidity,
+      highestUid: result.highestUid,
+      highestModseq: result.highestModseq,
+      lastSyncedAt: new Date(),
+    });
+
+    this.logger.info(
+      `Sync of ${folder}: ${added.length} added, ${updated} updated, ${expunged.length} expunged`,
+    );
+
+    return {
+      folder,
+      added,
+      updated,
+      expunged: expunged.length,
+      uidValidityReset: result.uidValidityChanged,
+    };
+  }
+
+  // A draft edited in another client keeps its Message-ID but not its content;
+  // the revision is bumped so autosaving editors notice the change
+  private draftChanges(local: Email, remote: Email): Partial<Email> {
+    const addresses = (list?: EmailAddress[]): string =>
+      (list || []).map(addr => addr.email.toLowerCase()).join(',');
+    const text = (value?: string): string => (value || '').replace(/\s+/g, ' ').trim();
+
+    const changed =
+      text(local.subject) !== text(remote.subject) ||
+      text(local.body) !== text(remote.body) ||
+      addresses(local.to) !== addresses(remote.to) ||
+      addresses(local.cc) !== addresses(remote.cc) ||
+      addresses(local.bcc) !== addresses(remote.bcc) ||
+      local.attachments.length !== remote.attachments.length;
+
+    if (!changed) {
+      return {};
+    }
+
+    return {
+      subject: remote.subject,
+      body: remote.body,
+      htmlBody: remote.htmlBody,
+      to: remote.to,
+      cc: remote.cc,
+      bcc: remote.bcc,
+      attachments: remote.attachments,
+      date: remote.date,
+      metadata: { ...local.metadata, draftRevision: draftRevision(local) + 1 },
+    };
+  }
+}
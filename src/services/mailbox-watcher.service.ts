@@ -0,0 +1,176 @@
+import { Email } from '../models/email.model';
+import {
+  IEmailProvider,
+  IPushEmailProvider,
+  IDatabase,
+  IAgentOrchestrator,
+  MailboxWatchHandle,
+} from '../core/interfaces';
+import { ThreadingService } from './threading.service';
+import { EventEmitter } from 'events';
+import winston from 'winston';
+
+export interface MailboxWatcherOptions {
+  folder?: string;
+  pollInterval?: number;
+  reconnectDelay?: number;
+  // Stamped on every ingested email
+  accountId?: string;
+}
+
+export const supportsPush = (provider: IEmailProvider): provider is IPushEmailProvider =>
+  typeof (provider as Partial<IPushEmailProvider>).watchMailbox === 'function';
+
+export class MailboxWatcher extends EventEmitter {
+  private logger: winston.Logger;
+  private threading: ThreadingService;
+  private handle: MailboxWatchHandle | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private running = false;
+  private lastPoll = new Date();
+
+  constructor(
+    private emailProvider: IEmailProvider,
+    private database: IDatabase,
+    private orchestrator: IAgentOrchestrator,
+    private options: MailboxWatcherOptions = {},
+  ) {
+    super();
+    this.threading = new ThreadingService(database);
+    this.logger = winston.createLogger({
+      level: 'info',
+      format: winston.format.json(),
+      defaultMeta: { service: 'mailbox-watcher' },
+      transports: [
+        new winston.transports.Console({
+          format: winston.format.simple(),
+        }),
+      ],
+    });
+  }
+
+  get mode(): 'idle' | 'noop' | 'poll' | null {
+    if (!this.running) return null;
+    return this.handle ? this.handle.mode : 'poll';
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    await this.watch();
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    if (this.handle) {
+      await this.handle.stop();
+      this.handle = null;
+    }
+
+    this.logger.info('Mailbox watcher stopped');
+  }
+
+  private async watch(): Promise<void> {
+    const folder = this.options.folder || 'INBOX';
+
+    if (!supportsPush(this.emailProvider)) {
+      this.startPolling();
+      return;
+    }
+
+    try {
+      this.handle = await this.emailProvider.watchMailbox(
+        folder,
+        (emails) => this.handleEmails(emails),
+        {
+          pollInterval: this.options.pollInterval,
+          onError: (error) => this.scheduleReconnect(error),
+        },
+      );
+      this.emit('watching', { folder, mode: this.handle.mode });
+    } catch (error) {
+      this.scheduleReconnect(error instanceof Error ? error : new Error('Unknown error'));
+    }
+  }
+
+  // Providers without push support are polled with a regular fetch
+  private startPolling(): void {
+    const interval = this.options.pollInterval || 30000;
+    this.logger.info(`Provider has no push support, polling every ${interval}ms`);
+    this.emit('watching', { folder: this.options.folder || 'INBOX', mode: 'poll' });
+
+    this.pollTimer = setInterval(() => {
+      this.poll().catch((error) => {
+        this.logger.error('Mailbox poll failed', error);
+        this.emit('ingest-error', error);
+      });
+    }, interval);
+  }
+
+  private async poll(): Promise<void> {
+    const since = this.lastPoll;
+    this.lastPoll = new Date();
+
+    await this.emailProvider.connect();
+    try {
+      const emails = await this.emailProvider.fetchEmails({ folder: this.options.folder, since });
+      await this.handleEmails(emails);
+    } finally {
+      await this.emailProvider.disconnect();
+    }
+  }
+
+  private scheduleReconnect(error: Error): void {
+    this.logger.warn(`Mailbox watch interrupted: ${error.message}`);
+    this.emit('watch-error', error);
+
+    if (!this.running || this.reconnectTimer) return;
+
+    const previous = this.handle;
+    this.handle = null;
+    if (previous) {
+      previous.stop().catch(() => undefined);
+    }
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.running) {
+        this.watch().catch(() => undefined);
+      }
+    }, this.options.reconnectDelay || 5000);
+  }
+
+  private async handleEmails(emails: Email[]): Promise<void> {
+    for (const fetched of emails) {
+      const email = this.options.accountId ? { ...fetched, accountId: this.options.accountId } : fetched;
+      try {
+        if (await this.database.getEmailByMessageId(email.messageId, email.accountId)) {
+          continue;
+        }
+
+        const threaded = await this.threading.threadEmail(email);
+        await this.database.saveEmail(threaded);
+        const result = await this.orchestrator.processEmail(threaded);
+        await this.database.saveEmail(result.finalEmail);
+
+        this.logger.info(`New email ${email.id} processed in ${result.processingTime}ms`);
+        this.emit('email-received', result.finalEmail);
+      } catch (error) {
+        this.logger.error(`Failed to ingest email ${email.messageId}`, error);
+        this.emit('ingest-error', error);
+      }
+    }
+  }
+}
@@ -0,0 +1,339 @@
+import { Email } from '../models/email.model';
+import { IEmailProvider, IDatabase, OutboxEntry, OutboxState } from '../core/interfaces';
+import { RetryPolicy } from '../core/campaign.interfaces';
+import { EventEmitter } from 'events';
+import winston from 'winston';
+
+export interface OutboxOptions {
+  retryPolicy?: Partial<RetryPolicy>;
+  pollInterval?: number;
+  batchSize?: number;
+}
+
+export const DEFAULT_OUTBOX_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  initialDelay: 30000,
+  maxDelay: 3600000,
+  backoffMultiplier: 2,
+  retryableErrors: [
+    'ETIMEDOUT',
+    'ECONNREFUSED',
+    'ECONNRESET',
+    'ECONNECTION',
+    'ESOCKET',
+    'EAI_AGAIN',
+    // The provider's connection closed before the send; the next attempt reconnects
+    'Not connected',
+  ],
+};
+
+// Picks the provider for a message's account; null when the account is gone
+export type OutboxProviderResolver = (accountId?: string) => IEmailProvider | null;
+
+interface SmtpError extends Error {
+  code?: string;
+  responseCode?: number;
+}
+
+// Persists outgoing mail before handing it to the provider, so a transient SMTP
+// failure becomes a scheduled retry instead of an error for the caller
+export class OutboxService extends EventEmitter {
+  private logger: winston.Logger;
+  private retryPolicy: RetryPolicy;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private wakeTimers = new Set<NodeJS.Timeout>();
+  // Scheduled messages being edited or cancelled; the worker leaves them alone
+  private holds = new Set<string>();
+  private processing: Promise<void> | null = null;
+  private rerun = false;
+  private running = false;
+  private resolveProvider: OutboxProviderResolver;
+
+  constructor(
+    emailProvider: IEmailProvider | OutboxProviderResolver,
+    private database: IDatabase,
+    private options: OutboxOptions = {},
+  ) {
+    super();
+    this.resolveProvider = typeof emailProvider === 'function' ? emailProvider : () => emailProvider;
+    this.retryPolicy = { ...DEFAULT_OUTBOX_RETRY_POLICY, ...options.retryPolicy };
+    this.logger = winston.createLogger({
+      level: 'info',
+      format: winston.format.json(),
+      defaultMeta: { service: 'outbox' },
+      transports: [
+        new winston.transports.Console({
+          format: winston.format.simple(),
+        }),
+      ],
+    });
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    // A message left in "sending" was interrupted by a shutdown; it may or may not
+    // have reached the server, and sending twice beats never sending
+    for (const entry of await this.database.listOutboxEntries('sending')) {
+      await this.transition(entry, { state: 'queued', nextAttemptAt: new Date() });
+    }
+
+    this.pollTimer = setInterval(() => this.kick(), this.pollInterval);
+    this.kick();
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    for (const timer of this.wakeTimers) {
+      clearTimeout(timer);
+    }
+    this.wakeTimers.clear();
+
+    if (this.processing) {
+      await this.processing;
+    }
+
+    this.logger.info('Outbox stopped');
+  }
+
+  // The email must already be stored; it stays in the outbox until delivered
+  async enqueue(email: Email, sendAt?: Date): Promise<OutboxEntry> {
+    const now = new Date();
+    const entry: OutboxEntry = {
+      emailId: email.id,
+      state: sendAt && sendAt.getTime() > now.getTime() ? 'scheduled' : 'queued',
+      attempts: 0,
+      nextAttemptAt: sendAt || now,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.database.saveOutboxEntry(entry);
+    this.emit('outbox-updated', entry);
+    this.wakeAt(entry.nextAttemptAt);
+    return entry;
+  }
+
+  // Runs fn only if the message has not started sending, and keeps the worker
+  // away from it meanwhile; resolves to null when it is no longer scheduled
+  async whileScheduled<T>(emailId: string, fn: (entry: OutboxEntry) => Promise<T>): Promise<T | null> {
+    if (this.holds.has(emailId)) {
+      return null;
+    }
+
+    this.holds.add(emailId);
+    try {
+      const entry = await this.database.getOutboxEntry(emailId);
+      if (!entry || entry.state !== 'scheduled') {
+        return null;
+      }
+      return await fn(entry);
+    } finally {
+      this.holds.delete(emailId);
+    }
+  }
+
+  async reschedule(entry: OutboxEntry, sendAt: Date): Promise<OutboxEntry | null> {
+    const updated = await this.transition(entry, { nextAttemptAt: sendAt });
+    this.wakeAt(sendAt);
+    return updated;
+  }
+
+  async cancel(entry: OutboxEntry): Promise<boolean> {
+    const cancelled = await this.database.deleteOutboxEntry(entry.emailId, entry.state);
+    if (cancelled) {
+      this.emit('outbox-cancelled', entry);
+    }
+    return cancelled;
+  }
+
+  async get(emailId: string): Promise<OutboxEntry | null> {
+    return this.database.getOutboxEntry(emailId);
+  }
+
+  async list(state?: OutboxState): Promise<OutboxEntry[]> {
+    return this.database.listOutboxEntries(state);
+  }
+
+  // Re-queues a failed message with a fresh attempt budget
+  async retry(emailId: string): Promise<OutboxEntry | null> {
+    const entry = await this.database.getOutboxEntry(emailId);
+    if (!entry || entry.state !== 'failed') {
+      return null;
+    }
+
+    const queued = await this.transition(entry, {
+      state: 'queued',
+      attempts: 0,
+      nextAttemptAt: new Date(),
+    });
+
+    this.wakeAt(new Date());
+    return queued;
+  }
+
+  // Sends everything that is due; concurrent calls share one run
+  async processDue(): Promise<void> {
+    if (this.processing) {
+      this.rerun = true;
+      return this.processing;
+    }
+
+    this.processing = (async () => {
+      try {
+        do {
+          this.rerun = false;
+          await this.processBatch();
+        } while (this.rerun);
+      } finally {
+        this.processing = null;
+      }
+    })();
+
+    return this.processing;
+  }
+
+  getRetryDelay(attempts: number): number {
+    const { initialDelay, backoffMultiplier, maxDelay } = this.retryPolicy;
+    return Math.min(initialDelay * Math.pow(backoffMultiplier, Math.max(attempts - 1, 0)), maxDelay);
+  }
+
+  isRetryable(error: unknown): boolean {
+    const { code, responseCode, message } = (error || {}) as SmtpError;
+
+    // SMTP 4xx replies are transient by definition (RFC 5321 §4.2.1)
+    if (responseCode && responseCode >= 400 && responseCode < 500) {
+      return true;
+    }
+
+    return this.retryPolicy.retryableErrors.some(
+      retryable =>
+        retryable === code ||
+        retryable === responseCode?.toString() ||
+        (typeof message === 'string' && message.includes(retryable)),
+    );
+  }
+
+  private get pollInterval(): number {
+    return this.options.pollInterval || 5000;
+  }
+
+  // Polling covers distant due times; near ones (e.g. an undo window) get a timer
+  private wakeAt(due: Date): void {
+    const delay = due.getTime() - Date.now();
+    if (!this.running || delay >= this.pollInterval) return;
+
+    const timer = setTimeout(() => {
+      this.wakeTimers.delete(timer);
+      this.kick();
+    }, Math.max(delay, 0));
+    this.wakeTimers.add(timer);
+  }
+
+  private kick(): void {
+    this.processDue().catch(error => {
+      this.logger.error('Outbox run failed', error);
+    });
+  }
+
+  private async processBatch(): Promise<void> {
+    const due = await this.database.getDueOutboxEntries(new Date(), this.options.batchSize || 20);
+    if (due.length === 0) return;
+
+    // Each provider is connected once per batch, on first use
+    const connected = new Map<IEmailProvider, Promise<void>>();
+    try {
+      for (const entry of due) {
+        await this.deliver(entry, provider => {
+          if (!connected.has(provider)) {
+            connected.set(provider, provider.connect());
+          }
+          return connected.get(provider)!;
+        });
+      }
+    } finally {
+      for (const [provider, connecting] of connected) {
+        const wasConnected = await connecting.then(() => true, () => false);
+        if (!wasConnected) continue;
+        await provider.disconnect().catch(error => {
+          this.logger.warn('Outbox failed to disconnect from the provider', error);
+        });
+      }
+    }
+  }
+
+  private async deliver(
+    entry: OutboxEntry,
+    connect: (provider: IEmailProvider) => Promise<void>,
+  ): Promise<void> {
+    if (this.holds.has(entry.emailId)) return;
+
+    // Claiming first means an edit or cancel that lost the race sees "sending"
+    const sending = await this.transition(entry, { state: 'sending', attempts: entry.attempts + 1 });
+    if (!sending) return;
+
+    const email = await this.database.getEmail(entry.emailId);
+    if (!email) {
+      await this.transition(sending, { state: 'failed', lastError: 'Email no longer exists' });
+      return;
+    }
+
+    const provider = this.resolveProvider(email.accountId);
+    if (!provider) {
+      await this.transition(sending, { state: 'failed', lastError: `No mailbox for account ${email.accountId}` });
+      return;
+    }
+
+    try {
+      await connect(provider);
+      const attachments = await this.database.loadAttachmentData(email.attachments);
+      const messageId = await provider.sendEmail({ ...email, attachments });
+
+      const sentAt = new Date();
+      await this.database.saveEmail({
+        ...email,
+        messageId,
+        date: sentAt,
+        labels: email.labels.map(label => (label === 'outbox' ? 'sent' : label)),
+      });
+      await this.transition(sending, { state: 'sent', lastError: undefined, sentAt });
+      this.logger.info(`Email sent successfully: ${messageId}`);
+    } catch (error) {
+      await this.recordFailure(sending, error);
+    }
+  }
+
+  private async recordFailure(entry: OutboxEntry, error: unknown): Promise<void> {
+    const lastError = error instanceof Error ? error.message : 'Unknown error';
+
+    if (this.isRetryable(error) && entry.attempts < this.retryPolicy.maxAttempts) {
+      const delay = this.getRetryDelay(entry.attempts);
+      this.logger.warn(`Delivery of ${entry.emailId} failed (attempt ${entry.attempts}), retrying in ${delay}ms`);
+      await this.transition(entry, {
+        state: 'queued',
+        lastError,
+        nextAttemptAt: new Date(Date.now() + delay),
+      });
+      return;
+    }
+
+    this.logger.error(`Delivery of ${entry.emailId} failed permanently: ${lastError}`);
+    await this.transition(entry, { state: 'failed', lastError });
+  }
+
+  private async transition(entry: OutboxEntry, changes: Partial<OutboxEntry>): Promise<OutboxEntry | null> {
+    const updated: OutboxEntry = { ...entry, ...changes, updatedAt: new Date() };
+    if (!(await this.database.transitionOutboxEntry(updated, entry.state))) {
+      return null;
+    }
+    this.emit('outbox-updated', updated);
+    return updated;
+  }
+}
@@ -0,0 +1,207 @@
+import {
+  RetentionRule,
+  RetentionRuleInput,
+  RetentionRuleInputSchema,
+  RetentionRuleResult,
+  RetentionRun,
+} from '../models/retention.model';
+import { IDatabase } from '../core/interfaces';
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import winston from 'winston';
+
+export interface RetentionOptions {
+  // Emails or agent tasks changed per database transaction
+  batchSize?: number;
+  // How often start() applies the rules; daily by default
+  interval?: number;
+}
+
+export interface RetentionRunOptions {
+  // Counts what each rule matches without changing anything
+  dryRun?: boolean;
+  // Ages are measured from this time instead of now
+  now?: Date;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Applies retention rules on a schedule once started, or on demand. A rule works
+// through its matches a batch at a time so no transaction holds the database for
+// long, and every run is recorded with what each rule matched and changed.
+export class RetentionService extends EventEmitter {
+  private logger: winston.Logger;
+  private batchSize: number;
+  private interval: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<RetentionRun> | null = null;
+
+  constructor(
+    private database: IDatabase,
+    options: RetentionOptions = {},
+  ) {
+    super();
+    this.batchSize = options.batchSize || 500;
+    this.interval = options.interval || DAY;
+    this.logger = winston.createLogger({
+      level: 'info',
+      format: winston.format.json(),
+      defaultMeta: { service: 'retention' },
+      transports: [
+        new winston.transports.Console({
+          format: winston.format.simple(),
+        }),
+      ],
+    });
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.run().catch(error => {
+        this.logger.error('Scheduled retention run failed', error);
+      });
+    }, this.interval);
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    if (this.running) {
+      await this.running.catch(() => undefined);
+    }
+  }
+
+  async listRules(): Promise<RetentionRule[]> {
+    return this.database.listRetentionRules();
+  }
+
+  async createRule(input: RetentionRuleInput): Promise<RetentionRule> {
+    const parsed = RetentionRuleInputSchema.parse(input);
+    const now = new Date();
+    const rule: RetentionRule = { id: uuidv4(), ...parsed, createdAt: now, updatedAt: now };
+
+    await this.database.saveRetentionRule(rule);
+    this.logger.info(`Created retention rule ${rule.name}`);
+    return rule;
+  }
+
+  // Fields left out keep their value; resolves to null for an unknown rule
+  async updateRule(id: string, input: Partial<RetentionRuleInput>): Promise<RetentionRule | null> {
+    const rule = await this.database.getRetentionRule(id);
+    if (!rule) return null;
+
+    const parsed = RetentionRuleInputSchema.parse({
+      name: rule.name,
+      action: rule.action,
+      olderThanDays: rule.olderThanDays,
+      accountId: rule.accountId,
+      category: rule.category,
+      labels: rule.labels,
+      enabled: rule.enabled,
+      ...input,
+    });
+    const updated: RetentionRule = { ...parsed, id, createdAt: rule.createdAt, updatedAt: new Date() };
+
+    await this.database.saveRetentionRule(updated);
+    return updated;
+  }
+
+  async deleteRule(id: string): Promise<boolean> {
+    return this.database.deleteRetentionRule(id);
+  }
+
+  async listRuns(limit?: number): Promise<RetentionRun[]> {
+    return this.database.listRetentionRuns(limit);
+  }
+
+  // Runs never overlap: one asked for while another is going starts after it
+  async run(options: RetentionRunOptions = {}): Promise<RetentionRun> {
+    const previous = this.running;
+    const current = (async () => {
+      if (previous) await previous.catch(() => undefined);
+      return this.apply(options);
+    })();
+
+    this.running = current;
+    try {
+      return await current;
+    } finally {
+      if (this.running === current) this.running = null;
+    }
+  }
+
+  private async apply(options: RetentionRunOptions): Promise<RetentionRun> {
+    const startedAt = new Date();
+    const now = options.now || startedAt;
+    const results: RetentionRuleResult[] = [];
+
+    for (const rule of await this.database.listRetentionRules()) {
+      if (!rule.enabled) continue;
+
+      const before = new Date(now.getTime() - rule.olderThanDays * DAY);
+      const result: RetentionRuleResult = {
+        ruleId: rule.id,
+        name: rule.name,
+        action: rule.action,
+        matched: 0,
+        applied: 0,
+      };
+      try {
+        result.matched = await this.database.countRetentionTargets(rule, before);
+        if (!options.dryRun && result.matched > 0) {
+          result.applied = await this.applyRule(rule, before);
+        }
+      } catch (error) {
+        // The other rules still run; the failure is kept in the run's record
+        this.logger.error(`Retention rule ${rule.name} failed`, error);
+        result.error = error instanceof Error ? error.message : 'Unknown error';
+      }
+      results.push(result);
+    }
+
+    const run: RetentionRun = {
+      id: uuidv4(),
+      dryRun: Boolean(options.dryRun),
+      startedAt,
+      finishedAt: new Date(),
+      results,
+    };
+    await this.database.saveRetentionRun(run);
+    this.emit('retention-run', run);
+
+    const applied = results.reduce((sum, result) => sum + result.applied, 0);
+    this.logger.info(`Retention ${run.dryRun ? 'dry run' : 'run'} ${run.id} applied ${applied} changes`);
+    return run;
+  }
+
+  // Applied matches stop matching, so batches are taken until none are left
+  private async applyRule(rule: RetentionRule, before: Date): Promise<number> {
+    let applied = 0;
+
+    for (;;) {
+      const ids = await this.database.findRetentionTargets(rule, before, this.batchSize);
+      if (ids.length === 0) return applied;
+
+      switch (rule.action) {
+        case 'delete':
+          await this.database.deleteEmails(ids);
+          break;
+        case 'trash':
+          await this.database.trashEmails(ids);
+          break;
+        case 'strip-attachments':
+          await this.database.stripAttachmentContent(ids);
+          break;
+        case 'purge-agent-tasks':
+          await this.database.deleteAgentTasks(ids);
+          break;
+      }
+      applied += ids.length;
+    }
+  }
+}
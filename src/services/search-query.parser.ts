@@ -0,0 +1,245 @@
+import { SearchNode, SearchTextField, SearchFlag } from '../core/interfaces';
+import { EmailCategorySchema, EmailPrioritySchema } from '../models/email.model';
+
+// Gmail-style search strings, e.g.
+//   from:alice subject:"q3 plan" (invoice OR receipt) -label:archived after:2025/01/01
+// Terms are ANDed and OR binds tighter, as in Gmail, so "a b OR c" means
+// a AND (b OR c). A field applies to a parenthesised group too, e.g.
+// subject:(budget review). Unknown "name:value" words are searched as plain text.
+
+const TEXT_FIELDS: Record<string, SearchTextField> = {
+  from: 'from',
+  to: 'to',
+  cc: 'cc',
+  bcc: 'bcc',
+  subject: 'subject',
+  body: 'body',
+  filename: 'filename',
+};
+
+const FLAGS: SearchFlag[] = ['read', 'unread', 'starred', 'unstarred', 'draft'];
+
+const OPERATORS = new Set([
+  ...Object.keys(TEXT_FIELDS),
+  'label',
+  'in',
+  'category',
+  'priority',
+  'is',
+  'has',
+  'after',
+  'before',
+  'newer_than',
+  'older_than',
+]);
+
+const DAY = 24 * 60 * 60 * 1000;
+const PERIOD_DAYS: Record<string, number> = { d: 1, w: 7, m: 30, y: 365 };
+
+// Words made only of punctuation (a lone "-", "&") have nothing to match
+const SEARCHABLE = /[\p{L}\p{N}]/u;
+
+// Dates are local midnight, like the mail client's day; bare numbers are Unix seconds
+const parseDate = (value: string): Date | null => {
+  const match = /^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/.exec(value);
+  if (match) {
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return date.getMonth() === Number(match[2]) - 1 ? date : null;
+  }
+  return /^\d+$/.test(value) ? new Date(Number(value) * 1000) : null;
+};
+
+class QueryParser {
+  private pos = 0;
+
+  constructor(private input: string) {}
+
+  parse(): SearchNode {
+    const node = this.parseAnd(null);
+    if (this.peek(')')) {
+      throw this.error('Unexpected ")"');
+    }
+    return node;
+  }
+
+  private parseAnd(operator: string | null): SearchNode {
+    const children: SearchNode[] = [];
+
+    for (;;) {
+      this.skipSpace();
+      if (this.atEnd() || this.peek(')')) break;
+      if (this.keyword('AND')) continue;
+
+      const node = this.parseOr(operator);
+      if (node) children.push(node);
+    }
+
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  private parseOr(operator: string | null): SearchNode | null {
+    if (this.peekKeyword('OR')) {
+      throw this.error('OR needs a search term on both sides');
+    }
+
+    const children: Array<SearchNode | null> = [this.parseUnary(operator)];
+    while (this.keyword('OR')) {
+      this.skipSpace();
+      if (this.atEnd() || this.peek(')') || this.peekKeyword('OR')) {
+        throw this.error('OR needs a search term on both sides');
+      }
+      children.push(this.parseUnary(operator));
+    }
+
+    const terms = children.filter((child): child is SearchNode => child !== null);
+    return terms.length > 1 ? { type: 'or', children: terms } : terms[0] || null;
+  }
+
+  private parseUnary(operator: string | null): SearchNode | null {
+    if (this.peek('-') && this.pos + 1 < this.input.length && !/[\s)]/.test(this.input[this.pos + 1])) {
+      this.pos++;
+      const child = this.parseUnary(operator);
+      return child && { type: 'not', child };
+    }
+
+    if (this.peek('(')) {
+      return this.parseGroup(operator);
+    }
+
+    if (this.peek('"')) {
+      return this.operand(operator, this.readQuoted(), true);
+    }
+
+    const word = this.readWord();
+    const match = /^([a-z_]+):(.*)$/i.exec(word);
+    const name = match?.[1].toLowerCase();
+    if (!match || !name || !OPERATORS.has(name)) {
+      return this.operand(operator, word, false);
+    }
+
+    if (match[2]) {
+      return this.operand(name, match[2], false);
+    }
+    if (this.peek('(')) {
+      return this.parseGroup(name);
+    }
+    if (this.peek('"')) {
+      return this.operand(name, this.readQuoted(), true);
+    }
+    throw this.error(`Missing value for ${name}:`);
+  }
+
+  private parseGroup(operator: string | null): SearchNode {
+    this.pos++;
+    const node = this.parseAnd(operator);
+    if (!this.peek(')')) {
+      throw this.error('Missing ")"');
+    }
+    this.pos++;
+    return node;
+  }
+
+  // A value in the context of an operator, or plain text outside of one
+  private operand(operator: string | null, value: string, exact: boolean): SearchNode | null {
+    if (!operator) {
+      return SEARCHABLE.test(value) ? { type: 'text', value, exact } : null;
+    }
+
+    if (TEXT_FIELDS[operator]) {
+      return SEARCHABLE.test(value) ? { type: 'text', field: TEXT_FIELDS[operator], value, exact } : null;
+    }
+
+    const lower = value.toLowerCase();
+    switch (operator) {
+      case 'label':
+      case 'in':
+        // in:anywhere is Gmail's way of lifting the folder restriction
+        return lower === 'anywhere' ? null : { type: 'label', label: value };
+      case 'category': {
+        const category = EmailCategorySchema.safeParse(lower);
+        if (!category.success) throw this.error(`Unknown category "${value}"`);
+        return { type: 'category', category: category.data };
+      }
+      case 'priority': {
+        const priority = EmailPrioritySchema.safeParse(lower);
+        if (!priority.success) throw this.error(`Unknown priority "${value}"`);
+        return { type: 'priority', priority: priority.data };
+      }
+      case 'is': {
+        const flag = FLAGS.find(candidate => candidate === lower);
+        if (!flag) throw this.error(`Unsupported is:${value}`);
+        return { type: 'flag', flag };
+      }
+      case 'has':
+        if (lower !== 'attachment') throw this.error(`Unsupported has:${value}`);
+        return { type: 'hasAttachment' };
+      case 'after':
+      case 'before': {
+        const date = parseDate(value);
+        if (!date) throw this.error(`Invalid date "${value}"`);
+        return { type: 'date', op: operator === 'after' ? 'after' : 'before', date };
+      }
+      case 'newer_than':
+      case 'older_than': {
+        const period = /^(\d+)([dwmy])$/.exec(lower);
+        if (!period) throw this.error(`Invalid period "${value}", expected e.g. 7d, 2w, 3m or 1y`);
+        const date = new Date(Date.now() - Number(period[1]) * PERIOD_DAYS[period[2]] * DAY);
+        return { type: 'date', op: operator === 'newer_than' ? 'after' : 'before', date };
+      }
+      default:
+        throw this.error(`Unknown operator ${operator}:`);
+    }
+  }
+
+  private readQuoted(): string {
+    const end = this.input.indexOf('"', this.pos + 1);
+    if (end === -1) {
+      throw this.error('Missing closing quote');
+    }
+    const value = this.input.slice(this.pos + 1, end);
+    this.pos = end + 1;
+    return value;
+  }
+
+  private readWord(): string {
+    const start = this.pos;
+    while (!this.atEnd() && !/[\s()"]/.test(this.input[this.pos])) {
+      this.pos++;
+    }
+    return this.input.slice(start, this.pos);
+  }
+
+  // Operators are upper case, like Gmail's, so "or" stays an ordinary word
+  private keyword(word: string): boolean {
+    this.skipSpace();
+    if (!this.peekKeyword(word)) return false;
+    this.pos += word.length;
+    return true;
+  }
+
+  private peekKeyword(word: string): boolean {
+    const next = this.input[this.pos + word.length];
+    return this.input.startsWith(word, this.pos) && (next === undefined || /[\s("]/.test(next));
+  }
+
+  private peek(char: string): boolean {
+    return this.input[this.pos] === char;
+  }
+
+  private skipSpace(): void {
+    while (!this.atEnd() && /\s/.test(this.input[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.input.length;
+  }
+
+  private error(message: string): SyntaxError {
+    return new SyntaxError(`${message} at position ${this.pos}`);
+  }
+}
+
+// Throws a SyntaxError for queries that cannot be parsed; an empty query matches everything
+export const parseSearchQuery = (input: string): SearchNode => new QueryParser(input).parse();
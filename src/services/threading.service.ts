@@ -0,0 +1,283 @@
+import { Email, EmailAddress } from '../models/email.model';
+import { IDatabase, EmailThread } from '../core/interfaces';
+import { v4 as uuidv4 } from 'uuid';
+import winston from 'winston';
+
+const REPLY_PREFIX = /^\s*((re|fwd?|aw|sv|antw)(\[\d+\])?\s*:|\[[^\]]+\])\s*/i;
+
+// Replies without References/In-Reply-To only join a thread this recent
+const SUBJECT_MATCH_WINDOW = 30 * 24 * 60 * 60 * 1000;
+
+export function normalizeSubject(subject: string): string {
+  let normalized = subject;
+  while (REPLY_PREFIX.test(normalized)) {
+    normalized = normalized.replace(REPLY_PREFIX, '');
+  }
+  return normalized.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+export function isReplySubject(subject: string): boolean {
+  return /^\s*(re|fwd?|aw|sv|antw)(\[\d+\])?\s*:/i.test(subject);
+}
+
+export function referenceChain(email: Email): string[] {
+  const refs = [...(email.references || [])];
+  if (email.inReplyTo && refs[refs.length - 1] !== email.inReplyTo) {
+    refs.push(email.inReplyTo);
+  }
+  return refs.filter(ref => ref !== email.messageId);
+}
+
+// Summarizes a thread's mail, oldest first
+export function toThread(emails: Email[]): EmailThread {
+  const ordered = [...emails].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const participants: EmailAddress[] = [];
+
+  const addParticipant = (addr: EmailAddress): void => {
+    const known = participants.find(p => p.email.toLowerCase() === addr.email.toLowerCase());
+    if (!known) {
+      participants.push(addr);
+    } else if (!known.name && addr.name) {
+      known.name = addr.name;
+    }
+  };
+
+  for (const email of ordered) {
+    addParticipant(email.from);
+    email.to.forEach(addParticipant);
+    email.cc?.forEach(addParticipant);
+  }
+
+  const root = ordered.find(email => !isReplySubject(email.subject)) || ordered[0];
+  const threadId = ordered.find(email => email.threadId)?.threadId || root.id;
+
+  return {
+    id: threadId,
+    accountId: root.accountId,
+    subject: root.subject,
+    participants,
+    emails: ordered,
+    lastMessageDate: ordered[ordered.length - 1].date,
+    unreadCount: ordered.filter(email => !email.isRead).length,
+    totalCount: ordered.length,
+  };
+}
+
+interface Container {
+  messageId: string;
+  email?: Email;
+  parent?: Container;
+  children: Container[];
+}
+
+export class ThreadingService {
+  private logger: winston.Logger;
+
+  constructor(private database: IDatabase) {
+    this.logger = winston.createLogger({
+      level: 'info',
+      format: winston.format.json(),
+      defaultMeta: { service: 'threading' },
+      transports: [
+        new winston.transports.Console({
+          format: winston.format.simple(),
+        }),
+      ],
+    });
+  }
+
+  // Assigns a stable thread id at ingest with JWZ threading over the new message and the
+  // stored threads it may belong to: those its headers point at, those pointing at it or
+  // at the same messages, and for a reply the latest thread with its subject. Stored
+  // threads it joins are merged into the oldest of them.
+  async threadEmail(email: Email): Promise<Email> {
+    const chain = referenceChain(email);
+    const related = [...(await this.database.findEmailsByMessageIds(chain, email.accountId))];
+    for (const messageId of [email.messageId, ...chain]) {
+      related.push(...(await this.database.findEmailsReferencing(messageId, email.accountId)));
+    }
+
+    const threadIds = new Set<string>();
+    for (const other of related) {
+      if (other.threadId) threadIds.add(other.threadId);
+    }
+    if (email.threadId) {
+      threadIds.add(email.threadId);
+    }
+    if (isReplySubject(email.subject)) {
+      const bySubject = await this.database.findThreadIdBySubject(
+        normalizeSubject(email.subject),
+        new Date(email.date.getTime() - SUBJECT_MATCH_WINDOW),
+        email.accountId,
+      );
+      if (bySubject) threadIds.add(bySubject);
+    }
+
+    // Whole threads go in, so the tree around the new message is complete
+    const stored = new Map(related.map(other => [other.id, other]));
+    for (const threadId of threadIds) {
+      for (const other of await this.database.getThreadEmails(threadId)) {
+        stored.set(other.id, other);
+      }
+    }
+    stored.delete(email.id);
+
+    const thread = this.buildThreads([email, ...stored.values()]).find(candidate =>
+      candidate.emails.some(other => other.id === email.id),
+    )!;
+    // Oldest first, so this is the thread id of the oldest threaded message
+    const threadId = thread.emails.find(other => other.threadId)?.threadId || uuidv4();
+
+    const merged = new Set<string>();
+    for (const other of thread.emails) {
+      if (other.id !== email.id && other.threadId && other.threadId !== threadId) merged.add(other.threadId);
+    }
+    for (const other of merged) {
+      await this.database.reassignThread(other, threadId);
+      this.logger.info(`Merged thread ${other} into ${threadId}`);
+    }
+
+    return { ...email, threadId };
+  }
+
+  // JWZ threading (https://www.jwz.org/doc/threading.html) over an in-memory set
+  buildThreads(emails: Email[]): EmailThread[] {
+    const idTable = new Map<string, Container>();
+
+    const getContainer = (messageId: string): Container => {
+      let container = idTable.get(messageId);
+      if (!container) {
+        container = { messageId, children: [] };
+        idTable.set(messageId, container);
+      }
+      return container;
+    };
+
+    const isAncestor = (candidate: Container, of: Container): boolean => {
+      for (let node: Container | undefined = of; node; node = node.parent) {
+        if (node === candidate) return true;
+      }
+      return false;
+    };
+
+    const link = (parent: Container, child: Container): void => {
+      if (child.parent === parent || isAncestor(child, parent)) return;
+      if (child.parent) {
+        child.parent.children = child.parent.children.filter(c => c !== child);
+      }
+      child.parent = parent;
+      parent.children.push(child);
+    };
+
+    // 1. Build containers and link the reference chains
+    for (const email of emails) {
+      const container = getContainer(email.messageId);
+      if (container.email) {
+        // Duplicate Message-ID: thread the copy on its own
+        const duplicate = getContainer(`${email.messageId}#${email.id}`);
+        duplicate.email = email;
+        continue;
+      }
+      container.email = email;
+
+      const refs = referenceChain(email);
+      let previous: Container | undefined;
+      for (const ref of refs) {
+        const refContainer = getContainer(ref);
+        if (previous && !refContainer.parent) {
+          link(previous, refContainer);
+        }
+        previous = refContainer;
+      }
+
+      if (previous) {
+        link(previous, container);
+      } else if (container.parent) {
+        container.parent.children = container.parent.children.filter(c => c !== container);
+        container.parent = undefined;
+      }
+    }
+
+    // 2. Find the root set and prune empty containers
+    const prune = (container: Container): Container[] => {
+      container.children = container.children.flatMap(prune);
+      container.children.forEach(child => (child.parent = container));
+      if (container.email) return [container];
+      if (container.children.length === 0) return [];
+      // Keep an empty root with several children, promote a single child
+      if (!container.parent && container.children.length > 1) return [container];
+      return container.children;
+    };
+
+    let roots = [...idTable.values()].filter(c => !c.parent).flatMap(prune);
+    for (const root of roots) {
+      root.parent = undefined;
+      for (const child of root.children) child.parent = root;
+    }
+
+    // 3. Merge roots that share a normalized subject
+    const subjectOf = (container: Container): string => {
+      const email = container.email || container.children.find(c => c.email)?.email;
+      return email ? normalizeSubject(email.subject) : '';
+    };
+    const isReply = (container: Container): boolean =>
+      Boolean(container.email && isReplySubject(container.email.subject));
+
+    const subjectTable = new Map<string, Container>();
+    for (const root of roots) {
+      const subject = subjectOf(root);
+      if (!subject) continue;
+
+      const existing = subjectTable.get(subject);
+      if (
+        !existing ||
+        (existing.email && !root.email) ||
+        (existing.email && root.email && isReply(existing) && !isReply(root))
+      ) {
+        subjectTable.set(subject, root);
+      }
+    }
+
+    const merged: Container[] = [];
+    for (const root of roots) {
+      const subject = subjectOf(root);
+      const target = subject ? subjectTable.get(subject) : undefined;
+
+      if (!target || target === root) {
+        merged.push(root);
+      } else if (!target.email && !root.email) {
+        root.children.forEach(child => link(target, child));
+      } else if (!target.email || (isReply(root) && !isReply(target))) {
+        link(target, root);
+      } else {
+        // Neither is a reply of the other: group them under a new empty root
+        const group: Container = { messageId: `${target.messageId}#group`, children: [] };
+        const index = merged.indexOf(target);
+        link(group, target);
+        link(group, root);
+        subjectTable.set(subject, group);
+        if (index >= 0) merged[index] = group;
+        else merged.push(group);
+      }
+    }
+    roots = merged;
+
+    // 4. Flatten each tree into an EmailThread
+    const threads = roots.map(root => {
+      const threadEmails: Email[] = [];
+      const collect = (container: Container): void => {
+        if (container.email) threadEmails.push(container.email);
+        container.children.forEach(collect);
+      };
+      collect(root);
+      return this.toThread(threadEmails);
+    });
+
+    threads.sort((a, b) => b.lastMessageDate.getTime() - a.lastMessageDate.getTime());
+    return threads;
+  }
+
+  toThread(emails: Email[]): EmailThread {
+    return toThread(emails);
+  }
+}
@@ -0,0 +1,197 @@
+// The parts of a vCard the contact book keeps; Contact fits it as is
+export interface VCard {
+  name?: string;
+  emails: string[];
+  aliases: string[];
+  phones: string[];
+  organization?: string;
+  notes?: string;
+}
+
+// Lines are folded at 75 octets (RFC 6350 3.2), continuation lines start with a space
+const MAX_LINE_OCTETS = 75;
+
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/\r?\n/g, '\\n').replace(/,/g, '\\,').replace(/;/g, '\\;');
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\([\\,;nN])/g, (_match, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+
+// Splits on separators that are not escaped with a backslash
+const splitEscaped = (value: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      current += value[i] + value[i + 1];
+      i++;
+    } else if (value[i] === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += value[i];
+    }
+  }
+  return [...parts, current];
+};
+
+const decodeQuotedPrintable = (value: string): string =>
+  Buffer.from(
+    value
+      .replace(/=\r?\n/g, '')
+      .replace(/=([0-9A-F]{2})/gi, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+    'latin1',
+  ).toString('utf8');
+
+const fold = (line: string): string => {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (octets + size > MAX_LINE_OCTETS) {
+      lines.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  return [...lines, current].join('\r\n');
+};
+
+interface VCardProperty {
+  name: string;
+  params: string[];
+  value: string;
+}
+
+// name;param;param:value, with an optional "group." prefix on the name
+const parseProperty = (line: string): VCardProperty | null => {
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    if (line[i] === ':' && !quoted) {
+      const [name, ...params] = line.slice(0, i).split(';');
+      return {
+        name: name.slice(name.lastIndexOf('.') + 1).toUpperCase(),
+        params: params.map(param => param.toUpperCase()),
+        value: line.slice(i + 1),
+      };
+    }
+  }
+  return null;
+};
+
+const isPreferred = (params: string[]): boolean =>
+  params.some(param => /^(TYPE=.*\bPREF\b|PREF(=1)?$)/.test(param));
+
+// Reads vCard 2.1, 3.0 and 4.0 cards; properties the contact book has no use for are skipped
+export const parseVCards = (input: string): VCard[] => {
+  const lines: string[] = [];
+  for (const line of input.replace(/\r\n?/g, '\n').split('\n')) {
+    const previous = lines[lines.length - 1];
+    if (/^[ \t]/.test(line) && previous !== undefined) {
+      lines[lines.length - 1] = previous + line.slice(1);
+    } else if (previous !== undefined && /QUOTED-PRINTABLE/i.test(previous) && previous.endsWith('=')) {
+      // vCard 2.1 continues quoted-printable values with a soft line break instead
+      lines[lines.length - 1] = `${previous}\n${line}`;
+    } else {
+      lines.push(line);
+    }
+  }
+
+  const cards: VCard[] = [];
+  let card: (VCard & { structuredName?: string }) | null = null;
+
+  for (const line of lines) {
+    const property = parseProperty(line.trim());
+    if (!property) continue;
+
+    if (property.name === 'BEGIN' && property.value.trim().toUpperCase() === 'VCARD') {
+      card = { emails: [], aliases: [], phones: [] };
+      continue;
+    }
+    if (!card) continue;
+
+    const value = property.params.some(param => /QUOTED-PRINTABLE/.test(param))
+      ? decodeQuotedPrintable(property.value)
+      : property.value;
+    const text = unescapeText(value).trim();
+
+    switch (property.name) {
+      case 'END': {
+        const { structuredName, ...parsed } = card;
+        cards.push({ ...parsed, name: parsed.name || structuredName });
+        card = null;
+        break;
+      }
+      case 'FN':
+        if (text) card.name = text;
+        break;
+      case 'N': {
+        // family;given;additional;prefixes;suffixes
+        const [family, given, additional, prefix, suffix] = splitEscaped(value, ';').map(part =>
+          unescapeText(part).trim(),
+        );
+        const name = [prefix, given, additional, family, suffix].filter(Boolean).join(' ');
+        if (name) card.structuredName = name;
+        break;
+      }
+      case 'NICKNAME':
+        card.aliases.push(
+          ...splitEscaped(value, ',')
+            .map(part => unescapeText(part).trim())
+            .filter(Boolean),
+        );
+        break;
+      case 'EMAIL': {
+        const email = text.replace(/^mailto:/i, '');
+        if (!email) break;
+        if (isPreferred(property.params)) card.emails.unshift(email);
+        else card.emails.push(email);
+        break;
+      }
+      case 'TEL':
+        if (text) card.phones.push(text.replace(/^tel:/i, ''));
+        break;
+      case 'ORG': {
+        const organization = unescapeText(splitEscaped(value, ';')[0]).trim();
+        if (organization) card.organization = organization;
+        break;
+      }
+      case 'NOTE':
+        if (text) card.notes = text;
+        break;
+    }
+  }
+
+  return cards;
+};
+
+// Writes vCard 3.0, which address books and mail clients all read
+export const formatVCards = (cards: VCard[]): string =>
+  cards
+    .map(card => {
+      const name = card.name || card.emails[0] || '';
+      const words = card.name ? card.name.split(/\s+/) : [];
+      const family = words.length > 1 ? words[words.length - 1] : '';
+      const given = words.length > 1 ? words.slice(0, -1).join(' ') : words.join(' ');
+
+      return [
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        `FN:${escapeText(name)}`,
+        `N:${escapeText(family)};${escapeText(given)};;;`,
+        ...(card.aliases.length > 0 ? [`NICKNAME:${card.aliases.map(escapeText).join(',')}`] : []),
+        ...card.emails.map((email, i) => `EMAIL;TYPE=INTERNET${i === 0 ? ',PREF' : ''}:${email}`),
+        ...card.phones.map(phone => `TEL:${escapeText(phone)}`),
+        ...(card.organization ? [`ORG:${escapeText(card.organization)}`] : []),
+        ...(card.notes ? [`NOTE:${escapeText(card.notes)}`] : []),
+        'END:VCARD',
+      ]
+        .map(fold)
+        .join('\r\n');
+    })
+    .map(card => `${card}\r\n`)
+    .join('');
@@ -0,0 +1,138 @@
+import { EmailServer } from '../../api/server';
+import { EngagementOptimizerService } from '../../services/engagement-optimizer.service';
+import { LinkedInService } from '../../integrations/linkedin.service';
+import { DatabaseService } from '../../services/database.service';
+import { EmailDraft } from '../../core/campaign.interfaces';
+import { once } from 'events';
+import { promises as fs } from 'fs';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+jest.mock('bull', () => {
+  return jest.fn().mockImplementation(() => ({
+    process: jest.fn(),
+    on: jest.fn(),
+    close: jest.fn(),
+  }));
+});
+
+// The agents load language models the routes under test do not need
+jest.mock('../../agents/categorizer.agent', () => ({
+  CategorizerAgent: jest.fn().mockImplementation(config => ({ ...config, initialize: jest.fn(), shutdown: jest.fn() })),
+}));
+jest.mock('../../agents/prioritizer.agent', () => ({
+  PrioritizerAgent: jest.fn().mockImplementation(config => ({ ...config, initialize: jest.fn(), shutdown: jest.fn() })),
+}));
+jest.mock('../../agents/summarizer.agent', () => ({
+  SummarizerAgent: jest.fn().mockImplementation(config => ({ ...config, initialize: jest.fn(), shutdown: jest.fn() })),
+}));
+
+const LINKEDIN_URL = 'https://www.linkedin.com/in/alice';
+
+describe('EmailServer', () => {
+  const env = process.env;
+  let directory: string;
+  let server: EmailServer;
+  let baseUrl: string;
+
+  const send = (method: string, route: string, body: unknown): Promise<Response> =>
+    fetch(`${baseUrl}${route}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  const post = async (route: string, body: unknown): Promise<any> => {
+    const response = await send('POST', route, body);
+    expect(response.status).toBe(200);
+    return response.json();
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'server-'));
+    process.env = {
+      ...env,
+      DB_PATH: path.join(directory, 'emails.db'),
+      ATTACHMENT_STORE_PATH: path.join(directory, 'attachments'),
+      DATA_SUBJECT_SECRET_FILE: path.join(directory, 'data-subject.secret'),
+      MAILDIR_ROOT: path.join(directory, 'maildirs'),
+      RETENTION_INTERVAL: '0',
+      EMAIL_USER: '',
+    };
+    server = new EmailServer(0);
+    await server.start();
+    const http = server['server'];
+    if (!http.listening) await once(http, 'listening');
+    baseUrl = `http://127.0.0.1:${(http.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    process.env = env;
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('should cover in-memory engagement history and LinkedIn profiles in privacy requests', async () => {
+    const database: DatabaseService = server['database'];
+    const engagement: EngagementOptimizerService = server['engagement'];
+    const linkedIn: LinkedInService = server['linkedIn'];
+    const draft: EmailDraft = {
+      id: uuidv4(),
+      status: 'approved',
+      recipient: {
+        email: 'alice@example.com',
+        name: 'Alice Example',
+        linkedinUrl: LINKEDIN_URL,
+        customFields: {},
+        preferences: { language: 'en', timezone: 'UTC', frequency: 'weekly', topics: [], unsubscribedTopics: [] },
+        engagementHistory: [],
+      },
+      content: { subject: 'Hi Alice', body: 'Hello Alice' },
+      aiGenerated: true,
+      personalizations: {},
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    await database.saveCampaignDrafts([draft]);
+    engagement.addHistoricalData('alice@example.com', [{ type: 'clicked', timestamp: new Date() }]);
+    await linkedIn.fetchProfile(LINKEDIN_URL);
+
+    const data = await post('/api/privacy/export', { email: 'alice@example.com' });
+    expect(data.engagementHistory.map((event: { type: string }) => event.type)).toEqual(['clicked']);
+    expect(data.linkedInProfiles).toMatchObject([{ url: LINKEDIN_URL }]);
+
+    const report = await post('/api/privacy/erase', { email: 'alice@example.com' });
+    expect(report.counts).toMatchObject({ engagementEventsDeleted: 1, linkedInProfilesEvicted: 1 });
+    expect(report.remaining).toBe(0);
+    expect(engagement.getHistoricalData('alice@example.com')).toEqual([]);
+    expect(linkedIn.getCachedProfile(LINKEDIN_URL)).toBeNull();
+  });
+
+  test('should keep maildir accounts added over the API under MAILDIR_ROOT', async () => {
+    const root = path.join(directory, 'maildirs');
+    const outside = { email: 'me@x.example', provider: 'maildir', settings: { maildirPath: '../../etc' } };
+
+    expect((await send('POST', '/api/accounts', outside)).status).toBe(400);
+    expect((await send('POST', '/api/accounts', { ...outside, settings: { maildirPath: '/tmp/mail' } })).status).toBe(400);
+
+    const response = await send('POST', '/api/accounts', { ...outside, id: 'work', settings: { maildirPath: 'work' } });
+    const added: any = await response.json();
+    expect(response.status).toBe(201);
+    expect(added.settings.maildirPath).toBe(path.join(root, 'work'));
+
+    const moved = await send('PUT', '/api/accounts/work', { settings: { maildirPath: '..' } });
+    expect(moved.status).toBe(400);
+    expect(server['accounts'].get('work')?.settings.maildirPath).toBe(path.join(root, 'work'));
+  });
+
+  test('should stop cleanly after a failed setup', async () => {
+    process.env.DB_PATH = path.join(directory, 'outdated.db');
+    process.env.DB_AUTO_MIGRATE = 'false';
+    const failed = new EmailServer(0);
+
+    await expect(failed.start()).rejects.toThrow('run npm run migrate');
+    await expect(failed.stop()).resolves.toBeUndefined();
+  });
+});
@@ -6,11 +6,16 @@ describe('CampaignService', () => {
   let campaignService: CampaignService;
   let mockDatabase: DatabaseService;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     mockDatabase = new DatabaseService();
+    await mockDatabase.connect();
     campaignService = new CampaignService(mockDatabase);
   });
 
+  afterEach(async () => {
+    await mockDatabase.disconnect();
+  });
+
   describe('Campaign Management', () => {
     test('should create a new campaign', async () => {
       const campaign = await campaignService.createCampaign({
@@ -0,0 +1,22 @@
+import { Email } from '../../models/email.model';
+import { v4 as uuidv4 } from 'uuid';
+
+// An unread inbox email from sender@example.com to me@example.com; tests override
+// whatever they look at
+export const makeEmail = (overrides: Partial<Email> = {}): Email => ({
+  id: uuidv4(),
+  messageId: `<${uuidv4()}@example.com>`,
+  from: { email: 'sender@example.com' },
+  to: [{ email: 'me@example.com' }],
+  subject: 'Hello',
+  body: 'Body',
+  date: new Date(),
+  priority: 'normal',
+  category: 'primary',
+  labels: ['inbox'],
+  attachments: [],
+  isRead: false,
+  isStarred: false,
+  isDraft: false,
+  ...overrides,
+});
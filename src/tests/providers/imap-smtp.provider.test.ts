@@ -0,0 +1,274 @@
+import { ImapSmtpProvider, DEFAULT_FOLDERS } from '../../providers/imap-smtp.provider';
+import { GmailProvider, GMAIL_FOLDERS } from '../../providers/gmail.provider';
+import { createEmailProvider, providerSettingsFromEnv } from '../../providers/provider.factory';
+import { InMemoryProvider } from '../../providers/in-memory.provider';
+import { MaildirProvider } from '../../providers/maildir.provider';
+
+const mockBoxes = {
+  INBOX: { attribs: ['\\HasNoChildren'], delimiter: '/', children: null },
+  Archive: { attribs: ['\\Archive'], delimiter: '/', children: null },
+  Mailboxes: {
+    attribs: ['\\HasChildren'],
+    delimiter: '/',
+    children: {
+      Deleted: { attribs: ['\\Trash'], delimiter: '/', children: null },
+      'Sent Items': { attribs: ['\\Sent'], delimiter: '/', children: null },
+    },
+  },
+  Drafts: { attribs: ['\\Drafts'], delimiter: '/', children: null },
+  Projects: {
+    attribs: ['\\HasChildren'],
+    delimiter: '/',
+    children: {
+      Acme: { attribs: ['\\HasNoChildren'], delimiter: '/', children: null },
+    },
+  },
+  Shared: { attribs: ['\\Noselect'], delimiter: '/', children: null },
+};
+
+jest.mock('imap', () => {
+  return jest.fn().mockImplementation((config: Record<string, unknown>) => {
+    const handlers: Record<string, () => void> = {};
+    return {
+      config,
+      once: jest.fn((event: string, handler: () => void) => {
+        handlers[event] = handler;
+      }),
+      connect: jest.fn(() => handlers.ready()),
+      getBoxes: jest.fn((cb: (err: Error | null, boxes: unknown) => void) => cb(null, mockBoxes)),
+      openBox: jest.fn((_name: string, _readOnly: boolean, cb: (err: Error | null, box: unknown) => void) =>
+        cb(null, { uidvalidity: 1 }),
+      ),
+      search: jest.fn((_criteria: unknown, cb: (err: Error | null, uids: number[]) => void) => cb(null, [4])),
+      append: jest.fn((_data: Buffer, _options: unknown, cb: (err: Error | null) => void) => cb(null)),
+      addFlags: jest.fn((_uids: number[], _flags: string, cb: (err: Error | null) => void) => cb(null)),
+      expunge: jest.fn((_uids: number[], cb: (err: Error | null) => void) => cb(null)),
+      copy: jest.fn((_uids: number[], _box: string, cb: (err: Error | null) => void) => cb(null)),
+      move: jest.fn((_uids: number[], _box: string, cb: (err: Error | null) => void) => cb(null)),
+      addBox: jest.fn((_box: string, cb: (err: Error | null) => void) => cb(null)),
+      renameBox: jest.fn((_from: string, _to: string, cb: (err: Error | null) => void) => cb(null)),
+      delBox: jest.fn((_box: string, cb: (err: Error | null) => void) => cb(null)),
+      addLabels: jest.fn((_uids: number[], _labels: string[], cb: (err: Error | null) => void) => cb(null)),
+      delLabels: jest.fn((_uids: number[], _labels: string[], cb: (err: Error | null) => void) => cb(null)),
+      delimiter: '/',
+      end: jest.fn(),
+    };
+  });
+});
+
+jest.mock('nodemailer', () => ({
+  createTransport: jest.fn().mockReturnValue({ sendMail: jest.fn() }),
+}));
+
+const baseConfig = {
+  user: 'me@fastmail.com',
+  pass: 'secret',
+  imap: { host: 'imap.fastmail.com', port: 993, tls: true },
+  smtp: { host: 'smtp.fastmail.com', port: 465, secure: true },
+};
+
+describe('ImapSmtpProvider', () => {
+  test('should use default folders before connecting', () => {
+    const provider = new ImapSmtpProvider(baseConfig);
+    expect(provider.getFolders()).toEqual(DEFAULT_FOLDERS);
+  });
+
+  test('should discover special-use folders on connect', async () => {
+    const provider = new ImapSmtpProvider(baseConfig);
+    await provider.connect();
+
+    expect(provider.getFolder('trash')).toBe('Mailboxes/Deleted');
+    expect(provider.getFolder('sent')).toBe('Mailboxes/Sent Items');
+    expect(provider.getFolder('drafts')).toBe('Drafts');
+    expect(provider.getFolder('archive')).toBe('Archive');
+    expect(provider.getFolder('allMail')).toBe(DEFAULT_FOLDERS.allMail);
+  });
+
+  test('should prefer configured folders over discovered ones', async () => {
+    const provider = new ImapSmtpProvider({ ...baseConfig, folders: { trash: 'Bin' } });
+    await provider.connect();
+
+    expect(provider.getFolder('trash')).toBe('Bin');
+    expect(provider.getFolder('sent')).toBe('Mailboxes/Sent Items');
+  });
+
+  test('should skip discovery when disabled', async () => {
+    const provider = new ImapSmtpProvider({ ...baseConfig, discoverFolders: false });
+    await provider.connect();
+
+    expect(provider.getFolders()).toEqual(DEFAULT_FOLDERS);
+  });
+
+  test('should keep a shared connection open until the last service disconnects', async () => {
+    const provider = new ImapSmtpProvider(baseConfig);
+    // The outbox starts a batch, and a receive connects and finishes before it sends
+    const sending = provider.connect();
+    await provider.connect();
+    await provider.disconnect();
+    await sending;
+
+    const { imap, transporter } = provider as unknown as {
+      imap: Record<string, jest.Mock>;
+      transporter: Record<string, jest.Mock>;
+    };
+    transporter.sendMail.mockResolvedValueOnce({ messageId: '<sent@fastmail.com>' });
+    await expect(provider.sendEmail({ to: [{ email: 'you@example.com' }] })).resolves.toBe('<sent@fastmail.com>');
+    expect(imap.end).not.toHaveBeenCalled();
+
+    await provider.disconnect();
+    expect(imap.end).toHaveBeenCalledTimes(1);
+    await expect(provider.sendEmail({})).rejects.toThrow('Not connected');
+  });
+
+  test('should replace the previous copy when saving a draft', async () => {
+    const provider = new ImapSmtpProvider(baseConfig);
+    await provider.connect();
+    const imap = (provider as unknown as { imap: Record<string, jest.Mock> }).imap;
+
+    await provider.saveDraft({
+      messageId: '<draft-1@fastmail.com>',
+      from: { email: 'me@fastmail.com' },
+      to: [{ email: 'you@example.com' }],
+      bcc: [{ email: 'hidden@example.com' }],
+      subject: 'Work in progress',
+      body: 'First lines',
+    });
+
+    expect(imap.openBox.mock.calls[0][0]).toBe('Drafts');
+    expect(imap.search.mock.calls[0][0]).toEqual([['HEADER', 'Message-ID', '<draft-1@fastmail.com>']]);
+
+    const [raw, options] = imap.append.mock.calls[0];
+    expect(options).toEqual({ mailbox: 'Drafts', flags: ['Draft', 'Seen'] });
+    expect(raw.toString()).toContain('Message-ID: <draft-1@fastmail.com>');
+    expect(raw.toString()).toContain('Subject: Work in progress');
+    expect(raw.toString()).toContain('hidden@example.com');
+
+    expect(imap.addFlags).toHaveBeenCalledWith([4], '\\Deleted', expect.any(Function));
+    expect(imap.expunge).toHaveBeenCalledWith([4], expect.any(Function));
+    expect(imap.append.mock.invocationCallOrder[0]).toBeLessThan(imap.expunge.mock.invocationCallOrder[0]);
+  });
+
+  test('should default Gmail to its system folders', () => {
+    const provider = new GmailProvider({ user: 'me@gmail.com', pass: 'secret' });
+    expect(provider.getFolders()).toEqual(GMAIL_FOLDERS);
+  });
+
+  test('should list selectable non-special folders as labels', async () => {
+    const provider = new ImapSmtpProvider(baseConfig);
+    await provider.connect();
+
+    expect(await provider.listLabels()).toEqual(['Mailboxes', 'Projects', 'Projects/Acme']);
+  });
+
+  test('should map labels to folder copies', async () => {
+    const provider = new ImapSmtpProvider(baseConfig);
+    await provider.connect();
+    const imap = (provider as unknown as { imap: Record<string, jest.Mock> }).imap;
+    const email = { messageId: '<m1@fastmail.com>', folder: 'INBOX' };
+
+    await provider.createLabel('Projects/Beta');
+    await provider.renameLabel('Projects/Beta', 'Projects/Gamma');
+    await provider.addLabels([email], ['Projects/Acme', 'trash', 'inbox']);
+    await provider.removeLabels([email], ['Projects/Acme', 'inbox']);
+
+    expect(imap.addBox).toHaveBeenCalledWith('Projects/Beta', expect.any(Function));
+    expect(imap.renameBox).toHaveBeenCalledWith('Projects/Beta', 'Projects/Gamma', expect.any(Function));
+    expect(imap.copy.mock.calls.map(call => call[1])).toEqual(['Projects/Acme', 'Mailboxes/Deleted']);
+    expect(imap.openBox.mock.calls.map(call => call[0])).toEqual(['INBOX', 'Projects/Acme', 'INBOX']);
+    expect(imap.expunge).toHaveBeenCalledTimes(1);
+    // Leaving the folder the message lives in archives it instead of deleting it
+    expect(imap.move).toHaveBeenCalledWith([4], 'Archive', expect.any(Function));
+  });
+
+  test('should batch bulk changes into one UID set per folder', async () => {
+    const provider = new ImapSmtpProvider(baseConfig);
+    await provider.connect();
+    const imap = (provider as unknown as { imap: Record<string, jest.Mock> }).imap;
+
+    await provider.setFlags(
+      [
+        { messageId: '<a@x>', folder: 'INBOX', uid: 10 },
+        { messageId: '<b@x>', folder: 'INBOX', uid: 11 },
+        { messageId: '<c@x>', folder: 'INBOX' },
+        { messageId: '<d@x>', folder: 'INBOX' },
+        { messageId: '<e@x>', folder: 'Projects/Acme', uid: 3 },
+      ],
+      { isRead: true },
+    );
+    await provider.moveMessages([{ messageId: '<a@x>', folder: 'INBOX', uid: 10 }], 'Archive');
+
+    expect(imap.openBox.mock.calls.map(call => call[0])).toEqual(['INBOX', 'Projects/Acme', 'INBOX']);
+    // Message-IDs without a stored UID are found with a single search
+    expect(imap.search).toHaveBeenCalledTimes(1);
+    expect(imap.search.mock.calls[0][0]).toEqual([
+      ['OR', ['HEADER', 'Message-ID', '<c@x>'], ['HEADER', 'Message-ID', '<d@x>']],
+    ]);
+    expect(imap.addFlags.mock.calls.map(call => call[0])).toEqual([[10, 11, 4], [3]]);
+    expect(imap.move).toHaveBeenCalledWith([10], 'Archive', expect.any(Function));
+  });
+
+  test('should store Gmail labels as X-GM-LABELS', async () => {
+    const provider = new GmailProvider({ user: 'me@gmail.com', pass: 'secret' });
+    await provider.connect();
+    const imap = (provider as unknown as { imap: Record<string, jest.Mock> }).imap;
+    const email = { messageId: '<m1@gmail.com>', folder: 'INBOX' };
+
+    await provider.addLabels([email], ['Travel', 'spam']);
+    await provider.removeLabels([email], ['inbox', 'archive']);
+
+    expect(imap.openBox.mock.calls[0][0]).toBe('INBOX');
+    expect(imap.addLabels).toHaveBeenCalledWith([4], ['Travel', '\\Spam'], expect.any(Function));
+    expect(imap.delLabels).toHaveBeenCalledWith([4], ['\\Inbox'], expect.any(Function));
+    expect(imap.copy).not.toHaveBeenCalled();
+  });
+
+  test('should read labels of fetched Gmail messages from X-GM-LABELS', async () => {
+    const provider = new GmailProvider({ user: 'me@gmail.com', pass: 'secret' });
+    await provider.connect();
+    const messageLabels = (folder: string, labels: string[]) =>
+      (provider as unknown as { messageLabels: (folder: string, attrs: unknown) => string[] }).messageLabels(
+        folder,
+        { uid: 1, flags: [], 'x-gm-labels': labels },
+      );
+
+    expect(messageLabels('INBOX', ['\\Important', 'Travel/2025', '\\Sent'])).toEqual(['inbox', 'Travel/2025', 'sent']);
+    expect(messageLabels('[Gmail]/All Mail', [])).toEqual(['archive']);
+  });
+});
+
+describe('provider factory', () => {
+  test('should read IMAP and SMTP endpoints from env', () => {
+    const settings = providerSettingsFromEnv({
+      EMAIL_PROVIDER: 'imap',
+      EMAIL_USER: 'me@example.org',
+      EMAIL_PASS: 'secret',
+      IMAP_HOST: 'mail.example.org',
+      IMAP_PORT: '143',
+      IMAP_TLS: 'false',
+      SMTP_HOST: 'mail.example.org',
+      SMTP_PORT: '587',
+      IMAP_FOLDER_TRASH: 'Deleted Messages',
+    });
+
+    expect(settings.kind).toBe('imap');
+    expect(settings.imap).toMatchObject({ host: 'mail.example.org', port: 143, tls: false });
+    expect(settings.smtp).toMatchObject({ host: 'mail.example.org', port: 587 });
+    expect(settings.folders).toEqual({ trash: 'Deleted Messages' });
+  });
+
+  test('should create the provider for each kind', () => {
+    const imap = createEmailProvider({ kind: 'imap', ...baseConfig });
+    const gmail = createEmailProvider({ kind: 'gmail', ...baseConfig });
+
+    expect(imap).toBeInstanceOf(ImapSmtpProvider);
+    expect(gmail).toBeInstanceOf(GmailProvider);
+    expect(createEmailProvider({ kind: 'memory', ...baseConfig })).toBeInstanceOf(InMemoryProvider);
+    expect(createEmailProvider({ kind: 'maildir', ...baseConfig })).toBeInstanceOf(MaildirProvider);
+  });
+
+  test('should reject unknown kinds', () => {
+    expect(() => createEmailProvider({ kind: 'pop3' as never, ...baseConfig })).toThrow(
+      'Unknown email provider: pop3',
+    );
+  });
+});
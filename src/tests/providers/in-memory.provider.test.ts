@@ -0,0 +1,135 @@
+import { InMemoryProvider } from '../../providers/in-memory.provider';
+import { EmailService } from '../../services/email.service';
+import { DatabaseService } from '../../services/database.service';
+import { MailboxSyncService } from '../../services/mailbox-sync.service';
+import { Email } from '../../models/email.model';
+
+describe('InMemoryProvider', () => {
+  let provider: InMemoryProvider;
+
+  beforeEach(() => {
+    provider = new InMemoryProvider({ user: 'me@example.com' });
+  });
+
+  test('should serve scripted mail from the inbox', async () => {
+    provider.deliver({ from: { email: 'alice@example.com' }, subject: 'Old', date: new Date('2025-01-01'), isRead: true });
+    provider.deliver({ from: { email: 'bob@example.com' }, subject: 'New', date: new Date('2025-02-01') });
+
+    const all = await provider.fetchEmails();
+    const unread = await provider.fetchEmails({ unreadOnly: true });
+    const recent = await provider.fetchEmails({ since: new Date('2025-01-15') });
+
+    expect(all.map(e => e.subject)).toEqual(['Old', 'New']);
+    expect(all[0]).toMatchObject({ folder: 'INBOX', uid: 1, to: [{ email: 'me@example.com' }] });
+    expect(unread.map(e => e.subject)).toEqual(['New']);
+    expect(recent.map(e => e.subject)).toEqual(['New']);
+  });
+
+  test('should capture sent mail in the outbox and Sent folder', async () => {
+    const messageId = await provider.sendEmail({
+      from: { email: 'me@example.com' },
+      to: [{ email: 'bob@example.com' }],
+      subject: 'Hello',
+    });
+
+    expect(provider.outbox).toHaveLength(1);
+    expect(provider.outbox[0]).toMatchObject({ messageId, subject: 'Hello', isRead: true });
+    expect(provider.getMessages('Sent').map(e => e.messageId)).toEqual([messageId]);
+    expect(await provider.fetchEmails()).toHaveLength(0);
+
+    provider.clearOutbox();
+    expect(provider.outbox).toHaveLength(0);
+  });
+
+  test('should loop mail to the user back into the inbox', async () => {
+    provider = new InMemoryProvider({ user: 'me@example.com', loopback: true });
+    await provider.sendEmail({ from: { email: 'me@example.com' }, to: [{ email: 'ME@example.com' }], subject: 'Note' });
+
+    expect((await provider.fetchEmails()).map(e => e.subject)).toEqual(['Note']);
+  });
+
+  test('should move, flag and delete by Message-ID', async () => {
+    const email = provider.deliver({ subject: 'Receipt' });
+
+    await provider.markAsRead(email.messageId);
+    await provider.moveToFolder(email.messageId, 'Receipts');
+    expect(provider.getMessages()).toHaveLength(0);
+    expect(provider.getMessages('Receipts')[0]).toMatchObject({ subject: 'Receipt', isRead: true });
+
+    await provider.deleteEmail(email.messageId);
+    expect(provider.getMessages('Receipts')).toHaveLength(0);
+    expect(provider.getMessages('Trash')).toHaveLength(1);
+  });
+
+  test('should fail scripted operations once', async () => {
+    provider.failNext('sendEmail', new Error('SMTP 421'));
+
+    await expect(provider.sendEmail({ subject: 'x' })).rejects.toThrow('SMTP 421');
+    await expect(provider.sendEmail({ subject: 'x' })).resolves.toMatch(/@example.com>$/);
+  });
+
+  test('should push deliveries to watchers', async () => {
+    const received: Email[] = [];
+    const handle = await provider.watchMailbox('INBOX', async emails => {
+      received.push(...emails);
+    });
+
+    provider.deliver({ subject: 'Live' });
+    await handle.stop();
+    provider.deliver({ subject: 'After stop' });
+
+    expect(handle.mode).toBe('idle');
+    expect(received.map(e => e.subject)).toEqual(['Live']);
+  });
+
+  test('should support incremental sync', async () => {
+    const database = new DatabaseService(':memory:');
+    await database.connect();
+    const sync = new MailboxSyncService(provider, database);
+
+    const first = provider.deliver({ subject: 'One' });
+    await sync.syncFolder('INBOX');
+
+    provider.deliver({ subject: 'Two' });
+    await provider.markAsRead(first.messageId);
+    const report = await sync.syncFolder('INBOX');
+
+    expect(report.added.map(e => e.subject)).toEqual(['Two']);
+    expect((await database.getEmailByMessageId(first.messageId))!.isRead).toBe(true);
+
+    provider.resetUidValidity();
+    expect((await sync.syncFolder('INBOX')).uidValidityReset).toBe(true);
+    expect(await database.searchEmails({})).toHaveLength(2);
+
+    await database.disconnect();
+  });
+});
+
+describe('EmailService with InMemoryProvider', () => {
+  test('should receive, reply and capture the reply end to end', async () => {
+    const database = new DatabaseService(':memory:');
+    await database.connect();
+    const provider = new InMemoryProvider({ user: 'me@example.com' });
+    const service = new EmailService(provider, database, [{ email: 'me@example.com' }]);
+
+    provider.deliver({
+      messageId: '<question@example.com>',
+      from: { email: 'alice@example.com', name: 'Alice' },
+      subject: 'Lunch?',
+      body: 'Free on Friday?',
+    });
+
+    const [received] = await service.receive();
+    await service.reply(received.id, 'Friday works');
+
+    expect(provider.outbox).toHaveLength(1);
+    expect(provider.outbox[0]).toMatchObject({
+      to: [{ email: 'alice@example.com', name: 'Alice' }],
+      subject: 'Re: Lunch?',
+      inReplyTo: '<question@example.com>',
+    });
+    expect(provider.isConnected).toBe(false);
+
+    await database.disconnect();
+  });
+});
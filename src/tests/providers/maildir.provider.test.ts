@@ -0,0 +1,102 @@
+import { MaildirProvider } from '../../providers/maildir.provider';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+const message = (id: string, subject: string): string =>
+  [
+    `Message-ID: <${id}@example.com>`,
+    'From: Alice <alice@example.com>',
+    'To: me@example.com',
+    `Subject: ${subject}`,
+    'Date: Mon, 03 Mar 2025 09:15:00 +0000',
+    '',
+    'Hello from the Maildir',
+    '',
+  ].join('\r\n');
+
+describe('MaildirProvider', () => {
+  let root: string;
+  let provider: MaildirProvider;
+
+  const filesIn = async (...parts: string[]): Promise<string[]> => fs.readdir(path.join(root, ...parts));
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'maildir-'));
+    provider = new MaildirProvider({ path: root, user: 'me@example.com' });
+    await provider.connect();
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  test('should create the Maildir++ layout', async () => {
+    for (const dir of ['', '.Sent', '.Drafts', '.Trash']) {
+      expect((await filesIn(dir)).sort()).toEqual(expect.arrayContaining(['cur', 'new', 'tmp']));
+    }
+  });
+
+  test('should read new mail and move it to cur', async () => {
+    await fs.writeFile(path.join(root, 'new', '1.M1P1Q1.host'), message('a', 'Welcome'));
+    await fs.writeFile(path.join(root, 'cur', '2.M1P1Q2.host:2,FS'), message('b', 'Seen before'));
+
+    const emails = await provider.fetchEmails();
+
+    expect(emails.map(e => e.subject).sort()).toEqual(['Seen before', 'Welcome']);
+    expect(emails.find(e => e.subject === 'Welcome')).toMatchObject({ isRead: false, folder: 'INBOX' });
+    expect(emails.find(e => e.subject === 'Seen before')).toMatchObject({ isRead: true, isStarred: true });
+    expect(await filesIn('new')).toEqual([]);
+    expect((await filesIn('cur')).sort()).toEqual(['1.M1P1Q1.host:2,', '2.M1P1Q2.host:2,FS']);
+    expect(await provider.fetchEmails({ unreadOnly: true })).toHaveLength(1);
+  });
+
+  test('should set flags and move messages by Message-ID', async () => {
+    await fs.writeFile(path.join(root, 'new', '1.M1P1Q1.host'), message('a', 'Invoice'));
+
+    await provider.markAsRead('<a@example.com>');
+    expect(await filesIn('cur')).toEqual(['1.M1P1Q1.host:2,S']);
+
+    await provider.moveToFolder('<a@example.com>', 'Archive/2025');
+    expect(await filesIn('cur')).toEqual([]);
+    const [archived] = await provider.fetchEmails({ folder: 'Archive/2025' });
+    expect(archived).toMatchObject({ subject: 'Invoice', isRead: true, folder: 'Archive/2025' });
+
+    await provider.deleteEmail('<a@example.com>');
+    expect(await filesIn('.Trash', 'cur')).toHaveLength(1);
+    expect(await provider.listFolders()).toEqual(expect.arrayContaining(['INBOX', 'Archive/2025', 'Trash']));
+  });
+
+  test('should write sent mail to Sent and loop back when asked', async () => {
+    provider = new MaildirProvider({ path: root, user: 'me@example.com', loopback: true });
+
+    const messageId = await provider.sendEmail({
+      from: { email: 'me@example.com' },
+      to: [{ email: 'me@example.com' }],
+      subject: 'Reminder',
+      body: 'Pay the invoice',
+    });
+
+    const [sent] = await provider.fetchEmails({ folder: 'Sent' });
+    expect(sent).toMatchObject({ messageId, subject: 'Reminder', isRead: true });
+    const [looped] = await provider.fetchEmails();
+    expect(looped).toMatchObject({ messageId, isRead: false });
+  });
+
+  test('should replace drafts with the same Message-ID', async () => {
+    const draft = { messageId: '<draft@example.com>', from: { email: 'me@example.com' }, to: [], subject: 'v1' };
+    await provider.saveDraft(draft);
+    await provider.saveDraft({ ...draft, subject: 'v2' });
+
+    const drafts = await provider.fetchEmails({ folder: provider.getDraftsFolder() });
+    expect(drafts).toHaveLength(1);
+    expect(drafts[0]).toMatchObject({ subject: 'v2', isDraft: true });
+
+    await provider.deleteDraft('<draft@example.com>');
+    expect(await provider.fetchEmails({ folder: 'Drafts' })).toHaveLength(0);
+  });
+
+  test('should refuse folder names that escape the Maildir', async () => {
+    await expect(provider.fetchEmails({ folder: '../etc' })).rejects.toThrow('Invalid folder name');
+  });
+});
@@ -0,0 +1,209 @@
+import { AccountRegistry, toAccountSummary } from '../../services/account-registry.service';
+import { EmailService } from '../../services/email.service';
+import { OutboxService } from '../../services/outbox.service';
+import { DatabaseService } from '../../services/database.service';
+import { InMemoryProvider } from '../../providers/in-memory.provider';
+import { providerSettingsForAccount, ProviderSettings } from '../../providers/provider.factory';
+import { DEFAULT_ACCOUNT_ID } from '../../models/account.model';
+
+describe('AccountRegistry', () => {
+  let database: DatabaseService;
+  let created: ProviderSettings[];
+  let registry: AccountRegistry;
+
+  beforeEach(async () => {
+    database = new DatabaseService(':memory:');
+    await database.connect();
+    created = [];
+    registry = new AccountRegistry(database, settings => {
+      created.push(settings);
+      return new InMemoryProvider({ user: settings.user });
+    });
+  });
+
+  afterEach(async () => {
+    await database.disconnect();
+  });
+
+  test('should add, persist and reload accounts', async () => {
+    const added = jest.fn();
+    registry.on('account-added', added);
+
+    const work = await registry.add({
+      email: 'me@work.example',
+      provider: 'imap',
+      settings: { imap: { host: 'imap.work.example' } },
+      credentials: { pass: 'secret' },
+    });
+
+    expect(work).toMatchObject({ name: 'me@work.example', enabled: true });
+    expect(registry.getProvider(work.id)).toBeInstanceOf(InMemoryProvider);
+    expect(created[0]).toMatchObject({
+      kind: 'imap',
+      user: 'me@work.example',
+      pass: 'secret',
+      imap: { host: 'imap.work.example' },
+      smtp: { host: 'smtp.gmail.com' },
+    });
+    expect(added).toHaveBeenCalledWith(work);
+
+    const reloaded = new AccountRegistry(database, () => new InMemoryProvider());
+    expect(await reloaded.load()).toEqual([work]);
+  });
+
+  test('should keep credentials out of summaries', async () => {
+    const account = await registry.add({ email: 'me@home.example', provider: 'memory', credentials: { pass: 'secret' } });
+    const summary = toAccountSummary(account);
+
+    expect(summary).not.toHaveProperty('credentials');
+    expect(summary.hasCredentials).toBe(true);
+  });
+
+  test('should reject invalid accounts without storing them', async () => {
+    await expect(registry.add({ email: 'not-an-address', provider: 'memory' })).rejects.toThrow();
+    await expect(registry.add({ email: 'me@x.example', provider: 'pop3' as never })).rejects.toThrow();
+
+    expect(await database.listAccounts()).toEqual([]);
+  });
+
+  test('should store nothing when a new account fails to verify', async () => {
+    const failing = new InMemoryProvider();
+    jest.spyOn(failing, 'connect').mockRejectedValue(new Error('Invalid credentials'));
+    const verifying = new AccountRegistry(database, () => failing);
+    const added = jest.fn();
+    verifying.on('account-added', added);
+
+    await expect(
+      verifying.add({ id: 'bad', email: 'me@x.example', provider: 'memory' }, { verify: true }),
+    ).rejects.toThrow('Invalid credentials');
+
+    expect(verifying.get('bad')).toBeNull();
+    expect(await database.listAccounts()).toEqual([]);
+    expect(added).not.toHaveBeenCalled();
+    const good = await registry.add({ id: 'good', email: 'me@x.example', provider: 'memory' }, { verify: true });
+    expect(await database.getAccount(good.id)).not.toBeNull();
+  });
+
+  test('should leave the registry as it was when an account cannot be saved', async () => {
+    const account = await registry.add({ email: 'me@x.example', provider: 'memory' });
+    const provider = registry.getProvider(account.id);
+    jest.spyOn(database, 'saveAccount').mockRejectedValue(new Error('disk full'));
+
+    await expect(registry.add({ id: 'new', email: 'new@x.example', provider: 'memory' })).rejects.toThrow('disk full');
+    await expect(registry.update(account.id, { name: 'Renamed', enabled: false })).rejects.toThrow('disk full');
+
+    expect(registry.get('new')).toBeNull();
+    expect(registry.getProvider('new')).toBeNull();
+    expect(registry.get(account.id)).toEqual(account);
+    expect(registry.getProvider(account.id)).toBe(provider);
+  });
+
+  test('should swap the provider when credentials change and drop it when disabled', async () => {
+    const account = await registry.add({ email: 'me@x.example', provider: 'memory' });
+    const before = registry.getProvider(account.id);
+
+    await registry.update(account.id, { credentials: { accessToken: 'token' } });
+    expect(registry.getProvider(account.id)).not.toBe(before);
+    expect(created[1].accessToken).toBe('token');
+
+    await registry.update(account.id, { enabled: false });
+    expect(registry.getProvider(account.id)).toBeNull();
+    expect(await registry.update('missing', { name: 'x' })).toBeNull();
+  });
+
+  test('should remove accounts and optionally their mail', async () => {
+    const account = await registry.add({ id: 'side', email: 'me@side.example', provider: 'memory' });
+    const mailbox = new EmailService(registry.getProvider(account.id)!, database, [], { accountId: account.id });
+    const provider = registry.getProvider(account.id) as InMemoryProvider;
+    provider.deliver({ subject: 'Hello' });
+    await mailbox.receive();
+
+    expect(await registry.remove(account.id, { purgeMail: true })).toBe(true);
+    expect(registry.get(account.id)).toBeNull();
+    expect(await database.searchEmails({ accountId: account.id })).toEqual([]);
+    expect(await registry.remove(account.id)).toBe(false);
+  });
+
+  test('should map account settings onto provider settings', () => {
+    const settings = providerSettingsForAccount({
+      id: DEFAULT_ACCOUNT_ID,
+      name: 'Default',
+      email: 'me@example.com',
+      provider: 'maildir',
+      settings: { maildirPath: '/var/mail/me', smtp: { host: 'smtp.example.com', port: 2525 } },
+      credentials: {},
+      enabled: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    expect(settings).toMatchObject({
+      kind: 'maildir',
+      user: 'me@example.com',
+      maildirPath: '/var/mail/me',
+      smtp: { host: 'smtp.example.com', port: 2525 },
+      imap: { host: 'imap.gmail.com' },
+    });
+  });
+});
+
+describe('Multi-account mailboxes', () => {
+  let database: DatabaseService;
+  let work: InMemoryProvider;
+  let home: InMemoryProvider;
+  let workMailbox: EmailService;
+  let homeMailbox: EmailService;
+
+  beforeEach(async () => {
+    database = new DatabaseService(':memory:');
+    await database.connect();
+    work = new InMemoryProvider({ user: 'me@work.example' });
+    home = new InMemoryProvider({ user: 'me@home.example' });
+    workMailbox = new EmailService(work, database, [], { accountId: 'work' });
+    homeMailbox = new EmailService(home, database, [], { accountId: 'home' });
+  });
+
+  afterEach(async () => {
+    await database.disconnect();
+  });
+
+  test('should keep the same message separately in each account', async () => {
+    const announcement = { messageId: '<party@example.com>', subject: 'Party on Friday' };
+    work.deliver(announcement);
+    home.deliver(announcement);
+
+    await workMailbox.receive();
+    await homeMailbox.receive();
+
+    const copies = await database.searchEmails({ subject: 'Party' });
+    expect(copies.map(email => email.accountId).sort()).toEqual(['home', 'work']);
+    expect(copies[0].threadId).not.toBe(copies[1].threadId);
+    expect(await database.getEmailByMessageId('<party@example.com>', 'home')).toMatchObject({ accountId: 'home' });
+  });
+
+  test('should scope threads and search by account', async () => {
+    work.deliver({ messageId: '<a@example.com>', subject: 'Budget' });
+    work.deliver({ messageId: '<b@example.com>', inReplyTo: '<a@example.com>', subject: 'Re: Budget' });
+    home.deliver({ messageId: '<c@example.com>', subject: 'Dinner' });
+    await workMailbox.receive();
+    await homeMailbox.receive();
+
+    const workThreads = await workMailbox.getThreads('work');
+    expect(workThreads).toHaveLength(1);
+    expect(workThreads[0]).toMatchObject({ accountId: 'work', totalCount: 2 });
+    expect(await workMailbox.getThreads()).toHaveLength(2);
+    expect((await workMailbox.search({ accountId: 'home' })).map(email => email.subject)).toEqual(['Dinner']);
+  });
+
+  test('should send through the provider of the sending account', async () => {
+    const outbox = new OutboxService(accountId => (accountId === 'home' ? home : work), database);
+    const mailbox = new EmailService(home, database, [], { accountId: 'home', outbox });
+
+    const email = await mailbox.send({ from: { email: 'me@home.example' }, to: [{ email: 'friend@example.com' }] });
+    await outbox.processDue();
+
+    expect(email.accountId).toBe('home');
+    expect(home.outbox).toHaveLength(1);
+    expect(work.outbox).toHaveLength(0);
+  });
+});
@@ -0,0 +1,142 @@
+import { FileSystemAttachmentStore, sha256 } from '../../services/attachment-store.service';
+import { DatabaseService } from '../../services/database.service';
+import { Email } from '../../models/email.model';
+import { makeEmail as baseEmail } from '../fixtures/emails';
+import { Readable } from 'stream';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+const readAll = async (stream: Readable): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+};
+
+const makeEmail = (data: string, overrides: Partial<Email> = {}): Email =>
+  baseEmail({
+    subject: 'Quarterly report',
+    body: 'Attached',
+    attachments: [
+      {
+        id: uuidv4(),
+        filename: 'report.pdf',
+        contentType: 'application/pdf',
+        size: Buffer.from(data).length,
+        data: Buffer.from(data).toString('base64'),
+      },
+    ],
+    ...overrides,
+  });
+
+describe('FileSystemAttachmentStore', () => {
+  let root: string;
+  let store: FileSystemAttachmentStore;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'attachments-'));
+    store = new FileSystemAttachmentStore(root);
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  test('should store content under its SHA-256 digest', async () => {
+    const content = Buffer.from('%PDF-1.7 quarterly numbers');
+    const hash = await store.put(content);
+
+    expect(hash).toBe(sha256(content));
+    expect(await store.get(hash)).toEqual(content);
+    expect(await readAll((await store.createReadStream(hash))!)).toEqual(content);
+    await fs.access(path.join(root, hash.slice(0, 2), hash.slice(2, 4), hash));
+  });
+
+  test('should return null for missing blobs and reject bad hashes', async () => {
+    const missing = sha256(Buffer.from('nothing'));
+    expect(await store.get(missing)).toBeNull();
+    expect(await store.createReadStream(missing)).toBeNull();
+    await expect(store.get('../../etc/passwd')).rejects.toThrow('Invalid content hash');
+  });
+
+  test('should delete blobs', async () => {
+    const hash = await store.put(Buffer.from('temporary'));
+    await store.delete(hash);
+    expect(await store.get(hash)).toBeNull();
+  });
+});
+
+describe('DatabaseService attachments', () => {
+  let root: string;
+  let store: FileSystemAttachmentStore;
+  let database: DatabaseService;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'attachments-'));
+    store = new FileSystemAttachmentStore(root);
+    database = new DatabaseService(':memory:', store);
+    await database.connect();
+  });
+
+  afterEach(async () => {
+    await database.disconnect();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  test('should keep only references in email rows', async () => {
+    const email = makeEmail('%PDF big report');
+    await database.saveEmail(email);
+
+    const stored = await database.getEmail(email.id);
+    const [attachment] = stored!.attachments;
+    expect(attachment.data).toBeUndefined();
+    expect(attachment.contentHash).toBe(sha256(Buffer.from('%PDF big report')));
+
+    const [found] = await database.searchEmails({});
+    expect(found.attachments[0].data).toBeUndefined();
+
+    const [loaded] = await database.loadAttachmentData(stored!.attachments);
+    expect(Buffer.from(loaded.data!, 'base64').toString()).toBe('%PDF big report');
+  });
+
+  test('should stream attachment content', async () => {
+    const email = makeEmail('%PDF streamed');
+    await database.saveEmail(email);
+
+    const content = await database.getAttachment(email.id, email.attachments[0].id);
+
+    expect(content!.attachment).toMatchObject({ filename: 'report.pdf', contentType: 'application/pdf' });
+    expect((await readAll(content!.stream)).toString()).toBe('%PDF streamed');
+    expect(await database.getAttachment(email.id, uuidv4())).toBeNull();
+  });
+
+  test('should dedupe identical content and free unused blobs', async () => {
+    const first = makeEmail('%PDF shared');
+    const second = makeEmail('%PDF shared');
+    await database.saveEmail(first);
+    await database.saveEmail(second);
+
+    const hash = (await database.getEmail(first.id))!.attachments[0].contentHash!;
+    expect((await database.getEmail(second.id))!.attachments[0].contentHash).toBe(hash);
+
+    await database.deleteEmail(first.id);
+    expect(await store.get(hash)).not.toBeNull();
+
+    await database.deleteEmail(second.id);
+    expect(await store.get(hash)).toBeNull();
+  });
+
+  test('should keep content when an email is re-saved from a read', async () => {
+    const email = makeEmail('%PDF keep me');
+    await database.saveEmail(email);
+
+    const stored = await database.getEmail(email.id);
+    await database.saveEmail({ ...stored!, isRead: true });
+
+    const content = await database.getAttachment(email.id, email.attachments[0].id);
+    expect((await readAll(content!.stream)).toString()).toBe('%PDF keep me');
+  });
+});
@@ -0,0 +1,125 @@
+import { AuditLogService, diffFields, withAuditContext } from '../../services/audit.service';
+import { EmailService } from '../../services/email.service';
+import { AgentOrchestrator } from '../../services/agent-orchestrator.service';
+import { DatabaseService } from '../../services/database.service';
+import { IAgent, IEmailProvider } from '../../core/interfaces';
+import { Email } from '../../models/email.model';
+import { makeEmail as baseEmail } from '../fixtures/emails';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+
+jest.mock('bull', () => {
+  return jest.fn().mockImplementation(() => ({
+    process: jest.fn(),
+    on: jest.fn(),
+    close: jest.fn(),
+  }));
+});
+
+const makeEmail = (overrides: Partial<Email> = {}): Email =>
+  baseEmail({ from: { email: 'alice@example.com' }, subject: 'Contract', body: 'Please review', ...overrides });
+
+describe('AuditLogService', () => {
+  let directory: string;
+  let dbPath: string;
+  let database: DatabaseService;
+  let audit: AuditLogService;
+  let provider: jest.Mocked<IEmailProvider>;
+  let emails: EmailService;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'audit-'));
+    dbPath = path.join(directory, 'emails.db');
+    database = new DatabaseService(dbPath);
+    await database.connect();
+    audit = new AuditLogService(database);
+
+    provider = {
+      connect: jest.fn(),
+      disconnect: jest.fn(),
+      sendEmail: jest.fn().mockImplementation(async (email: Partial<Email>) => email.messageId!),
+      fetchEmails: jest.fn(),
+      markAsRead: jest.fn(),
+      moveToFolder: jest.fn(),
+      deleteEmail: jest.fn(),
+    };
+    emails = new EmailService(provider, database, [{ email: 'me@example.com' }], { audit });
+  });
+
+  afterEach(async () => {
+    await database.disconnect();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('should record email changes with their actor, request and a diff without content', async () => {
+    const email = makeEmail();
+    await database.saveEmail(email);
+
+    await withAuditContext({ actor: 'alice', requestId: 'request-1' }, async () => {
+      await emails.update(email.id, { isRead: true, labels: ['inbox', 'done'], subject: 'Signed contract' });
+      await emails.delete(email.id);
+    });
+    const sent = await emails.send({ from: { email: 'me@example.com' }, to: [{ email: 'bob@example.com' }] });
+
+    const { items } = await audit.list({ action: 'email' });
+    expect(items.map(entry => entry.action)).toEqual(['email.send', 'email.delete', 'email.update']);
+
+    const [send, deletion, update] = items;
+    expect(send).toMatchObject({ actor: 'system', targetType: 'email', targetId: sent.id });
+    expect(send.requestId).toBeUndefined();
+    expect(deletion).toMatchObject({ actor: 'alice', requestId: 'request-1', targetId: email.id });
+    expect(deletion.changes.isRead).toEqual({ before: true });
+    expect(update.changes).toEqual({
+      isRead: { before: false, after: true },
+      labels: { before: ['inbox'], after: ['inbox', 'done'] },
+      subject: { redacted: true },
+    });
+    expect(JSON.stringify(items)).not.toContain('alice@example.com');
+  });
+
+  test('should filter and page the log, and refuse to change it', async () => {
+    const orchestrator = new AgentOrchestrator(database, undefined, audit);
+    const agent = { id: uuidv4(), name: 'Summarizer', type: 'summarizer' } as IAgent;
+    await withAuditContext({ actor: 'admin', requestId: 'request-2' }, async () => {
+      orchestrator.registerAgent(agent);
+      orchestrator.unregisterAgent(agent.id);
+      await audit.record({ action: 'api.request', targetType: 'route', targetId: 'DELETE /api/agents' });
+    });
+    // Agent changes are written in the background
+    await new Promise(resolve => setImmediate(resolve));
+
+    const { items } = await audit.list({ targetType: 'agent', targetId: agent.id });
+    expect(items.map(entry => entry.action)).toEqual(['agent.unregister', 'agent.register']);
+    expect(items[1].changes).toEqual({ name: { after: 'Summarizer' }, type: { after: 'summarizer' } });
+
+    expect((await audit.list({ requestId: 'request-2' })).items).toHaveLength(3);
+    expect((await audit.list({ actor: 'someone-else' })).items).toEqual([]);
+    expect((await audit.list({ action: 'agent.reg' })).items).toEqual([]);
+    expect((await audit.list({ since: new Date(Date.now() + 60000) })).items).toEqual([]);
+
+    const first = await audit.list({ limit: 2 });
+    expect(first.estimatedTotal).toBe(3);
+    const second = await audit.list({ limit: 2, cursor: first.nextCursor });
+    expect(second.items.map(entry => entry.action)).toEqual(['agent.register']);
+    expect(second.nextCursor).toBeUndefined();
+
+    const raw = new sqlite3.Database(dbPath);
+    const run = (sql: string) =>
+      new Promise<void>((resolve, reject) => raw.run(sql, err => (err ? reject(err) : resolve())));
+    await expect(run("UPDATE audit_log SET actor = 'nobody'")).rejects.toThrow('append-only');
+    await expect(run('DELETE FROM audit_log')).rejects.toThrow('append-only');
+    await new Promise<void>(resolve => raw.close(() => resolve()));
+    expect((await audit.list()).items.every(entry => entry.actor === 'admin')).toBe(true);
+  });
+
+  test('should diff only the fields that changed', () => {
+    const at = new Date('2025-01-01T00:00:00Z');
+    expect(diffFields({ a: 1, b: [1], c: at }, { a: 1, b: [1, 2], c: new Date(at), d: 'x' }, ['d'])).toEqual({
+      b: { before: [1], after: [1, 2] },
+      d: { redacted: true },
+    });
+  });
+});
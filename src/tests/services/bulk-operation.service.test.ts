@@ -0,0 +1,127 @@
+import { BulkOperationService, BulkProgress } from '../../services/bulk-operation.service';
+import { LabelService } from '../../services/label.service';
+import { DatabaseService } from '../../services/database.service';
+import { InMemoryProvider } from '../../providers/in-memory.provider';
+import { Email } from '../../models/email.model';
+import { IEmailProvider } from '../../core/interfaces';
+import { v4 as uuidv4 } from 'uuid';
+
+describe('BulkOperationService', () => {
+  let database: DatabaseService;
+  let provider: InMemoryProvider;
+  let bulk: BulkOperationService;
+  let emails: Email[];
+
+  // Stores what the provider delivered, the way a sync would
+  const receive = async (count: number, overrides: Partial<Email> = {}): Promise<Email[]> => {
+    const stored: Email[] = [];
+    for (let i = 0; i < count; i++) {
+      const email = { ...provider.deliver({ subject: `Newsletter ${i}`, ...overrides }), id: uuidv4() };
+      await database.saveEmail(email);
+      stored.push(email);
+    }
+    return stored;
+  };
+
+  beforeEach(async () => {
+    database = new DatabaseService(':memory:');
+    await database.connect();
+    provider = new InMemoryProvider();
+    bulk = new BulkOperationService(provider, database, new LabelService(database, provider), { batchSize: 2 });
+    emails = await receive(5);
+  });
+
+  afterEach(async () => {
+    await database.disconnect();
+  });
+
+  test('should change flags on the server in batches and report progress', async () => {
+    const setFlags = jest.spyOn(provider, 'setFlags');
+    const progress: BulkProgress[] = [];
+    const completed = jest.fn();
+    bulk.on('bulk-progress', event => progress.push(event));
+    bulk.on('bulk-completed', completed);
+
+    const operation = await bulk.start({ action: 'read', ids: emails.map(email => email.id) });
+    const result = await operation.done;
+
+    expect(operation).toMatchObject({ action: 'read', total: 5, batches: 3 });
+    expect(result).toMatchObject({ total: 5, processed: 5, failed: 0, failedIds: [] });
+    expect(setFlags).toHaveBeenCalledTimes(3);
+    expect(setFlags.mock.calls[0][0]).toHaveLength(2);
+    expect(progress.map(event => event.processed)).toEqual([2, 4, 5]);
+    expect(completed).toHaveBeenCalledWith(result);
+    expect(provider.getMessages().every(message => message.isRead)).toBe(true);
+    expect(await database.searchEmails({ isRead: false })).toEqual([]);
+  });
+
+  test('should pick emails with a search query', async () => {
+    const [promo] = await receive(1, { subject: 'Big sale', isStarred: true });
+
+    const result = await (await bulk.start({ action: 'unstar', query: 'subject:sale is:starred' })).done;
+
+    expect(result.total).toBe(1);
+    expect((await database.getEmail(promo.id))!.isStarred).toBe(false);
+    expect(provider.getMessages().find(message => message.messageId === promo.messageId)!.isStarred).toBe(false);
+  });
+
+  test('should move and delete emails', async () => {
+    await (await bulk.start({ action: 'move', ids: [emails[0].id, emails[1].id], folder: 'Newsletters' })).done;
+    await (await bulk.start({ action: 'delete', ids: [emails[2].id] })).done;
+
+    expect(provider.getMessages('Newsletters')).toHaveLength(2);
+    expect(provider.getMessages('Trash')).toHaveLength(1);
+    expect(provider.getMessages()).toHaveLength(2);
+    expect(await database.getEmail(emails[0].id)).toMatchObject({ folder: 'Newsletters', uid: undefined });
+    expect(await database.getEmail(emails[2].id)).toBeNull();
+  });
+
+  test('should create missing labels and apply them in bulk', async () => {
+    const ids = emails.map(email => email.id);
+
+    await (await bulk.start({ action: 'label', ids, label: 'Newsletters' })).done;
+    expect((await database.getEmail(ids[4]))!.labels).toEqual(['inbox', 'Newsletters']);
+    expect(provider.getMessages().every(message => message.labels.includes('Newsletters'))).toBe(true);
+
+    await (await bulk.start({ action: 'unlabel', query: 'label:newsletters', label: 'inbox' })).done;
+    expect(await database.searchEmails({ labels: ['inbox'] })).toEqual([]);
+  });
+
+  test('should leave emails unchanged when the server refuses a batch', async () => {
+    provider.failNext('setFlags');
+
+    const result = await (await bulk.start({ action: 'star', ids: emails.map(email => email.id) })).done;
+
+    expect(result).toMatchObject({ processed: 5, failed: 2, failedIds: [emails[0].id, emails[1].id] });
+    expect((await database.getEmail(emails[0].id))!.isStarred).toBe(false);
+    expect((await database.getEmail(emails[2].id))!.isStarred).toBe(true);
+  });
+
+  test('should count flag changes a provider without bulk support cannot make as failed', async () => {
+    const basic: jest.Mocked<IEmailProvider> = {
+      connect: jest.fn(),
+      disconnect: jest.fn(),
+      sendEmail: jest.fn(),
+      fetchEmails: jest.fn(),
+      markAsRead: jest.fn(),
+      moveToFolder: jest.fn(),
+      deleteEmail: jest.fn(),
+    };
+    const limited = new BulkOperationService(basic, database, new LabelService(database, basic), { batchSize: 2 });
+    const ids = emails.map(email => email.id);
+
+    expect(await (await limited.start({ action: 'read', ids })).done).toMatchObject({ failed: 0 });
+    expect(basic.markAsRead).toHaveBeenCalledTimes(5);
+
+    const result = await (await limited.start({ action: 'unread', ids })).done;
+    expect(result).toMatchObject({ processed: 5, failed: 5, failedIds: ids });
+    expect(await database.searchEmails({ isRead: false })).toEqual([]);
+    expect(await (await limited.start({ action: 'star', ids })).done).toMatchObject({ failed: 5 });
+  });
+
+  test('should reject requests without targets or with a bad query', async () => {
+    await expect(bulk.start({ action: 'read' })).rejects.toThrow('Pass either ids or query');
+    await expect(bulk.start({ action: 'move', ids: [] })).rejects.toThrow('folder is required');
+    await expect(bulk.start({ action: 'read', query: '(unbalanced' })).rejects.toThrow(SyntaxError);
+  });
+});
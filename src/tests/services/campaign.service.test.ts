@@ -1,5 +1,6 @@
 import { CampaignService } from '../../services/campaign.service';
 import { DatabaseService } from '../../services/database.service';
+import { AuditLogService, withAuditContext } from '../../services/audit.service';
 import { CampaignStatus, EmailCampaign, CampaignSchedule } from '../../core/campaign.interfaces';
 
 // Mock Redis
@@ -12,17 +13,19 @@ jest.mock('bull', () => {
   }));
 });
 
-// Mock database
-jest.mock('../../services/database.service');
-
 describe('CampaignService', () => {
   let campaignService: CampaignService;
-  let mockDatabase: jest.Mocked<DatabaseService>;
+  let database: DatabaseService;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     jest.clearAllMocks();
-    mockDatabase = new DatabaseService() as jest.Mocked<DatabaseService>;
-    campaignService = new CampaignService(mockDatabase);
+    database = new DatabaseService(':memory:');
+    await database.connect();
+    campaignService = new CampaignService(database);
+  });
+
+  afterEach(async () => {
+    await database.disconnect();
   });
 
   describe('Campaign Creation', () => {
@@ -518,6 +521,37 @@ describe('CampaignService', () => {
       expect(updated?.approvalStatus?.approved).toBe(true);
       expect(updated?.approvalStatus?.approvedBy).toBe('approver@example.com');
     });
+
+    test('should record who approved a campaign in the audit log', async () => {
+      const audit = new AuditLogService(database);
+      campaignService = new CampaignService(database, audit);
+      const campaign = await campaignService.createCampaign({ name: 'Audited Campaign' });
+      const draft = await campaignService.createDraft({
+        campaignId: campaign.id,
+        content: { subject: 'Test', body: 'Body' },
+      });
+
+      await withAuditContext({ actor: 'reviewer', requestId: 'request-1' }, () =>
+        campaignService.approveDraft(draft.id, 'approver@example.com'),
+      );
+
+      const { items } = await audit.list({ targetType: 'campaign', targetId: campaign.id, action: 'campaign.approve' });
+      expect(items).toHaveLength(1);
+      expect(items[0]).toMatchObject({
+        actor: 'reviewer',
+        requestId: 'request-1',
+        metadata: { approver: 'approver@example.com', draftId: draft.id },
+      });
+      expect(items[0].changes.approvalStatus.before).toBeUndefined();
+      expect(items[0].changes.approvalStatus.after).toMatchObject({
+        approved: true,
+        approvedBy: 'approver@example.com',
+      });
+
+      const [approval] = (await audit.list({ targetId: draft.id, action: 'campaign.draft.approve' })).items;
+      expect(approval.changes.status).toEqual({ before: 'draft', after: 'approved' });
+      expect(approval.changes.content).toBeUndefined();
+    });
   });
 
   describe('Bulk Draft Generation', () => {
@@ -705,4 +739,80 @@ describe('CampaignService', () => {
       ).rejects.toThrow('Unsupported export format: xml');
     });
   });
-});
\ No newline at end of file
+
+  describe('Persistence', () => {
+    test('should keep campaigns and approved drafts across restarts', async () => {
+      const campaign = await campaignService.createCampaign({
+        name: 'Persisted',
+        content: {
+          subject: 'Hello',
+          body: 'Body',
+          templates: [{ id: 'tpl-1', name: 'Welcome', category: 'onboarding', content: 'Hi {{name}}', variables: [] }],
+          personalization: { enabled: false, fields: [], dynamicContent: [], aiOptimization: false },
+        },
+      });
+      const draft = await campaignService.createDraft({
+        campaignId: campaign.id,
+        content: { subject: 'Draft', body: 'Body' },
+      });
+      await campaignService.approveDraft(draft.id, 'approver@example.com');
+      await campaignService.createDraft({ campaignId: campaign.id, content: { subject: 'Other', body: 'Body' } });
+
+      const restarted = new CampaignService(database);
+      const loaded = await restarted.getCampaign(campaign.id);
+
+      expect(loaded).not.toBe(campaign);
+      expect(loaded).toMatchObject({ name: 'Persisted', approvalStatus: { approvedBy: 'approver@example.com' } });
+      expect(loaded?.schedule.startDate).toEqual(campaign.schedule.startDate);
+      expect(loaded?.approvalStatus?.approvedAt).toBeInstanceOf(Date);
+      expect(loaded?.content.templates.map(template => template.name)).toEqual(['Welcome']);
+      expect(await database.getTemplate('tpl-1')).toMatchObject({ category: 'onboarding' });
+      expect(await restarted.getDraft(draft.id)).toMatchObject({ status: 'approved', content: { subject: 'Draft' } });
+      expect((await restarted.listDrafts(campaign.id, 'approved')).map(d => d.id)).toEqual([draft.id]);
+      expect(await restarted.listDrafts(campaign.id)).toHaveLength(2);
+    });
+
+    test('should filter by type and segment tags and sort by performance in the database', async () => {
+      const segment = { id: 'seg-vip', name: 'VIP', criteria: [], estimatedSize: 10, tags: ['vip', 'beta'] };
+      const low = await campaignService.createCampaign({ name: 'Low', type: 'drip', targetAudience: segment });
+      const high = await campaignService.createCampaign({ name: 'High', type: 'drip', targetAudience: segment });
+      await campaignService.createCampaign({ name: 'Other', type: 'one-time' });
+      await campaignService.updateCampaign(high.id, { metrics: { ...high.metrics, engagementScore: 0.9 } });
+      await campaignService.updateCampaign(low.id, { metrics: { ...low.metrics, engagementScore: 0.2 } });
+
+      const names = async (filter: Parameters<CampaignService['listCampaigns']>[0]) =>
+        (await campaignService.listCampaigns(filter)).map(campaign => campaign.name);
+
+      expect(await names({ type: ['drip'], sortBy: 'performance', sortOrder: 'desc' })).toEqual(['High', 'Low']);
+      expect(await names({ tags: ['beta', 'missing'], sortBy: 'name' })).toEqual(['High', 'Low']);
+      expect(await names({ sortBy: 'name', offset: 1 })).toEqual(['Low', 'Other']);
+      expect(await database.listSegments()).toEqual(expect.arrayContaining([expect.objectContaining(segment)]));
+    });
+
+    test('should page campaigns with a cursor on the sort column', async () => {
+      for (const name of ['Delta', 'alpha', 'Charlie', 'bravo']) {
+        await campaignService.createCampaign({ name });
+      }
+
+      const first = await campaignService.listCampaignPage({ sortBy: 'name', limit: 3 });
+      await campaignService.createCampaign({ name: 'Able' });
+      const second = await campaignService.listCampaignPage({ sortBy: 'name', limit: 3, cursor: first.nextCursor });
+
+      expect(first.items.map(campaign => campaign.name)).toEqual(['alpha', 'bravo', 'Charlie']);
+      expect(first.estimatedTotal).toBe(4);
+      expect(second).toMatchObject({ nextCursor: undefined, estimatedTotal: 5 });
+      expect(second.items.map(campaign => campaign.name)).toEqual(['Delta']);
+    });
+
+    test('should delete the drafts of a deleted campaign', async () => {
+      const campaign = await campaignService.createCampaign({ name: 'Short-lived' });
+      const draft = await campaignService.createDraft({ campaignId: campaign.id });
+
+      await campaignService.deleteCampaign(campaign.id);
+
+      expect(await database.getCampaign(campaign.id)).toBeNull();
+      expect(await database.getCampaignDraft(draft.id)).toBeNull();
+      expect(await new CampaignService(database).getDraft(draft.id)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { ComposerService } from '../../services/composer.service';
+import { Email } from '../../models/email.model';
+import { v4 as uuidv4 } from 'uuid';
+
+const original: Email = {
+  id: uuidv4(),
+  messageId: '<orig@example.com>',
+  threadId: 'thread-1',
+  inReplyTo: '<parent@example.com>',
+  references: ['<root@example.com>', '<parent@example.com>'],
+  from: { email: 'alice@example.com', name: 'Alice' },
+  to: [{ email: 'me@example.com', name: 'Me' }, { email: 'bob@example.com' }],
+  cc: [{ email: 'carol@example.com' }, { email: 'ME@example.com' }],
+  subject: 'Q3 plan',
+  body: 'Line one\n> earlier quote',
+  date: new Date('2025-03-01T10:00:00Z'),
+  priority: 'normal',
+  category: 'primary',
+  labels: ['inbox'],
+  attachments: [
+    { id: uuidv4(), filename: 'plan.pdf', contentType: 'application/pdf', size: 4, data: 'AAAA' },
+  ],
+  isRead: true,
+  isStarred: false,
+  isDraft: false,
+};
+
+describe('ComposerService', () => {
+  const composer = new ComposerService([{ email: 'me@example.com' }]);
+
+  test('should not stack subject prefixes', () => {
+    expect(composer.prefixSubject('Q3 plan', 'Re')).toBe('Re: Q3 plan');
+    expect(composer.prefixSubject('RE: Q3 plan', 'Re')).toBe('RE: Q3 plan');
+    expect(composer.prefixSubject('Fw: Q3 plan', 'Fwd')).toBe('Fw: Q3 plan');
+  });
+
+  test('should reply to the sender with threading headers', () => {
+    const reply = composer.buildReply(original, 'Sounds good');
+
+    expect(reply.to).toEqual([original.from]);
+    expect(reply.cc).toEqual([]);
+    expect(reply.from!.email).toBe('me@example.com');
+    expect(reply.subject).toBe('Re: Q3 plan');
+    expect(reply.inReplyTo).toBe('<orig@example.com>');
+    expect(reply.references).toEqual([
+      '<root@example.com>',
+      '<parent@example.com>',
+      '<orig@example.com>',
+    ]);
+    expect(reply.threadId).toBe('thread-1');
+  });
+
+  test('should quote the original in plain and HTML bodies', () => {
+    const reply = composer.buildReply(original, 'Sounds <good>');
+
+    expect(reply.body).toContain('wrote:\n> Line one\n>> earlier quote');
+    expect(reply.htmlBody).toContain('Sounds &lt;good&gt;');
+    expect(reply.htmlBody).toContain('<blockquote type="cite"');
+    expect(reply.htmlBody).toContain('Line one<br>&gt; earlier quote');
+  });
+
+  test('should reply to everyone except ourselves', () => {
+    const reply = composer.buildReply(original, 'Thanks all', { all: true });
+
+    expect(reply.to!.map(a => a.email)).toEqual(['alice@example.com', 'bob@example.com']);
+    expect(reply.cc!.map(a => a.email)).toEqual(['carol@example.com']);
+  });
+
+  test('should forward with the original headers and attachments', () => {
+    const forward = composer.buildForward(original, [{ email: 'dave@example.com' }], 'FYI');
+
+    expect(forward.subject).toBe('Fwd: Q3 plan');
+    expect(forward.inReplyTo).toBeUndefined();
+    expect(forward.body).toContain('---------- Forwarded message ---------');
+    expect(forward.body).toContain('From: Alice <alice@example.com>');
+    expect(forward.attachments).toHaveLength(1);
+    expect(forward.attachments![0]).toMatchObject({ filename: 'plan.pdf', data: 'AAAA' });
+    expect(forward.attachments![0].id).not.toBe(original.attachments[0].id);
+  });
+
+  test('should trim long reference chains', () => {
+    const references = Array.from({ length: 30 }, (_, i) => `<r${i}@example.com>`);
+    const result = composer.buildReferences({ ...original, inReplyTo: undefined, references });
+
+    expect(result).toHaveLength(20);
+    expect(result[0]).toBe('<r0@example.com>');
+    expect(result[result.length - 1]).toBe('<orig@example.com>');
+  });
+});
@@ -0,0 +1,213 @@
+import { ContactService, relationshipStrength } from '../../services/contact.service';
+import { DatabaseService } from '../../services/database.service';
+import { Email } from '../../models/email.model';
+import { makeEmail } from '../fixtures/emails';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('ContactService', () => {
+  let database: DatabaseService;
+  let contacts: ContactService;
+
+  const received = (from: Email['from'], daysAgo: number, overrides: Partial<Email> = {}) =>
+    database.saveEmail(makeEmail({ from, date: new Date(Date.now() - daysAgo * DAY), ...overrides }));
+
+  const sent = (to: Email['to'], daysAgo: number, overrides: Partial<Email> = {}) =>
+    database.saveEmail(
+      makeEmail({
+        from: { email: 'me@example.com', name: 'Me' },
+        to,
+        labels: ['sent'],
+        category: 'sent',
+        date: new Date(Date.now() - daysAgo * DAY),
+        ...overrides,
+      }),
+    );
+
+  beforeEach(async () => {
+    database = new DatabaseService(':memory:');
+    await database.connect();
+    contacts = new ContactService(database);
+  });
+
+  afterEach(async () => {
+    contacts.stop();
+    await database.disconnect();
+  });
+
+  test('should derive deduplicated contacts from sent and received mail', async () => {
+    await received({ email: 'Alice@Example.com', name: 'Alice Smith' }, 30);
+    await received({ email: 'alice@example.com', name: 'Ali' }, 2);
+    await sent([{ email: 'alice@example.com', name: 'Alice Smith' }], 1, {
+      cc: [{ email: 'bob@example.com' }],
+    });
+    await received({ email: 'carol@example.com' }, 1, { isDraft: true });
+
+    const report = await contacts.refresh();
+    const [alice, bob] = await contacts.list();
+
+    expect(report).toEqual({ created: 2, updated: 0 });
+    expect(alice).toMatchObject({
+      name: 'Alice Smith',
+      emails: ['alice@example.com'],
+      aliases: ['Ali'],
+      sentCount: 1,
+      receivedCount: 2,
+      messageCount: 3,
+      sentRatio: 0.33,
+    });
+    expect(alice.firstContactAt!.getTime()).toBeLessThan(Date.now() - 29 * DAY);
+    expect(alice.lastContactAt!.getTime()).toBeGreaterThan(Date.now() - 2 * DAY);
+    expect(bob).toMatchObject({ name: undefined, emails: ['bob@example.com'], sentCount: 1, receivedCount: 0 });
+    expect((await contacts.list()).some(contact => contact.emails.includes('me@example.com'))).toBe(false);
+    expect(await contacts.refresh()).toEqual({ created: 0, updated: 0 });
+  });
+
+  test('should fold Gmail address variants into one contact', async () => {
+    await received({ email: 'john.doe@gmail.com', name: 'John' }, 10);
+    await received({ email: 'johndoe+lists@googlemail.com', name: 'John Doe' }, 1);
+
+    await contacts.refresh();
+
+    const list = await contacts.list();
+    expect(list).toHaveLength(1);
+    expect(list[0]).toMatchObject({ name: 'John Doe', aliases: ['John'], receivedCount: 2 });
+    expect(await database.findContactByEmail('default', 'JohnDoe@gmail.com')).toMatchObject({ id: list[0].id });
+  });
+
+  test('should rank autocomplete matches by relationship strength', async () => {
+    await received({ email: 'news@acme.com', name: 'Acme News' }, 1);
+    await received({ email: 'news@acme.com', name: 'Acme News' }, 2);
+    await sent([{ email: 'anna@acme.com', name: 'Anna Berg' }], 3);
+    await received({ email: 'anna@acme.com', name: 'Anna Berg' }, 3);
+    await received({ email: 'old@acme.com', name: 'Old Friend' }, 400);
+    await contacts.refresh();
+
+    const names = async (prefix: string) =>
+      (await contacts.autocomplete('default', prefix)).map(contact => contact.name);
+
+    expect(await names('acme')).toEqual(['Anna Berg', 'Acme News', 'Old Friend']);
+    expect(await names('ber')).toEqual(['Anna Berg']);
+    expect(await names('ann')).toEqual(['Anna Berg']);
+    expect(await names('fri')).toEqual(['Old Friend']);
+    expect(await names('100%')).toEqual([]);
+    expect(await contacts.autocomplete('default', '', 1)).toHaveLength(1);
+  });
+
+  test('should keep edits across refreshes and refuse addresses taken by others', async () => {
+    await received({ email: 'dave@example.com', name: 'Dave' }, 5);
+    await contacts.refresh();
+    const [dave] = await contacts.list();
+
+    const updated = await contacts.update(dave.id, {
+      name: 'David Jones',
+      organization: 'Acme',
+      phones: ['+1 555 0100'],
+    });
+    await received({ email: 'dave@example.com', name: 'DJ' }, 1);
+    await contacts.refresh();
+
+    expect(updated?.contact).toMatchObject({ name: 'David Jones', organization: 'Acme' });
+    expect(await contacts.get(dave.id)).toMatchObject({
+      name: 'David Jones',
+      aliases: ['DJ', 'Dave'],
+      phones: ['+1 555 0100'],
+      receivedCount: 2,
+    });
+
+    const { contact: erin } = await contacts.create('default', { name: 'Erin', emails: ['erin@example.com'] });
+    expect((await contacts.create('default', { emails: ['DAVE@example.com'] })).rejected).toBe('conflict');
+    expect((await contacts.update(erin.id, { emails: ['erin@example.com', 'dave@example.com'] }))?.rejected).toBe(
+      'conflict',
+    );
+    expect(await contacts.update('missing', { name: 'Nobody' })).toBeNull();
+    await expect(contacts.create('default', { emails: ['not an address'] })).rejects.toThrow();
+
+    expect((await contacts.update(dave.id, { organization: null }))?.contact.organization).toBeUndefined();
+    expect(await contacts.delete(erin.id)).toBe(true);
+    expect(await contacts.delete(erin.id)).toBe(false);
+  });
+
+  test('should merge contacts and their statistics', async () => {
+    await received({ email: 'frank@work.com', name: 'Frank' }, 10);
+    await sent([{ email: 'frank@home.org', name: 'Frank Miller' }], 1);
+    await contacts.refresh();
+    const work = await database.findContactByEmail('default', 'frank@work.com');
+    const home = await database.findContactByEmail('default', 'frank@home.org');
+
+    const merged = await contacts.merge(work!.id, [home!.id, 'missing']);
+
+    expect(merged).toMatchObject({
+      name: 'Frank',
+      emails: ['frank@work.com', 'frank@home.org'],
+      aliases: ['Frank Miller'],
+      sentCount: 1,
+      receivedCount: 1,
+      sentRatio: 0.5,
+    });
+    expect(await contacts.get(home!.id)).toBeNull();
+    expect(await contacts.refresh()).toEqual({ created: 0, updated: 0 });
+    expect(await contacts.merge('missing', [work!.id])).toBeNull();
+  });
+
+  test('should import vCards into existing and new contacts and export them again', async () => {
+    await received({ email: 'grace@example.com', name: 'Grace' }, 3);
+    await contacts.refresh();
+
+    const report = await contacts.importVCards(
+      'default',
+      [
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        'FN:Grace Hopper',
+        'EMAIL;TYPE=INTERNET:grace@example.com',
+        'EMAIL;TYPE=INTERNET:grace@navy.mil',
+        'TEL:+1 555 0199',
+        'END:VCARD',
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        'N:Lovelace;Ada;;;',
+        'EMAIL:ada@example.com',
+        'ORG:Analytical Engines;Research',
+        'END:VCARD',
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        'FN:No Address',
+        'TEL:+1 555 0000',
+        'END:VCARD',
+      ].join('\r\n'),
+    );
+
+    expect(report).toEqual({ created: 1, updated: 1, skipped: 1 });
+    const grace = await database.findContactByEmail('default', 'grace@navy.mil');
+    expect(grace).toMatchObject({
+      name: 'Grace',
+      emails: ['grace@example.com', 'grace@navy.mil'],
+      aliases: ['Grace Hopper'],
+      phones: ['+1 555 0199'],
+      receivedCount: 1,
+    });
+    expect(await database.findContactByEmail('default', 'ada@example.com')).toMatchObject({
+      name: 'Ada Lovelace',
+      organization: 'Analytical Engines',
+    });
+
+    const exported = await contacts.exportVCards();
+    expect(exported).toContain('FN:Grace\r\n');
+    expect(exported).toContain('EMAIL;TYPE=INTERNET,PREF:grace@example.com\r\n');
+    expect(await contacts.importVCards('default', exported)).toEqual({ created: 0, updated: 0, skipped: 0 });
+  });
+
+  test('should score two-way, frequent and recent relationships higher', () => {
+    const now = new Date();
+    const recent = new Date(now.getTime() - DAY);
+
+    expect(relationshipStrength({ sentCount: 0, receivedCount: 0 }, now)).toBe(0);
+    expect(relationshipStrength({ sentCount: 5, receivedCount: 5, lastContactAt: recent }, now)).toBeGreaterThan(
+      relationshipStrength({ sentCount: 0, receivedCount: 15, lastContactAt: recent }, now),
+    );
+    expect(relationshipStrength({ sentCount: 5, receivedCount: 5, lastContactAt: recent }, now)).toBeGreaterThan(
+      relationshipStrength({ sentCount: 5, receivedCount: 5, lastContactAt: new Date(now.getTime() - 365 * DAY) }, now),
+    );
+  });
+});
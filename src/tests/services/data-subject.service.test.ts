@@ -0,0 +1,247 @@
+import { DataSubjectService, loadSubjectSecret, subjectHash } from '../../services/data-subject.service';
+import { DatabaseService } from '../../services/database.service';
+import { EngagementOptimizerService } from '../../services/engagement-optimizer.service';
+import { LinkedInService } from '../../integrations/linkedin.service';
+import { EmailDraft } from '../../core/campaign.interfaces';
+import { Email } from '../../models/email.model';
+import { AgentTask } from '../../models/agent.model';
+import { makeEmail as baseEmail } from '../fixtures/emails';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { inflateRawSync } from 'zlib';
+import { v4 as uuidv4 } from 'uuid';
+
+const makeEmail = (overrides: Partial<Email> = {}): Email =>
+  baseEmail({ from: { email: 'me@example.com' }, to: [{ email: 'someone@example.com' }], ...overrides });
+
+const makeTask = (emailId: string, parameters: Record<string, unknown>): AgentTask => ({
+  id: uuidv4(),
+  agentId: uuidv4(),
+  emailId,
+  action: 'summarize',
+  parameters,
+  status: 'completed',
+  createdAt: new Date(),
+});
+
+const LINKEDIN_URL = 'https://www.linkedin.com/in/alice';
+const SECRET = 'erasure-secret';
+
+const makeDraft = (email: string): EmailDraft => ({
+  id: uuidv4(),
+  status: 'approved',
+  recipient: {
+    email,
+    name: 'Alice Example',
+    linkedinUrl: LINKEDIN_URL,
+    customFields: {},
+    preferences: { language: 'en', timezone: 'UTC', frequency: 'weekly', topics: [], unsubscribedTopics: [] },
+    engagementHistory: [{ type: 'opened', timestamp: new Date() }],
+  },
+  content: { subject: 'Hi Alice', body: 'Hello Alice' },
+  aiGenerated: true,
+  personalizations: {},
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+// Entries of an archive written by createZip, by name
+const unzip = (zip: Buffer): Map<string, Buffer> => {
+  const entries = new Map<string, Buffer>();
+  let offset = 0;
+  while (zip.readUInt32LE(offset) === 0x04034b50) {
+    const size = zip.readUInt32LE(offset + 18);
+    const nameLength = zip.readUInt16LE(offset + 26);
+    const name = zip.subarray(offset + 30, offset + 30 + nameLength).toString('utf8');
+    const start = offset + 30 + nameLength;
+    entries.set(name, inflateRawSync(zip.subarray(start, start + size)));
+    offset = start + size;
+  }
+  return entries;
+};
+
+describe('DataSubjectService', () => {
+  let database: DatabaseService;
+  let engagement: EngagementOptimizerService;
+  let linkedIn: LinkedInService;
+  let subjects: DataSubjectService;
+  let fromAlice: Email;
+  let toAlice: Email;
+  let unrelated: Email;
+  let draft: EmailDraft;
+  let aboutAlice: AgentTask;
+  let mentionsAlice: AgentTask;
+
+  beforeEach(async () => {
+    database = new DatabaseService(':memory:');
+    await database.connect();
+    engagement = new EngagementOptimizerService();
+    linkedIn = new LinkedInService();
+    subjects = new DataSubjectService(database, SECRET, { engagement, linkedIn });
+
+    fromAlice = makeEmail({
+      from: { email: 'Alice@Example.com', name: 'Alice' },
+      to: [{ email: 'me@example.com' }],
+      subject: 'Invoice',
+      attachments: [{ id: uuidv4(), filename: 'invoice.pdf', contentType: 'application/pdf', size: 5, data: 'aGVsbG8=' }],
+    });
+    toAlice = makeEmail({
+      to: [{ email: 'alice@example.com', name: 'Alice' }, { email: 'bob@example.com' }],
+      body: 'Copying alice@example.com and Bob',
+      labels: ['sent'],
+    });
+    unrelated = makeEmail();
+    await database.saveEmails([fromAlice, toAlice, unrelated]);
+    await database.saveEmailSource(fromAlice.id, Buffer.from('From: alice@example.com\r\n\r\nInvoice'));
+    await database.saveEmailSource(toAlice.id, Buffer.from('To: alice@example.com\r\n\r\nCopying'));
+
+    await database.saveContacts([
+      {
+        id: uuidv4(),
+        accountId: 'default',
+        name: 'Alice',
+        emails: ['alice@example.com', 'alice@work.example'],
+        aliases: [],
+        phones: [],
+        sentCount: 0,
+        receivedCount: 0,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+    ]);
+    draft = makeDraft('alice@example.com');
+    await database.saveCampaignDrafts([draft]);
+
+    aboutAlice = makeTask(fromAlice.id, {});
+    mentionsAlice = makeTask(unrelated.id, { forwardTo: 'ALICE@example.com' });
+    await database.saveAgentTask(aboutAlice);
+    await database.saveAgentTask(mentionsAlice);
+    await database.saveAgentTask(makeTask(unrelated.id, { forwardTo: 'bob@example.com' }));
+
+    engagement.addHistoricalData('alice@example.com', [{ type: 'clicked', timestamp: new Date() }]);
+    await linkedIn.fetchProfile(LINKEDIN_URL);
+  });
+
+  afterEach(async () => {
+    await database.disconnect();
+  });
+
+  test('should export every record about the address as JSON and as a ZIP', async () => {
+    const data = await subjects.export('alice@example.com');
+
+    expect(data.sentEmails.map(email => email.id)).toEqual([fromAlice.id]);
+    expect(data.receivedEmails.map(email => email.id)).toEqual([toAlice.id]);
+    expect(data.contacts).toHaveLength(1);
+    expect(data.campaignDrafts.map(entry => entry.id)).toEqual([draft.id]);
+    expect(data.recipientProfiles).toMatchObject([{ name: 'Alice Example' }]);
+    expect(data.engagementHistory.map(event => event.type).sort()).toEqual(['clicked', 'opened']);
+    expect(data.linkedInProfiles).toMatchObject([{ url: LINKEDIN_URL }]);
+    expect(data.agentTasks.map(task => task.id).sort()).toEqual([aboutAlice.id, mentionsAlice.id].sort());
+
+    const entries = unzip(await subjects.exportZip('alice@example.com'));
+    expect(JSON.parse(entries.get('data.json')!.toString()).sentEmails[0].id).toBe(fromAlice.id);
+    const attachment = fromAlice.attachments[0];
+    expect(entries.get(`emails/${fromAlice.id}/attachments/${attachment.id}-invoice.pdf`)!.toString()).toBe('hello');
+    expect(entries.get(`emails/${toAlice.id}/source.eml`)!.toString()).toContain('Copying');
+  });
+
+  test('should report on a dry run, then erase and pseudonymize with nothing left behind', async () => {
+    const dryRun = await subjects.erase({ email: 'alice@example.com', dryRun: true });
+    expect(dryRun).toMatchObject({ dryRun: true, remaining: 6 });
+    expect(await database.getEmail(fromAlice.id)).not.toBeNull();
+
+    const report = await subjects.erase({ email: 'alice@example.com' });
+
+    expect(report.counts).toEqual({
+      emailsDeleted: 1,
+      emailsPseudonymized: 1,
+      contactsDeleted: 0,
+      contactsUpdated: 1,
+      draftsDeleted: 1,
+      agentTasksDeleted: 1,
+      agentTasksPseudonymized: 1,
+      outboxErrorsPseudonymized: 0,
+      engagementEventsDeleted: 1,
+      linkedInProfilesEvicted: 1,
+    });
+    expect(report.remaining).toBe(0);
+    expect(report.pseudonym).toMatch(/^erased-.+@erased\.invalid$/);
+
+    expect(await database.getEmail(fromAlice.id)).toBeNull();
+    const kept = await database.getEmail(toAlice.id);
+    expect(kept?.to).toEqual([{ email: report.pseudonym }, { email: 'bob@example.com' }]);
+    expect(kept?.body).toBe(`Copying ${report.pseudonym} and Bob`);
+    expect(await database.getEmailSource(toAlice.id)).toBeNull();
+    expect((await database.listContacts('default'))[0].emails).toEqual(['alice@work.example']);
+    expect(await database.getCampaignDraft(draft.id)).toBeNull();
+    expect((await database.listAgentTasks(mentionsAlice.agentId)).items[0].parameters).toEqual({
+      forwardTo: report.pseudonym,
+    });
+    expect(engagement.getHistoricalData('alice@example.com')).toEqual([]);
+    expect(linkedIn.getCachedProfile(LINKEDIN_URL)).toBeNull();
+    expect((await database.getCorrespondents('default')).map(entry => entry.email)).toEqual(['bob@example.com']);
+
+    const erasures = await subjects.listErasures('ALICE@example.com');
+    expect(erasures.map(entry => entry.id)).toEqual([report.id, dryRun.id]);
+    expect(erasures[0].subjectHash).toBe(subjectHash('alice@example.com', SECRET));
+    expect(erasures[0].subjectHash).not.toBe(subjectHash('alice@example.com', 'another secret'));
+    expect(await subjects.listErasures('bob@example.com')).toEqual([]);
+  });
+
+  test('should find the address in task and delivery errors and scrub it from email metadata', async () => {
+    const failed = { ...makeTask(unrelated.id, {}), status: 'failed' as const, error: 'Bounced: carol@example.com' };
+    await database.saveAgentTask(failed);
+    const toCarol = makeEmail({
+      to: [{ email: 'carol@example.com' }],
+      metadata: { headers: { 'delivered-to': 'Carol@Example.com' } },
+    });
+    await database.saveEmail(toCarol);
+    await database.saveOutboxEntry({
+      emailId: toCarol.id,
+      state: 'failed',
+      attempts: 5,
+      lastError: '550 <Carol@Example.com>: mailbox unavailable',
+      nextAttemptAt: new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    const data = await subjects.export('carol@example.com');
+    expect(data.agentTasks.map(task => task.id)).toEqual([failed.id]);
+    expect(data.outboxEntries.map(entry => entry.emailId)).toEqual([toCarol.id]);
+
+    const report = await subjects.erase({ email: 'carol@example.com' });
+
+    expect(report.counts).toMatchObject({
+      emailsPseudonymized: 1,
+      agentTasksPseudonymized: 1,
+      outboxErrorsPseudonymized: 1,
+    });
+    expect(report.remaining).toBe(0);
+    const [task] = (await database.listAgentTasks(failed.agentId)).items;
+    expect(task.error).toBe(`Bounced: ${report.pseudonym}`);
+    expect((await database.getOutboxEntry(toCarol.id))?.lastError).toBe(
+      `550 <${report.pseudonym}>: mailbox unavailable`,
+    );
+    expect((await database.getEmail(toCarol.id))?.metadata).toEqual({
+      headers: { 'delivered-to': report.pseudonym },
+    });
+  });
+});
+
+describe('loadSubjectSecret', () => {
+  test('should create a private secret once and read it back after', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'subject-secret-'));
+    const file = path.join(directory, 'nested', 'data-subject.secret');
+    try {
+      const secret = await loadSubjectSecret(file);
+
+      expect(secret).toMatch(/^[0-9a-f]{64}$/);
+      expect((await fs.stat(file)).mode & 0o777).toBe(0o600);
+      expect(await loadSubjectSecret(file)).toBe(secret);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
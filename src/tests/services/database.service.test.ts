@@ -0,0 +1,611 @@
+import { DatabaseService } from '../../services/database.service';
+import { InMemoryAttachmentStore } from '../../services/attachment-store.service';
+import { MIGRATIONS } from '../../migrations';
+import { parseSearchQuery } from '../../services/search-query.parser';
+import { normalizeSubject } from '../../services/threading.service';
+import { Email } from '../../models/email.model';
+import { makeEmail as baseEmail } from '../fixtures/emails';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+
+const makeEmail = (overrides: Partial<Email> = {}): Email =>
+  baseEmail({ body: 'Nothing to see here', ...overrides });
+
+describe('Full-text search', () => {
+  let database: DatabaseService;
+
+  beforeEach(async () => {
+    database = new DatabaseService(':memory:');
+    await database.connect();
+  });
+
+  afterEach(async () => {
+    await database.disconnect();
+  });
+
+  test('should match words across subject, body, people and attachment names', async () => {
+    const invoice = makeEmail({
+      subject: 'Invoice for March',
+      from: { email: 'billing@acme.test', name: 'Acme Billing' },
+      to: [{ email: 'me@example.com', name: 'Dana Scully' }],
+      attachments: [{ id: uuidv4(), filename: 'statement-2024.pdf', contentType: 'application/pdf', size: 10 }],
+    });
+    await database.saveEmail(invoice);
+    await database.saveEmail(makeEmail({ subject: 'Lunch?' }));
+
+    for (const text of ['invoice', 'INVOI', 'acme billing', 'scully', 'statement', 'march invoice']) {
+      expect((await database.searchEmails({ text })).map(email => email.id)).toEqual([invoice.id]);
+    }
+    expect(await database.searchEmails({ text: 'invoice lunch' })).toEqual([]);
+    expect(await database.searchEmails({ to: 'dana' })).toHaveLength(1);
+  });
+
+  test('should match % and _ in sender and cc filters literally', async () => {
+    const underscored = makeEmail({ from: { email: 'a_b@example.com' }, cc: [{ email: 'c_d@example.com' }] });
+    await database.saveEmail(underscored);
+    await database.saveEmail(makeEmail({ from: { email: 'axb@example.com' }, cc: [{ email: 'cxd@example.com' }] }));
+
+    expect((await database.searchEmails({ from: 'a_b' })).map(email => email.id)).toEqual([underscored.id]);
+    expect(await database.searchEmails({ from: '%' })).toEqual([]);
+    const cc = await database.searchEmails({ where: parseSearchQuery('cc:c_d') });
+    expect(cc.map(email => email.id)).toEqual([underscored.id]);
+  });
+
+  test('should take operators and column names in the input literally', async () => {
+    await database.saveEmail(makeEmail({ subject: 'Plan B', body: 'NOT now, subject: later' }));
+
+    expect(await database.searchEmails({ text: 'NOT now' })).toHaveLength(1);
+    expect(await database.searchEmails({ text: 'subject: later' })).toHaveLength(1);
+    expect(await database.searchEmails({ text: '"later now"' })).toEqual([]);
+    expect(await database.searchEmails({ text: '"now, subject"' })).toHaveLength(1);
+    expect(await database.searchEmails({ text: '* ( "' })).toHaveLength(1);
+  });
+
+  test('should rank subject matches first when sorting by relevance', async () => {
+    const older = makeEmail({ subject: 'Budget review', date: new Date('2024-01-01') });
+    const newer = makeEmail({ subject: 'Weekly notes', body: 'The budget is on the agenda', date: new Date('2024-02-01') });
+    await database.saveEmail(older);
+    await database.saveEmail(newer);
+
+    const byDate = await database.searchEmails({ text: 'budget' });
+    const byRelevance = await database.searchEmailHits({ text: 'budget', sortBy: 'relevance' });
+
+    expect(byDate.map(email => email.id)).toEqual([newer.id, older.id]);
+    expect(byRelevance.map(hit => hit.email.id)).toEqual([older.id, newer.id]);
+    expect(byRelevance[0].rank).toBeLessThan(byRelevance[1].rank!);
+  });
+
+  test('should highlight matches in escaped subject and body snippets', async () => {
+    await database.saveEmail(makeEmail({ subject: 'Release <v2>', body: 'The release ships on Friday & not before' }));
+
+    const [hit] = await database.searchEmailHits({ text: 'release' });
+
+    expect(hit.highlights).toEqual({
+      subject: '<mark>Release</mark> &lt;v2&gt;',
+      body: 'The <mark>release</mark> ships on Friday &amp; not before',
+    });
+    expect((await database.searchEmailHits({ isRead: false }))[0]).toEqual({ email: expect.any(Object) });
+  });
+
+  test('should keep the index in step with updates and deletes', async () => {
+    const email = makeEmail({ subject: 'Draft agenda' });
+    await database.saveEmail(email);
+    await database.updateEmail(email.id, { subject: 'Final agenda' });
+
+    expect(await database.searchEmails({ subject: 'draft' })).toEqual([]);
+    expect(await database.searchEmails({ subject: 'final' })).toHaveLength(1);
+
+    await database.deleteEmail(email.id);
+    expect(await database.searchEmails({ text: 'agenda' })).toEqual([]);
+  });
+
+  test('should index emails stored before the index existed', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'search-'));
+    const dbPath = path.join(directory, 'emails.db');
+    try {
+      const first = new DatabaseService(dbPath);
+      await first.connect();
+      await first.saveEmail(makeEmail({ subject: 'Archived minutes' }));
+      await first.disconnect();
+
+      // As a database migrated up to the version before the index
+      const raw = new sqlite3.Database(dbPath);
+      await new Promise<void>((resolve, reject) =>
+        raw.exec('DROP TABLE emails_fts; DELETE FROM schema_version WHERE version >= 8', err =>
+          err ? reject(err) : resolve(),
+        ),
+      );
+      await new Promise<void>((resolve, reject) => raw.close(err => (err ? reject(err) : resolve())));
+
+      const reopened = new DatabaseService(dbPath);
+      await reopened.connect();
+      expect(await reopened.searchEmails({ text: 'minutes' })).toHaveLength(1);
+      await reopened.disconnect();
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Search queries', () => {
+  let database: DatabaseService;
+  let report: Email;
+  let promo: Email;
+  let lunch: Email;
+
+  beforeEach(async () => {
+    database = new DatabaseService(':memory:');
+    await database.connect();
+
+    report = makeEmail({
+      from: { email: 'alice@example.com', name: 'Alice' },
+      to: [{ email: 'bob@example.com' }],
+      cc: [{ email: 'carol@example.com', name: 'Carol' }],
+      subject: 'Q3 plan',
+      body: 'Numbers for the quarter',
+      labels: ['inbox', 'Finance'],
+      attachments: [{ id: uuidv4(), filename: 'plan.xlsx', contentType: 'application/vnd.ms-excel', size: 10 }],
+      date: new Date(2025, 2, 1),
+    });
+    promo = makeEmail({
+      from: { email: 'deals@shop.test' },
+      subject: 'Q3 plan upgrade sale',
+      category: 'promotions',
+      isRead: true,
+      date: new Date(2025, 1, 1),
+    });
+    lunch = makeEmail({
+      from: { email: 'bob@example.com' },
+      subject: 'Lunch?',
+      isStarred: true,
+      date: new Date(2024, 11, 1),
+    });
+
+    for (const email of [report, promo, lunch]) {
+      await database.saveEmail(email);
+    }
+  });
+
+  afterEach(async () => {
+    await database.disconnect();
+  });
+
+  const search = async (q: string) =>
+    (await database.searchEmails({ where: parseSearchQuery(q) })).map(email => email.subject);
+
+  test('should run the example query from the docs', async () => {
+    expect(
+      await search(
+        'from:alice to:bob subject:"q3 plan" has:attachment label:finance is:unread after:2025/01/01 -category:promotions',
+      ),
+    ).toEqual(['Q3 plan']);
+  });
+
+  test('should combine OR, negation and non-text conditions', async () => {
+    expect(await search('q3 -sale')).toEqual(['Q3 plan']);
+    expect(await search('is:starred OR category:promotions')).toEqual(['Q3 plan upgrade sale', 'Lunch?']);
+    expect(await search('-(is:starred OR has:attachment)')).toEqual(['Q3 plan upgrade sale']);
+    expect(await search('before:2025/01/01 OR filename:plan')).toEqual(['Q3 plan', 'Lunch?']);
+    expect(await search('cc:carol')).toEqual(['Q3 plan']);
+    expect(await search('')).toHaveLength(3);
+  });
+
+  test('should rank and highlight only the positive text terms', async () => {
+    const where = parseSearchQuery('lunch OR has:attachment');
+    const byDate = await database.searchEmailHits({ where });
+    const byRelevance = await database.searchEmailHits({ where, sortBy: 'relevance' });
+
+    expect(byDate.map(hit => hit.email.id)).toEqual([report.id, lunch.id]);
+    expect(byRelevance.map(hit => hit.email.id)).toEqual([lunch.id, report.id]);
+    expect(byRelevance[0].highlights!.subject).toBe('<mark>Lunch</mark>?');
+    expect(byRelevance[1]).toEqual({ email: expect.objectContaining({ id: report.id }) });
+
+    const [negated] = await database.searchEmailHits({ where: parseSearchQuery('has:attachment -lunch') });
+    expect(negated.rank).toBeUndefined();
+  });
+
+  test('should apply the to and labels fields of a structured query', async () => {
+    expect(await database.searchEmails({ to: 'bob' })).toEqual([expect.objectContaining({ id: report.id })]);
+    expect(await database.searchEmails({ labels: ['finance', 'inbox'] })).toEqual([
+      expect.objectContaining({ id: report.id }),
+    ]);
+    expect(await database.searchEmails({ labels: ['finance', 'sent'] })).toEqual([]);
+  });
+});
+
+describe('Email persistence', () => {
+  let database: DatabaseService;
+
+  beforeEach(async () => {
+    database = new DatabaseService(':memory:');
+    await database.connect();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await database.disconnect();
+  });
+
+  test('should save a batch and load every part of each email back in order', async () => {
+    const emails = Array.from({ length: 30 }, (_, i) =>
+      makeEmail({
+        subject: `Report ${i}`,
+        date: new Date(Date.UTC(2024, 0, 1, 0, i)),
+        to: [{ email: `a${i}@example.com`, name: 'A' }, { email: `b${i}@example.com` }],
+        cc: [{ email: 'c@example.com' }],
+        bcc: [{ email: 'd@example.com' }],
+        labels: ['inbox', `project/${i % 3}`],
+        attachments: [
+          { id: uuidv4(), filename: 'one.txt', contentType: 'text/plain', size: 3, data: 'b25l' },
+          { id: uuidv4(), filename: 'two.txt', contentType: 'text/plain', size: 3 },
+        ],
+      }),
+    );
+
+    await database.saveEmails(emails);
+    const found = await database.searchEmails({ text: 'report' });
+
+    expect(found).toHaveLength(30);
+    expect(found[0]).toMatchObject({
+      id: emails[29].id,
+      to: [{ email: 'a29@example.com', name: 'A' }, { email: 'b29@example.com' }],
+      cc: [{ email: 'c@example.com' }],
+      bcc: [{ email: 'd@example.com' }],
+      labels: ['inbox', 'project/2'],
+    });
+    expect(found[0].attachments.map(attachment => attachment.filename)).toEqual(['one.txt', 'two.txt']);
+    expect(await database.getEmail(emails[0].id)).toEqual(found[29]);
+    expect((await database.findLabelByName('default', 'project'))?.name).toBe('project');
+  });
+
+  test('should load search results with a fixed number of queries', async () => {
+    await database.saveEmails(Array.from({ length: 40 }, () => makeEmail({ cc: [{ email: 'c@example.com' }] })));
+    const all = jest.spyOn(sqlite3.Database.prototype, 'all');
+
+    const found = await database.searchEmails({ limit: 25 });
+
+    expect(found).toHaveLength(25);
+    expect(found.every(email => email.cc?.length === 1)).toBe(true);
+    expect(all).toHaveBeenCalledTimes(4);
+  });
+
+  test('should leave nothing behind when a save fails part way', async () => {
+    const store = new InMemoryAttachmentStore();
+    jest.spyOn(store, 'put').mockRejectedValueOnce(new Error('disk full'));
+    const failing = new DatabaseService(':memory:', store);
+    await failing.connect();
+
+    const stored = makeEmail({ subject: 'Stored before' });
+    await failing.saveEmail(stored);
+    const batch = [
+      makeEmail({ subject: 'First', to: [{ email: 'first@example.com' }] }),
+      makeEmail({
+        subject: 'Second',
+        attachments: [{ id: uuidv4(), filename: 'a.bin', contentType: 'text/plain', size: 1, data: 'YQ==' }],
+      }),
+    ];
+
+    await expect(failing.saveEmails(batch)).rejects.toThrow('disk full');
+    await failing.saveEmail({ ...stored, subject: 'Changed', attachments: batch[1].attachments });
+
+    expect(await failing.getEmail(batch[0].id)).toBeNull();
+    expect(await failing.searchEmails({ text: 'first' })).toEqual([]);
+    expect(await failing.searchEmails({ to: 'first@example.com' })).toEqual([]);
+    expect((await failing.getEmail(stored.id))?.subject).toBe('Changed');
+    await failing.disconnect();
+  });
+
+  test('should keep writes made during a save out of its rollback', async () => {
+    const store = new InMemoryAttachmentStore();
+    let fail: ((error: Error) => void) | undefined;
+    jest.spyOn(store, 'put').mockImplementationOnce(() => new Promise((_, reject) => (fail = reject)));
+    const failing = new DatabaseService(':memory:', store);
+    await failing.connect();
+
+    const saving = failing.saveEmail(
+      makeEmail({ attachments: [{ id: uuidv4(), filename: 'a.bin', contentType: 'text/plain', size: 1, data: 'YQ==' }] }),
+    );
+    while (!fail) await new Promise(resolve => setImmediate(resolve));
+    const now = new Date();
+    const labelling = failing.saveLabel({ id: uuidv4(), accountId: 'default', name: 'Kept', createdAt: now, updatedAt: now });
+    fail(new Error('disk full'));
+
+    await expect(saving).rejects.toThrow('disk full');
+    await labelling;
+    expect((await failing.findLabelByName('default', 'Kept'))?.name).toBe('Kept');
+    await failing.disconnect();
+  });
+
+  test('should keep one row when a batch repeats a Message-ID', async () => {
+    const first = makeEmail({ subject: 'First copy', to: [{ email: 'one@example.com' }] });
+    const second = makeEmail({ messageId: first.messageId, subject: 'Second copy', to: [{ email: 'two@x.com' }] });
+
+    await database.saveEmails([first, second]);
+
+    expect(await database.getEmail(second.id)).toBeNull();
+    expect(await database.getEmail(first.id)).toMatchObject({ subject: 'Second copy', to: [{ email: 'two@x.com' }] });
+    expect(await database.searchEmails({ to: 'one@example.com' })).toEqual([]);
+    expect(await database.searchEmails({})).toHaveLength(1);
+  });
+});
+
+describe('Paging', () => {
+  let database: DatabaseService;
+
+  const at = (minute: number) => new Date(Date.UTC(2024, 0, 1, 0, minute));
+
+  beforeEach(async () => {
+    database = new DatabaseService(':memory:');
+    await database.connect();
+  });
+
+  afterEach(async () => {
+    await database.disconnect();
+  });
+
+  test('should keep search pages in place as new mail arrives', async () => {
+    const emails = [1, 2, 2, 3, 4].map(minute => makeEmail({ date: at(minute) }));
+    await database.saveEmails(emails);
+    const expected = [...emails]
+      .sort((a, b) => b.date.getTime() - a.date.getTime() || (a.id < b.id ? 1 : -1))
+      .map(email => email.id);
+
+    const first = await database.searchEmailPage({ limit: 2 });
+    await database.saveEmail(makeEmail({ date: at(10) }));
+    const second = await database.searchEmailPage({ limit: 2, cursor: first.nextCursor });
+    const third = await database.searchEmailPage({ limit: 2, cursor: second.nextCursor });
+
+    expect([...first.items, ...second.items, ...third.items].map(hit => hit.email.id)).toEqual(expected);
+    expect(third.nextCursor).toBeUndefined();
+    expect(first.estimatedTotal).toBe(5);
+    expect(third.estimatedTotal).toBe(6);
+  });
+
+  test('should page ranked search by position and refuse foreign cursors', async () => {
+    await database.saveEmails([1, 2, 3].map(minute => makeEmail({ subject: `Invoice ${minute}`, date: at(minute) })));
+
+    const first = await database.searchEmailPage({ text: 'invoice', sortBy: 'relevance', limit: 2 });
+    const second = await database.searchEmailPage({ text: 'invoice', sortBy: 'relevance', cursor: first.nextCursor });
+    const byDate = await database.searchEmailPage({ text: 'invoice', limit: 1 });
+
+    expect(new Set([...first.items, ...second.items].map(hit => hit.email.id)).size).toBe(3);
+    expect(second.items[0].rank).toBeDefined();
+    await expect(
+      database.searchEmailPage({ text: 'invoice', sortBy: 'relevance', cursor: byDate.nextCursor }),
+    ).rejects.toThrow(SyntaxError);
+    await expect(database.searchEmailPage({ cursor: 'not-a-cursor' })).rejects.toThrow('Invalid cursor');
+  });
+
+  test('should group and page threads in SQL', async () => {
+    await database.saveEmails([
+      makeEmail({ threadId: 'budget', subject: 'Budget', date: at(1), isRead: true }),
+      makeEmail({ threadId: 'budget', subject: 'Re: Budget', date: at(5) }),
+      makeEmail({ threadId: 'lunch', subject: 'Lunch', date: at(3) }),
+    ]);
+    const loose = makeEmail({ subject: 'No thread', date: at(2), accountId: 'work' });
+    await database.saveEmail(loose);
+
+    const first = await database.getThreadPage({ limit: 2 });
+    const second = await database.getThreadPage({ limit: 2, cursor: first.nextCursor });
+
+    expect(first.items.map(thread => [thread.id, thread.totalCount, thread.unreadCount])).toEqual([
+      ['budget', 2, 1],
+      ['lunch', 1, 1],
+    ]);
+    expect(first.items[0].subject).toBe('Budget');
+    expect(first.estimatedTotal).toBe(3);
+    expect(second.items.map(thread => thread.id)).toEqual([loose.id]);
+    expect(second.nextCursor).toBeUndefined();
+    expect((await database.getThreadPage({ accountId: 'work' })).items).toHaveLength(1);
+  });
+
+  test("should page an agent's tasks newest first", async () => {
+    const agentId = uuidv4();
+    for (const minute of [1, 2, 3]) {
+      await database.saveAgentTask({
+        id: uuidv4(),
+        agentId,
+        emailId: uuidv4(),
+        action: `task-${minute}`,
+        parameters: {},
+        status: 'completed',
+        createdAt: at(minute),
+      });
+    }
+
+    const first = await database.listAgentTasks(agentId, { limit: 2 });
+    const second = await database.listAgentTasks(agentId, { limit: 2, cursor: first.nextCursor });
+
+    expect([...first.items, ...second.items].map(task => task.action)).toEqual(['task-3', 'task-2', 'task-1']);
+    expect(second).toMatchObject({ nextCursor: undefined, estimatedTotal: 3 });
+    expect(await database.getAgentTasks(agentId)).toHaveLength(3);
+  });
+});
+
+describe('Schema migrations', () => {
+  let directory: string;
+  let dbPath: string;
+
+  const exec = async (sql: string): Promise<void> => {
+    const raw = new sqlite3.Database(dbPath);
+    try {
+      await new Promise<void>((resolve, reject) => raw.exec(sql, err => (err ? reject(err) : resolve())));
+    } finally {
+      await new Promise<void>((resolve, reject) => raw.close(err => (err ? reject(err) : resolve())));
+    }
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'migrations-'));
+    dbPath = path.join(directory, 'emails.db');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('should bring a new database to the latest version once', async () => {
+    const database = new DatabaseService(dbPath);
+    await database.connect();
+
+    expect(await database.getSchemaStatus()).toEqual({
+      version: MIGRATIONS.length,
+      latest: MIGRATIONS.length,
+      pending: [],
+    });
+    expect(await database.migrate()).toEqual([]);
+    await database.disconnect();
+
+    const reopened = new DatabaseService(dbPath);
+    await reopened.connect();
+    expect((await reopened.getSchemaStatus()).version).toBe(MIGRATIONS.length);
+    await reopened.disconnect();
+  });
+
+  test('should upgrade a database created before migrations were versioned', async () => {
+    await exec(`
+      CREATE TABLE emails (
+        id TEXT PRIMARY KEY, messageId TEXT UNIQUE, threadId TEXT, fromEmail TEXT, fromName TEXT, subject TEXT,
+        body TEXT, htmlBody TEXT, snippet TEXT, date INTEGER, priority TEXT, category TEXT, isRead INTEGER,
+        isStarred INTEGER, isDraft INTEGER, metadata TEXT, aiAnalysis TEXT,
+        created_at INTEGER DEFAULT (strftime('%s', 'now'))
+      );
+      CREATE TABLE email_recipients (email_id TEXT, type TEXT, email TEXT, name TEXT);
+      CREATE TABLE email_labels (email_id TEXT, label TEXT);
+      CREATE TABLE email_attachments (
+        id TEXT PRIMARY KEY, email_id TEXT, filename TEXT, contentType TEXT, size INTEGER, data TEXT, url TEXT
+      );
+      CREATE TABLE agent_tasks (
+        id TEXT PRIMARY KEY, agentId TEXT, emailId TEXT, action TEXT, parameters TEXT, status TEXT,
+        result TEXT, error TEXT, createdAt INTEGER, completedAt INTEGER
+      );
+      INSERT INTO emails (
+        id, messageId, threadId, fromEmail, subject, body, date, priority, category, isRead, isStarred, isDraft
+      ) VALUES ('legacy-1', '<legacy@example.com>', 'thread-1', 'old@example.com', 'Re: Quarterly minutes',
+        'From the archive', 1600000000000, 'normal', 'primary', 0, 0, 0);
+      INSERT INTO email_recipients VALUES ('legacy-1', 'to', 'me@example.com', 'Me');
+      INSERT INTO email_labels VALUES ('legacy-1', 'Archive/2020');
+      INSERT INTO email_attachments VALUES ('att-1', 'legacy-1', 'minutes.txt', 'text/plain', 5, 'aGVsbG8=', NULL);
+    `);
+
+    const database = new DatabaseService(dbPath);
+    await database.connect();
+    try {
+      const email = await database.getEmail('legacy-1');
+      expect(email).toMatchObject({ accountId: 'default', subject: 'Re: Quarterly minutes', labels: ['Archive/2020'] });
+      expect(await database.findThreadIdBySubject(normalizeSubject('Quarterly minutes'), new Date(0))).toBe('thread-1');
+      expect(await database.searchEmails({ text: 'minutes' })).toHaveLength(1);
+      expect((await database.listLabels('default')).map(label => label.name)).toEqual(['Archive', 'Archive/2020']);
+      const attachment = await database.getAttachment('legacy-1', 'att-1');
+      const chunks: Buffer[] = [];
+      for await (const chunk of attachment!.stream) chunks.push(chunk as Buffer);
+      expect(Buffer.concat(chunks).toString()).toBe('hello');
+
+      // A Message-ID is now only unique per account
+      await database.saveEmail(makeEmail({ messageId: '<legacy@example.com>', accountId: 'work' }));
+      expect(await database.getEmailByMessageId('<legacy@example.com>', 'work')).not.toBeNull();
+      expect(await database.getEmail('legacy-1')).not.toBeNull();
+    } finally {
+      await database.disconnect();
+    }
+  });
+
+  test('should thread mail stored without thread ids the way new mail is threaded', async () => {
+    const older = new DatabaseService(dbPath, undefined, { migrate: false });
+    await older.connect();
+    await older.migrate(11);
+    await older.disconnect();
+
+    const insert = (
+      id: string,
+      threadId: string | null,
+      inReplyTo: string | null,
+      refs: string[],
+      date: number,
+      subject = id,
+    ) =>
+      `INSERT INTO emails (
+        id, accountId, messageId, threadId, inReplyTo, referenceIds, normalizedSubject, fromEmail, subject, body,
+        date, priority, category, isRead, isStarred, isDraft
+      ) VALUES ('${id}', 'default', '<${id}@example.com>', ${threadId ? `'${threadId}'` : 'NULL'},
+        ${inReplyTo ? `'<${inReplyTo}@example.com>'` : 'NULL'},
+        '${JSON.stringify(refs.map(ref => `<${ref}@example.com>`))}', '${normalizeSubject(subject)}',
+        'old@example.com', '${subject}', '', ${date}, 'normal', 'primary', 1, 0, 0);`;
+    await exec(
+      [
+        insert('root', 'thread-1', null, [], 1),
+        insert('reply', null, 'root', [], 2),
+        insert('first', null, null, [], 3),
+        insert('second', null, null, ['first'], 4),
+        insert('alone', null, null, [], 5),
+        // No reply headers, so it joins on its subject as it would at ingest
+        insert('followup', null, null, [], 6, 'Re: root'),
+      ].join('\n'),
+    );
+
+    const database = new DatabaseService(dbPath);
+    await database.connect();
+    try {
+      const { items } = await database.getThreadPage({});
+      expect(items.map(thread => thread.emails.map(email => email.id))).toEqual([
+        ['root', 'reply', 'followup'],
+        ['alone'],
+        ['first', 'second'],
+      ]);
+      expect(items[0].id).toBe('thread-1');
+      expect(items.every(thread => thread.emails.every(email => email.threadId === thread.id))).toBe(true);
+    } finally {
+      await database.disconnect();
+    }
+  });
+
+  test('should leave the schema alone until migrate is called', async () => {
+    const database = new DatabaseService(dbPath, undefined, { migrate: false });
+    await database.connect();
+    try {
+      const status = await database.getSchemaStatus();
+      expect(status.version).toBe(0);
+      expect(status.pending.map(migration => migration.name)).toEqual(MIGRATIONS.map(migration => migration.name));
+
+      expect(await database.migrate(2)).toEqual([1, 2]);
+      expect((await database.getSchemaStatus()).version).toBe(2);
+      expect(await database.migrate()).toEqual(MIGRATIONS.slice(2).map(migration => migration.version));
+    } finally {
+      await database.disconnect();
+    }
+  });
+
+  test('should roll back a migration that fails part way', async () => {
+    const database = new DatabaseService(dbPath);
+    await database.connect();
+    const failing = {
+      version: MIGRATIONS.length + 1,
+      name: 'failing',
+      up: async (db: { run: (sql: string) => Promise<void> }) => {
+        await db.run('CREATE TABLE half_done (id TEXT)');
+        await db.run('INSERT INTO missing_table VALUES (1)');
+      },
+    };
+    MIGRATIONS.push(failing);
+    try {
+      await expect(database.migrate()).rejects.toThrow('missing_table');
+      expect((await database.getSchemaStatus()).version).toBe(MIGRATIONS.length - 1);
+    } finally {
+      MIGRATIONS.pop();
+      await database.disconnect();
+    }
+
+    // Only possible if the failed migration left nothing behind
+    await exec('CREATE TABLE half_done (id TEXT)');
+  });
+
+  test('should refuse a database written by a newer release', async () => {
+    await exec(`CREATE TABLE schema_version (version INTEGER PRIMARY KEY, name TEXT, appliedAt INTEGER);
+      INSERT INTO schema_version VALUES (${MIGRATIONS.length + 1}, 'future', 0);`);
+
+    await expect(new DatabaseService(dbPath).connect()).rejects.toThrow('newer than this release supports');
+  });
+});
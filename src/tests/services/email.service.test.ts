@@ -0,0 +1,228 @@
+import { EmailService } from '../../services/email.service';
+import { DatabaseService } from '../../services/database.service';
+import { IEmailProvider, IDraftEmailProvider, ISyncEmailProvider } from '../../core/interfaces';
+import { Email } from '../../models/email.model';
+import { v4 as uuidv4 } from 'uuid';
+
+describe('EmailService', () => {
+  let database: DatabaseService;
+  let provider: jest.Mocked<IEmailProvider>;
+  let service: EmailService;
+
+  const incoming: Email = {
+    id: uuidv4(),
+    messageId: '<incoming@example.com>',
+    threadId: uuidv4(),
+    from: { email: 'alice@example.com', name: 'Alice' },
+    to: [{ email: 'me@example.com' }],
+    subject: 'Contract',
+    body: 'Please review',
+    date: new Date('2025-03-01T10:00:00Z'),
+    priority: 'normal',
+    category: 'primary',
+    labels: ['inbox'],
+    attachments: [
+      { id: uuidv4(), filename: 'contract.pdf', contentType: 'application/pdf', size: 3, data: 'YWJj' },
+    ],
+    isRead: true,
+    isStarred: false,
+    isDraft: false,
+  };
+
+  beforeEach(async () => {
+    database = new DatabaseService(':memory:');
+    await database.connect();
+    await database.saveEmail(incoming);
+
+    provider = {
+      connect: jest.fn(),
+      disconnect: jest.fn(),
+      sendEmail: jest.fn().mockImplementation(async (email: Partial<Email>) => email.messageId!),
+      fetchEmails: jest.fn(),
+      markAsRead: jest.fn(),
+      moveToFolder: jest.fn(),
+      deleteEmail: jest.fn(),
+    };
+    service = new EmailService(provider, database, [{ email: 'me@example.com' }]);
+  });
+
+  afterEach(async () => {
+    await database.disconnect();
+  });
+
+  test('should give sent messages a unique Message-ID', async () => {
+    const first = await service.send({ from: { email: 'me@example.com' }, to: [{ email: 'a@example.com' }] });
+    const second = await service.send({ from: { email: 'me@example.com' }, to: [{ email: 'b@example.com' }] });
+
+    expect(first.messageId).toMatch(/^<.+@example\.com>$/);
+    expect(second.messageId).not.toBe(first.messageId);
+    expect(await database.getEmail(first.id)).not.toBeNull();
+  });
+
+  test('should send a reply linked into the original thread', async () => {
+    const reply = await service.reply(incoming.id, 'Looks fine');
+
+    expect(provider.sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        inReplyTo: '<incoming@example.com>',
+        references: ['<incoming@example.com>'],
+        subject: 'Re: Contract',
+      }),
+    );
+    expect(reply.threadId).toBe(incoming.threadId);
+
+    const thread = await service.getThread(incoming.threadId!);
+    expect(thread!.emails.map(e => e.id)).toEqual([incoming.id, reply.id]);
+  });
+
+  test('should forward with the original attachments', async () => {
+    const forward = await service.forward(incoming.id, [{ email: 'legal@example.com' }], 'For review');
+
+    expect(forward.to).toEqual([{ email: 'legal@example.com' }]);
+    expect(provider.sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        attachments: [expect.objectContaining({ filename: 'contract.pdf', data: 'YWJj' })],
+      }),
+    );
+    expect(forward.attachments).toHaveLength(1);
+    expect(forward.attachments[0].data).toBeUndefined();
+    expect(forward.attachments[0].contentHash).toBe(
+      (await database.getEmail(incoming.id))!.attachments[0].contentHash,
+    );
+    expect(forward.threadId).toBe(incoming.threadId);
+  });
+
+  test('should reject replies to unknown emails', async () => {
+    await expect(service.reply(uuidv4(), 'Hi')).rejects.toThrow('not found');
+  });
+});
+
+describe('EmailService drafts', () => {
+  let database: DatabaseService;
+  let provider: jest.Mocked<IDraftEmailProvider & ISyncEmailProvider>;
+
+  const createService = (draftUploadDelay = 0): EmailService =>
+    new EmailService(provider, database, [{ email: 'me@example.com' }], { draftUploadDelay });
+
+  beforeEach(async () => {
+    database = new DatabaseService(':memory:');
+    await database.connect();
+
+    provider = {
+      connect: jest.fn(),
+      disconnect: jest.fn(),
+      sendEmail: jest.fn().mockImplementation(async (email: Partial<Email>) => email.messageId!),
+      fetchEmails: jest.fn(),
+      markAsRead: jest.fn(),
+      moveToFolder: jest.fn(),
+      deleteEmail: jest.fn(),
+      syncMailbox: jest.fn(),
+      getDraftsFolder: jest.fn().mockReturnValue('Drafts'),
+      saveDraft: jest.fn(),
+      deleteDraft: jest.fn(),
+    };
+  });
+
+  afterEach(async () => {
+    await database.disconnect();
+  });
+
+  test('should store a draft and upload it to the Drafts folder', async () => {
+    const service = createService();
+    const draft = await service.saveDraft({ to: [{ email: 'bob@example.com' }], subject: 'Plan' });
+
+    expect(draft).toMatchObject({ isDraft: true, labels: ['drafts'], from: { email: 'me@example.com' } });
+    expect(draft.metadata).toEqual({ draftRevision: 1 });
+    expect(provider.saveDraft).toHaveBeenCalledWith(expect.objectContaining({ messageId: draft.messageId }));
+    expect((await service.getDrafts()).map(d => d.id)).toEqual([draft.id]);
+  });
+
+  test('should merge autosaves and reject stale revisions', async () => {
+    const service = createService();
+    const draft = await service.saveDraft({ subject: 'Plan', body: 'v1' });
+
+    const saved = await service.updateDraft(draft.id, { body: 'v2', id: 'ignored', isDraft: false }, 1);
+    expect(saved!.conflict).toBe(false);
+    expect(saved!.draft).toMatchObject({ id: draft.id, subject: 'Plan', body: 'v2', isDraft: true });
+    expect(saved!.draft.metadata!.draftRevision).toBe(2);
+
+    const stale = await service.updateDraft(draft.id, { body: 'v1 again' }, 1);
+    expect(stale!.conflict).toBe(true);
+    expect(stale!.draft.body).toBe('v2');
+
+    expect(await service.updateDraft(uuidv4(), { body: 'x' })).toBeNull();
+  });
+
+  test('should coalesce uploads within the autosave window', async () => {
+    const service = createService(60000);
+    const draft = await service.saveDraft({ body: 'a' });
+    await service.updateDraft(draft.id, { body: 'ab' });
+    await service.updateDraft(draft.id, { body: 'abc' });
+
+    expect(provider.saveDraft).not.toHaveBeenCalled();
+
+    await service.flushDrafts();
+    expect(provider.saveDraft).toHaveBeenCalledTimes(1);
+    expect(provider.saveDraft).toHaveBeenCalledWith(expect.objectContaining({ body: 'abc' }));
+  });
+
+  test('should send a draft and remove it everywhere', async () => {
+    const service = createService();
+    const draft = await service.saveDraft({ to: [{ email: 'bob@example.com' }], subject: 'Ready' });
+
+    const sent = await service.sendDraft(draft.id);
+
+    expect(sent).toMatchObject({ isDraft: false, labels: ['sent'], subject: 'Ready' });
+    expect(sent.messageId).not.toBe(draft.messageId);
+    expect(sent.metadata).toEqual({});
+    expect(provider.deleteDraft).toHaveBeenCalledWith(draft.messageId);
+    expect(await database.getEmail(draft.id)).toBeNull();
+    await expect(service.sendDraft(draft.id)).rejects.toThrow('not found');
+  });
+
+  test('should pick up drafts edited in another client', async () => {
+    const service = createService();
+    const draft = await service.saveDraft({ to: [{ email: 'bob@example.com' }], subject: 'Plan', body: 'Ours' });
+    const external: Email = {
+      id: uuidv4(),
+      messageId: '<desktop@example.com>',
+      folder: 'Drafts',
+      uid: 2,
+      from: { email: 'me@example.com' },
+      to: [],
+      subject: 'Started on desktop',
+      body: 'Hi',
+      date: new Date(),
+      priority: 'normal',
+      category: 'primary',
+      labels: ['inbox'],
+      attachments: [],
+      isRead: true,
+      isStarred: false,
+      isDraft: false,
+    };
+
+    provider.syncMailbox.mockResolvedValue({
+      uidValidity: 1,
+      highestUid: 2,
+      uidValidityChanged: false,
+      newEmails: [
+        { ...draft, id: uuidv4(), uid: 1, folder: 'Drafts', body: 'Edited on desktop\n' },
+        external,
+      ],
+      flagUpdates: [],
+      existingUids: [1, 2],
+    });
+
+    const report = await service.syncDrafts();
+
+    expect(provider.syncMailbox).toHaveBeenCalledWith('Drafts', null, undefined);
+    expect(report!.added).toHaveLength(1);
+    expect(await database.getEmail(external.id)).toMatchObject({ isDraft: true, labels: ['drafts'] });
+
+    const updated = await database.getEmail(draft.id);
+    expect(updated).toMatchObject({ body: 'Edited on desktop\n', uid: 1 });
+    expect(updated!.metadata!.draftRevision).toBe(2);
+    expect((await service.updateDraft(draft.id, { body: 'Ours v2' }, 1))!.conflict).toBe(true);
+  });
+});
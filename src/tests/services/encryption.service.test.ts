@@ -0,0 +1,230 @@
+import { DatabaseService } from '../../services/database.service';
+import { InMemoryAttachmentStore } from '../../services/attachment-store.service';
+import { LocalKeyfileProvider } from '../../services/encryption.service';
+import { KeyRotationService } from '../../services/key-rotation.service';
+import { Email } from '../../models/email.model';
+import { Account } from '../../models/account.model';
+import { makeEmail as baseEmail } from '../fixtures/emails';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+
+const makeEmail = (overrides: Partial<Email> = {}): Email =>
+  baseEmail({
+    subject: 'Quarterly report',
+    body: 'The confidential figures are attached',
+    htmlBody: '<p>The confidential figures are attached</p>',
+    attachments: [{ id: uuidv4(), filename: 'figures.csv', contentType: 'text/csv', size: 11, data: 'c2VjcmV0LGRhdGE=' }],
+    aiAnalysis: { sentiment: 0, actionItems: ['Review figures'], summary: 'Confidential figures' },
+    ...overrides,
+  });
+
+describe('Encryption at rest', () => {
+  let directory: string;
+  let dbPath: string;
+  let keyfile: string;
+  let keyProvider: LocalKeyfileProvider;
+  let store: InMemoryAttachmentStore;
+  let database: DatabaseService;
+
+  const open = async (
+    options: { encrypted?: boolean; indexBodies?: boolean; migrate?: boolean } = {},
+  ): Promise<DatabaseService> => {
+    const encryption = options.encrypted === false ? undefined : { keyProvider, indexBodies: options.indexBodies };
+    database = new DatabaseService(dbPath, store, { encryption, migrate: options.migrate });
+    await database.connect();
+    return database;
+  };
+
+  const rawRows = async (sql: string): Promise<any[]> => {
+    const raw = new sqlite3.Database(dbPath);
+    try {
+      return await new Promise<any[]>((resolve, reject) =>
+        raw.all(sql, (err, rows) => (err ? reject(err) : resolve(rows))),
+      );
+    } finally {
+      await new Promise<void>((resolve, reject) => raw.close(err => (err ? reject(err) : resolve())));
+    }
+  };
+
+  const reencrypted = (rotation: KeyRotationService): Promise<unknown> =>
+    new Promise(resolve => rotation.once('reencryption-completed', resolve));
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'encryption-'));
+    dbPath = path.join(directory, 'emails.db');
+    keyfile = path.join(directory, 'keys', 'master.json');
+    keyProvider = new LocalKeyfileProvider(keyfile);
+    store = new InMemoryAttachmentStore();
+  });
+
+  afterEach(async () => {
+    await database.disconnect();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('should store ciphertext and read back plaintext', async () => {
+    await open();
+    const email = makeEmail();
+    await database.saveEmail(email);
+    await database.saveEmailSource(email.id, Buffer.from('Subject: Quarterly report\r\n\r\nconfidential'));
+
+    const [row] = await rawRows('SELECT body, htmlBody, aiAnalysis FROM emails');
+    for (const value of Object.values(row)) {
+      expect(value).toMatch(/^enc1:/);
+      expect(value).not.toMatch(/onfidential/);
+    }
+    const [source] = await rawRows('SELECT raw FROM email_sources');
+    expect(source.raw.toString()).not.toContain('confidential');
+    const [attachment] = await rawRows('SELECT contentHash FROM email_attachments');
+    expect((await store.get(attachment.contentHash))!.toString()).not.toContain('secret');
+
+    expect(await database.getEmail(email.id)).toMatchObject({
+      body: email.body,
+      htmlBody: email.htmlBody,
+      aiAnalysis: email.aiAnalysis,
+    });
+    expect((await database.getEmailSource(email.id))!.toString()).toContain('confidential');
+    const [loaded] = await database.loadAttachmentData((await database.getEmail(email.id))!.attachments);
+    expect(Buffer.from(loaded.data!, 'base64').toString()).toBe('secret,data');
+    expect((await fs.stat(keyfile)).mode & 0o777).toBe(0o600);
+  });
+
+  test('should load the data keys when migrations are left to run separately', async () => {
+    await open();
+    const email = makeEmail();
+    await database.saveEmail(email);
+    await database.disconnect();
+
+    await open({ migrate: false });
+    expect((await database.getEmail(email.id))?.body).toBe(email.body);
+    const another = makeEmail();
+    await database.saveEmail(another);
+    expect((await database.getEmail(another.id))?.body).toBe(another.body);
+  });
+
+  test('should leave bodies out of the search index unless asked to keep them', async () => {
+    await open();
+    await database.saveEmail(makeEmail());
+    expect(await database.searchEmails({ text: 'quarterly' })).toHaveLength(1);
+    expect(await database.searchEmails({ text: 'confidential' })).toEqual([]);
+    await database.disconnect();
+
+    await open({ indexBodies: true });
+    await database.saveEmail(makeEmail());
+    expect(await database.searchEmails({ text: 'confidential' })).toHaveLength(1);
+  });
+
+  test('should read mail stored before encryption and encrypt it in the background', async () => {
+    await open({ encrypted: false });
+    const email = makeEmail();
+    await database.saveEmail(email);
+    await database.disconnect();
+
+    await open();
+    expect((await database.getEmail(email.id))?.body).toBe(email.body);
+    expect((await database.getEncryptionStatus()).pending).toBe(2);
+
+    const rotation = new KeyRotationService(database, keyProvider);
+    const done = reencrypted(rotation);
+    rotation.resume();
+    await done;
+
+    expect((await database.getEncryptionStatus()).pending).toBe(0);
+    const [row] = await rawRows('SELECT body FROM emails');
+    expect(row.body).toMatch(/^enc1:/);
+    expect(store.size).toBe(1);
+    expect(await database.searchEmails({ text: 'confidential' })).toEqual([]);
+    expect((await database.getEmail(email.id))?.body).toBe(email.body);
+  });
+
+  test('should re-encrypt under new keys after a rotation and drop the old data key', async () => {
+    await open();
+    const email = makeEmail();
+    await database.saveEmail(email);
+    const before = await database.getEncryptionStatus();
+    const [{ contentHash }] = await rawRows('SELECT contentHash FROM email_attachments');
+
+    const rotation = new KeyRotationService(database, keyProvider);
+    const done = reencrypted(rotation);
+    const after = await rotation.rotate();
+    await done;
+
+    expect(after.keyId).not.toBe(before.keyId);
+    expect(after.dataKeyId).not.toBe(before.dataKeyId);
+    const [row] = await rawRows('SELECT body FROM emails');
+    expect(row.body).toContain(after.dataKeyId);
+    const [attachment] = await rawRows('SELECT contentHash FROM email_attachments');
+    expect(attachment.contentHash).not.toBe(contentHash);
+    expect(await store.get(contentHash)).toBeNull();
+    expect(await rawRows('SELECT id FROM data_keys')).toEqual([{ id: after.dataKeyId }]);
+    expect(Object.keys(JSON.parse(await fs.readFile(keyfile, 'utf8')).keys)).toHaveLength(2);
+
+    // A fresh provider reads the rotated keyfile
+    keyProvider = new LocalKeyfileProvider(keyfile);
+    await database.disconnect();
+    await open();
+    expect((await database.getEmail(email.id))?.body).toBe(email.body);
+  });
+
+  test('should drop the blobs a failed re-encryption batch wrote', async () => {
+    await open({ encrypted: false });
+    await database.saveEmail(makeEmail());
+    await database.saveEmail(
+      makeEmail({ attachments: [{ id: uuidv4(), filename: 'b.txt', contentType: 'text/plain', size: 5, data: 'b3RoZXI=' }] }),
+    );
+    await database.disconnect();
+
+    await open();
+    const { pending } = await database.getEncryptionStatus();
+    const put = store.put.bind(store);
+    jest.spyOn(store, 'put').mockImplementationOnce(put).mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(database.reencryptBatch(100)).rejects.toThrow('disk full');
+    expect(store.size).toBe(2);
+    expect((await database.getEncryptionStatus()).pending).toBe(pending);
+  });
+
+  test('should encrypt account credentials and re-encrypt them with the mail', async () => {
+    const account: Account = {
+      id: 'work',
+      name: 'Work',
+      email: 'me@example.com',
+      provider: 'imap',
+      settings: { imapHost: 'imap.example.com' },
+      credentials: { pass: 'hunter2' },
+      enabled: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    await open({ encrypted: false });
+    await database.saveAccount(account);
+    await database.disconnect();
+
+    await open();
+    expect((await database.getAccount('work'))?.credentials).toEqual({ pass: 'hunter2' });
+    expect((await database.getEncryptionStatus()).pending).toBe(1);
+
+    const rotation = new KeyRotationService(database, keyProvider);
+    let done = reencrypted(rotation);
+    rotation.resume();
+    await done;
+
+    const [row] = await rawRows('SELECT credentials, settings FROM accounts');
+    expect(row.credentials).toMatch(/^enc1:/);
+    expect(row.credentials).not.toContain('hunter2');
+    expect(row.settings).toContain('imap.example.com');
+
+    done = reencrypted(rotation);
+    const after = await rotation.rotate();
+    await done;
+
+    const [rotated] = await rawRows('SELECT credentials, dataKeyId FROM accounts');
+    expect(rotated.credentials).toContain(after.dataKeyId);
+    expect(rotated.dataKeyId).toBe(after.dataKeyId);
+    expect(await rawRows('SELECT id FROM data_keys')).toEqual([{ id: after.dataKeyId }]);
+    expect(await database.listAccounts()).toMatchObject([{ id: 'work', credentials: { pass: 'hunter2' } }]);
+  });
+});
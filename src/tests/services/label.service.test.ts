@@ -0,0 +1,158 @@
+import { LabelService } from '../../services/label.service';
+import { DatabaseService } from '../../services/database.service';
+import { InMemoryProvider } from '../../providers/in-memory.provider';
+import { makeEmail } from '../fixtures/emails';
+import { v4 as uuidv4 } from 'uuid';
+
+describe('LabelService', () => {
+  let database: DatabaseService;
+  let provider: InMemoryProvider;
+  let labels: LabelService;
+
+  beforeEach(async () => {
+    database = new DatabaseService(':memory:');
+    await database.connect();
+    provider = new InMemoryProvider();
+    labels = new LabelService(database, provider);
+  });
+
+  afterEach(async () => {
+    await database.disconnect();
+  });
+
+  const names = async () => (await labels.list()).map(label => label.name);
+
+  test('should register labels found on stored emails, with their parents', async () => {
+    await database.saveEmail(makeEmail({ labels: ['inbox', 'Work/Projects/Q3'] }));
+    await database.saveEmail(makeEmail({ labels: ['work/projects/q3'], isRead: true }));
+
+    const summaries = await labels.list();
+
+    expect(summaries.map(label => label.name)).toEqual(['inbox', 'Work', 'Work/Projects', 'Work/Projects/Q3']);
+    expect(summaries[0]).toMatchObject({ system: true, total: 1, unread: 1 });
+    expect(summaries[3]).toMatchObject({ parent: 'Work/Projects', system: false, total: 2, unread: 1 });
+    expect(summaries[1]).toMatchObject({ total: 0, unread: 0 });
+  });
+
+  test('should create nested labels and mirror them to the server', async () => {
+    const changed = jest.fn();
+    labels.on('labels-changed', changed);
+
+    const { label, rejected } = await labels.create('default', { name: 'Travel/2025', color: '#3366ff' });
+
+    expect(rejected).toBeUndefined();
+    expect(label).toMatchObject({ name: 'Travel/2025', color: '#3366ff' });
+    expect(await names()).toEqual(['Travel', 'Travel/2025']);
+    expect(await provider.listLabels()).toEqual(['Travel/2025']);
+    expect(changed).toHaveBeenCalledWith('default');
+
+    expect((await labels.create('default', { name: 'travel/2025' })).rejected).toBe('conflict');
+    await expect(labels.create('default', { name: 'Travel//x' })).rejects.toThrow('empty levels');
+    await expect(labels.create('default', { name: 'Red', color: 'red' })).rejects.toThrow('#rrggbb');
+  });
+
+  test('should rename a label, its children and every tagged email', async () => {
+    const first = makeEmail({ labels: ['inbox', 'Clients'] });
+    const second = makeEmail({ labels: ['Clients/Acme'] });
+    await database.saveEmail(first);
+    await database.saveEmail(second);
+    const clients = await database.findLabelByName('default', 'clients');
+
+    const result = await labels.update(clients!.id, { name: 'Customers' });
+
+    expect(result?.label).toMatchObject({ id: clients!.id, name: 'Customers' });
+    expect(await names()).toEqual(['Customers', 'Customers/Acme', 'inbox']);
+    expect((await database.getEmail(first.id))!.labels).toEqual(['inbox', 'Customers']);
+    expect((await database.getEmail(second.id))!.labels).toEqual(['Customers/Acme']);
+    expect(await database.searchEmails({ labels: ['clients'] })).toEqual([]);
+  });
+
+  test('should refuse renames onto existing labels and of system labels', async () => {
+    await database.saveEmail(makeEmail({ labels: ['inbox', 'A/x', 'B/x'] }));
+    const a = await database.findLabelByName('default', 'A');
+    const inbox = await database.findLabelByName('default', 'inbox');
+
+    expect((await labels.update(a!.id, { name: 'B' }))?.rejected).toBe('conflict');
+    expect((await labels.update(inbox!.id, { name: 'Inbox2' }))?.rejected).toBe('system');
+    expect((await labels.delete(inbox!.id))?.rejected).toBe('system');
+    expect(await labels.update('missing', { color: '#000000' })).toBeNull();
+    expect(await names()).toEqual(['A', 'A/x', 'B', 'B/x', 'inbox']);
+
+    const renamed = await labels.update(a!.id, { name: 'a', color: '#ff0000' });
+    expect(renamed?.label).toMatchObject({ name: 'a', color: '#ff0000' });
+    expect((await labels.update(a!.id, { color: null }))?.label.color).toBeUndefined();
+  });
+
+  test('should keep emails in step when a rename fails half way', async () => {
+    const email = makeEmail({ labels: ['Old', 'Old/Child'] });
+    await database.saveEmail(email);
+    const old = await database.findLabelByName('default', 'Old');
+    // Only reachable by racing the conflict check, so the unique index has to catch it
+    await database.saveLabel({ ...old!, id: uuidv4(), name: 'New/Child' });
+
+    await expect(database.renameLabel('default', 'Old', 'New')).rejects.toThrow();
+
+    expect((await database.getEmail(email.id))!.labels).toEqual(['Old', 'Old/Child']);
+    expect(await names()).toEqual(['New/Child', 'Old', 'Old/Child']);
+  });
+
+  test('should delete a label and its children from emails, the store and the server', async () => {
+    await labels.create('default', { name: 'Receipts' });
+    const email = makeEmail({ labels: ['inbox', 'Receipts', 'Receipts/2024'] });
+    await database.saveEmail(email);
+    const receipts = await database.findLabelByName('default', 'Receipts');
+
+    expect((await labels.delete(receipts!.id))?.rejected).toBeUndefined();
+
+    expect(await names()).toEqual(['inbox']);
+    expect((await database.getEmail(email.id))!.labels).toEqual(['inbox']);
+    expect(await provider.listLabels()).toEqual([]);
+  });
+
+  test('should apply and remove labels in bulk and on the server copy', async () => {
+    const delivered = provider.deliver({ subject: 'Flight' });
+    const local = makeEmail({ messageId: delivered.messageId, folder: 'INBOX' });
+    const other = makeEmail();
+    const elsewhere = makeEmail({ accountId: 'work' });
+    for (const email of [local, other, elsewhere]) {
+      await database.saveEmail(email);
+    }
+    const { label } = await labels.create('default', { name: 'Trips' });
+
+    expect(await labels.apply(label.id, [local.id, other.id, elsewhere.id, 'missing'])).toBe(2);
+    expect(await labels.apply(label.id, [local.id])).toBe(1);
+
+    expect((await database.getEmail(local.id))!.labels).toEqual(['inbox', 'Trips']);
+    expect((await database.getEmail(elsewhere.id))!.labels).toEqual(['inbox']);
+    expect(provider.getMessages()[0].labels).toEqual(['inbox', 'Trips']);
+    expect((await labels.list()).find(summary => summary.name === 'Trips')).toMatchObject({ total: 2, unread: 2 });
+
+    expect(await labels.remove(label.id, [local.id])).toBe(1);
+    expect((await database.getEmail(local.id))!.labels).toEqual(['inbox']);
+    expect(provider.getMessages()[0].labels).toEqual(['inbox']);
+    expect(await labels.apply('missing', [local.id])).toBeNull();
+  });
+
+  test('should keep local changes when the server refuses them', async () => {
+    const email = makeEmail();
+    await database.saveEmail(email);
+    provider.failNext('updateLabels');
+
+    const { label } = await labels.create('default', { name: 'Offline' });
+
+    expect(await names()).toEqual(['inbox', 'Offline']);
+    expect(await provider.listLabels()).toEqual([]);
+    expect(await labels.apply(label.id, [email.id])).toBe(1);
+  });
+
+  test('should import labels that exist only on the server', async () => {
+    await provider.createLabel('Newsletters/Tech');
+    await labels.create('default', { name: 'Known' });
+
+    const created = await labels.importRemote('default');
+
+    expect(created!.map(label => label.name)).toEqual(['Newsletters', 'Newsletters/Tech']);
+    expect(await labels.importRemote('default')).toEqual([]);
+    expect(await new LabelService(database, null).importRemote('default')).toBeNull();
+  });
+});
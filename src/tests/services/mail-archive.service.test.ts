@@ -0,0 +1,161 @@
+import { MailArchiveService, splitMbox } from '../../services/mail-archive.service';
+import { DatabaseService } from '../../services/database.service';
+import { IAgentOrchestrator } from '../../core/interfaces';
+import { Email } from '../../models/email.model';
+import { PassThrough, Readable } from 'stream';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+const FIXTURE = path.join(__dirname, '..', 'fixtures', 'sample.mbox');
+
+const collect = async (run: (output: PassThrough) => Promise<unknown>): Promise<Buffer> => {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', chunk => chunks.push(chunk));
+  await run(output);
+  output.end();
+  return Buffer.concat(chunks);
+};
+
+const splitAll = async (data: Buffer): Promise<string[]> => {
+  const messages: string[] = [];
+  for await (const message of splitMbox(Readable.from([data]))) {
+    messages.push(message.toString());
+  }
+  return messages;
+};
+
+describe('splitMbox', () => {
+  test('should split messages and unquote From lines', async () => {
+    const messages = await splitAll(await fs.readFile(FIXTURE));
+
+    expect(messages).toHaveLength(3);
+    expect(messages[0]).toMatch(/^Message-ID: <kickoff-1@example.com>/);
+    expect(messages[0]).toContain('\nFrom the agenda: scope');
+    expect(messages[0].endsWith('Alice\n')).toBe(true);
+    expect(messages[2]).toContain('Invoice #881');
+  });
+
+  test('should handle separators split across chunks', async () => {
+    const data = 'From a@x Mon Mar  3 09:15:00 2025\nSubject: one\n\nbody\n\nFrom b@x Mon Mar  3 09:16:00 2025\nSubject: two\n\nbody\n';
+    const chunks = data.match(/.{1,7}/gs)!.map(chunk => Buffer.from(chunk));
+    const messages: string[] = [];
+    for await (const message of splitMbox(Readable.from(chunks))) {
+      messages.push(message.toString());
+    }
+
+    expect(messages).toEqual(['Subject: one\n\nbody\n', 'Subject: two\n\nbody\n']);
+  });
+});
+
+describe('MailArchiveService', () => {
+  let database: DatabaseService;
+  let service: MailArchiveService;
+
+  beforeEach(async () => {
+    database = new DatabaseService(':memory:');
+    await database.connect();
+    service = new MailArchiveService(database);
+  });
+
+  afterEach(async () => {
+    await database.disconnect();
+  });
+
+  test('should import an mbox file into threads', async () => {
+    const report = await service.importMbox(FIXTURE);
+
+    expect(report).toEqual({ imported: 3, skipped: 0, failed: 0, errors: [] });
+
+    const kickoff = await database.getEmailByMessageId('<kickoff-1@example.com>');
+    const reply = await database.getEmailByMessageId('<kickoff-2@example.com>');
+    expect(kickoff).toMatchObject({ labels: ['inbox', 'important', 'unread'], isRead: false });
+    expect(reply!.threadId).toBe(kickoff!.threadId);
+    expect(reply!.attachments[0]).toMatchObject({ filename: 'milestones.csv', contentType: 'text/csv' });
+
+    const again = await service.importMbox(FIXTURE);
+    expect(again).toMatchObject({ imported: 0, skipped: 3 });
+  });
+
+  test('should run agents when asked', async () => {
+    const orchestrator = {
+      processEmail: jest.fn().mockImplementation(async (email: Email) => ({
+        emailId: email.id,
+        results: [],
+        finalEmail: { ...email, priority: 'high' },
+        processingTime: 1,
+      })),
+    };
+    service = new MailArchiveService(database, orchestrator as unknown as IAgentOrchestrator);
+
+    await service.importMbox(FIXTURE, { runAgents: true });
+
+    expect(orchestrator.processEmail).toHaveBeenCalledTimes(3);
+    expect((await database.getEmailByMessageId('<invoice-881@vendor.example>'))!.priority).toBe('high');
+  });
+
+  test('should export imported mail with the original source', async () => {
+    await service.importMbox(FIXTURE);
+    const original = await splitAll(await fs.readFile(FIXTURE));
+
+    const kickoff = await database.getEmailByMessageId('<kickoff-1@example.com>');
+    const exported = await collect(output => service.exportThread(kickoff!.threadId!, output));
+    const text = exported.toString();
+
+    expect(text).toMatch(/^From alice@example.com Mon Mar {2}3 09:15:00 2025\n/);
+    expect(text).toContain('\n>From the agenda');
+    expect(await splitAll(exported)).toEqual(original.slice(0, 2));
+  });
+
+  test('should rebuild EML for messages without a stored source', async () => {
+    const email: Email = {
+      id: uuidv4(),
+      messageId: '<sent-1@example.com>',
+      inReplyTo: '<kickoff-1@example.com>',
+      references: ['<kickoff-1@example.com>'],
+      from: { email: 'me@example.com', name: 'Me' },
+      to: [{ email: 'alice@example.com' }],
+      subject: 'Re: Project kickoff',
+      body: 'See you there',
+      date: new Date('2025-03-03T11:00:00Z'),
+      priority: 'normal',
+      category: 'sent',
+      labels: ['sent'],
+      attachments: [],
+      isRead: true,
+      isStarred: false,
+      isDraft: false,
+    };
+    await database.saveEmail(email);
+
+    const raw = (await service.exportEml(email)).toString();
+
+    expect(raw).toContain('Message-ID: <sent-1@example.com>');
+    expect(raw).toContain('In-Reply-To: <kickoff-1@example.com>');
+    expect(raw).toContain('Date: Mon, 03 Mar 2025 11:00:00 +0000');
+    expect(raw).toContain('See you there');
+  });
+
+  test('should round-trip a directory of EML files', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mail-archive-'));
+
+    try {
+      await service.importMbox(FIXTURE);
+      const files = await service.exportEmlDirectory(await database.searchEmails({}), directory);
+      expect(files).toHaveLength(3);
+
+      const target = new DatabaseService(':memory:');
+      await target.connect();
+      const report = await new MailArchiveService(target).importEmlDirectory(directory, { labels: ['archive'] });
+      const invoice = await target.getEmailByMessageId('<invoice-881@vendor.example>');
+      await target.disconnect();
+
+      expect(report.imported).toBe(3);
+      expect(invoice).toMatchObject({ labels: ['archive'], subject: 'Invoice #881 is due' });
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
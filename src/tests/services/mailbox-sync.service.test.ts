@@ -0,0 +1,149 @@
+import { MailboxSyncService, supportsSync } from '../../services/mailbox-sync.service';
+import { DatabaseService } from '../../services/database.service';
+import { ISyncEmailProvider, MailboxSyncResult } from '../../core/interfaces';
+import { Email } from '../../models/email.model';
+import { makeEmail as baseEmail } from '../fixtures/emails';
+import { v4 as uuidv4 } from 'uuid';
+
+const makeEmail = (uid: number, overrides: Partial<Email> = {}): Email =>
+  baseEmail({
+    messageId: `<msg-${uid}@example.com>`,
+    folder: 'INBOX',
+    uid,
+    subject: `Message ${uid}`,
+    body: 'Hello',
+    date: new Date(2025, 0, uid),
+    ...overrides,
+  });
+
+const result = (overrides: Partial<MailboxSyncResult>): MailboxSyncResult => ({
+  uidValidity: 1,
+  highestUid: 0,
+  uidValidityChanged: false,
+  newEmails: [],
+  flagUpdates: [],
+  existingUids: [],
+  ...overrides,
+});
+
+describe('MailboxSyncService', () => {
+  let database: DatabaseService;
+  let provider: ISyncEmailProvider & { syncMailbox: jest.Mock };
+  let service: MailboxSyncService;
+
+  beforeEach(async () => {
+    database = new DatabaseService(':memory:');
+    await database.connect();
+    provider = {
+      connect: jest.fn(),
+      disconnect: jest.fn(),
+      sendEmail: jest.fn(),
+      fetchEmails: jest.fn(),
+      markAsRead: jest.fn(),
+      moveToFolder: jest.fn(),
+      deleteEmail: jest.fn(),
+      syncMailbox: jest.fn(),
+    };
+    service = new MailboxSyncService(provider, database, 'account-1');
+  });
+
+  afterEach(async () => {
+    await database.disconnect();
+  });
+
+  test('should detect sync-capable providers', () => {
+    const { syncMailbox: _sync, ...pullOnly } = provider;
+    expect(supportsSync(provider)).toBe(true);
+    expect(supportsSync(pullOnly)).toBe(false);
+  });
+
+  test('should store new messages and the checkpoint', async () => {
+    provider.syncMailbox.mockResolvedValue(
+      result({ highestUid: 2, highestModseq: '100', newEmails: [makeEmail(1), makeEmail(2)], existingUids: [1, 2] }),
+    );
+
+    const report = await service.syncFolder('INBOX');
+
+    expect(report.added).toHaveLength(2);
+    expect(provider.syncMailbox).toHaveBeenCalledWith('INBOX', null, undefined);
+    const state = await database.getSyncState('account-1', 'INBOX');
+    expect(state).toMatchObject({ uidValidity: 1, highestUid: 2, highestModseq: '100' });
+  });
+
+  test('should pass the checkpoint to the next sync', async () => {
+    provider.syncMailbox.mockResolvedValueOnce(
+      result({ highestUid: 1, newEmails: [makeEmail(1)], existingUids: [1] }),
+    );
+    await service.syncFolder('INBOX');
+
+    provider.syncMailbox.mockResolvedValueOnce(result({ highestUid: 1, existingUids: [1] }));
+    await service.syncFolder('INBOX');
+
+    expect(provider.syncMailbox.mock.calls[1][1]).toMatchObject({ highestUid: 1, uidValidity: 1 });
+  });
+
+  test('should dedupe re-fetched messages on Message-ID', async () => {
+    const first = makeEmail(1);
+    provider.syncMailbox.mockResolvedValueOnce(
+      result({ highestUid: 1, newEmails: [first], existingUids: [1] }),
+    );
+    await service.syncFolder('INBOX');
+
+    provider.syncMailbox.mockResolvedValueOnce(
+      result({
+        uidValidity: 2,
+        uidValidityChanged: true,
+        highestUid: 7,
+        newEmails: [makeEmail(7, { messageId: first.messageId, isRead: true })],
+        existingUids: [7],
+      }),
+    );
+    const report = await service.syncFolder('INBOX');
+
+    expect(report.added).toHaveLength(0);
+    expect(report.uidValidityReset).toBe(true);
+    const all = await database.searchEmails({});
+    expect(all).toHaveLength(1);
+    expect(all[0]).toMatchObject({ id: first.id, uid: 7, isRead: true });
+  });
+
+  test('should apply flag changes and expunges', async () => {
+    const kept = makeEmail(1);
+    const removed = makeEmail(2);
+    provider.syncMailbox.mockResolvedValueOnce(
+      result({ highestUid: 2, newEmails: [kept, removed], existingUids: [1, 2] }),
+    );
+    await service.syncFolder('INBOX');
+
+    provider.syncMailbox.mockResolvedValueOnce(
+      result({
+        highestUid: 2,
+        flagUpdates: [{ uid: 1, isRead: true, isStarred: true, isDraft: false }],
+        existingUids: [1],
+      }),
+    );
+    const report = await service.syncFolder('INBOX');
+
+    expect(report.expunged).toBe(1);
+    expect(await database.getEmail(removed.id)).toBeNull();
+    expect(await database.getEmail(kept.id)).toMatchObject({ isRead: true, isStarred: true });
+  });
+});
+
+describe('DatabaseService message dedup', () => {
+  test('should keep one row per Message-ID', async () => {
+    const database = new DatabaseService(':memory:');
+    await database.connect();
+
+    const original = makeEmail(1, { labels: ['inbox', 'work'] });
+    await database.saveEmail(original);
+    await database.saveEmail({ ...original, id: uuidv4(), subject: 'Re-fetched' });
+
+    const all = await database.searchEmails({});
+    expect(all).toHaveLength(1);
+    expect(all[0].id).toBe(original.id);
+    expect(all[0].subject).toBe('Re-fetched');
+
+    await database.disconnect();
+  });
+});
@@ -0,0 +1,161 @@
+import { MailboxWatcher, supportsPush } from '../../services/mailbox-watcher.service';
+import { IEmailProvider, IDatabase, IAgentOrchestrator, MailboxWatchOptions } from '../../core/interfaces';
+import { Email } from '../../models/email.model';
+import { makeEmail as baseEmail } from '../fixtures/emails';
+
+const makeEmail = (subject: string): Email => baseEmail({ subject, body: 'Hello' });
+
+describe('MailboxWatcher', () => {
+  let database: jest.Mocked<
+    Pick<
+      IDatabase,
+      | 'saveEmail'
+      | 'getEmailByMessageId'
+      | 'findEmailsByMessageIds'
+      | 'findEmailsReferencing'
+      | 'findThreadIdBySubject'
+    >
+  >;
+  let orchestrator: jest.Mocked<Pick<IAgentOrchestrator, 'processEmail'>>;
+
+  beforeEach(() => {
+    const stored = new Map<string, Email>();
+    database = {
+      saveEmail: jest.fn().mockImplementation(async (email: Email) => {
+        stored.set(email.messageId, email);
+      }),
+      getEmailByMessageId: jest.fn().mockImplementation(async (messageId: string) =>
+        stored.get(messageId) ?? null,
+      ),
+      findEmailsByMessageIds: jest.fn().mockResolvedValue([]),
+      findEmailsReferencing: jest.fn().mockResolvedValue([]),
+      findThreadIdBySubject: jest.fn().mockResolvedValue(null),
+    };
+    orchestrator = {
+      processEmail: jest.fn().mockImplementation(async (email: Email) => ({
+        email,
+        agentResults: new Map(),
+        finalEmail: { ...email, category: 'updates' },
+        processingTime: 1,
+      })),
+    };
+  });
+
+  const createPushProvider = (): {
+    provider: IEmailProvider & { watchMailbox: jest.Mock };
+    deliver: (emails: Email[]) => Promise<void>;
+    fail: (error: Error) => void;
+    stop: jest.Mock;
+  } => {
+    let listener: (emails: Email[]) => Promise<void> = async () => undefined;
+    let options: MailboxWatchOptions = {};
+    const stop = jest.fn().mockResolvedValue(undefined);
+    const provider = {
+      connect: jest.fn(),
+      disconnect: jest.fn(),
+      sendEmail: jest.fn(),
+      fetchEmails: jest.fn(),
+      markAsRead: jest.fn(),
+      moveToFolder: jest.fn(),
+      deleteEmail: jest.fn(),
+      watchMailbox: jest.fn().mockImplementation(async (_folder, onEmails, watchOptions) => {
+        listener = onEmails;
+        options = watchOptions;
+        return { mode: 'idle', stop };
+      }),
+    };
+    return {
+      provider,
+      deliver: (emails) => listener(emails),
+      fail: (error) => options.onError?.(error),
+      stop,
+    };
+  };
+
+  test('should detect push-capable providers', () => {
+    const { provider } = createPushProvider();
+    const { watchMailbox: _watch, ...pullOnly } = provider;
+
+    expect(supportsPush(provider)).toBe(true);
+    expect(supportsPush(pullOnly)).toBe(false);
+  });
+
+  test('should run agents on pushed emails and emit them', async () => {
+    const { provider, deliver } = createPushProvider();
+    const watcher = new MailboxWatcher(
+      provider,
+      database as unknown as IDatabase,
+      orchestrator as unknown as IAgentOrchestrator,
+    );
+    const received: Email[] = [];
+    watcher.on('email-received', (email: Email) => received.push(email));
+
+    await watcher.start();
+    expect(watcher.mode).toBe('idle');
+    expect(provider.watchMailbox).toHaveBeenCalledWith('INBOX', expect.any(Function), expect.any(Object));
+
+    const email = makeEmail('Fresh mail');
+    await deliver([email]);
+
+    expect(orchestrator.processEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ id: email.id, threadId: expect.any(String) }),
+    );
+    expect(database.saveEmail).toHaveBeenCalledTimes(2);
+    expect(received).toHaveLength(1);
+    expect(received[0].category).toBe('updates');
+
+    await watcher.stop();
+    expect(watcher.mode).toBeNull();
+  });
+
+  test('should reconnect after the watch connection fails', async () => {
+    jest.useFakeTimers();
+    const { provider, fail, stop } = createPushProvider();
+    const watcher = new MailboxWatcher(
+      provider,
+      database as unknown as IDatabase,
+      orchestrator as unknown as IAgentOrchestrator,
+      { reconnectDelay: 1000 },
+    );
+
+    await watcher.start();
+    fail(new Error('connection reset'));
+    expect(stop).toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(provider.watchMailbox).toHaveBeenCalledTimes(2);
+
+    await watcher.stop();
+    jest.useRealTimers();
+  });
+
+  test('should fall back to polling when the provider cannot push', async () => {
+    jest.useFakeTimers();
+    const email = makeEmail('Polled mail');
+    const provider: IEmailProvider = {
+      connect: jest.fn().mockResolvedValue(undefined),
+      disconnect: jest.fn().mockResolvedValue(undefined),
+      sendEmail: jest.fn(),
+      fetchEmails: jest.fn().mockResolvedValue([email]),
+      markAsRead: jest.fn(),
+      moveToFolder: jest.fn(),
+      deleteEmail: jest.fn(),
+    };
+    const watcher = new MailboxWatcher(
+      provider,
+      database as unknown as IDatabase,
+      orchestrator as unknown as IAgentOrchestrator,
+      { pollInterval: 1000 },
+    );
+
+    await watcher.start();
+    expect(watcher.mode).toBe('poll');
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(provider.fetchEmails).toHaveBeenCalledTimes(2);
+    expect(orchestrator.processEmail).toHaveBeenCalledTimes(1);
+
+    await watcher.stop();
+    jest.useRealTimers();
+  });
+});
@@ -0,0 +1,252 @@
+import { OutboxService } from '../../services/outbox.service';
+import { EmailService } from '../../services/email.service';
+import { DatabaseService } from '../../services/database.service';
+import { InMemoryProvider } from '../../providers/in-memory.provider';
+import { OutboxEntry } from '../../core/interfaces';
+
+const transient = (): Error => Object.assign(new Error('Connection timed out'), { code: 'ETIMEDOUT' });
+
+describe('OutboxService', () => {
+  let database: DatabaseService;
+  let provider: InMemoryProvider;
+  let outbox: OutboxService;
+  let emailService: EmailService;
+
+  beforeEach(async () => {
+    database = new DatabaseService(':memory:');
+    await database.connect();
+    provider = new InMemoryProvider({ user: 'me@example.com' });
+    outbox = new OutboxService(provider, database, {
+      retryPolicy: { maxAttempts: 3, initialDelay: 0, backoffMultiplier: 2 },
+    });
+    emailService = new EmailService(provider, database, [], { outbox });
+  });
+
+  afterEach(async () => {
+    await outbox.stop();
+    await database.disconnect();
+  });
+
+  const send = () =>
+    emailService.send({
+      from: { email: 'me@example.com' },
+      to: [{ email: 'bob@example.com' }],
+      subject: 'Status',
+      body: 'All good',
+    });
+
+  test('should queue on send and deliver from the worker', async () => {
+    const email = await send();
+
+    expect(email.labels).toEqual(['outbox']);
+    expect(provider.outbox).toHaveLength(0);
+    expect(await outbox.get(email.id)).toMatchObject({ state: 'queued', attempts: 0 });
+
+    await outbox.processDue();
+
+    expect(provider.outbox).toHaveLength(1);
+    expect(provider.outbox[0].messageId).toBe(email.messageId);
+    expect(await outbox.get(email.id)).toMatchObject({ state: 'sent', attempts: 1 });
+    expect((await database.getEmail(email.id))!.labels).toEqual(['sent']);
+  });
+
+  test('should retry transient failures and emit each state', async () => {
+    const states: string[] = [];
+    outbox.on('outbox-updated', (entry: OutboxEntry) => states.push(entry.state));
+    provider.failNext('sendEmail', transient());
+
+    const email = await send();
+    await outbox.processDue();
+
+    expect(await outbox.get(email.id)).toMatchObject({ state: 'queued', attempts: 1, lastError: 'Connection timed out' });
+
+    await outbox.processDue();
+
+    expect(await outbox.get(email.id)).toMatchObject({ state: 'sent', attempts: 2, lastError: undefined });
+    expect(states).toEqual(['queued', 'sending', 'queued', 'sending', 'sent']);
+  });
+
+  test('should fail permanent errors without retrying and re-queue on request', async () => {
+    provider.failNext('sendEmail', Object.assign(new Error('Mailbox unavailable'), { responseCode: 550 }));
+
+    const email = await send();
+    await outbox.processDue();
+
+    expect(await outbox.list('failed')).toEqual([
+      expect.objectContaining({ emailId: email.id, attempts: 1, lastError: 'Mailbox unavailable' }),
+    ]);
+
+    expect(await outbox.retry(email.id)).toMatchObject({ state: 'queued', attempts: 0 });
+    await outbox.processDue();
+
+    expect(await outbox.get(email.id)).toMatchObject({ state: 'sent' });
+    expect(await outbox.retry(email.id)).toBeNull();
+  });
+
+  test('should give up after maxAttempts', async () => {
+    for (let i = 0; i < 3; i++) {
+      provider.failNext('sendEmail', transient());
+    }
+
+    const email = await send();
+    for (let i = 0; i < 3; i++) {
+      await outbox.processDue();
+    }
+
+    expect(await outbox.get(email.id)).toMatchObject({ state: 'failed', attempts: 3 });
+    expect(provider.outbox).toHaveLength(0);
+  });
+
+  test('should count a failed connection as an attempt', async () => {
+    provider.failNext('connect', Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }));
+
+    const email = await send();
+    await outbox.processDue();
+
+    expect(await outbox.get(email.id)).toMatchObject({ state: 'queued', attempts: 1 });
+  });
+
+  test('should keep the connection for a send while a receive overlapping it finishes', async () => {
+    const email = await send();
+    const sendEmail = provider.sendEmail.bind(provider);
+    let connectedAfterReceive = false;
+    jest.spyOn(provider, 'sendEmail').mockImplementation(async message => {
+      await emailService.receive();
+      connectedAfterReceive = provider.isConnected;
+      return sendEmail(message);
+    });
+
+    await outbox.processDue();
+
+    expect(connectedAfterReceive).toBe(true);
+    expect(await outbox.get(email.id)).toMatchObject({ state: 'sent' });
+    expect(provider.isConnected).toBe(false);
+  });
+
+  test('should retry a send whose connection was closed under it', async () => {
+    provider.failNext('sendEmail', new Error('Not connected to email service'));
+
+    const email = await send();
+    await outbox.processDue();
+
+    expect(await outbox.get(email.id)).toMatchObject({ state: 'queued', attempts: 1 });
+  });
+
+  test('should back off exponentially up to maxDelay', () => {
+    const policy = new OutboxService(provider, database, {
+      retryPolicy: { initialDelay: 1000, backoffMultiplier: 3, maxDelay: 20000 },
+    });
+
+    expect([1, 2, 3, 4].map(attempt => policy.getRetryDelay(attempt))).toEqual([1000, 3000, 9000, 20000]);
+    expect(policy.isRetryable(Object.assign(new Error('busy'), { responseCode: 451 }))).toBe(true);
+    expect(policy.isRetryable(new Error('Invalid recipient'))).toBe(false);
+  });
+
+  test('should requeue messages interrupted mid-send on start', async () => {
+    const email = await send();
+    const entry = await outbox.get(email.id);
+    await database.saveOutboxEntry({ ...entry!, state: 'sending', attempts: 1 });
+
+    await outbox.start();
+    await outbox.processDue();
+
+    expect(await outbox.get(email.id)).toMatchObject({ state: 'sent', attempts: 2 });
+  });
+});
+
+describe('Scheduled send', () => {
+  let database: DatabaseService;
+  let provider: InMemoryProvider;
+  let outbox: OutboxService;
+  let emailService: EmailService;
+
+  beforeEach(async () => {
+    database = new DatabaseService(':memory:');
+    await database.connect();
+    provider = new InMemoryProvider({ user: 'me@example.com' });
+    outbox = new OutboxService(provider, database);
+    emailService = new EmailService(provider, database, [], { outbox, draftUploadDelay: 0 });
+  });
+
+  afterEach(async () => {
+    await outbox.stop();
+    await emailService.flushDrafts();
+    await database.disconnect();
+  });
+
+  const schedule = (sendAt: Date) =>
+    emailService.send(
+      { from: { email: 'me@example.com' }, to: [{ email: 'bob@example.com' }], subject: 'Later', body: 'v1' },
+      { sendAt },
+    );
+
+  test('should hold scheduled mail until it is due', async () => {
+    const sendAt = new Date(Date.now() + 60000);
+    const email = await schedule(sendAt);
+
+    await outbox.processDue();
+    expect(provider.outbox).toHaveLength(0);
+    expect(await emailService.getScheduled()).toEqual([{ email: expect.objectContaining({ id: email.id }), sendAt }]);
+
+    const rescheduled = await emailService.updateScheduled(email.id, { body: 'v2' }, new Date(Date.now() - 1000));
+    expect(rescheduled!.email.body).toBe('v2');
+
+    await outbox.processDue();
+    expect(provider.outbox.map(sent => sent.body)).toEqual(['v2']);
+    expect(await emailService.getScheduled()).toEqual([]);
+    expect(await emailService.updateScheduled(email.id, { body: 'v3' })).toBeNull();
+  });
+
+  test('should turn a cancelled message back into a draft', async () => {
+    const email = await emailService.send(
+      { from: { email: 'me@example.com' }, to: [{ email: 'bob@example.com' }], subject: 'Oops', body: 'Typo' },
+      { undoWindow: 10000 },
+    );
+
+    const draft = await emailService.cancelScheduled(email.id);
+    await outbox.processDue();
+
+    expect(draft).toMatchObject({ id: email.id, isDraft: true, labels: ['drafts'], body: 'Typo' });
+    expect(await outbox.get(email.id)).toBeNull();
+    expect(provider.outbox).toHaveLength(0);
+    expect(await emailService.cancelScheduled(email.id)).toBeNull();
+  });
+
+  test('should pick up due messages after a restart', async () => {
+    const email = await schedule(new Date(Date.now() + 50));
+    await outbox.stop();
+
+    const restarted = new OutboxService(provider, database, { pollInterval: 10 });
+    const sent = new Promise<OutboxEntry>(resolve =>
+      restarted.on('outbox-updated', (entry: OutboxEntry) => entry.state === 'sent' && resolve(entry)),
+    );
+    await restarted.start();
+
+    expect(await sent).toMatchObject({ emailId: email.id });
+    await restarted.stop();
+  });
+
+  test('should keep edits away from a message the worker has claimed', async () => {
+    const email = await schedule(new Date(Date.now() + 60000));
+
+    const edit = outbox.whileScheduled(email.id, async entry => {
+      await database.saveOutboxEntry({ ...entry, nextAttemptAt: new Date(0) });
+      await outbox.processDue();
+      return 'edited';
+    });
+
+    expect(await edit).toBe('edited');
+    expect(provider.outbox).toHaveLength(0);
+
+    await outbox.processDue();
+    expect(provider.outbox).toHaveLength(1);
+  });
+
+  test('should require an outbox to schedule', async () => {
+    const direct = new EmailService(provider, database);
+
+    await expect(direct.send({ from: { email: 'me@example.com' } }, { undoWindow: 5000 })).rejects.toThrow(
+      'Scheduled sending requires an outbox',
+    );
+  });
+});
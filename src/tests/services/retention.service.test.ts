@@ -0,0 +1,131 @@
+import { RetentionService } from '../../services/retention.service';
+import { DatabaseService } from '../../services/database.service';
+import { Email } from '../../models/email.model';
+import { makeEmail as baseEmail } from '../fixtures/emails';
+import { v4 as uuidv4 } from 'uuid';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(Date.UTC(2024, 5, 1));
+
+const makeEmail = (daysOld: number, overrides: Partial<Email> = {}): Email =>
+  baseEmail({ date: new Date(NOW.getTime() - daysOld * DAY), ...overrides });
+
+describe('RetentionService', () => {
+  let database: DatabaseService;
+  let retention: RetentionService;
+
+  beforeEach(async () => {
+    database = new DatabaseService(':memory:');
+    await database.connect();
+    retention = new RetentionService(database, { batchSize: 2 });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await retention.stop();
+    await database.disconnect();
+  });
+
+  test('should report matches on a dry run and delete them in batches on a real run', async () => {
+    const old = [40, 50, 60, 70, 80].map(days => makeEmail(days, { category: 'promotions' }));
+    const recent = makeEmail(10, { category: 'promotions' });
+    const kept = makeEmail(90, { category: 'primary' });
+    await database.saveEmails([...old, recent, kept]);
+    const rule = await retention.createRule({
+      name: 'Promotions',
+      action: 'delete',
+      category: 'promotions',
+      olderThanDays: 30,
+    });
+
+    const dryRun = await retention.run({ dryRun: true, now: NOW });
+    expect(dryRun.results).toEqual([
+      { ruleId: rule.id, name: 'Promotions', action: 'delete', matched: 5, applied: 0 },
+    ]);
+    expect(await database.searchEmails({})).toHaveLength(7);
+
+    const run = await retention.run({ now: NOW });
+    expect(run.results[0]).toMatchObject({ matched: 5, applied: 5 });
+    expect((await database.searchEmails({})).map(email => email.id).sort()).toEqual([recent.id, kept.id].sort());
+    expect((await retention.listRuns()).map(entry => [entry.id, entry.dryRun])).toEqual([
+      [run.id, false],
+      [dryRun.id, true],
+    ]);
+  });
+
+  test('should trash, strip attachments and purge agent tasks by label, account and age', async () => {
+    const spam = makeEmail(8, { category: 'spam', labels: ['inbox', 'Junk'] });
+    const otherAccount = makeEmail(8, { category: 'spam', labels: ['Junk'], accountId: 'work' });
+    const withFile = makeEmail(400, {
+      attachments: [{ id: uuidv4(), filename: 'scan.pdf', contentType: 'application/pdf', size: 5, data: 'aGVsbG8=' }],
+    });
+    await database.saveEmails([spam, otherAccount, withFile]);
+
+    const agentId = uuidv4();
+    for (const daysOld of [100, 5]) {
+      await database.saveAgentTask({
+        id: uuidv4(),
+        agentId,
+        emailId: spam.id,
+        action: 'categorize',
+        parameters: {},
+        status: 'completed',
+        createdAt: new Date(NOW.getTime() - daysOld * DAY),
+      });
+    }
+
+    await retention.createRule({
+      name: 'Junk',
+      action: 'trash',
+      labels: ['junk'],
+      accountId: 'default',
+      olderThanDays: 7,
+    });
+    await retention.createRule({ name: 'Files', action: 'strip-attachments', olderThanDays: 365 });
+    await retention.createRule({ name: 'Tasks', action: 'purge-agent-tasks', olderThanDays: 90 });
+    const run = await retention.run({ now: NOW });
+
+    expect(run.results.map(result => [result.name, result.applied])).toEqual([
+      ['Junk', 1],
+      ['Files', 1],
+      ['Tasks', 1],
+    ]);
+    expect(await database.getEmail(spam.id)).toMatchObject({ category: 'trash', labels: ['Junk', 'trash'] });
+    expect(await database.getEmail(otherAccount.id)).toMatchObject({ category: 'spam' });
+    expect((await database.getEmail(withFile.id))?.attachments).toMatchObject([{ filename: 'scan.pdf', size: 5 }]);
+    expect(await database.getAttachment(withFile.id, withFile.attachments[0].id)).toBeNull();
+    expect(await database.getAgentTasks(agentId)).toHaveLength(1);
+    expect((await retention.run({ now: NOW })).results.every(result => result.matched === 0)).toBe(true);
+  });
+
+  test('should record a failing rule and still apply the others', async () => {
+    await database.saveEmails([makeEmail(40, { category: 'promotions' }), makeEmail(40, { category: 'social' })]);
+    await retention.createRule({ name: 'Promotions', action: 'delete', category: 'promotions', olderThanDays: 30 });
+    await retention.createRule({ name: 'Social', action: 'trash', category: 'social', olderThanDays: 30 });
+    jest.spyOn(database, 'deleteEmails').mockRejectedValueOnce(new Error('disk I/O error'));
+
+    const run = await retention.run({ now: NOW });
+
+    expect(run.results).toMatchObject([
+      { name: 'Promotions', matched: 1, applied: 0, error: 'disk I/O error' },
+      { name: 'Social', matched: 1, applied: 1 },
+    ]);
+    expect((await retention.listRuns())[0].results[0].error).toBe('disk I/O error');
+  });
+
+  test('should validate rules and keep unchanged fields on update', async () => {
+    await expect(
+      retention.createRule({ name: 'Tasks', action: 'purge-agent-tasks', category: 'spam', olderThanDays: 90 }),
+    ).rejects.toThrow('cannot filter by category or labels');
+    await expect(retention.createRule({ name: 'Never', action: 'delete', olderThanDays: 0 })).rejects.toThrow();
+
+    const rule = await retention.createRule({ name: 'Spam', action: 'trash', category: 'spam', olderThanDays: 7 });
+    const updated = await retention.updateRule(rule.id, { olderThanDays: 14, enabled: false });
+
+    expect(updated).toMatchObject({ name: 'Spam', category: 'spam', olderThanDays: 14, enabled: false });
+    expect(await retention.listRules()).toEqual([updated]);
+    expect(await retention.updateRule('missing', { enabled: true })).toBeNull();
+    expect(await retention.deleteRule(rule.id)).toBe(true);
+    expect(await retention.listRules()).toEqual([]);
+  });
+});
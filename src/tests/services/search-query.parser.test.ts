@@ -0,0 +1,102 @@
+import { parseSearchQuery } from '../../services/search-query.parser';
+
+describe('parseSearchQuery', () => {
+  test('should parse the operators of a Gmail-style query', () => {
+    expect(
+      parseSearchQuery(
+        'from:alice to:bob subject:"q3 plan" has:attachment label:finance is:unread after:2025/01/01 -category:promotions',
+      ),
+    ).toEqual({
+      type: 'and',
+      children: [
+        { type: 'text', field: 'from', value: 'alice', exact: false },
+        { type: 'text', field: 'to', value: 'bob', exact: false },
+        { type: 'text', field: 'subject', value: 'q3 plan', exact: true },
+        { type: 'hasAttachment' },
+        { type: 'label', label: 'finance' },
+        { type: 'flag', flag: 'unread' },
+        { type: 'date', op: 'after', date: new Date(2025, 0, 1) },
+        { type: 'not', child: { type: 'category', category: 'promotions' } },
+      ],
+    });
+  });
+
+  test('should bind OR tighter than the implicit AND', () => {
+    expect(parseSearchQuery('budget from:amy OR from:david')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'text', value: 'budget', exact: false },
+        {
+          type: 'or',
+          children: [
+            { type: 'text', field: 'from', value: 'amy', exact: false },
+            { type: 'text', field: 'from', value: 'david', exact: false },
+          ],
+        },
+      ],
+    });
+  });
+
+  test('should apply a field to a group and negate groups', () => {
+    expect(parseSearchQuery('subject:(dinner OR lunch) -(is:starred "do not" AND cc:carol)')).toEqual({
+      type: 'and',
+      children: [
+        {
+          type: 'or',
+          children: [
+            { type: 'text', field: 'subject', value: 'dinner', exact: false },
+            { type: 'text', field: 'subject', value: 'lunch', exact: false },
+          ],
+        },
+        {
+          type: 'not',
+          child: {
+            type: 'and',
+            children: [
+              { type: 'flag', flag: 'starred' },
+              { type: 'text', value: 'do not', exact: true },
+              { type: 'text', field: 'cc', value: 'carol', exact: false },
+            ],
+          },
+        },
+      ],
+    });
+  });
+
+  test('should treat unknown operators, lower-case or and punctuation as text', () => {
+    expect(parseSearchQuery('size:large or - & in:anywhere')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'text', value: 'size:large', exact: false },
+        { type: 'text', value: 'or', exact: false },
+      ],
+    });
+    expect(parseSearchQuery('  ')).toEqual({ type: 'and', children: [] });
+  });
+
+  test('should turn relative periods into dates', () => {
+    const before = Date.now();
+    const node = parseSearchQuery('newer_than:2d');
+
+    expect(node).toMatchObject({ type: 'date', op: 'after' });
+    const date = (node as { date: Date }).date.getTime();
+    expect(date).toBeGreaterThanOrEqual(before - 2 * 24 * 60 * 60 * 1000);
+    expect(date).toBeLessThanOrEqual(Date.now() - 2 * 24 * 60 * 60 * 1000);
+  });
+
+  test.each([
+    ['(unbalanced', 'Missing ")"'],
+    ['stray)', 'Unexpected ")"'],
+    ['subject:"open', 'Missing closing quote'],
+    ['OR lunch', 'OR needs a search term on both sides'],
+    ['lunch OR', 'OR needs a search term on both sides'],
+    ['from:', 'Missing value for from:'],
+    ['is:snoozed', 'Unsupported is:snoozed'],
+    ['category:news', 'Unknown category "news"'],
+    ['after:2025/02/30', 'Invalid date "2025/02/30"'],
+    ['older_than:soon', 'Invalid period "soon"'],
+  ])('should reject %s', (query, message) => {
+    expect(() => parseSearchQuery(query)).toThrow(SyntaxError);
+    expect(() => parseSearchQuery(query)).toThrow(message);
+  });
+});
@@ -0,0 +1,143 @@
+import { ThreadingService, normalizeSubject } from '../../services/threading.service';
+import { DatabaseService } from '../../services/database.service';
+import { Email } from '../../models/email.model';
+import { makeEmail as baseEmail } from '../fixtures/emails';
+
+let clock = 0;
+
+const makeEmail = (messageId: string, subject: string, overrides: Partial<Email> = {}): Email =>
+  baseEmail({
+    messageId,
+    from: { email: `${messageId}@example.com` },
+    to: [{ email: 'team@example.com', name: 'Team' }],
+    subject,
+    date: new Date(Date.UTC(2025, 0, 1) + ++clock * 60000),
+    isRead: true,
+    ...overrides,
+  });
+
+describe('normalizeSubject', () => {
+  test('should strip reply and forward prefixes and list tags', () => {
+    expect(normalizeSubject('Re: RE: Fwd: Q3 plan')).toBe('q3 plan');
+    expect(normalizeSubject('[team] Re[2]: Q3   plan')).toBe('q3 plan');
+    expect(normalizeSubject('AW: Q3 plan')).toBe('q3 plan');
+  });
+});
+
+describe('ThreadingService.buildThreads', () => {
+  const service = new ThreadingService({} as DatabaseService);
+
+  test('should keep the root and its replies in one thread', () => {
+    const root = makeEmail('a', 'Q3 plan');
+    const reply = makeEmail('b', 'Re: Q3 plan', { inReplyTo: 'a', references: ['a'] });
+    const nested = makeEmail('c', 'Re: Q3 plan', { inReplyTo: 'b', references: ['a', 'b'] });
+
+    const threads = service.buildThreads([nested, root, reply]);
+
+    expect(threads).toHaveLength(1);
+    expect(threads[0].emails.map(e => e.messageId)).toEqual(['a', 'b', 'c']);
+    expect(threads[0].subject).toBe('Q3 plan');
+    expect(threads[0].participants.map(p => p.email)).toEqual([
+      'a@example.com',
+      'team@example.com',
+      'b@example.com',
+      'c@example.com',
+    ]);
+  });
+
+  test('should join siblings whose common parent is missing', () => {
+    const first = makeEmail('b', 'Re: Launch', { references: ['missing'] });
+    const second = makeEmail('c', 'Re: Launch', { references: ['missing'] });
+
+    const threads = service.buildThreads([first, second]);
+
+    expect(threads).toHaveLength(1);
+    expect(threads[0].totalCount).toBe(2);
+  });
+
+  test('should fall back to subjects for replies without references', () => {
+    const root = makeEmail('a', 'Budget');
+    const reply = makeEmail('b', 'Re: Budget');
+    const unrelated = makeEmail('c', 'Offsite');
+
+    const threads = service.buildThreads([root, reply, unrelated]);
+
+    expect(threads).toHaveLength(2);
+    expect(threads.find(t => t.subject === 'Budget')!.totalCount).toBe(2);
+  });
+
+  test('should not loop on circular references', () => {
+    const a = makeEmail('a', 'Loop', { references: ['b'] });
+    const b = makeEmail('b', 'Re: Loop', { references: ['a'] });
+
+    const threads = service.buildThreads([a, b]);
+
+    expect(threads.reduce((sum, t) => sum + t.totalCount, 0)).toBe(2);
+  });
+});
+
+describe('ThreadingService.threadEmail', () => {
+  let database: DatabaseService;
+  let service: ThreadingService;
+
+  beforeEach(async () => {
+    database = new DatabaseService(':memory:');
+    await database.connect();
+    service = new ThreadingService(database);
+  });
+
+  afterEach(async () => {
+    await database.disconnect();
+  });
+
+  const ingest = async (email: Email): Promise<Email> => {
+    const threaded = await service.threadEmail(email);
+    await database.saveEmail(threaded);
+    return threaded;
+  };
+
+  test('should give replies the thread id of their parent', async () => {
+    const root = await ingest(makeEmail('<a@x>', 'Q3 plan'));
+    const reply = await ingest(makeEmail('<b@x>', 'Re: Q3 plan', { inReplyTo: '<a@x>', references: ['<a@x>'] }));
+
+    expect(reply.threadId).toBe(root.threadId);
+    expect(await database.getThreadEmails(root.threadId!)).toHaveLength(2);
+  });
+
+  test('should merge threads when a message links them', async () => {
+    const root = await ingest(makeEmail('<a@x>', 'Q3 plan'));
+    // Its parent <b@x> was never seen, so it joins on the normalized subject
+    const orphan = await ingest(makeEmail('<c@x>', 'Re: Re: Q3 plan', { references: ['<b@x>'] }));
+    expect(orphan.threadId).toBe(root.threadId);
+
+    const other = await ingest(makeEmail('<d@x>', 'Unrelated', { references: ['<e@x>'] }));
+    const bridge = await ingest(
+      makeEmail('<e@x>', 'Re: Q3 plan', { inReplyTo: '<a@x>', references: ['<a@x>'] }),
+    );
+
+    expect(bridge.threadId).toBe(root.threadId);
+    const merged = await database.getEmail(other.id);
+    expect(merged!.threadId).toBe(root.threadId);
+  });
+
+  test('should join replies to a parent that was never stored', async () => {
+    const first = await ingest(makeEmail('<b@x>', 'Re: Launch', { references: ['<a@x>'] }));
+    const second = await ingest(makeEmail('<c@x>', 'Re: Launch date', { references: ['<a@x>'] }));
+
+    expect(second.threadId).toBe(first.threadId);
+  });
+
+  test('should match referenced Message-IDs exactly', async () => {
+    const reply = await ingest(makeEmail('<c@x>', 'Other', { references: ['<axb@x>'] }));
+    const unrelated = await ingest(makeEmail('<a_b@x>', 'Hello'));
+
+    expect(unrelated.threadId).not.toBe(reply.threadId);
+  });
+
+  test('should start a new thread for unrelated messages', async () => {
+    const first = await ingest(makeEmail('<a@x>', 'Hello'));
+    const second = await ingest(makeEmail('<b@x>', 'Hello'));
+
+    expect(second.threadId).not.toBe(first.threadId);
+  });
+});
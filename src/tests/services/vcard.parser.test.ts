@@ -0,0 +1,76 @@
+import { formatVCards, parseVCards } from '../../services/vcard.parser';
+
+describe('vCards', () => {
+  test('should read folded lines, escapes, groups and preferred addresses', () => {
+    const cards = parseVCards(
+      [
+        'BEGIN:VCARD',
+        'VERSION:4.0',
+        'FN:Müller\\, Jürgen',
+        'NICKNAME:Jü,Jay\\,J',
+        'item1.EMAIL;TYPE=work:juergen@work.example',
+        'EMAIL;PREF=1:juergen@',
+        ' home.example',
+        'TEL;TYPE=cell:tel:+49 170 000000',
+        'NOTE:Met at the\\nconference',
+        'PHOTO;ENCODING=b:AAAA',
+        'END:VCARD',
+      ].join('\n'),
+    );
+
+    expect(cards).toEqual([
+      {
+        name: 'Müller, Jürgen',
+        emails: ['juergen@home.example', 'juergen@work.example'],
+        aliases: ['Jü', 'Jay,J'],
+        phones: ['+49 170 000000'],
+        notes: 'Met at the\nconference',
+      },
+    ]);
+  });
+
+  test('should read vCard 2.1 quoted-printable values and fall back to N', () => {
+    const cards = parseVCards(
+      [
+        'BEGIN:VCARD',
+        'VERSION:2.1',
+        'N:Ångström;Anders;;Dr.;',
+        'EMAIL;INTERNET;PREF:anders@example.com',
+        'NOTE;ENCODING=QUOTED-PRINTABLE:first line=0D=0A=',
+        'second line',
+        'END:VCARD',
+      ].join('\r\n'),
+    );
+
+    expect(cards).toHaveLength(1);
+    expect(cards[0].name).toBe('Dr. Anders Ångström');
+    expect(cards[0].emails).toEqual(['anders@example.com']);
+    expect(cards[0].notes).toBe('first line\r\nsecond line');
+  });
+
+  test('should decode quoted-printable UTF-8', () => {
+    const [card] = parseVCards(
+      'BEGIN:VCARD\nVERSION:2.1\nFN;CHARSET=UTF-8;ENCODING=QUOTED-PRINTABLE:=C3=85sa\nEMAIL:asa@example.com\nEND:VCARD\n',
+    );
+
+    expect(card.name).toBe('Åsa');
+  });
+
+  test('should write vCard 3.0 that reads back the same', () => {
+    const card = {
+      name: 'Anne-Marie de la Tour',
+      emails: ['anne@example.com', 'amt@example.org'],
+      aliases: ['Annie'],
+      phones: ['+33 1 23 45 67 89'],
+      organization: 'Tour; Fils',
+      notes: `${'Long note '.repeat(12)}\nwith a second line`,
+    };
+
+    const output = formatVCards([card]);
+
+    expect(output).toContain('N:Tour;Anne-Marie de la;;;\r\n');
+    expect(output).toContain('ORG:Tour\\; Fils\r\n');
+    expect(output.split('\r\n').every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(parseVCards(output)).toEqual([{ ...card, organization: 'Tour; Fils' }]);
+  });
+});